@@ -0,0 +1,166 @@
+// Minimal in-memory REST backend for /todos, and /lists/:listId/todos for each named
+// list, used by the integration tests and for running the app against a local API
+// (`npm run mock-server`).
+const http = require('http');
+
+const DEFAULT_PORT = 3001;
+
+/**
+ * @param {import('http').IncomingMessage} request
+ * @returns {Promise<any>}
+ */
+const readJsonBody = (request) =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    request.on('data', (chunk) => {
+      body += chunk;
+    });
+    request.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : undefined);
+      } catch (error) {
+        reject(error);
+      }
+    });
+    request.on('error', reject);
+  });
+
+/**
+ * @param {import('http').ServerResponse} response
+ * @param {number} status
+ * @param {unknown} [body]
+ */
+const sendJson = (response, status, body) => {
+  response.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET,POST,PUT,PATCH,DELETE,OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  });
+  response.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+/**
+ * @param {Array<Record<string, unknown>>} [todos]
+ * @returns {Map<string, Record<string, unknown>>}
+ */
+const todoMap = (todos = []) => new Map(todos.map((todo) => [String(todo.id), todo]));
+
+/**
+ * Creates (but does not start) a mock todo server. The default list lives at /todos and
+ * every named list apart at /lists/:listId/todos, which starts out empty.
+ *
+ * @param {{
+ *   todos?: Array<Record<string, unknown>>,
+ *   lists?: Record<string, Array<Record<string, unknown>>>,
+ *   failNextRequests?: number
+ * }} [options]
+ */
+const createMockTodoServer = (options = {}) => {
+  const todos = todoMap(options.todos);
+  /** @type {Map<string, Map<string, Record<string, unknown>>>} */
+  const lists = new Map(Object.entries(options.lists || {}).map(([listId, listTodos]) => [listId, todoMap(listTodos)]));
+  let failuresRemaining = options.failNextRequests || 0;
+
+  /** @param {string} listId */
+  const listTodos = (listId) => {
+    if (!lists.has(listId)) {
+      lists.set(listId, new Map());
+    }
+    return /** @type {Map<string, Record<string, unknown>>} */ (lists.get(listId));
+  };
+
+  const server = http.createServer(async (request, response) => {
+    const url = new URL(request.url || '/', 'http://localhost');
+    const match = url.pathname.match(/^(?:\/lists\/([^/]+))?\/todos(?:\/([^/]+))?$/);
+
+    if (request.method === 'OPTIONS') {
+      sendJson(response, 204);
+      return;
+    }
+
+    if (!match) {
+      sendJson(response, 404, { error: 'Not found' });
+      return;
+    }
+
+    if (failuresRemaining > 0) {
+      failuresRemaining--;
+      sendJson(response, 503, { error: 'Service unavailable' });
+      return;
+    }
+
+    const store = match[1] ? listTodos(decodeURIComponent(match[1])) : todos;
+    const id = match[2] && decodeURIComponent(match[2]);
+
+    try {
+      if (!id && request.method === 'GET') {
+        sendJson(response, 200, Array.from(store.values()));
+      } else if (!id && request.method === 'POST') {
+        const todo = await readJsonBody(request);
+        if (!todo || typeof todo.id !== 'string' || typeof todo.text !== 'string') {
+          sendJson(response, 400, { error: 'A todo needs a string id and text' });
+        } else if (store.has(todo.id)) {
+          sendJson(response, 409, { error: `Todo ${todo.id} already exists` });
+        } else {
+          store.set(todo.id, todo);
+          sendJson(response, 201, todo);
+        }
+      } else if (id && request.method === 'GET') {
+        const todo = store.get(id);
+        sendJson(response, todo ? 200 : 404, todo || { error: `Todo ${id} not found` });
+      } else if (id && (request.method === 'PUT' || request.method === 'PATCH')) {
+        const existing = store.get(id);
+        if (!existing) {
+          sendJson(response, 404, { error: `Todo ${id} not found` });
+        } else {
+          const patch = await readJsonBody(request);
+          const todo = request.method === 'PUT' ? { ...patch, id } : { ...existing, ...patch, id };
+          store.set(id, todo);
+          sendJson(response, 200, todo);
+        }
+      } else if (id && request.method === 'DELETE') {
+        const existed = store.delete(id);
+        sendJson(response, existed ? 204 : 404, existed ? undefined : { error: `Todo ${id} not found` });
+      } else {
+        sendJson(response, 405, { error: `${request.method} not allowed` });
+      }
+    } catch (error) {
+      sendJson(response, 400, { error: 'Invalid JSON body' });
+    }
+  });
+
+  return {
+    server,
+    todos,
+    /** The todos of a named list, by id. */
+    listTodos,
+    /** Makes the next `count` requests for todos fail with a 503. */
+    failNextRequests(count = 1) {
+      failuresRemaining = count;
+    },
+    /** @param {number} [port] */
+    listen(port = 0) {
+      return new Promise((resolve) => {
+        server.listen(port, '127.0.0.1', () => {
+          const address = /** @type {import('net').AddressInfo} */ (server.address());
+          resolve(`http://127.0.0.1:${address.port}`);
+        });
+      });
+    },
+    close() {
+      return new Promise((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve(undefined)));
+      });
+    },
+  };
+};
+
+module.exports = { createMockTodoServer };
+
+if (require.main === module) {
+  const port = Number(process.env.PORT) || DEFAULT_PORT;
+  createMockTodoServer()
+    .listen(port)
+    .then((url) => console.log(`Mock todo server listening on ${url}/todos`));
+}
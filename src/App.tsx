@@ -1,10 +1,20 @@
 import React, { useState } from 'react';
-import { container } from './container/container';
+import { TYPES } from './container/types';
+import { ContainerProvider, useInjection } from './container/ContainerProvider';
+import type { ITodoListScopes } from './container/todoListScopes';
+import type { TodoListsStore } from './stores/todoListsStore';
 import { ContainerAwareTodoApp } from './components/ContainerAwareTodoApp';
-import { TodoList } from './components';
+import { ContainerDiagnosticsPanel } from './components/ContainerDiagnosticsPanel';
+import { TodoList, TodoListSwitcher } from './components';
 
 const App: React.FC = () => {
+  const todoLists = useInjection<TodoListsStore>(TYPES.TodoLists);
+  const todoListScopes = useInjection<ITodoListScopes>(TYPES.TodoListScopes);
   const [useInjectableComponents, setUseInjectableComponents] = useState(true);
+  const lists = todoLists(state => state.lists);
+  const activeListId = todoLists(state => state.activeListId);
+  // The list views only ever see the container of the list being shown
+  const listContainer = todoListScopes.get(activeListId);
 
   return (
     <div style={{ 
@@ -32,13 +42,19 @@ const App: React.FC = () => {
         </p>
       </div>
 
-      {useInjectableComponents ? (
-        <ContainerAwareTodoApp container={container} />
-      ) : (
-        <div>
-          <TodoList />
-        </div>
-      )}
+      <TodoListSwitcher lists={lists} activeListId={activeListId} actions={todoLists.getState()} />
+
+      <ContainerProvider container={listContainer}>
+        {useInjectableComponents ? (
+          <ContainerAwareTodoApp key={activeListId} />
+        ) : (
+          <div>
+            <TodoList key={activeListId} />
+          </div>
+        )}
+        {/* Shows the list's container, which falls back to the app's; left out of production builds */}
+        {process.env.NODE_ENV !== 'production' && <ContainerDiagnosticsPanel />}
+      </ContainerProvider>
     </div>
   );
 };
@@ -1,5 +1,5 @@
 import React from 'react';
-import { screen, fireEvent, waitFor } from '@testing-library/react';
+import { screen, fireEvent, waitFor, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { AddTodo } from './AddTodo';
 import { renderWithContainer, createTestContainer } from '../test-utils/component-test-utils';
@@ -183,6 +183,106 @@ describe('AddTodo', () => {
     form.addEventListener = originalAddEventListener;
   });
 
+  it('passes the picked due date along with the text', async () => {
+    const user = userEvent.setup();
+    renderWithContainer(<AddTodo onAdd={mockOnAdd} />, { testContainer });
+
+    fireEvent.change(screen.getByLabelText('Due date'), { target: { value: '2024-03-05' } });
+    await user.type(screen.getByPlaceholderText('Add a new todo...'), 'Pay rent{Enter}');
+
+    expect(mockOnAdd).toHaveBeenCalledWith('Pay rent', { dueDate: new Date(2024, 2, 5) });
+    expect(screen.getByLabelText('Due date')).toHaveValue('');
+  });
+
+  it('passes the chosen priority and resets it', async () => {
+    const user = userEvent.setup();
+    renderWithContainer(<AddTodo onAdd={mockOnAdd} />, { testContainer });
+
+    await user.selectOptions(screen.getByRole('combobox', { name: 'Priority' }), 'High');
+    await user.type(screen.getByPlaceholderText('Add a new todo...'), 'Fix the build{Enter}');
+
+    expect(mockOnAdd).toHaveBeenCalledWith('Fix the build', { priority: 'high' });
+    expect(screen.getByRole('combobox', { name: 'Priority' })).toHaveValue('');
+  });
+
+  it('passes a repeat preset and resets it', async () => {
+    const user = userEvent.setup();
+    renderWithContainer(<AddTodo onAdd={mockOnAdd} />, { testContainer });
+
+    await user.selectOptions(screen.getByRole('combobox', { name: 'Repeats' }), 'Weekdays');
+    await user.type(screen.getByPlaceholderText('Add a new todo...'), 'Stand-up{Enter}');
+
+    expect(mockOnAdd).toHaveBeenCalledWith('Stand-up', { recurrence: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR' });
+    expect(screen.getByRole('combobox', { name: 'Repeats' })).toHaveValue('');
+  });
+
+  it('takes a custom rule once it reads', async () => {
+    const user = userEvent.setup();
+    renderWithContainer(<AddTodo onAdd={mockOnAdd} />, { testContainer });
+
+    await user.selectOptions(screen.getByRole('combobox', { name: 'Repeats' }), 'Custom...');
+    const rule = screen.getByRole('textbox', { name: 'Repeats rule' });
+    await user.type(rule, 'FREQ=MONTHLY;BYDAY=-1XX{Enter}');
+    expect(rule).toHaveAttribute('aria-invalid', 'true');
+    expect(rule).toHaveAttribute('title', '"-1XX" is not a BYDAY value');
+    expect(mockOnAdd).not.toHaveBeenCalled();
+
+    await user.clear(rule);
+    await user.type(rule, 'FREQ=MONTHLY;BYDAY=-1FR{Enter}');
+    expect(rule).toHaveAttribute('aria-invalid', 'false');
+    await user.type(screen.getByPlaceholderText('Add a new todo...'), 'Timesheet{Enter}');
+
+    expect(mockOnAdd).toHaveBeenCalledWith('Timesheet', { recurrence: 'FREQ=MONTHLY;BYDAY=-1FR' });
+    expect(screen.queryByRole('textbox', { name: 'Repeats rule' })).not.toBeInTheDocument();
+  });
+
+  describe('Tag autocomplete', () => {
+    const tagIndex = [
+      { tag: 'work', count: 3 },
+      { tag: 'weekend', count: 1 },
+      { tag: 'home', count: 2 },
+    ];
+
+    it('suggests known tags while a #tag is typed', async () => {
+      const user = userEvent.setup();
+      renderWithContainer(<AddTodo onAdd={mockOnAdd} tagIndex={tagIndex} />, { testContainer });
+
+      await user.type(screen.getByPlaceholderText('Add a new todo...'), 'Plan #w');
+
+      const listbox = screen.getByRole('listbox', { name: 'Tag suggestions' });
+      expect(within(listbox).getAllByRole('option').map(option => option.textContent)).toEqual(['#work (3)', '#weekend (1)']);
+      expect(within(listbox).getAllByRole('option')[0]).toHaveAttribute('aria-selected', 'true');
+    });
+
+    it('accepts the highlighted suggestion with the keyboard', async () => {
+      const user = userEvent.setup();
+      renderWithContainer(<AddTodo onAdd={mockOnAdd} tagIndex={tagIndex} />, { testContainer });
+      const input = screen.getByPlaceholderText('Add a new todo...');
+
+      await user.type(input, 'Plan #w{ArrowDown}{Enter}');
+
+      expect(input).toHaveValue('Plan #weekend ');
+      expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+      expect(mockOnAdd).not.toHaveBeenCalled();
+
+      await user.type(input, '{Enter}');
+      expect(mockOnAdd).toHaveBeenCalledWith('Plan #weekend ');
+    });
+
+    it('accepts a clicked suggestion and closes on Escape', async () => {
+      const user = userEvent.setup();
+      renderWithContainer(<AddTodo onAdd={mockOnAdd} tagIndex={tagIndex} />, { testContainer });
+      const input = screen.getByPlaceholderText('Add a new todo...');
+
+      await user.type(input, '#h');
+      await user.click(screen.getByRole('option', { name: '#home (2)' }));
+      expect(input).toHaveValue('#home ');
+
+      await user.type(input, '#w{Escape}');
+      expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+    });
+  });
+
   describe('Integration with Test Container', () => {
     it('demonstrates how component can work with dependency injection', () => {
       // This test shows that even though AddTodo doesn't directly use DI,
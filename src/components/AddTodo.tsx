@@ -1,27 +1,96 @@
 import React, { useState } from 'react';
+import type { TodoPriority } from '../types';
+import type { TodoDetails } from '../stores/todoStore';
+import { suggestTags, TodoTagCount } from '../stores/todoSelectors';
+import { DueDateInput } from './DueDate';
+import { PrioritySelect } from './Priority';
+import { RecurrenceSelect } from './Recurrence';
 
 interface AddTodoProps {
-  onAdd: (text: string) => void;
+  // Details are only passed when the user picked some
+  onAdd: (text: string, details?: TodoDetails) => void;
+  // Known tags with usage counts, offered while a "#tag" is being typed
+  tagIndex?: TodoTagCount[];
 }
 
-export const AddTodo: React.FC<AddTodoProps> = ({ onAdd }) => {
+// The "#tag" being typed at the end of the input, if any
+const TYPED_TAG = /(^|\s)#([\p{L}\p{N}_/-]*)$/u;
+
+export const AddTodo: React.FC<AddTodoProps> = ({ onAdd, tagIndex = [] }) => {
   const [text, setText] = useState('');
+  const [highlighted, setHighlighted] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+  const [dueDate, setDueDate] = useState<Date | undefined>();
+  const [priority, setPriority] = useState<TodoPriority | undefined>();
+  const [recurrence, setRecurrence] = useState<string | undefined>();
 
   const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     if (text.trim()) {
-      onAdd(text);
+      if (dueDate || priority || recurrence) {
+        onAdd(text, {
+          ...(dueDate ? { dueDate } : {}),
+          ...(priority ? { priority } : {}),
+          ...(recurrence ? { recurrence } : {})
+        });
+      } else {
+        onAdd(text);
+      }
       setText('');
+      setDueDate(undefined);
+      setPriority(undefined);
+      setRecurrence(undefined);
+    }
+  };
+
+  const typedTag = TYPED_TAG.exec(text)?.[2];
+  const suggestions = typedTag === undefined || dismissed ? [] : suggestTags(tagIndex, typedTag);
+
+  const changeText = (value: string) => {
+    setText(value);
+    setHighlighted(0);
+    setDismissed(false);
+  };
+
+  const acceptSuggestion = (tag: string) => {
+    changeText(text.replace(TYPED_TAG, `$1#${tag} `));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) {
+      return;
+    }
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setHighlighted((highlighted + 1) % suggestions.length);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setHighlighted((highlighted - 1 + suggestions.length) % suggestions.length);
+        break;
+      case 'Enter':
+      case 'Tab':
+        e.preventDefault();
+        acceptSuggestion(suggestions[Math.min(highlighted, suggestions.length - 1)].tag);
+        break;
+      case 'Escape':
+        setDismissed(true);
+        break;
     }
   };
 
   return (
-    <form onSubmit={handleSubmit} style={{ marginBottom: '20px' }}>
+    <form onSubmit={handleSubmit} style={{ marginBottom: '20px', position: 'relative' }}>
       <input
         type="text"
         value={text}
-        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setText(e.target.value)}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => changeText(e.target.value)}
+        onKeyDown={handleKeyDown}
         placeholder="Add a new todo..."
+        role="combobox"
+        aria-expanded={suggestions.length > 0}
+        aria-autocomplete="list"
         style={{
           padding: '10px',
           fontSize: '16px',
@@ -31,6 +100,48 @@ export const AddTodo: React.FC<AddTodoProps> = ({ onAdd }) => {
           width: '300px'
         }}
       />
+      {suggestions.length > 0 && (
+        <ul
+          role="listbox"
+          aria-label="Tag suggestions"
+          style={{
+            position: 'absolute',
+            top: '100%',
+            left: 0,
+            zIndex: 1,
+            listStyle: 'none',
+            margin: 0,
+            padding: '4px 0',
+            width: '300px',
+            backgroundColor: 'white',
+            border: '1px solid #ddd',
+            borderRadius: '4px'
+          }}
+        >
+          {suggestions.map(({ tag, count }, index) => (
+            <li
+              key={tag}
+              role="option"
+              aria-selected={index === highlighted}
+              onMouseDown={(e) => {
+                // Keep focus in the input
+                e.preventDefault();
+                acceptSuggestion(tag);
+              }}
+              style={{
+                padding: '4px 10px',
+                cursor: 'pointer',
+                backgroundColor: index === highlighted ? '#e9ecef' : 'transparent'
+              }}
+            >
+              #{tag} <span style={{ color: '#6c757d', fontSize: '12px' }}>({count})</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      <DueDateInput value={dueDate} onChange={setDueDate} label="Due date" />
+      <PrioritySelect value={priority} onChange={setPriority} label="Priority" />
+      <RecurrenceSelect value={recurrence} onChange={setRecurrence} label="Repeats" />
       <button
         type="submit"
         style={{
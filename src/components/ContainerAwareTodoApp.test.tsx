@@ -1,11 +1,24 @@
 import React from 'react';
-import { render, screen, waitFor } from '@testing-library/react';
+import { act, fireEvent, render, screen, waitFor, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { Container } from 'inversify';
 import { TYPES } from '../container/types';
-import { TodoStoreFactory } from '../stores/todoStore';
+import { TodoStoreFactory, TodoStore } from '../stores/todoStore';
 import { ContainerAwareTodoApp } from './ContainerAwareTodoApp';
+import { ContainerProvider } from '../container/ContainerProvider';
 import { MockLoggingService } from '../test-utils/MockLoggingService';
+import { TodoExportService } from '../services/TodoExportService';
+import { bindTestTodoLists } from '../test-utils/test-container';
+import { DEFAULT_TODO_LIST_ID } from '../types';
+import type { Todo } from '../types';
+import type { ITodoRepository } from '../repositories/TodoRepository';
+
+// Resolves everything from the container provided above it, as in the app
+const renderApp = (appContainer: Container) => render(
+  <ContainerProvider container={appContainer}>
+    <ContainerAwareTodoApp />
+  </ContainerProvider>
+);
 
 describe('ContainerAwareTodoApp - Injectable Dependencies via Container', () => {
   let container: Container;
@@ -30,7 +43,7 @@ describe('ContainerAwareTodoApp - Injectable Dependencies via Container', () =>
 
   describe('Dependency Injection via Container Props', () => {
     it('renders successfully with container-injected dependencies', () => {
-      render(<ContainerAwareTodoApp container={container} />);
+      renderApp(container);
       
       expect(screen.getByText('Todo App (Container-Aware Functional Component)')).toBeInTheDocument();
       expect(screen.getByText('No todos yet. Add one above!')).toBeInTheDocument();
@@ -39,7 +52,7 @@ describe('ContainerAwareTodoApp - Injectable Dependencies via Container', () =>
     });
 
     it('successfully uses injected TodoStore from container', async () => {
-      render(<ContainerAwareTodoApp container={container} />);
+      renderApp(container);
       
       const user = userEvent.setup();
       const input = screen.getByPlaceholderText('Add a new todo...');
@@ -67,7 +80,7 @@ describe('ContainerAwareTodoApp - Injectable Dependencies via Container', () =>
     });
 
     it('handles complete todo workflow with injected store', async () => {
-      render(<ContainerAwareTodoApp container={container} />);
+      renderApp(container);
       
       const user = userEvent.setup();
       
@@ -108,7 +121,7 @@ describe('ContainerAwareTodoApp - Injectable Dependencies via Container', () =>
     });
 
     it('demonstrates @inject decorator working in TodoStoreFactory', async () => {
-      render(<ContainerAwareTodoApp container={container} />);
+      renderApp(container);
       
       // Verify the store factory was created with injected logging service
       const storeFactory = container.get(TodoStoreFactory);
@@ -161,7 +174,7 @@ describe('ContainerAwareTodoApp - Injectable Dependencies via Container', () =>
         return factory.getStore();
       }).inSingletonScope();
       
-      render(<ContainerAwareTodoApp container={altContainer} />);
+      renderApp(altContainer);
       
       const user = userEvent.setup();
       const input = screen.getByPlaceholderText('Add a new todo...');
@@ -185,11 +198,15 @@ describe('ContainerAwareTodoApp - Injectable Dependencies via Container', () =>
 
     it('demonstrates singleton behavior across multiple component instances', () => {
       // Render two instances of the component
-      const { rerender } = render(<ContainerAwareTodoApp container={container} />);
+      const { rerender } = renderApp(container);
       
       const store1 = container.get(TYPES.TodoStore);
       
-      rerender(<ContainerAwareTodoApp container={container} />);
+      rerender(
+        <ContainerProvider container={container}>
+          <ContainerAwareTodoApp />
+        </ContainerProvider>
+      );
       
       const store2 = container.get(TYPES.TodoStore);
       
@@ -217,7 +234,7 @@ describe('ContainerAwareTodoApp - Injectable Dependencies via Container', () =>
 
   describe('Comparison: Decorator-based vs Manual DI', () => {
     it('shows the power of @inject decorators vs manual dependency passing', async () => {
-      render(<ContainerAwareTodoApp container={container} />);
+      renderApp(container);
       
       // With @inject decorators:
       // 1. TodoStoreFactory is marked with @injectable()
@@ -254,7 +271,7 @@ describe('ContainerAwareTodoApp - Injectable Dependencies via Container', () =>
 
     it('demonstrates testability benefits of dependency injection', async () => {
       // Easy to test because we can inject mocks
-      render(<ContainerAwareTodoApp container={container} />);
+      renderApp(container);
       
       const user = userEvent.setup();
       const input = screen.getByPlaceholderText('Add a new todo...');
@@ -279,7 +296,7 @@ describe('ContainerAwareTodoApp - Injectable Dependencies via Container', () =>
 
   describe('Real-world Usage Patterns', () => {
     it('handles rapid user interactions correctly', async () => {
-      render(<ContainerAwareTodoApp container={container} />);
+      renderApp(container);
       
       const user = userEvent.setup();
       const input = screen.getByPlaceholderText('Add a new todo...');
@@ -305,7 +322,7 @@ describe('ContainerAwareTodoApp - Injectable Dependencies via Container', () =>
     });
 
     it('handles empty input gracefully', async () => {
-      render(<ContainerAwareTodoApp container={container} />);
+      renderApp(container);
       
       const user = userEvent.setup();
       const addButton = screen.getByRole('button', { name: 'Add Todo' });
@@ -322,4 +339,467 @@ describe('ContainerAwareTodoApp - Injectable Dependencies via Container', () =>
       });
     });
   });
+
+  describe('Loading', () => {
+    // Hands out the pending load so each test decides how it ends
+    const bindPendingLoad = () => {
+      let settle!: { resolve: (todos: Todo[]) => void; reject: (error: Error) => void };
+      const load = new Promise<Todo[]>((resolve, reject) => { settle = { resolve, reject }; });
+      const repository: ITodoRepository = { load: () => load, apply: jest.fn() };
+      container.bind(TYPES.TodoRepository).toConstantValue(repository);
+      return settle;
+    };
+
+    it('shows that todos are loading until they arrive', async () => {
+      const load = bindPendingLoad();
+      renderApp(container);
+
+      expect(screen.getByTestId('todo-stats')).toHaveTextContent('Loading todos...');
+
+      await act(async () => {
+        load.resolve([{ id: 'saved', text: 'Saved todo', completed: false, createdAt: new Date() }]);
+      });
+
+      expect(screen.getByText('Saved todo')).toBeInTheDocument();
+      expect(screen.getByTestId('todo-stats')).toHaveTextContent('0 of 1 tasks completed');
+    });
+
+    it('shows why the todos could not be loaded', async () => {
+      const load = bindPendingLoad();
+      renderApp(container);
+
+      await act(async () => {
+        load.reject(new Error('Server unavailable'));
+      });
+
+      expect(screen.getByTestId('todo-stats')).toHaveTextContent('Could not load todos: Server unavailable');
+    });
+  });
+
+  describe('Import and export', () => {
+    it('hides the panel when no export service is bound', () => {
+      renderApp(container);
+
+      expect(screen.queryByRole('button', { name: 'Import / Export' })).not.toBeInTheDocument();
+    });
+
+    it('imports todos through the bound export service', async () => {
+      container.bind(TYPES.TodoExportService).toConstantValue(new TodoExportService());
+      renderApp(container);
+
+      const user = userEvent.setup();
+      await user.click(screen.getByRole('button', { name: 'Import / Export' }));
+      await user.selectOptions(screen.getByLabelText('Format'), 'markdown');
+      await user.type(screen.getByLabelText('Todos to import'), '- [[x] From elsewhere');
+      await user.click(screen.getByRole('button', { name: 'Import' }));
+
+      expect(screen.getByText('From elsewhere')).toBeInTheDocument();
+      expect(screen.getByText('1 of 1 tasks completed')).toBeInTheDocument();
+      expect(mockLoggingService.getLastInfoLog()).toEqual({ message: 'Todos imported', data: { count: 1 } });
+    });
+  });
+
+  describe('Inline editing', () => {
+    it('edits a todo in place and logs the update', async () => {
+      renderApp(container);
+
+      const user = userEvent.setup();
+      await user.type(screen.getByPlaceholderText('Add a new todo...'), 'Wrte docs{Enter}');
+      await user.dblClick(screen.getByText('Wrte docs'));
+      await user.clear(screen.getByRole('textbox', { name: 'Edit todo' }));
+      await user.type(screen.getByRole('textbox', { name: 'Edit todo' }), 'Write docs{Enter}');
+
+      expect(screen.getByText('Write docs')).toBeInTheDocument();
+      expect(screen.queryByText('Wrte docs')).not.toBeInTheDocument();
+      expect(mockLoggingService.getLastInfoLog()).toEqual({
+        message: 'Todo updated',
+        data: expect.objectContaining({ text: 'Write docs' })
+      });
+    });
+
+    it('deletes a todo whose text is cleared', async () => {
+      renderApp(container);
+
+      const user = userEvent.setup();
+      await user.type(screen.getByPlaceholderText('Add a new todo...'), 'Short-lived{Enter}');
+      await user.dblClick(screen.getByText('Short-lived'));
+      await user.clear(screen.getByRole('textbox', { name: 'Edit todo' }));
+      await user.keyboard('{Enter}');
+
+      expect(screen.getByText('No todos yet. Add one above!')).toBeInTheDocument();
+    });
+  });
+
+  describe('Undo and redo shortcuts', () => {
+    it('undoes with Ctrl+Z and redoes with Ctrl+Shift+Z', async () => {
+      renderApp(container);
+
+      const user = userEvent.setup();
+      await user.type(screen.getByPlaceholderText('Add a new todo...'), 'Undo me{Enter}');
+      await user.click(screen.getByRole('checkbox'));
+
+      await user.keyboard('{Control>}z{/Control}');
+      expect(screen.getByRole('checkbox')).not.toBeChecked();
+
+      await user.keyboard('{Control>}z{/Control}');
+      expect(screen.queryByText('Undo me')).not.toBeInTheDocument();
+
+      await user.keyboard('{Control>}{Shift>}z{/Shift}{/Control}');
+      expect(screen.getByText('Undo me')).toBeInTheDocument();
+      expect(mockLoggingService.getLastInfoLog()?.message).toBe('Todo change redone');
+    });
+
+    it('leaves Ctrl+Z to the browser while typing in a text field', async () => {
+      renderApp(container);
+
+      const user = userEvent.setup();
+      const input = screen.getByPlaceholderText('Add a new todo...');
+      await user.type(input, 'Keep me{Enter}');
+      await user.click(input);
+      await user.keyboard('{Control>}z{/Control}');
+
+      expect(screen.getByText('Keep me')).toBeInTheDocument();
+    });
+  });
+
+  describe('Visibility filters', () => {
+    const addTodos = async (user: ReturnType<typeof userEvent.setup>, ...texts: string[]) => {
+      for (const text of texts) {
+        await user.type(screen.getByPlaceholderText('Add a new todo...'), `${text}{Enter}`);
+      }
+    };
+
+    const visibleTexts = () =>
+      Array.from(screen.getByTestId('todos-container').querySelectorAll('span')).map(span => span.textContent);
+
+    afterEach(() => {
+      window.location.hash = '';
+    });
+
+    it('filters the list from the footer links and updates the hash', async () => {
+      renderApp(container);
+
+      const user = userEvent.setup();
+      await addTodos(user, 'Open task', 'Finished task');
+      await user.click(screen.getAllByRole('checkbox')[1]);
+      expect(screen.getByTestId('todo-count')).toHaveTextContent('1 item left');
+
+      await user.click(screen.getByRole('link', { name: 'Active' }));
+      expect(visibleTexts()).toEqual(['Open task']);
+      expect(window.location.hash).toBe('#/active');
+      expect(screen.getByRole('link', { name: 'Active' })).toHaveAttribute('aria-current', 'page');
+
+      await user.click(screen.getByRole('link', { name: 'Completed' }));
+      expect(visibleTexts()).toEqual(['Finished task']);
+
+      await user.click(screen.getByRole('link', { name: 'All' }));
+      expect(visibleTexts()).toEqual(['Open task', 'Finished task']);
+      // The stats always describe the whole list
+      expect(screen.getByText('1 of 2 tasks completed')).toBeInTheDocument();
+    });
+
+    it('follows hash changes such as the back button', async () => {
+      renderApp(container);
+
+      const user = userEvent.setup();
+      await addTodos(user, 'Open task', 'Finished task');
+      await user.click(screen.getAllByRole('checkbox')[1]);
+
+      act(() => {
+        window.location.hash = '#/completed';
+        window.dispatchEvent(new HashChangeEvent('hashchange'));
+      });
+
+      expect(visibleTexts()).toEqual(['Finished task']);
+    });
+
+    it('applies the filter from a deep link on mount', async () => {
+      window.location.hash = '#/active';
+      const todoStore = container.get<TodoStore>(TYPES.TodoStore);
+      todoStore.getState().addTodo('Open task');
+      todoStore.getState().addTodo('Finished task');
+      todoStore.getState().toggleTodo(todoStore.getState().todos[1].id);
+
+      renderApp(container);
+
+      expect(visibleTexts()).toEqual(['Open task']);
+      expect(todoStore.getState().filter).toBe('active');
+    });
+
+    it('hides the footer while there are no todos', () => {
+      renderApp(container);
+
+      expect(screen.queryByTestId('todo-footer')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Bulk actions', () => {
+    const addTodos = async (user: ReturnType<typeof userEvent.setup>, ...texts: string[]) => {
+      for (const text of texts) {
+        await user.type(screen.getByPlaceholderText('Add a new todo...'), `${text}{Enter}`);
+      }
+    };
+
+    const visibleTexts = () =>
+      Array.from(screen.getByTestId('todos-container').querySelectorAll('span')).map(span => span.textContent);
+
+    it('marks all todos as complete and clears them', async () => {
+      renderApp(container);
+
+      const user = userEvent.setup();
+      await addTodos(user, 'First', 'Second');
+      await user.click(screen.getByRole('button', { name: 'Mark all as complete' }));
+
+      expect(screen.getByText('2 of 2 tasks completed')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Mark all as active' })).toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: 'Clear completed (2)' }));
+
+      expect(screen.getByText('No todos yet. Add one above!')).toBeInTheDocument();
+      expect(mockLoggingService.getLastInfoLog()).toEqual({
+        message: 'Completed todos cleared',
+        data: { count: 2 }
+      });
+    });
+
+    it('selects a range with shift-click and deletes it', async () => {
+      renderApp(container);
+
+      const user = userEvent.setup();
+      await addTodos(user, 'First', 'Second', 'Third', 'Fourth');
+      await user.keyboard('{Control>}');
+      await user.click(screen.getByText('First'));
+      await user.keyboard('{/Control}{Shift>}');
+      await user.click(screen.getByText('Third'));
+      await user.keyboard('{/Shift}');
+
+      expect(screen.getByTestId('selection-count')).toHaveTextContent('3 selected');
+      expect(screen.getByText('Second').parentElement).toHaveAttribute('data-selected', 'true');
+
+      await user.click(screen.getByRole('button', { name: 'Delete' }));
+
+      expect(visibleTexts()).toEqual(['Fourth']);
+      expect(screen.queryByRole('toolbar', { name: 'Selected todos' })).not.toBeInTheDocument();
+    });
+
+    it('adds tags to the selected todos', async () => {
+      const todoStore = container.get<TodoStore>(TYPES.TodoStore);
+      renderApp(container);
+
+      const user = userEvent.setup();
+      await addTodos(user, 'First', 'Second');
+      await user.keyboard('{Control>}');
+      await user.click(screen.getByText('Second'));
+      await user.keyboard('{/Control}');
+      await user.type(screen.getByRole('textbox', { name: 'Tags for selected todos' }), '#work, home');
+      await user.click(screen.getByRole('button', { name: 'Add tags' }));
+
+      expect(todoStore.getState().todos.map(todo => todo.tags)).toEqual([undefined, ['work', 'home']]);
+    });
+
+    it('does not select a todo on a plain click', async () => {
+      renderApp(container);
+
+      const user = userEvent.setup();
+      await addTodos(user, 'First');
+      await user.click(screen.getByText('First'));
+
+      expect(screen.queryByTestId('selection-count')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Sorting', () => {
+    it('reorders the list by the chosen sort order', async () => {
+      const todoStore = container.get<TodoStore>(TYPES.TodoStore);
+      todoStore.getState().addTodo('Someday');
+      todoStore.getState().addTodo('Now', { priority: 'urgent' });
+      todoStore.getState().addTodo('Soon', { priority: 'medium' });
+      renderApp(container);
+
+      const user = userEvent.setup();
+      const texts = () => screen.getAllByText(/^(Someday|Now|Soon)$/).map(element => element.textContent);
+      expect(texts()).toEqual(['Someday', 'Now', 'Soon']);
+
+      await user.selectOptions(screen.getByRole('combobox', { name: 'Sort by' }), 'Priority');
+
+      expect(texts()).toEqual(['Now', 'Soon', 'Someday']);
+      expect(screen.getAllByTestId('priority').map(badge => badge.textContent)).toEqual(['Urgent', 'Medium']);
+    });
+  });
+
+  describe('Reordering', () => {
+    let todoStore: TodoStore;
+    const texts = () => screen.getAllByText(/^(Bread|Milk|Eggs|Jam)$/).map(element => element.textContent);
+    const rowOf = (text: string) => screen.getByText(text).closest('[data-todo-id]')!;
+    // jsdom has no PointerEvent, but mouse events carry everything the drag reads
+    const pointer = (type: string, target: Element | Window, init: MouseEventInit = {}) =>
+      fireEvent(target, new MouseEvent(type, { bubbles: true, button: 0, ...init }));
+
+    beforeEach(() => {
+      todoStore = container.get<TodoStore>(TYPES.TodoStore);
+      ['Bread', 'Milk', 'Eggs', 'Jam'].forEach(text => todoStore.getState().addTodo(text));
+    });
+
+    afterEach(() => {
+      delete (document as Partial<Document>).elementFromPoint;
+    });
+
+    it('moves the focused todo with Alt+Up and Alt+Down and keeps the focus on it', async () => {
+      renderApp(container);
+      const user = userEvent.setup();
+      const handle = screen.getByRole('button', { name: 'Reorder Eggs' });
+      handle.focus();
+
+      await user.keyboard('{Alt>}{ArrowUp}{ArrowUp}{ArrowUp}{/Alt}');
+      expect(texts()).toEqual(['Eggs', 'Bread', 'Milk', 'Jam']);
+
+      await user.keyboard('{Alt>}{ArrowDown}{/Alt}');
+      expect(texts()).toEqual(['Bread', 'Eggs', 'Milk', 'Jam']);
+      await waitFor(() => expect(handle).toHaveFocus());
+      expect(mockLoggingService.getLastInfoLog()?.message).toBe('Todo moved');
+    });
+
+    it('keeps a sorted list in its order, and says how to reorder it', async () => {
+      renderApp(container);
+      const user = userEvent.setup();
+      expect(screen.queryByTestId('reorder-hint')).not.toBeInTheDocument();
+
+      await user.selectOptions(screen.getByRole('combobox', { name: 'Sort by' }), 'Date created');
+      expect(screen.queryByRole('button', { name: 'Reorder Eggs' })).not.toBeInTheDocument();
+      expect(screen.getByTestId('reorder-hint')).toHaveTextContent('Sort by Order added to drag todos into place');
+
+      fireEvent.keyDown(rowOf('Eggs'), { key: 'ArrowUp', altKey: true });
+      expect(texts()).toEqual(['Bread', 'Milk', 'Eggs', 'Jam']);
+      expect(todoStore.getState().sortOrder).toBe('createdAt');
+    });
+
+    it('ignores arrows without Alt, and Alt+arrows in text fields', async () => {
+      renderApp(container);
+      const user = userEvent.setup();
+      screen.getByRole('button', { name: 'Reorder Milk' }).focus();
+      await user.keyboard('{ArrowUp}');
+
+      await user.dblClick(screen.getByText('Milk'));
+      await user.keyboard('{Alt>}{ArrowUp}{/Alt}');
+
+      expect(todoStore.getState().todos.map(todo => todo.text)).toEqual(['Bread', 'Milk', 'Eggs', 'Jam']);
+    });
+
+    it('steps over todos the filter hides', async () => {
+      renderApp(container);
+      act(() => {
+        todoStore.getState().toggleTodo(todoStore.getState().todos[1].id);
+        todoStore.getState().toggleTodo(todoStore.getState().todos[2].id);
+        todoStore.getState().setFilter('active');
+      });
+      const user = userEvent.setup();
+      screen.getByRole('button', { name: 'Reorder Jam' }).focus();
+
+      await user.keyboard('{Alt>}{ArrowUp}{/Alt}');
+
+      expect(texts()).toEqual(['Jam', 'Bread']);
+      expect(todoStore.getState().todos.map(todo => todo.text)).toEqual(['Jam', 'Bread', 'Milk', 'Eggs']);
+    });
+
+    it('drops a dragged todo on the row under the pointer', () => {
+      renderApp(container);
+      document.elementFromPoint = jest.fn((_x: number, y: number) => rowOf(y > 100 ? 'Eggs' : 'Bread'));
+
+      pointer('pointerdown', screen.getByRole('button', { name: 'Reorder Bread' }));
+      expect(rowOf('Bread')).toHaveStyle({ opacity: '0.5' });
+
+      pointer('pointermove', window, { clientX: 10, clientY: 150 });
+      expect(rowOf('Eggs').getAttribute('style')).toContain('inset 0 -3px 0');
+
+      pointer('pointerup', window);
+
+      expect(texts()).toEqual(['Milk', 'Eggs', 'Bread', 'Jam']);
+      expect(rowOf('Bread')).not.toHaveStyle({ opacity: '0.5' });
+    });
+
+    it('cancels a drag on Escape', () => {
+      renderApp(container);
+      document.elementFromPoint = jest.fn(() => rowOf('Jam'));
+
+      pointer('pointerdown', screen.getByRole('button', { name: 'Reorder Bread' }));
+      pointer('pointermove', window, { clientX: 10, clientY: 10 });
+      expect(rowOf('Jam').getAttribute('style')).toContain('inset 0 -3px 0');
+      fireEvent.keyDown(window, { key: 'Escape' });
+      pointer('pointerup', window);
+
+      expect(texts()).toEqual(['Bread', 'Milk', 'Eggs', 'Jam']);
+      expect(rowOf('Jam').getAttribute('style')).not.toContain('inset');
+    });
+  });
+
+  describe('Tags', () => {
+    it('filters the list by tag from the tag bar and the chips', async () => {
+      const todoStore = container.get<TodoStore>(TYPES.TodoStore);
+      todoStore.getState().addTodo('Report #work #urgent');
+      todoStore.getState().addTodo('Garden #home');
+      todoStore.getState().addTodo('Taxes #home #urgent');
+      renderApp(container);
+
+      const user = userEvent.setup();
+      const texts = () => screen.getAllByText(/^(Report|Garden|Taxes)$/).map(element => element.textContent);
+      const tagBar = screen.getByRole('group', { name: 'Filter by tag' });
+      expect(within(tagBar).getAllByRole('button').map(button => button.textContent)).toEqual(['#home (2)', '#urgent (2)', '#work (1)']);
+
+      await user.click(within(tagBar).getByRole('button', { name: '#urgent (2)' }));
+      expect(texts()).toEqual(['Report', 'Taxes']);
+
+      await user.click(screen.getAllByRole('button', { name: '#home' })[0]);
+      expect(texts()).toEqual(['Taxes']);
+
+      await user.selectOptions(within(tagBar).getByRole('combobox'), 'any tag');
+      expect(texts()).toEqual(['Report', 'Garden', 'Taxes']);
+
+      await user.click(within(tagBar).getByRole('button', { name: 'Clear tags' }));
+      expect(within(tagBar).getByRole('button', { name: '#home (2)' })).toHaveAttribute('aria-pressed', 'false');
+    });
+  });
+
+  describe('Named lists', () => {
+    it('does not offer moving todos when the container has no lists', async () => {
+      container.get<TodoStore>(TYPES.TodoStore).getState().addTodo('Write report');
+      renderApp(container);
+
+      const user = userEvent.setup();
+      await user.keyboard('{Control>}');
+      await user.click(screen.getByText('Write report'));
+      await user.keyboard('{/Control}');
+
+      expect(screen.queryByRole('combobox', { name: 'Move selected to list' })).not.toBeInTheDocument();
+    });
+
+    it('moves the selected todos to another open list', async () => {
+      const { todoLists } = bindTestTodoLists(container);
+      act(() => {
+        todoLists.getState().createList('Work');
+        todoLists.getState().createList('Old');
+      });
+      const [, work, old] = todoLists.getState().lists;
+      act(() => {
+        todoLists.getState().archiveList(old.id);
+      });
+      const todoStore = container.get<TodoStore>(TYPES.TodoStore);
+      todoStore.getState().addTodo('Write report');
+      todoStore.getState().addTodo('Water plants');
+      renderApp(container);
+
+      const user = userEvent.setup();
+      await user.keyboard('{Control>}');
+      await user.click(screen.getByText('Write report'));
+      await user.keyboard('{/Control}');
+
+      const moveSelect = screen.getByRole('combobox', { name: 'Move selected to list' });
+      expect(within(moveSelect).getAllByRole('option').map(option => option.textContent)).toEqual(['Move to...', 'Work']);
+      await user.selectOptions(moveSelect, 'Work');
+
+      expect(screen.queryByText('Write report')).not.toBeInTheDocument();
+      expect(screen.getByText('Water plants')).toBeInTheDocument();
+      expect(todoLists.getState().storeFor(work.id).getState().todos.map(todo => todo.text)).toEqual(['Write report']);
+      expect(todoLists.getState().activeListId).toBe(DEFAULT_TODO_LIST_ID);
+    });
+  });
 });
\ No newline at end of file
@@ -1,35 +1,78 @@
 import React, { useState, useEffect } from 'react';
-import { Container } from 'inversify';
 import { TYPES } from '../container/types';
-import type { Todo } from '../types';
-import type { TodoStore, TodoState } from '../stores/todoStore';
+import { useInjection, useOptionalInjection } from '../container/ContainerProvider';
+import type { Todo, TodoListInfo } from '../types';
+import type { TodoFilter, TodoSortOrder, TodoStore, TodoState, TodoTagFilter as TagFilter } from '../stores/todoStore';
+import { dueStatus, selectSelectedTodos, selectTagIndex, selectTodoCounts, selectVisibleTodos } from '../stores/todoSelectors';
+import type { TodoListsStore } from '../stores/todoListsStore';
+import type { ITodoExportService } from '../services/TodoExportService';
+import type { TodoDraft } from '../formats/TodoFormat';
+import { TodoImportExportPanel } from './TodoImportExportPanel';
+import { EditableTodoText } from './EditableTodoText';
+import { useUndoRedoShortcuts } from './undoRedoShortcuts';
+import { TodoFilterFooter } from './TodoFilterFooter';
+import { useFilterHashRouting } from './filterHashRouting';
+import { DueDateBadge, dueRowStyle } from './DueDate';
+import { PriorityBadge } from './Priority';
+import { RecurrenceBadge } from './Recurrence';
+import { TagChips, TodoTagFilter } from './Tags';
+import { TodoSubtasks } from './TodoSubtasks';
+import { TodoSortSelect } from './TodoSortSelect';
+import { TodoBulkActions, selectedRowStyle, selectionModeForClick } from './TodoBulkActions';
+import { TodoDragHandle, dragRowStyle, reorderRowProps, useTodoReorder } from './TodoReorder';
 
-interface ContainerAwareTodoAppProps {
-  container: Container;
-}
-
-export const ContainerAwareTodoApp: React.FC<ContainerAwareTodoAppProps> = ({ container }) => {
+export const ContainerAwareTodoApp: React.FC = () => {
   const [todos, setTodos] = useState<Todo[]>([]);
+  const [filter, setFilter] = useState<TodoFilter>('all');
+  const [sortOrder, setSortOrder] = useState<TodoSortOrder>('manual');
+  const [tagFilter, setTagFilter] = useState<TagFilter>({ tags: [], match: 'all' });
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
   const [newTodoText, setNewTodoText] = useState('');
 
-  // Get injected dependencies from container
-  const todoStore = container.get<TodoStore>(TYPES.TodoStore);
+  // Get injected dependencies from the provided container
+  const todoStore = useInjection<TodoStore>(TYPES.TodoStore);
+  // Import/export is optional: the panel only shows when the container provides it
+  const exportService = useOptionalInjection<ITodoExportService>(TYPES.TodoExportService);
+  // Moving todos to another list is offered when the container knows about lists
+  const todoLists = useOptionalInjection<TodoListsStore>(TYPES.TodoLists);
+  const listId = useOptionalInjection<string>(TYPES.TodoListId);
+  const [lists, setLists] = useState<TodoListInfo[]>(() => todoLists?.getState().lists ?? []);
+
+  useEffect(() => todoLists?.subscribe(state => setLists(state.lists)), [todoLists]);
 
   useEffect(() => {
     // Subscribe to store changes
     const unsubscribe = todoStore.subscribe((state: TodoState) => {
       setTodos(state.todos);
+      setFilter(state.filter);
+      setSortOrder(state.sortOrder);
+      setTagFilter(state.tagFilter);
+      setSelectedIds(state.selectedIds);
+      setIsLoading(state.isLoading);
+      setError(state.error);
     });
 
     // Load initial todos
     todoStore.getState().loadTodos();
     setTodos(todoStore.getState().todos);
+    setFilter(todoStore.getState().filter);
+    setSortOrder(todoStore.getState().sortOrder);
+    setTagFilter(todoStore.getState().tagFilter);
+    setSelectedIds(todoStore.getState().selectedIds);
+    setIsLoading(todoStore.getState().isLoading);
+    setError(todoStore.getState().error);
 
     return () => {
       unsubscribe();
     };
   }, [todoStore]);
 
+  useUndoRedoShortcuts(todoStore);
+  useFilterHashRouting(todoStore);
+  const { reorder, drag } = useTodoReorder(todoStore);
+
   const handleAddTodo = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     if (newTodoText.trim()) {
@@ -42,12 +85,40 @@ export const ContainerAwareTodoApp: React.FC<ContainerAwareTodoAppProps> = ({ co
     todoStore.getState().toggleTodo(id);
   };
 
+  const handleUpdate = (id: string, text: string) => {
+    todoStore.getState().updateTodo(id, { text });
+  };
+
   const handleRemove = (id: string) => {
     todoStore.getState().removeTodo(id);
   };
 
-  const completedCount = todos.filter((todo: Todo) => todo.completed).length;
-  const totalCount = todos.length;
+  const handleImport = (drafts: TodoDraft[]) => {
+    todoStore.getState().importTodos(drafts);
+  };
+
+  const handleFilterChange = (nextFilter: TodoFilter) => {
+    todoStore.getState().setFilter(nextFilter);
+  };
+
+  const handleMoveSelected = (toListId: string) => {
+    if (todoLists && listId) {
+      todoLists.getState().moveTodos(listId, selectedIds, toListId);
+    }
+  };
+
+  const handleRowClick = (id: string, e: React.MouseEvent) => {
+    const mode = selectionModeForClick(e);
+    if (mode) {
+      todoStore.getState().selectTodo(id, mode);
+    }
+  };
+
+  const visibleTodos = selectVisibleTodos({ todos, filter, tagFilter, sortOrder });
+  const tagIndex = selectTagIndex({ todos });
+  const counts = selectTodoCounts({ todos });
+  const selectedCount = selectSelectedTodos({ todos, selectedIds }).length;
+  const today = todoStore.getState().now();
 
   return (
     <div data-testid="container-aware-todo-app" style={{ maxWidth: '600px', margin: '0 auto', padding: '20px' }}>
@@ -90,44 +161,78 @@ export const ContainerAwareTodoApp: React.FC<ContainerAwareTodoAppProps> = ({ co
       {/* Stats */}
       <div style={{ marginBottom: '20px' }}>
         <p data-testid="todo-stats" style={{ color: '#6c757d', fontSize: '14px' }}>
-          {totalCount > 0 ? (
-            `${completedCount} of ${totalCount} tasks completed`
+          {isLoading ? (
+            'Loading todos...'
+          ) : error ? (
+            `Could not load todos: ${error}`
+          ) : counts.total > 0 ? (
+            `${counts.completed} of ${counts.total} tasks completed`
           ) : (
             'No todos yet. Add one above!'
           )}
         </p>
       </div>
 
+      <TodoBulkActions
+        counts={counts}
+        selectedCount={selectedCount}
+        actions={todoStore.getState()}
+        moveTargets={lists.filter(list => !list.archived && list.id !== listId)}
+        onMoveSelected={todoLists && listId ? handleMoveSelected : undefined}
+      />
+
+      {counts.total > 0 && (
+        <TodoSortSelect sortOrder={sortOrder} onSortOrderChange={todoStore.getState().setSortOrder} />
+      )}
+
+      <TodoTagFilter
+        tagIndex={tagIndex}
+        tagFilter={tagFilter}
+        onToggleTag={todoStore.getState().toggleTagFilter}
+        onMatchChange={todoStore.getState().setTagMatch}
+        onClear={todoStore.getState().clearTagFilter}
+      />
+
       {/* Todo List */}
       <div data-testid="todos-container">
-        {todos.map((todo: Todo) => (
+        {visibleTodos.map((todo: Todo) => (
           <div
             key={todo.id}
+            data-selected={selectedIds.includes(todo.id) || undefined}
+            onClick={(e) => handleRowClick(todo.id, e)}
+            {...reorderRowProps(reorder, todo.id)}
             style={{
               display: 'flex',
+              flexWrap: 'wrap',
               alignItems: 'center',
               padding: '10px',
               border: '1px solid #ddd',
               borderRadius: '4px',
               marginBottom: '8px',
-              backgroundColor: todo.completed ? '#f8f9fa' : 'white'
+              backgroundColor: todo.completed ? '#f8f9fa' : 'white',
+              ...dueRowStyle(dueStatus(todo, today)),
+              ...selectedRowStyle(selectedIds.includes(todo.id)),
+              ...dragRowStyle(todo.id, drag)
             }}
           >
+            {sortOrder === 'manual' && <TodoDragHandle text={todo.text} onPointerDown={(e) => reorder.startDrag(todo.id, e)} />}
             <input
               type="checkbox"
               checked={todo.completed}
               onChange={() => handleToggle(todo.id)}
               style={{ marginRight: '10px' }}
             />
-            <span
-              style={{
-                flex: 1,
-                textDecoration: todo.completed ? 'line-through' : 'none',
-                color: todo.completed ? '#6c757d' : 'black'
-              }}
-            >
-              {todo.text}
-            </span>
+            <EditableTodoText
+              text={todo.text}
+              completed={todo.completed}
+              onSave={(text) => handleUpdate(todo.id, text)}
+              onRemove={() => handleRemove(todo.id)}
+            />
+            <TagChips tags={todo.tags} onTagClick={todoStore.getState().toggleTagFilter} activeTags={tagFilter.tags} />
+            <TodoSubtasks todo={todo} actions={todoStore.getState()} />
+            {todo.priority && <PriorityBadge priority={todo.priority} />}
+            {todo.recurrence && <RecurrenceBadge recurrence={todo.recurrence} completions={todo.completions} />}
+            {todo.dueDate && <DueDateBadge dueDate={todo.dueDate} status={dueStatus(todo, today)} />}
             <button
               onClick={() => handleRemove(todo.id)}
               style={{
@@ -145,6 +250,14 @@ export const ContainerAwareTodoApp: React.FC<ContainerAwareTodoAppProps> = ({ co
           </div>
         ))}
       </div>
+
+      {counts.total > 0 && (
+        <TodoFilterFooter filter={filter} counts={counts} onFilterChange={handleFilterChange} />
+      )}
+
+      {exportService && (
+        <TodoImportExportPanel todos={todos} exportService={exportService} onImport={handleImport} />
+      )}
     </div>
   );
 };
\ No newline at end of file
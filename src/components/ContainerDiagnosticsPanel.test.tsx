@@ -0,0 +1,83 @@
+import React from 'react';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ContainerDiagnosticsPanel } from './ContainerDiagnosticsPanel';
+import { ContainerProvider } from '../container/ContainerProvider';
+import { TYPES } from '../container/types';
+import { createTestContainer } from '../test-utils/test-container';
+import { InjectableTodoList } from './InjectableTodoList';
+
+describe('ContainerDiagnosticsPanel', () => {
+  const renderPanel = (container = createTestContainer().container) =>
+    render(
+      <ContainerProvider container={container}>
+        <ContainerDiagnosticsPanel />
+      </ContainerProvider>
+    );
+
+  it('lists the bindings of the nearest container once opened', async () => {
+    renderPanel();
+
+    expect(screen.queryByRole('table')).not.toBeInTheDocument();
+    await userEvent.setup().click(screen.getByRole('button', { name: 'Container diagnostics' }));
+
+    const cells = within(screen.getByRole('row', { name: /^TodoListScopes/ })).getAllByRole('cell');
+    expect(cells.map(cell => cell.textContent)).toEqual(['TodoListScopes', 'Singleton', 'TodoListScopes', '', 'this container']);
+    expect(screen.getByText('No problems found')).toBeInTheDocument();
+  });
+
+  it('says which bindings come from a parent container', async () => {
+    const { container } = createTestContainer();
+    const scope = container.createChild();
+    scope.bind<string>(TYPES.TodoListId).toConstantValue('work');
+    renderPanel(scope);
+
+    await userEvent.setup().click(screen.getByRole('button', { name: 'Container diagnostics' }));
+
+    expect(within(screen.getByRole('row', { name: /^TodoListId/ })).getByText('this container')).toBeInTheDocument();
+    expect(within(screen.getByRole('row', { name: /^TodoStore / })).getByText('parent 1')).toBeInTheDocument();
+  });
+
+  it('points out problems', async () => {
+    const { container } = createTestContainer();
+    container.bind(InjectableTodoList).toSelf().inSingletonScope();
+    renderPanel(container);
+
+    await userEvent.setup().click(screen.getByRole('button', { name: 'Container diagnostics' }));
+
+    expect(screen.getByTestId('container-problems')).toHaveTextContent(
+      'InjectableTodoList is a React component bound as a singleton, but React builds every instance it mounts'
+    );
+  });
+
+  it('exports the graph as DOT or Mermaid', async () => {
+    renderPanel();
+    const user = userEvent.setup();
+
+    const graph = () => (screen.getByRole('textbox', { name: 'Container graph' }) as HTMLTextAreaElement).value;
+
+    await user.click(screen.getByRole('button', { name: 'Container diagnostics' }));
+    expect(graph()).toMatch(/^digraph container \{/);
+    expect(screen.getByRole('link', { name: 'Download' })).toHaveAttribute('download', 'container.dot');
+
+    await user.selectOptions(screen.getByRole('combobox', { name: 'Graph' }), 'Mermaid');
+
+    expect(graph()).toMatch(/^graph LR/);
+    expect(screen.getByRole('link', { name: 'Download' })).toHaveAttribute('download', 'container.mmd');
+  });
+
+  it('looks again on refresh', async () => {
+    const { container } = createTestContainer();
+    renderPanel(container);
+    const user = userEvent.setup();
+    await user.click(screen.getByRole('button', { name: 'Container diagnostics' }));
+    const exportServiceRow = () => screen.getByRole('row', { name: /^TodoExportService/ });
+    expect(exportServiceRow()).toHaveTextContent('dynamic value');
+    expect(exportServiceRow()).not.toHaveTextContent('TodoExportService)');
+
+    container.get(TYPES.TodoExportService);
+    await user.click(screen.getByRole('button', { name: 'Refresh' }));
+
+    expect(exportServiceRow()).toHaveTextContent('dynamic value (TodoExportService)');
+  });
+});
\ No newline at end of file
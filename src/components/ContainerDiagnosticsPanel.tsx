@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { useContainer } from '../container/ContainerProvider';
+import { ContainerDiagnostics, inspectContainer, toDot, toMermaid } from '../container/diagnostics';
+
+type GraphFormat = 'dot' | 'mermaid';
+
+const GRAPH_FORMATS: Record<GraphFormat, { label: string; fileName: string; render: (diagnostics: ContainerDiagnostics) => string }> = {
+  dot: { label: 'Graphviz DOT', fileName: 'container.dot', render: toDot },
+  mermaid: { label: 'Mermaid', fileName: 'container.mmd', render: toMermaid }
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '5px 10px',
+  fontSize: '12px',
+  backgroundColor: '#6c757d',
+  color: 'white',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: 'pointer'
+};
+
+const cellStyle: React.CSSProperties = {
+  padding: '4px 6px',
+  borderBottom: '1px solid #eee',
+  textAlign: 'left',
+  verticalAlign: 'top'
+};
+
+// For development: the bindings of the nearest ContainerProvider's container and its
+// parents, what they depend on and what is wrong with them
+export const ContainerDiagnosticsPanel: React.FC = () => {
+  const container = useContainer();
+  const [isOpen, setIsOpen] = useState(false);
+  const [diagnostics, setDiagnostics] = useState<ContainerDiagnostics | null>(null);
+  const [graphFormat, setGraphFormat] = useState<GraphFormat>('dot');
+
+  // Singletons get built as the app runs, so it is looked at afresh on request
+  const inspect = () => setDiagnostics(inspectContainer(container));
+
+  const handleToggle = () => {
+    if (!isOpen) {
+      inspect();
+    }
+    setIsOpen(!isOpen);
+  };
+
+  const graph = diagnostics && GRAPH_FORMATS[graphFormat].render(diagnostics);
+
+  return (
+    <div data-testid="container-diagnostics" style={{ maxWidth: '900px', margin: '20px auto', padding: '0 20px' }}>
+      <button type="button" onClick={handleToggle} aria-expanded={isOpen} style={buttonStyle}>
+        Container diagnostics
+      </button>
+
+      {isOpen && diagnostics && (
+        <div style={{ marginTop: '10px', padding: '10px', border: '1px solid #ddd', borderRadius: '4px', fontSize: '12px' }}>
+          <button type="button" onClick={inspect} style={buttonStyle}>
+            Refresh
+          </button>
+
+          {diagnostics.problems.length > 0 ? (
+            <ul data-testid="container-problems" style={{ color: '#dc3545' }}>
+              {diagnostics.problems.map(problem => <li key={problem}>{problem}</li>)}
+            </ul>
+          ) : (
+            <p style={{ color: '#28a745' }}>No problems found</p>
+          )}
+
+          <table style={{ width: '100%', borderCollapse: 'collapse', marginBottom: '10px' }}>
+            <thead>
+              <tr>
+                <th style={cellStyle}>Token</th>
+                <th style={cellStyle}>Scope</th>
+                <th style={cellStyle}>Implementation</th>
+                <th style={cellStyle}>Depends on</th>
+                <th style={cellStyle}>Bound in</th>
+              </tr>
+            </thead>
+            <tbody>
+              {diagnostics.bindings.map((binding, index) => (
+                <tr key={index} style={{ color: binding.resolved ? undefined : '#6c757d' }}>
+                  <td style={cellStyle}>{binding.token}</td>
+                  <td style={cellStyle}>{binding.scope}</td>
+                  <td style={cellStyle}>{binding.implementation}</td>
+                  <td style={cellStyle}>{binding.dependencies.join(', ')}</td>
+                  <td style={cellStyle}>{binding.depth === 0 ? 'this container' : `parent ${binding.depth}`}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <label style={{ marginRight: '10px' }}>
+            Graph{' '}
+            <select value={graphFormat} onChange={(e) => setGraphFormat(e.target.value as GraphFormat)}>
+              {(Object.keys(GRAPH_FORMATS) as GraphFormat[]).map(format => (
+                <option key={format} value={format}>{GRAPH_FORMATS[format].label}</option>
+              ))}
+            </select>
+          </label>
+          <a
+            href={`data:text/plain;charset=utf-8,${encodeURIComponent(graph ?? '')}`}
+            download={GRAPH_FORMATS[graphFormat].fileName}
+          >
+            Download
+          </a>
+          <textarea
+            readOnly
+            aria-label="Container graph"
+            value={graph ?? ''}
+            rows={8}
+            style={{ display: 'block', width: '100%', marginTop: '8px', fontFamily: 'monospace' }}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
\ No newline at end of file
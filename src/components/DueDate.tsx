@@ -0,0 +1,80 @@
+import React from 'react';
+import type { TodoDueStatus } from '../stores/todoSelectors';
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// <input type="date"> works in local calendar days ("2024-03-02")
+export const toDateInputValue = (date?: Date): string =>
+  date ? `${pad(date.getFullYear(), 4)}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` : '';
+
+export const fromDateInputValue = (value: string): Date | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const formatDueDate = (date: Date): string =>
+  date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+const STATUS_COLORS: Record<TodoDueStatus, string> = {
+  overdue: '#dc3545',
+  today: '#fd7e14',
+  upcoming: '#6c757d',
+};
+
+export const dueRowStyle = (status?: TodoDueStatus): React.CSSProperties => {
+  switch (status) {
+    case 'overdue':
+      return { borderColor: '#f5c6cb', backgroundColor: '#fff5f5' };
+    case 'today':
+      return { borderColor: '#ffdfb0', backgroundColor: '#fff8ec' };
+    default:
+      return {};
+  }
+};
+
+interface DueDateInputProps {
+  value?: Date;
+  onChange: (dueDate: Date | undefined) => void;
+  label: string;
+}
+
+export const DueDateInput: React.FC<DueDateInputProps> = ({ value, onChange, label }) => (
+  <input
+    type="date"
+    aria-label={label}
+    value={toDateInputValue(value)}
+    onChange={(e) => onChange(fromDateInputValue(e.target.value))}
+    style={{
+      padding: '4px 6px',
+      fontSize: '12px',
+      border: '1px solid #ddd',
+      borderRadius: '3px',
+      marginRight: '10px'
+    }}
+  />
+);
+
+interface DueDateBadgeProps {
+  dueDate: Date;
+  status?: TodoDueStatus;
+}
+
+export const DueDateBadge: React.FC<DueDateBadgeProps> = ({ dueDate, status }) => (
+  <span
+    data-testid="due-date"
+    data-due-status={status}
+    title={formatDueDate(dueDate)}
+    style={{
+      fontSize: '12px',
+      fontWeight: status === 'overdue' || status === 'today' ? 'bold' : 'normal',
+      color: status ? STATUS_COLORS[status] : '#adb5bd',
+      marginRight: '10px',
+      whiteSpace: 'nowrap'
+    }}
+  >
+    {status === 'overdue' ? 'Overdue' : status === 'today' ? 'Due today' : `Due ${formatDueDate(dueDate)}`}
+  </span>
+);
\ No newline at end of file
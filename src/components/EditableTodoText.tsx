@@ -0,0 +1,86 @@
+import React, { useRef, useState } from 'react';
+
+interface EditableTodoTextProps {
+  text: string;
+  completed: boolean;
+  // Editing is only offered when the owner can save the result
+  onSave?: (text: string) => void;
+  onRemove: () => void;
+  testId?: string;
+}
+
+// Todo text that turns into an input on double-click: Enter (or leaving the field)
+// saves, Escape cancels and saving empty text removes the todo
+export const EditableTodoText: React.FC<EditableTodoTextProps> = ({ text, completed, onSave, onRemove, testId }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  // Set once the edit is saved or cancelled, so the blur that follows does not save again
+  const finished = useRef(false);
+
+  const startEditing = () => {
+    finished.current = false;
+    setDraft(text);
+  };
+
+  const finishEditing = (save: boolean) => {
+    if (finished.current || draft === null) {
+      return;
+    }
+    finished.current = true;
+    setDraft(null);
+
+    if (!save) {
+      return;
+    }
+    const trimmed = draft.trim();
+    if (!trimmed) {
+      onRemove();
+    } else if (trimmed !== text) {
+      onSave?.(trimmed);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      finishEditing(true);
+    } else if (e.key === 'Escape') {
+      finishEditing(false);
+    }
+  };
+
+  if (draft !== null) {
+    return (
+      <input
+        type="text"
+        aria-label="Edit todo"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => finishEditing(true)}
+        autoFocus
+        style={{
+          flex: 1,
+          padding: '4px 6px',
+          fontSize: 'inherit',
+          border: '1px solid #007bff',
+          borderRadius: '3px'
+        }}
+      />
+    );
+  }
+
+  return (
+    <span
+      data-testid={testId}
+      onDoubleClick={onSave ? startEditing : undefined}
+      title={onSave ? 'Double-click to edit' : undefined}
+      style={{
+        flex: 1,
+        textDecoration: completed ? 'line-through' : 'none',
+        color: completed ? '#6c757d' : 'black'
+      }}
+    >
+      {text}
+    </span>
+  );
+};
\ No newline at end of file
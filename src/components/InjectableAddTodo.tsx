@@ -1,20 +1,16 @@
 import React, { Component } from 'react';
-import { injectable, inject } from 'inversify';
 import type { TodoStore } from '../stores/todoStore';
 import { TYPES } from '../container/types';
+import { injectProp } from '../container/injectProp';
 
 interface InjectableAddTodoState {
   text: string;
 }
 
-@injectable()
 export class InjectableAddTodo extends Component<{}, InjectableAddTodoState> {
-  constructor(
-    @inject(TYPES.TodoStore) private todoStore: TodoStore
-  ) {
-    super({});
-    this.state = { text: '' };
-  }
+  @injectProp(TYPES.TodoStore) private todoStore!: TodoStore;
+
+  state: InjectableAddTodoState = { text: '' };
 
   private handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
@@ -1,17 +1,19 @@
 import React, { Component } from 'react';
 import { Container } from 'inversify';
+import { ContainerProvider } from '../container/ContainerProvider';
 import { InjectableTodoList } from './InjectableTodoList';
 
 interface InjectableComponentWrapperProps {
   container: Container;
 }
 
+// Renders InjectableTodoList below a ContainerProvider, which its store is injected from
 export class InjectableComponentWrapper extends Component<InjectableComponentWrapperProps> {
   render() {
-    const { container } = this.props;
-    const todoListComponent = container.get(InjectableTodoList);
-    
-    // We need to manually call the render method of the injectable component
-    return todoListComponent.render();
+    return (
+      <ContainerProvider container={this.props.container}>
+        <InjectableTodoList />
+      </ContainerProvider>
+    );
   }
 }
\ No newline at end of file
@@ -7,8 +7,21 @@ import { TodoStoreFactory } from '../stores/todoStore';
 import { InjectableComponentWrapper } from './InjectableComponentWrapper';
 import { InjectableTodoList } from './InjectableTodoList';
 import { InjectableAddTodo } from './InjectableAddTodo';
-import { InjectableTodoItem } from './InjectableTodoItem';
 import { MockLoggingService } from '../test-utils/MockLoggingService';
+import { ContainerProvider } from '../container/ContainerProvider';
+
+// Mounts the list and an add form below the container's provider, handing back what React built
+const mountBoth = (container: Container) => {
+  const todoList = React.createRef<InjectableTodoList>();
+  const addTodo = React.createRef<InjectableAddTodo>();
+  render(
+    <ContainerProvider container={container}>
+      <InjectableTodoList ref={todoList} />
+      <InjectableAddTodo ref={addTodo} />
+    </ContainerProvider>
+  );
+  return { todoList: todoList.current as any, addTodo: addTodo.current as any };
+};
 
 describe('Injectable Components Integration', () => {
   let container: Container;
@@ -25,18 +38,13 @@ describe('Injectable Components Integration', () => {
       const factory = context.container.get(TodoStoreFactory);
       return factory.getStore();
     }).inSingletonScope();
-
-    // Bind injectable components
-    container.bind(InjectableAddTodo).toSelf();
-    container.bind(InjectableTodoItem).toSelf();
-    container.bind(InjectableTodoList).toSelf().inSingletonScope();
   });
 
   afterEach(() => {
     mockLoggingService.clear();
   });
 
-  describe('Dependency Injection with @inject Decorators', () => {
+  describe('Dependency Injection with @injectProp Decorators', () => {
     it('successfully creates injectable components with injected dependencies', () => {
       render(<InjectableComponentWrapper container={container} />);
       
@@ -46,12 +54,11 @@ describe('Injectable Components Integration', () => {
     });
 
     it('demonstrates that components receive injected stores', () => {
-      const todoListComponent = container.get(InjectableTodoList);
-      const addTodoComponent = container.get(InjectableAddTodo);
+      const { todoList, addTodo } = mountBoth(container);
       
       // Both components should have the same injected store (singleton)
-      const todoListStore = (todoListComponent as any).todoStore;
-      const addTodoStore = (addTodoComponent as any).todoStore;
+      const todoListStore = todoList.todoStore;
+      const addTodoStore = addTodo.todoStore;
       
       expect(todoListStore).toBeDefined();
       expect(addTodoStore).toBeDefined();
@@ -134,11 +141,9 @@ describe('Injectable Components Integration', () => {
         const factory = context.container.get(TodoStoreFactory);
         return factory.getStore();
       }).inSingletonScope();
-      altContainer.bind(InjectableTodoList).toSelf().inSingletonScope();
       
-      // Get component with alternative logger
-      const todoList = altContainer.get(InjectableTodoList);
-      const store = (todoList as any).todoStore;
+      // Mount components below the container with the alternative logger
+      const store = mountBoth(altContainer).todoList.todoStore;
       
       // Add a todo
       act(() => {
@@ -153,20 +158,17 @@ describe('Injectable Components Integration', () => {
     });
 
     it('demonstrates singleton behavior across components', () => {
-      const todoList1 = container.get(InjectableTodoList);
-      const todoList2 = container.get(InjectableTodoList);
-      const addTodo = container.get(InjectableAddTodo);
-      
-      // Components should be the same instance (singleton)
-      expect(todoList1).toBe(todoList2);
+      const { todoList: todoList1, addTodo } = mountBoth(container);
+      const { todoList: todoList2 } = mountBoth(container);
       
-      // But different component types should be different
+      // React builds every mounted component itself
+      expect(todoList1).not.toBe(todoList2);
       expect(todoList1).not.toBe(addTodo);
       
-      // All should share the same store instance
-      const store1 = (todoList1 as any).todoStore;
-      const store2 = (todoList2 as any).todoStore;
-      const store3 = (addTodo as any).todoStore;
+      // But all should share the same store instance
+      const store1 = todoList1.todoStore;
+      const store2 = todoList2.todoStore;
+      const store3 = addTodo.todoStore;
       
       expect(store1).toBe(store2);
       expect(store2).toBe(store3);
@@ -175,13 +177,13 @@ describe('Injectable Components Integration', () => {
 
   describe('Comparison with Manual DI', () => {
     it('shows the power of decorator-based injection vs manual passing', () => {
-      // With @inject decorators, we just need to:
+      // With @injectProp decorators, we just need to:
       // 1. Bind dependencies in container
-      // 2. Get component from container
+      // 2. Render the component below a ContainerProvider
       // 3. Dependencies are automatically resolved
       
-      const component = container.get(InjectableTodoList);
-      const store = (component as any).todoStore;
+      const component = mountBoth(container).todoList;
+      const store = component.todoStore;
       const storeFactory = container.get(TodoStoreFactory);
       const loggingService = (storeFactory as any).loggingService;
       
@@ -194,7 +196,7 @@ describe('Injectable Components Integration', () => {
       // Compare with manual approach (would require explicit passing):
       // const loggingService = new MockLoggingService();
       // const store = createTodoStore(loggingService);
-      // const component = new TodoListComponent(store);
+      // <TodoListComponent store={store} />
       
       // The decorator approach is much cleaner for complex dependency graphs
     });
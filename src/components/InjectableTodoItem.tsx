@@ -1,60 +1,101 @@
 import React, { Component } from 'react';
-import { injectable, inject } from 'inversify';
 import type { Todo } from '../types';
 import type { TodoStore } from '../stores/todoStore';
 import { TYPES } from '../container/types';
+import { injectProp } from '../container/injectProp';
+import { EditableTodoText } from './EditableTodoText';
+import { selectedRowStyle, selectionModeForClick } from './TodoBulkActions';
+import { dueStatus } from '../stores/todoSelectors';
+import { DueDateBadge, dueRowStyle } from './DueDate';
+import { PriorityBadge } from './Priority';
+import { RecurrenceBadge } from './Recurrence';
+import { TagChips } from './Tags';
+import { TodoSubtasks } from './TodoSubtasks';
+import { TodoDrag, TodoDragHandle, TodoReorder, dragRowStyle, reorderRowProps } from './TodoReorder';
 
 interface InjectableTodoItemProps {
   todo: Todo;
+  selected?: boolean;
+  // Enables dragging the todo by its handle, and moving it with Alt+Up/Down
+  reorder?: TodoReorder;
+  drag?: TodoDrag | null;
 }
 
-@injectable()
 export class InjectableTodoItem extends Component<InjectableTodoItemProps> {
-  constructor(
-    @inject(TYPES.TodoStore) private todoStore: TodoStore,
-    props?: InjectableTodoItemProps
-  ) {
-    super(props || {} as InjectableTodoItemProps);
-  }
+  @injectProp(TYPES.TodoStore) private todoStore!: TodoStore;
 
   private handleToggle = () => {
     this.todoStore.getState().toggleTodo(this.props.todo.id);
   };
 
+  private handleSave = (text: string) => {
+    this.todoStore.getState().updateTodo(this.props.todo.id, { text });
+  };
+
   private handleRemove = () => {
     this.todoStore.getState().removeTodo(this.props.todo.id);
   };
 
+  private handleTagClick = (tag: string) => {
+    this.todoStore.getState().toggleTagFilter(tag);
+  };
+
+  private handleDragStart = (e: React.PointerEvent) => {
+    this.props.reorder?.startDrag(this.props.todo.id, e);
+  };
+
+  private handleClick = (e: React.MouseEvent) => {
+    const mode = selectionModeForClick(e);
+    if (mode) {
+      this.todoStore.getState().selectTodo(this.props.todo.id, mode);
+    }
+  };
+
   render() {
-    const { todo } = this.props;
+    const { todo, selected = false, reorder, drag } = this.props;
+    const status = dueStatus(todo, this.todoStore.getState().now());
     
     return (
       <div
+        data-selected={selected || undefined}
+        onClick={this.handleClick}
+        {...(reorder && reorderRowProps(reorder, todo.id))}
         style={{
           display: 'flex',
+          flexWrap: 'wrap',
           alignItems: 'center',
           padding: '10px',
           border: '1px solid #ddd',
           borderRadius: '4px',
           marginBottom: '8px',
-          backgroundColor: todo.completed ? '#f8f9fa' : 'white'
+          backgroundColor: todo.completed ? '#f8f9fa' : 'white',
+          ...dueRowStyle(status),
+          ...selectedRowStyle(selected),
+          ...dragRowStyle(todo.id, drag)
         }}
       >
+        {reorder && <TodoDragHandle text={todo.text} onPointerDown={this.handleDragStart} />}
         <input
           type="checkbox"
           checked={todo.completed}
           onChange={this.handleToggle}
           style={{ marginRight: '10px' }}
         />
-        <span
-          style={{
-            flex: 1,
-            textDecoration: todo.completed ? 'line-through' : 'none',
-            color: todo.completed ? '#6c757d' : 'black'
-          }}
-        >
-          {todo.text}
-        </span>
+        <EditableTodoText
+          text={todo.text}
+          completed={todo.completed}
+          onSave={this.handleSave}
+          onRemove={this.handleRemove}
+        />
+        <TagChips
+          tags={todo.tags}
+          onTagClick={this.handleTagClick}
+          activeTags={this.todoStore.getState().tagFilter.tags}
+        />
+        <TodoSubtasks todo={todo} actions={this.todoStore.getState()} />
+        {todo.priority && <PriorityBadge priority={todo.priority} />}
+        {todo.recurrence && <RecurrenceBadge recurrence={todo.recurrence} completions={todo.completions} />}
+        {todo.dueDate && <DueDateBadge dueDate={todo.dueDate} status={status} />}
         <button
           onClick={this.handleRemove}
           style={{
@@ -1,19 +1,32 @@
 import React from 'react';
-import { screen, waitFor, act } from '@testing-library/react';
+import { render, screen, waitFor, act } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { Container } from 'inversify';
 import { TYPES } from '../container/types';
-import { TodoStoreFactory } from '../stores/todoStore';
+import { TodoStore, TodoStoreFactory } from '../stores/todoStore';
 import { InjectableTodoList } from './InjectableTodoList';
 import { InjectableAddTodo } from './InjectableAddTodo';
 import { InjectableTodoItem } from './InjectableTodoItem';
 import { MockLoggingService } from '../test-utils/MockLoggingService';
 import { LoggingService } from '../services/LoggingService';
+import { ContainerProvider } from '../container/ContainerProvider';
+import type { Todo } from '../types';
+import type { ITodoRepository } from '../repositories/TodoRepository';
 
-describe('Injectable Components with @inject Decorators', () => {
+// Mounts a component below the container's provider, handing back the instance React built
+const mount = <P,>(Target: React.ComponentClass<P>, props: P, container: Container) => {
+  const ref = React.createRef<React.Component<P, any>>();
+  const result = render(
+    <ContainerProvider container={container}>
+      <Target {...props} ref={ref} />
+    </ContainerProvider>
+  );
+  return { ...result, instance: ref.current as any };
+};
+
+describe('Injectable Components with @injectProp Decorators', () => {
   let container: Container;
   let mockLoggingService: MockLoggingService;
-  let todoList: InjectableTodoList;
 
   beforeEach(() => {
     container = new Container();
@@ -26,14 +39,6 @@ describe('Injectable Components with @inject Decorators', () => {
       const factory = context.container.get(TodoStoreFactory);
       return factory.getStore();
     }).inSingletonScope();
-
-    // Bind injectable components
-    container.bind(InjectableAddTodo).toSelf();
-    container.bind(InjectableTodoItem).toSelf();
-    container.bind(InjectableTodoList).toSelf();
-
-    // Get the main component
-    todoList = container.get(InjectableTodoList);
   });
 
   afterEach(() => {
@@ -41,20 +46,23 @@ describe('Injectable Components with @inject Decorators', () => {
   });
 
   describe('InjectableTodoList Class Component', () => {
-    it('successfully injects TodoStore via @inject decorator', () => {
-      expect(todoList).toBeInstanceOf(InjectableTodoList);
-      expect((todoList as any).todoStore).toBeDefined();
-      expect(typeof (todoList as any).todoStore.getState).toBe('function');
+    it('successfully injects TodoStore via @injectProp decorator', () => {
+      const { instance } = mount(InjectableTodoList, {}, container);
+
+      expect(instance).toBeInstanceOf(InjectableTodoList);
+      expect(instance.todoStore).toBe(container.get(TYPES.TodoStore));
     });
 
     it('renders correctly with injected dependencies', () => {
-      const rendered = todoList.render();
-      expect(rendered).toBeDefined();
-      expect(React.isValidElement(rendered)).toBe(true);
+      mount(InjectableTodoList, {}, container);
+
+      expect(screen.getByTestId('todo-list-container')).toBeInTheDocument();
+      expect(screen.getByText('No todos yet. Add one above!')).toBeInTheDocument();
     });
 
     it('manages state through injected store', () => {
-      const store = (todoList as any).todoStore;
+      const store = mount(InjectableTodoList, {}, container).instance.todoStore;
+      mockLoggingService.clear(); // Clear load log
       
       // Initial state should be empty
       expect(store.getState().todos).toHaveLength(0);
@@ -74,11 +82,12 @@ describe('Injectable Components with @inject Decorators', () => {
     });
 
     it('subscribes to store changes on mount', () => {
-      const store = (todoList as any).todoStore;
-      
-      // Simulate componentDidMount
-      todoList.componentDidMount();
-      
+      const didMount = jest.spyOn(InjectableTodoList.prototype, 'componentDidMount');
+      const { instance } = mount(InjectableTodoList, {}, container);
+      const store = instance.todoStore;
+
+      expect(didMount).toHaveBeenCalledTimes(1);
+      didMount.mockRestore();
       expect(mockLoggingService.infoLogs).toContainEqual(
         expect.objectContaining({
           message: 'Todos loaded',
@@ -92,49 +101,92 @@ describe('Injectable Components with @inject Decorators', () => {
       });
       
       // Component state should be updated via subscription
-      expect(todoList.state.todos).toHaveLength(1);
-      expect(todoList.state.todos[0].text).toBe('Subscription test');
+      expect(instance.state.todos).toHaveLength(1);
+      expect(instance.state.todos[0].text).toBe('Subscription test');
+      expect(screen.getByText('Subscription test')).toBeInTheDocument();
+    });
+
+    it('injects its add form and items when React mounts them', async () => {
+      mount(InjectableTodoList, {}, container);
+      const user = userEvent.setup();
+
+      await user.type(screen.getByPlaceholderText('Add a new todo...'), 'Mounted child{Enter}');
+      await user.click(screen.getByRole('checkbox'));
+
+      expect(container.get<TodoStore>(TYPES.TodoStore).getState().todos).toEqual([
+        expect.objectContaining({ text: 'Mounted child', completed: true })
+      ]);
     });
 
     it('unsubscribes on unmount', () => {
-      todoList.componentDidMount();
-      expect((todoList as any).unsubscribe).toBeDefined();
+      const { instance, unmount } = mount(InjectableTodoList, {}, container);
+      expect(instance.unsubscribe).not.toBeNull();
       
-      todoList.componentWillUnmount();
+      unmount();
       
       // Subscription should be cleaned up
-      expect((todoList as any).unsubscribe).toBeNull();
+      expect(instance.unsubscribe).toBeNull();
     });
   });
 
-  describe('InjectableAddTodo Class Component', () => {
-    it('successfully injects TodoStore via @inject decorator', () => {
-      const addTodoComponent = container.get(InjectableAddTodo);
-      expect(addTodoComponent).toBeInstanceOf(InjectableAddTodo);
-      expect((addTodoComponent as any).todoStore).toBeDefined();
+  describe('Loading', () => {
+    // Hands out the pending load so each test decides how it ends
+    const bindPendingLoad = () => {
+      let settle!: { resolve: (todos: Todo[]) => void; reject: (error: Error) => void };
+      const load = new Promise<Todo[]>((resolve, reject) => { settle = { resolve, reject }; });
+      const repository: ITodoRepository = { load: () => load, apply: jest.fn() };
+      container.bind(TYPES.TodoRepository).toConstantValue(repository);
+      return settle;
+    };
+
+    it('shows that todos are loading until they arrive', async () => {
+      const load = bindPendingLoad();
+      mount(InjectableTodoList, {}, container);
+
+      expect(screen.getByTestId('todo-stats')).toHaveTextContent('Loading todos...');
+
+      await act(async () => {
+        load.resolve([{ id: 'saved', text: 'Saved todo', completed: false, createdAt: new Date() }]);
+      });
+
+      expect(screen.getByText('Saved todo')).toBeInTheDocument();
+      expect(screen.getByTestId('todo-stats')).toHaveTextContent('0 of 1 tasks completed');
     });
 
-    it('can add todos through injected store', () => {
-      const addTodoComponent = container.get(InjectableAddTodo);
-      const store = (addTodoComponent as any).todoStore;
-      
-      // Set component state and trigger submit
-      addTodoComponent.setState({ text: 'Injectable add test' });
-      
-      const mockEvent = {
-        preventDefault: jest.fn()
-      } as any;
-      
-      act(() => {
-        (addTodoComponent as any).handleSubmit(mockEvent);
+    it('shows why the todos could not be loaded', async () => {
+      const load = bindPendingLoad();
+      mount(InjectableTodoList, {}, container);
+
+      await act(async () => {
+        load.reject(new Error('Server unavailable'));
       });
+
+      expect(screen.getByTestId('todo-stats')).toHaveTextContent('Could not load todos: Server unavailable');
+    });
+  });
+
+  describe('InjectableAddTodo Class Component', () => {
+    it('successfully injects TodoStore via @injectProp decorator', () => {
+      const { instance } = mount(InjectableAddTodo, {}, container);
+      expect(instance).toBeInstanceOf(InjectableAddTodo);
+      expect(instance.todoStore).toBe(container.get(TYPES.TodoStore));
+    });
+
+    it('can add todos through injected store', async () => {
+      const { instance } = mount(InjectableAddTodo, {}, container);
+      const store = instance.todoStore;
+      const user = userEvent.setup();
+
+      await user.type(screen.getByPlaceholderText('Add a new todo...'), 'Injectable add test');
+      expect(instance.state.text).toBe('Injectable add test');
+      await user.click(screen.getByRole('button', { name: 'Add Todo' }));
       
       // Todo should be added to store
       expect(store.getState().todos).toHaveLength(1);
       expect(store.getState().todos[0].text).toBe('Injectable add test');
       
       // Component state should be reset
-      expect(addTodoComponent.state.text).toBe('');
+      expect(instance.state.text).toBe('');
       
       // Logging should have occurred
       expect(mockLoggingService.infoLogs).toHaveLength(1);
@@ -142,33 +194,30 @@ describe('Injectable Components with @inject Decorators', () => {
   });
 
   describe('InjectableTodoItem Class Component', () => {
-    it('successfully injects TodoStore via @inject decorator', () => {
-      const todo = { id: '1', text: 'Test todo', completed: false, createdAt: new Date() };
-      const itemComponent = container.get(InjectableTodoItem);
-      
-      // Manually set props since we can't use React rendering in this test
-      (itemComponent as any).props = { todo };
-      
-      expect(itemComponent).toBeInstanceOf(InjectableTodoItem);
-      expect((itemComponent as any).todoStore).toBeDefined();
-    });
+    let store: TodoStore;
 
-    it('can toggle todos through injected store', () => {
-      const todo = { id: '1', text: 'Test todo', completed: false, createdAt: new Date() };
-      const itemComponent = container.get(InjectableTodoItem);
-      const store = (itemComponent as any).todoStore;
-      
-      // Manually set props and add todo to store
-      (itemComponent as any).props = { todo };
+    beforeEach(() => {
+      store = container.get<TodoStore>(TYPES.TodoStore);
       act(() => {
         store.getState().addTodo('Test todo');
       });
       mockLoggingService.clear(); // Clear add log
-      
-      // Trigger toggle
-      act(() => {
-        (itemComponent as any).handleToggle();
-      });
+    });
+
+    it('successfully injects TodoStore via @injectProp decorator and gets its props', () => {
+      const todo = store.getState().todos[0];
+      const { instance } = mount(InjectableTodoItem, { todo }, container);
+      
+      expect(instance).toBeInstanceOf(InjectableTodoItem);
+      expect(instance.todoStore).toBe(store);
+      expect(instance.props.todo).toBe(todo);
+      expect(screen.getByText('Test todo')).toBeInTheDocument();
+    });
+
+    it('can toggle todos through injected store', async () => {
+      mount(InjectableTodoItem, { todo: store.getState().todos[0] }, container);
+
+      await userEvent.setup().click(screen.getByRole('checkbox'));
       
       // Todo should be toggled in store
       const todos = store.getState().todos;
@@ -180,22 +229,10 @@ describe('Injectable Components with @inject Decorators', () => {
       expect(mockLoggingService.getLastInfoLog().message).toBe('Todo toggled');
     });
 
-    it('can remove todos through injected store', () => {
-      const todo = { id: '1', text: 'Test todo', completed: false, createdAt: new Date() };
-      const itemComponent = container.get(InjectableTodoItem);
-      const store = (itemComponent as any).todoStore;
-      
-      // Manually set props and add todo to store
-      (itemComponent as any).props = { todo };
-      act(() => {
-        store.getState().addTodo('Test todo');
-      });
-      mockLoggingService.clear(); // Clear add log
-      
-      // Trigger remove
-      act(() => {
-        (itemComponent as any).handleRemove();
-      });
+    it('can remove todos through injected store', async () => {
+      mount(InjectableTodoItem, { todo: store.getState().todos[0] }, container);
+
+      await userEvent.setup().click(screen.getByRole('button', { name: 'Remove' }));
       
       // Todo should be removed from store
       expect(store.getState().todos).toHaveLength(0);
@@ -207,16 +244,16 @@ describe('Injectable Components with @inject Decorators', () => {
   });
 
   describe('Dependency Injection Validation', () => {
-    it('demonstrates automatic dependency resolution with @inject', () => {
-      // All these components should be created with their dependencies automatically injected
-      const addTodo = container.get(InjectableAddTodo);
-      const todoItem = container.get(InjectableTodoItem);
-      const todoListComp = container.get(InjectableTodoList);
+    it('demonstrates automatic dependency resolution with @injectProp', () => {
+      // All these components should be mounted with their dependencies automatically injected
+      const addTodo = mount(InjectableAddTodo, {}, container).instance;
+      const todoItem = mount(InjectableTodoItem, { todo: { id: '1', text: 'Test todo', completed: false, createdAt: new Date() } }, container).instance;
+      const todoListComp = mount(InjectableTodoList, {}, container).instance;
       
       // All should have the same store instance (singleton)
-      const addTodoStore = (addTodo as any).todoStore;
-      const todoItemStore = (todoItem as any).todoStore;
-      const todoListStore = (todoListComp as any).todoStore;
+      const addTodoStore = addTodo.todoStore;
+      const todoItemStore = todoItem.todoStore;
+      const todoListStore = todoListComp.todoStore;
       
       expect(addTodoStore).toBe(todoItemStore);
       expect(todoItemStore).toBe(todoListStore);
@@ -225,25 +262,28 @@ describe('Injectable Components with @inject Decorators', () => {
     it('shows InversifyJS resolves the entire dependency graph', () => {
       // The container should automatically wire:
       // 1. LoggingService -> TodoStoreFactory -> TodoStore
-      // 2. TodoStore -> InjectableTodoList
+      // 2. TodoStore -> InjectableTodoList, once React mounts it
       
       const loggingService = container.get(TYPES.LoggingService);
       const storeFactory = container.get(TodoStoreFactory);
       const store = container.get(TYPES.TodoStore);
-      const todoListComp = container.get(InjectableTodoList);
+      const todoListComp = mount(InjectableTodoList, {}, container).instance;
       
       expect(loggingService).toBe(mockLoggingService);
       expect((storeFactory as any).loggingService).toBe(mockLoggingService);
-      expect(store).toBe((todoListComp as any).todoStore);
+      expect(store).toBe(todoListComp.todoStore);
     });
 
     it('allows swapping implementations via container rebinding', () => {
-      // Replace with real logging service
-      container.rebind(TYPES.LoggingService).to(LoggingService);
+      // Replace with real logging service, in a child container that builds its own store with it
+      const swapped = container.createChild();
+      swapped.bind(TYPES.LoggingService).to(LoggingService);
+      swapped.bind(TodoStoreFactory).toSelf().inSingletonScope();
+      swapped.bind(TYPES.TodoStore).toDynamicValue((context) => context.container.get(TodoStoreFactory).getStore()).inSingletonScope();
+      const consoleLog = jest.spyOn(console, 'log').mockImplementation(() => {});
       
-      // Get a fresh component
-      const freshTodoList = container.get(InjectableTodoList);
-      const freshStore = (freshTodoList as any).todoStore;
+      // Mount a fresh component below it
+      const freshStore = mount(InjectableTodoList, {}, swapped).instance.todoStore;
       
       // Should use the real logging service now
       act(() => {
@@ -252,35 +292,36 @@ describe('Injectable Components with @inject Decorators', () => {
       
       // Mock service should be unchanged
       expect(mockLoggingService.getTotalLogCount()).toBe(0);
+      consoleLog.mockRestore();
     });
   });
 
   describe('Performance and Lifecycle', () => {
     it('demonstrates singleton behavior for stores', () => {
-      const comp1 = container.get(InjectableTodoList);
-      const comp2 = container.get(InjectableTodoList);
+      const comp1 = mount(InjectableTodoList, {}, container).instance;
+      const comp2 = mount(InjectableTodoList, {}, container).instance;
       
       // Components should be different instances
       expect(comp1).not.toBe(comp2);
       
       // But they should share the same store (singleton)
-      expect((comp1 as any).todoStore).toBe((comp2 as any).todoStore);
+      expect(comp1.todoStore).toBe(comp2.todoStore);
     });
 
     it('handles component lifecycle correctly', () => {
-      const component = container.get(InjectableTodoList);
-      
-      // Before mount
-      expect(component.state.todos).toHaveLength(0);
-      expect((component as any).unsubscribe).toBeNull();
+      act(() => {
+        container.get<TodoStore>(TYPES.TodoStore).getState().addTodo('Added before mount');
+      });
+
+      const { instance, unmount } = mount(InjectableTodoList, {}, container);
       
-      // After mount
-      component.componentDidMount();
-      expect((component as any).unsubscribe).toBeDefined();
+      // Its first state already comes from the injected store
+      expect(instance.state.todos).toEqual([expect.objectContaining({ text: 'Added before mount' })]);
+      expect(instance.unsubscribe).not.toBeNull();
       
       // After unmount
-      component.componentWillUnmount();
-      expect((component as any).unsubscribe).toBeNull();
+      unmount();
+      expect(instance.unsubscribe).toBeNull();
     });
   });
 });
\ No newline at end of file
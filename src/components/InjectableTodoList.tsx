@@ -1,34 +1,66 @@
 import React, { Component } from 'react';
-import { injectable, inject } from 'inversify';
 import type { Todo } from '../types';
-import type { TodoStore, TodoState } from '../stores/todoStore';
+import type { TodoFilter, TodoSortOrder, TodoStore, TodoState, TodoTagFilter as TagFilter } from '../stores/todoStore';
+import { selectSelectedTodos, selectTagIndex, selectTodoCounts, selectVisibleTodos } from '../stores/todoSelectors';
 import { TYPES } from '../container/types';
+import { injectProp } from '../container/injectProp';
+import { bindUndoRedoShortcuts } from './undoRedoShortcuts';
+import { bindFilterToLocationHash } from './filterHashRouting';
+import { TodoFilterFooter } from './TodoFilterFooter';
+import { TodoSortSelect } from './TodoSortSelect';
+import { TodoTagFilter } from './Tags';
+import { TodoBulkActions } from './TodoBulkActions';
 import { InjectableAddTodo } from './InjectableAddTodo';
 import { InjectableTodoItem } from './InjectableTodoItem';
+import { TodoDrag, TodoReorder, createTodoReorder } from './TodoReorder';
 
 interface InjectableTodoListState {
   todos: Todo[];
+  filter: TodoFilter;
+  sortOrder: TodoSortOrder;
+  tagFilter: TagFilter;
+  selectedIds: string[];
+  isLoading: boolean;
+  error: string | null;
+  drag: TodoDrag | null;
 }
 
-@injectable()
 export class InjectableTodoList extends Component<{}, InjectableTodoListState> {
-  private unsubscribe: (() => void) | null = null;
+  @injectProp(TYPES.TodoStore) private todoStore!: TodoStore;
 
-  constructor(
-    @inject(TYPES.TodoStore) private todoStore: TodoStore
-  ) {
-    super({});
-    this.state = {
-      todos: this.todoStore.getState().todos
-    };
-  }
+  state: InjectableTodoListState = {
+    todos: this.todoStore.getState().todos,
+    filter: this.todoStore.getState().filter,
+    sortOrder: this.todoStore.getState().sortOrder,
+    tagFilter: this.todoStore.getState().tagFilter,
+    selectedIds: this.todoStore.getState().selectedIds,
+    isLoading: this.todoStore.getState().isLoading,
+    error: this.todoStore.getState().error,
+    drag: null
+  };
+
+  private unsubscribe: (() => void) | null = null;
+  private unbindShortcuts: (() => void) | null = null;
+  private unbindHash: (() => void) | null = null;
+  private reorder: TodoReorder = createTodoReorder(this.todoStore, drag => this.setState({ drag }));
 
   componentDidMount() {
     // Subscribe to store changes
     this.unsubscribe = this.todoStore.subscribe((state: TodoState) => {
-      this.setState({ todos: state.todos });
+      this.setState({
+        todos: state.todos,
+        filter: state.filter,
+        sortOrder: state.sortOrder,
+        tagFilter: state.tagFilter,
+        selectedIds: state.selectedIds,
+        isLoading: state.isLoading,
+        error: state.error
+      });
     });
 
+    this.unbindShortcuts = bindUndoRedoShortcuts(this.todoStore);
+    this.unbindHash = bindFilterToLocationHash(this.todoStore);
+
     // Load todos on mount
     this.todoStore.getState().loadTodos();
   }
@@ -38,12 +70,31 @@ export class InjectableTodoList extends Component<{}, InjectableTodoListState> {
       this.unsubscribe();
       this.unsubscribe = null;
     }
+    if (this.unbindShortcuts) {
+      this.unbindShortcuts();
+      this.unbindShortcuts = null;
+    }
+    if (this.unbindHash) {
+      this.unbindHash();
+      this.unbindHash = null;
+    }
+    this.reorder.cancel();
   }
 
+  private handleSortOrderChange = (sortOrder: TodoSortOrder) => {
+    this.todoStore.getState().setSortOrder(sortOrder);
+  };
+
+  private handleFilterChange = (filter: TodoFilter) => {
+    this.todoStore.getState().setFilter(filter);
+  };
+
   render() {
-    const { todos } = this.state;
-    const completedCount = todos.filter((todo: Todo) => todo.completed).length;
-    const totalCount = todos.length;
+    const { todos, filter, sortOrder, tagFilter, selectedIds, isLoading, error, drag } = this.state;
+    const visibleTodos = selectVisibleTodos({ todos, filter, tagFilter, sortOrder });
+    const tagIndex = selectTagIndex({ todos });
+    const counts = selectTodoCounts({ todos });
+    const selectedCount = selectSelectedTodos({ todos, selectedIds }).length;
 
     return (
       <div data-testid="todo-list-container" style={{ maxWidth: '600px', margin: '0 auto', padding: '20px' }}>
@@ -55,22 +106,47 @@ export class InjectableTodoList extends Component<{}, InjectableTodoListState> {
         
         <div style={{ marginBottom: '20px' }}>
           <p data-testid="todo-stats" style={{ color: '#6c757d', fontSize: '14px' }}>
-            {totalCount > 0 ? (
-              `${completedCount} of ${totalCount} tasks completed`
+            {isLoading ? (
+              'Loading todos...'
+            ) : error ? (
+              `Could not load todos: ${error}`
+            ) : counts.total > 0 ? (
+              `${counts.completed} of ${counts.total} tasks completed`
             ) : (
               'No todos yet. Add one above!'
             )}
           </p>
         </div>
 
+        <TodoBulkActions counts={counts} selectedCount={selectedCount} actions={this.todoStore.getState()} />
+
+        {counts.total > 0 && (
+          <TodoSortSelect sortOrder={sortOrder} onSortOrderChange={this.handleSortOrderChange} />
+        )}
+
+        <TodoTagFilter
+          tagIndex={tagIndex}
+          tagFilter={tagFilter}
+          onToggleTag={this.todoStore.getState().toggleTagFilter}
+          onMatchChange={this.todoStore.getState().setTagMatch}
+          onClear={this.todoStore.getState().clearTagFilter}
+        />
+
         <div data-testid="todos-container">
-          {todos.map((todo: Todo) => (
+          {visibleTodos.map((todo: Todo) => (
             <InjectableTodoItem
               key={todo.id}
               todo={todo}
+              selected={selectedIds.includes(todo.id)}
+              reorder={sortOrder === 'manual' ? this.reorder : undefined}
+              drag={drag}
             />
           ))}
         </div>
+
+        {counts.total > 0 && (
+          <TodoFilterFooter filter={filter} counts={counts} onFilterChange={this.handleFilterChange} />
+        )}
       </div>
     );
   }
@@ -3,10 +3,24 @@ import { render, screen, act } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { Container } from 'inversify';
 import { TYPES } from '../container/types';
-import { TodoStoreFactory } from '../stores/todoStore';
+import { TodoStore, TodoStoreFactory } from '../stores/todoStore';
 import { InjectedTodoApp } from './InjectedTodoApp';
 import { SimpleInjectedWrapper } from './SimpleInjectedWrapper';
+import { ContainerProvider } from '../container/ContainerProvider';
 import { MockLoggingService } from '../test-utils/MockLoggingService';
+import type { Todo } from '../types';
+import type { ITodoRepository } from '../repositories/TodoRepository';
+
+// React builds the instance; the ref hands it over for a look at its state
+const renderApp = (container: Container) => {
+  const ref = React.createRef<InjectedTodoApp>();
+  const result = render(
+    <ContainerProvider container={container}>
+      <InjectedTodoApp ref={ref} />
+    </ContainerProvider>
+  );
+  return { ...result, todoApp: ref.current! };
+};
 
 describe('InjectedTodoApp - Complete Injectable Component', () => {
   let container: Container;
@@ -23,19 +37,17 @@ describe('InjectedTodoApp - Complete Injectable Component', () => {
       const factory = context.container.get(TodoStoreFactory);
       return factory.getStore();
     }).inSingletonScope();
-    container.bind(InjectedTodoApp).toSelf().inSingletonScope();
   });
 
   afterEach(() => {
     mockLoggingService.clear();
   });
 
-  describe('Dependency Injection with @inject Decorator', () => {
+  describe('Dependency Injection with @injectProp Decorator', () => {
     it('successfully creates component with injected TodoStore', () => {
-      const todoApp = container.get(InjectedTodoApp);
+      const { todoApp } = renderApp(container);
       expect(todoApp).toBeInstanceOf(InjectedTodoApp);
-      expect((todoApp as any).todoStore).toBeDefined();
-      expect(typeof (todoApp as any).todoStore.getState).toBe('function');
+      expect((todoApp as any).todoStore).toBe(container.get(TYPES.TodoStore));
     });
 
     it('renders the injectable component through wrapper', () => {
@@ -106,60 +118,101 @@ describe('InjectedTodoApp - Complete Injectable Component', () => {
   });
 
   describe('Component Lifecycle and State Management', () => {
-    it('subscribes to store changes and updates component state', () => {
-      const todoApp = container.get(InjectedTodoApp);
-      const store = (todoApp as any).todoStore;
-      
-      // Initial state
-      expect(todoApp.state.todos).toHaveLength(0);
-      
-      // Simulate componentDidMount
-      todoApp.componentDidMount();
-      
-      // Add todo through store
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('subscribes to store changes when React mounts it', () => {
+      const didMount = jest.spyOn(InjectedTodoApp.prototype, 'componentDidMount');
+      const { todoApp } = renderApp(container);
+      const store = container.get<TodoStore>(TYPES.TodoStore);
+
+      expect(didMount).toHaveBeenCalledTimes(1);
+      expect((todoApp as any).todoStore).toBe(store);
+      expect(mockLoggingService.infoLogs).toContainEqual(expect.objectContaining({ message: 'Todos loaded' }));
+
       act(() => {
         store.getState().addTodo('State sync test');
       });
-      
-      // Component state should be updated
+
       expect(todoApp.state.todos).toHaveLength(1);
       expect(todoApp.state.todos[0].text).toBe('State sync test');
+      expect(screen.getByText('State sync test')).toBeInTheDocument();
     });
 
     it('cleans up subscription on unmount', () => {
-      const todoApp = container.get(InjectedTodoApp);
-      
-      // Mount and verify subscription exists
-      todoApp.componentDidMount();
-      expect((todoApp as any).unsubscribe).toBeDefined();
-      
-      // Unmount and verify cleanup
-      todoApp.componentWillUnmount();
+      const willUnmount = jest.spyOn(InjectedTodoApp.prototype, 'componentWillUnmount');
+      const { todoApp, unmount } = renderApp(container);
+      expect((todoApp as any).unsubscribe).toEqual(expect.any(Function));
+
+      unmount();
+
+      expect(willUnmount).toHaveBeenCalledTimes(1);
       expect((todoApp as any).unsubscribe).toBeNull();
     });
 
-    it('resets form input after adding todo', () => {
-      const todoApp = container.get(InjectedTodoApp);
-      
-      // Set form state
-      todoApp.setState({ newTodoText: 'Test input' });
-      expect(todoApp.state.newTodoText).toBe('Test input');
-      
-      // Simulate form submission
-      const mockEvent = { preventDefault: jest.fn() } as any;
-      act(() => {
-        (todoApp as any).handleAddTodo(mockEvent);
+    it('resets form input after adding todo', async () => {
+      renderApp(container);
+      const user = userEvent.setup();
+      const input = screen.getByPlaceholderText('Add a new todo...');
+
+      await user.type(input, 'Test input');
+      expect(input).toHaveValue('Test input');
+      await user.keyboard('{Enter}');
+
+      expect(input).toHaveValue('');
+      expect(screen.getByText('Test input')).toBeInTheDocument();
+    });
+
+    it('gets an instance of its own per mount', () => {
+      const first = renderApp(container).todoApp;
+      const second = renderApp(container).todoApp;
+
+      expect(first).not.toBe(second);
+      expect((first as any).todoStore).toBe((second as any).todoStore);
+    });
+  });
+
+  describe('Loading', () => {
+    // Hands out the pending load so each test decides how it ends
+    const bindPendingLoad = () => {
+      let settle!: { resolve: (todos: Todo[]) => void; reject: (error: Error) => void };
+      const load = new Promise<Todo[]>((resolve, reject) => { settle = { resolve, reject }; });
+      const repository: ITodoRepository = { load: () => load, apply: jest.fn() };
+      container.bind(TYPES.TodoRepository).toConstantValue(repository);
+      return settle;
+    };
+
+    it('shows that todos are loading until they arrive', async () => {
+      const load = bindPendingLoad();
+      renderApp(container);
+
+      expect(screen.getByTestId('todo-stats')).toHaveTextContent('Loading todos...');
+
+      await act(async () => {
+        load.resolve([{ id: 'saved', text: 'Saved todo', completed: false, createdAt: new Date() }]);
       });
-      
-      // Form should be reset
-      expect(todoApp.state.newTodoText).toBe('');
+
+      expect(screen.getByText('Saved todo')).toBeInTheDocument();
+      expect(screen.getByTestId('todo-stats')).toHaveTextContent('0 of 1 tasks completed');
+    });
+
+    it('shows why the todos could not be loaded', async () => {
+      const load = bindPendingLoad();
+      renderApp(container);
+
+      await act(async () => {
+        load.reject(new Error('Server unavailable'));
+      });
+
+      expect(screen.getByTestId('todo-stats')).toHaveTextContent('Could not load todos: Server unavailable');
     });
   });
 
   describe('Decorator-based vs Manual Dependency Injection Comparison', () => {
-    it('shows automatic dependency resolution with @inject', () => {
-      // With @inject, we just get the component from container
-      const todoApp = container.get(InjectedTodoApp);
+    it('shows automatic dependency resolution with @injectProp', () => {
+      // With @injectProp, we just render the component below a ContainerProvider
+      const { todoApp } = renderApp(container);
       const store = (todoApp as any).todoStore;
       const storeFactory = container.get(TodoStoreFactory);
       const loggingService = (storeFactory as any).loggingService;
@@ -174,19 +227,16 @@ describe('InjectedTodoApp - Complete Injectable Component', () => {
       // This is much cleaner than manual:
       // const loggingService = new LoggingService();
       // const store = createTodoStore(loggingService);
-      // const todoApp = new InjectedTodoApp(store);
+      // <InjectedTodoApp store={store} />
     });
 
     it('demonstrates singleton behavior', () => {
-      const app1 = container.get(InjectedTodoApp);
-      const app2 = container.get(InjectedTodoApp);
+      const app1 = renderApp(container).todoApp;
+      const app2 = renderApp(container).todoApp;
       const store1 = (app1 as any).todoStore;
       const store2 = (app2 as any).todoStore;
       
-      // Components should be same instance (singleton)
-      expect(app1).toBe(app2);
-      
-      // Store should also be same instance
+      // Store should be same instance
       expect(store1).toBe(store2);
     });
 
@@ -209,10 +259,9 @@ describe('InjectedTodoApp - Complete Injectable Component', () => {
         const factory = context.container.get(TodoStoreFactory);
         return factory.getStore();
       }).inSingletonScope();
-      customContainer.bind(InjectedTodoApp).toSelf().inSingletonScope();
       
-      // Get component with custom logger
-      const todoApp = customContainer.get(InjectedTodoApp);
+      // Mount the component below the container with the custom logger
+      const { todoApp } = renderApp(customContainer);
       const store = (todoApp as any).todoStore;
       
       act(() => {
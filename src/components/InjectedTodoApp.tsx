@@ -1,35 +1,72 @@
 import React, { Component } from 'react';
-import { injectable, inject } from 'inversify';
 import type { Todo } from '../types';
-import type { TodoStore, TodoState } from '../stores/todoStore';
+import type { TodoFilter, TodoSortOrder, TodoStore, TodoState, TodoTagFilter as TagFilter } from '../stores/todoStore';
+import { dueStatus, selectSelectedTodos, selectTagIndex, selectTodoCounts, selectVisibleTodos } from '../stores/todoSelectors';
 import { TYPES } from '../container/types';
+import { injectProp } from '../container/injectProp';
+import { bindUndoRedoShortcuts } from './undoRedoShortcuts';
+import { bindFilterToLocationHash } from './filterHashRouting';
+import { TodoFilterFooter } from './TodoFilterFooter';
+import { DueDateBadge, dueRowStyle } from './DueDate';
+import { PriorityBadge } from './Priority';
+import { RecurrenceBadge } from './Recurrence';
+import { TodoSortSelect } from './TodoSortSelect';
+import { TagChips, TodoTagFilter } from './Tags';
+import { TodoSubtasks } from './TodoSubtasks';
+import { TodoBulkActions, selectedRowStyle, selectionModeForClick } from './TodoBulkActions';
+import { EditableTodoText } from './EditableTodoText';
+import { TodoDrag, TodoDragHandle, TodoReorder, createTodoReorder, dragRowStyle, reorderRowProps } from './TodoReorder';
 
 interface InjectedTodoAppState {
   todos: Todo[];
+  filter: TodoFilter;
+  sortOrder: TodoSortOrder;
+  tagFilter: TagFilter;
+  selectedIds: string[];
+  isLoading: boolean;
+  error: string | null;
   newTodoText: string;
+  drag: TodoDrag | null;
 }
 
 // This is a complete Todo App as a single injectable component
-@injectable()
 export class InjectedTodoApp extends Component<{}, InjectedTodoAppState> {
-  private unsubscribe: (() => void) | null = null;
+  @injectProp(TYPES.TodoStore) private todoStore!: TodoStore;
 
-  constructor(
-    @inject(TYPES.TodoStore) private todoStore: TodoStore
-  ) {
-    super({});
-    this.state = {
-      todos: this.todoStore.getState().todos,
-      newTodoText: ''
-    };
-  }
+  state: InjectedTodoAppState = {
+    todos: this.todoStore.getState().todos,
+    filter: this.todoStore.getState().filter,
+    sortOrder: this.todoStore.getState().sortOrder,
+    tagFilter: this.todoStore.getState().tagFilter,
+    selectedIds: this.todoStore.getState().selectedIds,
+    isLoading: this.todoStore.getState().isLoading,
+    error: this.todoStore.getState().error,
+    newTodoText: '',
+    drag: null
+  };
+
+  private unsubscribe: (() => void) | null = null;
+  private unbindShortcuts: (() => void) | null = null;
+  private unbindHash: (() => void) | null = null;
+  private reorder: TodoReorder = createTodoReorder(this.todoStore, drag => this.setState({ drag }));
 
   componentDidMount() {
     // Subscribe to store changes
     this.unsubscribe = this.todoStore.subscribe((state: TodoState) => {
-      this.setState({ todos: state.todos });
+      this.setState({
+        todos: state.todos,
+        filter: state.filter,
+        sortOrder: state.sortOrder,
+        tagFilter: state.tagFilter,
+        selectedIds: state.selectedIds,
+        isLoading: state.isLoading,
+        error: state.error
+      });
     });
 
+    this.unbindShortcuts = bindUndoRedoShortcuts(this.todoStore);
+    this.unbindHash = bindFilterToLocationHash(this.todoStore);
+
     // Load todos on mount
     this.todoStore.getState().loadTodos();
   }
@@ -39,6 +76,15 @@ export class InjectedTodoApp extends Component<{}, InjectedTodoAppState> {
       this.unsubscribe();
       this.unsubscribe = null;
     }
+    if (this.unbindShortcuts) {
+      this.unbindShortcuts();
+      this.unbindShortcuts = null;
+    }
+    if (this.unbindHash) {
+      this.unbindHash();
+      this.unbindHash = null;
+    }
+    this.reorder.cancel();
   }
 
   private handleAddTodo = (e: React.FormEvent<HTMLFormElement>) => {
@@ -57,14 +103,40 @@ export class InjectedTodoApp extends Component<{}, InjectedTodoAppState> {
     this.todoStore.getState().toggleTodo(id);
   };
 
+  private handleUpdate = (id: string, text: string) => {
+    this.todoStore.getState().updateTodo(id, { text });
+  };
+
   private handleRemove = (id: string) => {
     this.todoStore.getState().removeTodo(id);
   };
 
+  private handleRowClick = (id: string, e: React.MouseEvent) => {
+    const mode = selectionModeForClick(e);
+    if (mode) {
+      this.todoStore.getState().selectTodo(id, mode);
+    }
+  };
+
+  private handleSortOrderChange = (sortOrder: TodoSortOrder) => {
+    this.todoStore.getState().setSortOrder(sortOrder);
+  };
+
+  private handleFilterChange = (filter: TodoFilter) => {
+    this.todoStore.getState().setFilter(filter);
+  };
+
+  private handleTagClick = (tag: string) => {
+    this.todoStore.getState().toggleTagFilter(tag);
+  };
+
   render() {
-    const { todos, newTodoText } = this.state;
-    const completedCount = todos.filter((todo: Todo) => todo.completed).length;
-    const totalCount = todos.length;
+    const { todos, filter, sortOrder, tagFilter, selectedIds, isLoading, error, newTodoText, drag } = this.state;
+    const visibleTodos = selectVisibleTodos({ todos, filter, tagFilter, sortOrder });
+    const tagIndex = selectTagIndex({ todos });
+    const counts = selectTodoCounts({ todos });
+    const selectedCount = selectSelectedTodos({ todos, selectedIds }).length;
+    const today = this.todoStore.getState().now();
 
     return (
       <div data-testid="injected-todo-app" style={{ maxWidth: '600px', margin: '0 auto', padding: '20px' }}>
@@ -107,8 +179,12 @@ export class InjectedTodoApp extends Component<{}, InjectedTodoAppState> {
         {/* Stats */}
         <div style={{ marginBottom: '20px' }}>
           <p data-testid="todo-stats" style={{ color: '#6c757d', fontSize: '14px' }}>
-            {totalCount > 0 ? (
-              `${completedCount} of ${totalCount} tasks completed`
+            {isLoading ? (
+              'Loading todos...'
+            ) : error ? (
+              `Could not load todos: ${error}`
+            ) : counts.total > 0 ? (
+              `${counts.completed} of ${counts.total} tasks completed`
             ) : (
               'No todos yet. Add one above!'
             )}
@@ -116,35 +192,61 @@ export class InjectedTodoApp extends Component<{}, InjectedTodoAppState> {
         </div>
 
         {/* Todo List */}
+        <TodoBulkActions counts={counts} selectedCount={selectedCount} actions={this.todoStore.getState()} />
+
+        {counts.total > 0 && (
+          <TodoSortSelect sortOrder={sortOrder} onSortOrderChange={this.handleSortOrderChange} />
+        )}
+
+        <TodoTagFilter
+          tagIndex={tagIndex}
+          tagFilter={tagFilter}
+          onToggleTag={this.handleTagClick}
+          onMatchChange={this.todoStore.getState().setTagMatch}
+          onClear={this.todoStore.getState().clearTagFilter}
+        />
+
         <div data-testid="todos-container">
-          {todos.map((todo: Todo) => (
+          {visibleTodos.map((todo: Todo) => (
             <div
               key={todo.id}
+              data-selected={selectedIds.includes(todo.id) || undefined}
+              onClick={(e) => this.handleRowClick(todo.id, e)}
+              {...reorderRowProps(this.reorder, todo.id)}
               style={{
                 display: 'flex',
+                flexWrap: 'wrap',
                 alignItems: 'center',
                 padding: '10px',
                 border: '1px solid #ddd',
                 borderRadius: '4px',
                 marginBottom: '8px',
-                backgroundColor: todo.completed ? '#f8f9fa' : 'white'
+                backgroundColor: todo.completed ? '#f8f9fa' : 'white',
+                ...dueRowStyle(dueStatus(todo, today)),
+                ...selectedRowStyle(selectedIds.includes(todo.id)),
+                ...dragRowStyle(todo.id, drag)
               }}
             >
+              {sortOrder === 'manual' && (
+                <TodoDragHandle text={todo.text} onPointerDown={(e) => this.reorder.startDrag(todo.id, e)} />
+              )}
               <input
                 type="checkbox"
                 checked={todo.completed}
                 onChange={() => this.handleToggle(todo.id)}
                 style={{ marginRight: '10px' }}
               />
-              <span
-                style={{
-                  flex: 1,
-                  textDecoration: todo.completed ? 'line-through' : 'none',
-                  color: todo.completed ? '#6c757d' : 'black'
-                }}
-              >
-                {todo.text}
-              </span>
+              <EditableTodoText
+                text={todo.text}
+                completed={todo.completed}
+                onSave={(text) => this.handleUpdate(todo.id, text)}
+                onRemove={() => this.handleRemove(todo.id)}
+              />
+              <TagChips tags={todo.tags} onTagClick={this.handleTagClick} activeTags={tagFilter.tags} />
+              <TodoSubtasks todo={todo} actions={this.todoStore.getState()} />
+              {todo.priority && <PriorityBadge priority={todo.priority} />}
+              {todo.recurrence && <RecurrenceBadge recurrence={todo.recurrence} completions={todo.completions} />}
+              {todo.dueDate && <DueDateBadge dueDate={todo.dueDate} status={dueStatus(todo, today)} />}
               <button
                 onClick={() => this.handleRemove(todo.id)}
                 style={{
@@ -162,6 +264,10 @@ export class InjectedTodoApp extends Component<{}, InjectedTodoAppState> {
             </div>
           ))}
         </div>
+
+        {counts.total > 0 && (
+          <TodoFilterFooter filter={filter} counts={counts} onFilterChange={this.handleFilterChange} />
+        )}
       </div>
     );
   }
@@ -0,0 +1,62 @@
+import React from 'react';
+import { TODO_PRIORITIES, TodoPriority } from '../types';
+
+export const PRIORITY_LABELS: Record<TodoPriority, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+  urgent: 'Urgent',
+};
+
+const PRIORITY_COLORS: Record<TodoPriority, string> = {
+  low: '#6c757d',
+  medium: '#17a2b8',
+  high: '#fd7e14',
+  urgent: '#dc3545',
+};
+
+interface PrioritySelectProps {
+  value?: TodoPriority;
+  onChange: (priority: TodoPriority | undefined) => void;
+  label: string;
+}
+
+// The empty option stands for "no priority"
+export const PrioritySelect: React.FC<PrioritySelectProps> = ({ value, onChange, label }) => (
+  <select
+    aria-label={label}
+    value={value ?? ''}
+    onChange={(e) => onChange((e.target.value || undefined) as TodoPriority | undefined)}
+    style={{
+      padding: '4px 6px',
+      fontSize: '12px',
+      border: '1px solid #ddd',
+      borderRadius: '3px',
+      marginRight: '10px'
+    }}
+  >
+    <option value="">No priority</option>
+    {[...TODO_PRIORITIES].reverse().map(priority => (
+      <option key={priority} value={priority}>{PRIORITY_LABELS[priority]}</option>
+    ))}
+  </select>
+);
+
+export const PriorityBadge: React.FC<{ priority: TodoPriority }> = ({ priority }) => (
+  <span
+    data-testid="priority"
+    data-priority={priority}
+    style={{
+      fontSize: '11px',
+      fontWeight: 'bold',
+      color: 'white',
+      backgroundColor: PRIORITY_COLORS[priority],
+      borderRadius: '10px',
+      padding: '2px 8px',
+      marginRight: '10px',
+      whiteSpace: 'nowrap'
+    }}
+  >
+    {PRIORITY_LABELS[priority]}
+  </span>
+);
\ No newline at end of file
@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from 'react';
+import type { TodoCompletion } from '../types';
+import {
+  RECURRENCE_PRESETS,
+  RecurrencePreset,
+  describeRecurrence,
+  parseRecurrenceRule,
+} from '../recurrence';
+
+export const RECURRENCE_PRESET_LABELS: Record<RecurrencePreset, string> = {
+  daily: 'Daily',
+  weekdays: 'Weekdays',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  yearly: 'Yearly',
+};
+
+const CUSTOM = 'custom';
+
+const presetOf = (recurrence: string): RecurrencePreset | undefined =>
+  (Object.keys(RECURRENCE_PRESETS) as RecurrencePreset[]).find(preset => RECURRENCE_PRESETS[preset] === recurrence);
+
+// Falls back to the rule itself when it cannot be read
+export const recurrenceLabel = (recurrence: string): string => {
+  try {
+    return describeRecurrence(parseRecurrenceRule(recurrence));
+  } catch {
+    return recurrence;
+  }
+};
+
+const controlStyle: React.CSSProperties = {
+  padding: '4px 6px',
+  fontSize: '12px',
+  border: '1px solid #ddd',
+  borderRadius: '3px',
+  marginRight: '10px'
+};
+
+interface RecurrenceSelectProps {
+  value?: string;
+  onChange: (recurrence: string | undefined) => void;
+  label: string;
+}
+
+// The presets, or "Custom" for typing an RRULE. A custom rule is only passed on once
+// it reads, on Enter or when the field loses focus.
+export const RecurrenceSelect: React.FC<RecurrenceSelectProps> = ({ value, onChange, label }) => {
+  const [customising, setCustomising] = useState(false);
+  const [draft, setDraft] = useState(value ?? '');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(value ?? '');
+    setError(null);
+    if (value === undefined) {
+      setCustomising(false);
+    }
+  }, [value]);
+
+  const preset = value === undefined ? undefined : presetOf(value);
+  const custom = customising || (value !== undefined && !preset);
+
+  const handleSelect = (choice: string) => {
+    if (choice === CUSTOM) {
+      setCustomising(true);
+      return;
+    }
+    setCustomising(false);
+    onChange(choice ? RECURRENCE_PRESETS[choice as RecurrencePreset] : undefined);
+  };
+
+  const commit = () => {
+    if (!draft.trim()) {
+      setError(null);
+      if (value !== undefined) {
+        onChange(undefined);
+      }
+      return;
+    }
+    try {
+      parseRecurrenceRule(draft);
+    } catch (parseError) {
+      setError((parseError as Error).message);
+      return;
+    }
+    setError(null);
+    if (draft.trim() !== value) {
+      onChange(draft.trim());
+    }
+  };
+
+  return (
+    <>
+      <select
+        aria-label={label}
+        value={custom ? CUSTOM : preset ?? ''}
+        onChange={(e) => handleSelect(e.target.value)}
+        style={controlStyle}
+      >
+        <option value="">Does not repeat</option>
+        {(Object.keys(RECURRENCE_PRESETS) as RecurrencePreset[]).map(key => (
+          <option key={key} value={key}>{RECURRENCE_PRESET_LABELS[key]}</option>
+        ))}
+        <option value={CUSTOM}>Custom...</option>
+      </select>
+      {custom && (
+        <input
+          type="text"
+          aria-label={`${label} rule`}
+          aria-invalid={error !== null}
+          title={error ?? 'An RRULE, e.g. FREQ=MONTHLY;BYDAY=-1FR'}
+          placeholder="FREQ=WEEKLY;BYDAY=MO"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              commit();
+            }
+          }}
+          onBlur={commit}
+          style={{ ...controlStyle, width: '180px', borderColor: error !== null ? '#dc3545' : '#ddd' }}
+        />
+      )}
+    </>
+  );
+};
+
+interface RecurrenceBadgeProps {
+  recurrence: string;
+  completions?: TodoCompletion[];
+}
+
+export const RecurrenceBadge: React.FC<RecurrenceBadgeProps> = ({ recurrence, completions }) => (
+  <span
+    data-testid="recurrence"
+    title={completions?.length ? `Done ${completions.length} ${completions.length === 1 ? 'time' : 'times'} so far` : undefined}
+    style={{
+      fontSize: '11px',
+      color: '#6f42c1',
+      border: '1px solid #6f42c1',
+      borderRadius: '10px',
+      padding: '2px 8px',
+      marginRight: '10px',
+      whiteSpace: 'nowrap'
+    }}
+  >
+    ↻ {recurrenceLabel(recurrence)}
+  </span>
+);
\ No newline at end of file
@@ -1,17 +1,19 @@
 import React, { Component } from 'react';
 import { Container } from 'inversify';
+import { ContainerProvider } from '../container/ContainerProvider';
 import { InjectedTodoApp } from './InjectedTodoApp';
 
 interface SimpleInjectedWrapperProps {
   container: Container;
 }
 
+// Renders InjectedTodoApp below a ContainerProvider, which its store is injected from
 export class SimpleInjectedWrapper extends Component<SimpleInjectedWrapperProps> {
   render() {
-    const { container } = this.props;
-    const todoApp = container.get(InjectedTodoApp);
-    
-    // Render the injectable component
-    return todoApp.render();
+    return (
+      <ContainerProvider container={this.props.container}>
+        <InjectedTodoApp />
+      </ContainerProvider>
+    );
   }
 }
\ No newline at end of file
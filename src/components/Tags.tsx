@@ -0,0 +1,108 @@
+import React from 'react';
+import type { TodoTagCount } from '../stores/todoSelectors';
+import type { TodoTagFilter as TagFilter, TodoTagMatch } from '../stores/todoStore';
+
+const chipStyle = (active: boolean): React.CSSProperties => ({
+  fontSize: '11px',
+  color: active ? 'white' : '#495057',
+  backgroundColor: active ? '#6f42c1' : '#e9ecef',
+  border: 'none',
+  borderRadius: '10px',
+  padding: '2px 8px',
+  marginRight: '4px',
+  whiteSpace: 'nowrap',
+  cursor: 'pointer'
+});
+
+interface TagChipsProps {
+  tags?: string[];
+  // Chips become buttons that toggle the tag in the tag filter
+  onTagClick?: (tag: string) => void;
+  activeTags?: string[];
+}
+
+export const TagChips: React.FC<TagChipsProps> = ({ tags, onTagClick, activeTags = [] }) => {
+  if (!tags || tags.length === 0) {
+    return null;
+  }
+
+  return (
+    <span data-testid="tags" style={{ marginRight: '6px' }}>
+      {tags.map(tag => onTagClick ? (
+        <button
+          key={tag}
+          type="button"
+          data-testid="tag"
+          aria-pressed={activeTags.includes(tag)}
+          onClick={(e) => {
+            // Rows treat clicks as selection gestures
+            e.stopPropagation();
+            onTagClick(tag);
+          }}
+          style={chipStyle(activeTags.includes(tag))}
+        >
+          #{tag}
+        </button>
+      ) : (
+        <span key={tag} data-testid="tag" style={{ ...chipStyle(false), cursor: 'default' }}>
+          #{tag}
+        </span>
+      ))}
+    </span>
+  );
+};
+
+interface TodoTagFilterProps {
+  tagIndex: TodoTagCount[];
+  tagFilter: TagFilter;
+  onToggleTag: (tag: string) => void;
+  onMatchChange: (match: TodoTagMatch) => void;
+  onClear: () => void;
+}
+
+export const TodoTagFilter: React.FC<TodoTagFilterProps> = ({ tagIndex, tagFilter, onToggleTag, onMatchChange, onClear }) => {
+  // A chosen tag stays toggleable after its last todo is gone
+  const missing = tagFilter.tags.filter(tag => !tagIndex.some(entry => entry.tag === tag));
+  const entries = [...tagIndex, ...missing.map(tag => ({ tag, count: 0 }))];
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <div role="group" aria-label="Filter by tag" style={{ marginBottom: '10px', fontSize: '14px', color: '#6c757d' }}>
+      {entries.map(({ tag, count }) => (
+        <button
+          key={tag}
+          type="button"
+          aria-pressed={tagFilter.tags.includes(tag)}
+          onClick={() => onToggleTag(tag)}
+          style={chipStyle(tagFilter.tags.includes(tag))}
+        >
+          #{tag} ({count})
+        </button>
+      ))}
+      {tagFilter.tags.length > 1 && (
+        <label style={{ marginLeft: '6px' }}>
+          Match{' '}
+          <select
+            value={tagFilter.match}
+            onChange={(e) => onMatchChange(e.target.value as TodoTagMatch)}
+            style={{ padding: '2px 4px', fontSize: '12px', border: '1px solid #ddd', borderRadius: '3px' }}
+          >
+            <option value="all">all tags</option>
+            <option value="any">any tag</option>
+          </select>
+        </label>
+      )}
+      {tagFilter.tags.length > 0 && (
+        <button
+          type="button"
+          onClick={onClear}
+          style={{ marginLeft: '6px', fontSize: '12px', background: 'none', border: 'none', color: '#007bff', cursor: 'pointer' }}
+        >
+          Clear tags
+        </button>
+      )}
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import type { TodoSelectionMode, TodoState } from '../stores/todoStore';
+import type { TodoCounts } from '../stores/todoSelectors';
+import type { TodoListInfo } from '../types';
+
+type TodoBulkActionHandlers = Pick<
+  TodoState,
+  'toggleAll' | 'clearCompleted' | 'completeSelected' | 'removeSelected' | 'retagSelected' | 'clearSelection'
+>;
+
+interface TodoBulkActionsProps {
+  counts: TodoCounts;
+  selectedCount: number;
+  actions: TodoBulkActionHandlers;
+  // Other lists the selection can be moved to; moving is offered when there are some
+  moveTargets?: TodoListInfo[];
+  onMoveSelected?: (listId: string) => void;
+}
+
+// Ctrl/Cmd-click toggles a todo in the selection and Shift-click selects a range.
+// Plain clicks, and clicks on the todo's own controls, do not select.
+export const selectionModeForClick = (e: React.MouseEvent): TodoSelectionMode | null => {
+  if (e.target instanceof Element && e.target.closest('input, button, a')) {
+    return null;
+  }
+  if (e.shiftKey) {
+    return 'range';
+  }
+  return e.ctrlKey || e.metaKey ? 'toggle' : null;
+};
+
+export const selectedRowStyle = (selected: boolean): React.CSSProperties =>
+  selected ? { backgroundColor: '#e7f1ff', borderColor: '#80bdff' } : {};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '5px 10px',
+  fontSize: '12px',
+  border: '1px solid #ddd',
+  borderRadius: '3px',
+  backgroundColor: 'white',
+  cursor: 'pointer'
+};
+
+const parseTags = (text: string) => text.split(/[\s,]+/).filter(Boolean);
+
+export const TodoBulkActions: React.FC<TodoBulkActionsProps> = ({ counts, selectedCount, actions, moveTargets = [], onMoveSelected }) => {
+  const [tagText, setTagText] = useState('');
+
+  if (counts.total === 0) {
+    return null;
+  }
+
+  const retag = (change: 'add' | 'remove') => {
+    actions.retagSelected({ [change]: parseTags(tagText) });
+    setTagText('');
+  };
+
+  return (
+    <div data-testid="bulk-actions" style={{ marginBottom: '10px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '10px' }}>
+        <button onClick={actions.toggleAll} style={buttonStyle}>
+          {counts.active === 0 ? 'Mark all as active' : 'Mark all as complete'}
+        </button>
+        {counts.completed > 0 && (
+          <button onClick={actions.clearCompleted} style={buttonStyle}>
+            Clear completed ({counts.completed})
+          </button>
+        )}
+      </div>
+
+      {selectedCount > 0 && (
+        <div
+          role="toolbar"
+          aria-label="Selected todos"
+          style={{
+            display: 'flex',
+            flexWrap: 'wrap',
+            alignItems: 'center',
+            gap: '6px',
+            padding: '8px',
+            backgroundColor: '#e7f1ff',
+            borderRadius: '4px'
+          }}
+        >
+          <span data-testid="selection-count" style={{ fontSize: '14px', marginRight: '4px' }}>
+            {selectedCount} selected
+          </span>
+          <button onClick={() => actions.completeSelected(true)} style={buttonStyle}>Complete</button>
+          <button onClick={() => actions.completeSelected(false)} style={buttonStyle}>Reopen</button>
+          <button onClick={actions.removeSelected} style={{ ...buttonStyle, color: '#dc3545' }}>Delete</button>
+          <input
+            type="text"
+            aria-label="Tags for selected todos"
+            placeholder="tags"
+            value={tagText}
+            onChange={(e) => setTagText(e.target.value)}
+            style={{ padding: '4px 6px', fontSize: '12px', border: '1px solid #ddd', borderRadius: '3px', width: '100px' }}
+          />
+          <button onClick={() => retag('add')} disabled={!tagText.trim()} style={buttonStyle}>Add tags</button>
+          <button onClick={() => retag('remove')} disabled={!tagText.trim()} style={buttonStyle}>Remove tags</button>
+          {onMoveSelected && moveTargets.length > 0 && (
+            <select
+              aria-label="Move selected to list"
+              value=""
+              onChange={(e) => e.target.value && onMoveSelected(e.target.value)}
+              style={{ padding: '4px 6px', fontSize: '12px', border: '1px solid #ddd', borderRadius: '3px' }}
+            >
+              <option value="">Move to...</option>
+              {moveTargets.map(list => (
+                <option key={list.id} value={list.id}>{list.name}</option>
+              ))}
+            </select>
+          )}
+          <button onClick={actions.clearSelection} style={buttonStyle}>Clear selection</button>
+        </div>
+      )}
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,53 @@
+import React from 'react';
+import type { TodoDueGroups, TodoDueStatus } from '../stores/todoSelectors';
+import { DueDateBadge } from './DueDate';
+
+const GROUP_LABELS: Record<TodoDueStatus, string> = {
+  overdue: 'Overdue',
+  today: 'Today',
+  upcoming: 'Upcoming',
+};
+
+const GROUP_ORDER: TodoDueStatus[] = ['overdue', 'today', 'upcoming'];
+
+interface TodoDueViewProps {
+  groups: TodoDueGroups;
+  onToggle: (id: string) => void;
+}
+
+// Open todos with a due date, grouped into Overdue / Today / Upcoming
+export const TodoDueView: React.FC<TodoDueViewProps> = ({ groups, onToggle }) => {
+  if (GROUP_ORDER.every(status => groups[status].length === 0)) {
+    return null;
+  }
+
+  return (
+    <section
+      aria-label="Due todos"
+      style={{ marginBottom: '20px', padding: '10px', border: '1px solid #eee', borderRadius: '4px' }}
+    >
+      {GROUP_ORDER.filter(status => groups[status].length > 0).map(status => (
+        <div key={status} data-testid={`due-group-${status}`} style={{ marginBottom: '8px' }}>
+          <h3 style={{ fontSize: '14px', margin: '0 0 4px', color: '#495057' }}>
+            {GROUP_LABELS[status]} ({groups[status].length})
+          </h3>
+          <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+            {groups[status].map(todo => (
+              <li key={todo.id} style={{ display: 'flex', alignItems: 'center', padding: '2px 0', fontSize: '14px' }}>
+                <input
+                  type="checkbox"
+                  aria-label={`Complete ${todo.text}`}
+                  checked={todo.completed}
+                  onChange={() => onToggle(todo.id)}
+                  style={{ marginRight: '8px' }}
+                />
+                <span style={{ flex: 1 }}>{todo.text}</span>
+                <DueDateBadge dueDate={todo.dueDate!} status={status} />
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </section>
+  );
+};
\ No newline at end of file
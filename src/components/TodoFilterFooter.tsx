@@ -0,0 +1,55 @@
+import React from 'react';
+import { TODO_FILTERS, TodoFilter } from '../stores/todoStore';
+import type { TodoCounts } from '../stores/todoSelectors';
+import { FILTER_HASHES } from './filterHashRouting';
+
+const FILTER_LABELS: Record<TodoFilter, string> = {
+  all: 'All',
+  active: 'Active',
+  completed: 'Completed',
+};
+
+interface TodoFilterFooterProps {
+  filter: TodoFilter;
+  counts: TodoCounts;
+  onFilterChange: (filter: TodoFilter) => void;
+}
+
+export const TodoFilterFooter: React.FC<TodoFilterFooterProps> = ({ filter, counts, onFilterChange }) => {
+  return (
+    <div
+      data-testid="todo-footer"
+      style={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        padding: '10px 0',
+        color: '#6c757d',
+        fontSize: '14px'
+      }}
+    >
+      <span data-testid="todo-count">
+        {counts.active} {counts.active === 1 ? 'item' : 'items'} left
+      </span>
+      <nav aria-label="Filter todos" style={{ display: 'flex', gap: '8px' }}>
+        {TODO_FILTERS.map(option => (
+          <a
+            key={option}
+            href={FILTER_HASHES[option]}
+            aria-current={option === filter ? 'page' : undefined}
+            onClick={() => onFilterChange(option)}
+            style={{
+              padding: '3px 7px',
+              border: `1px solid ${option === filter ? '#007bff' : 'transparent'}`,
+              borderRadius: '3px',
+              color: option === filter ? '#007bff' : '#6c757d',
+              textDecoration: 'none'
+            }}
+          >
+            {FILTER_LABELS[option]}
+          </a>
+        ))}
+      </nav>
+    </div>
+  );
+};
\ No newline at end of file
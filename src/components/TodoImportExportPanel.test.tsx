@@ -0,0 +1,73 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { TodoImportExportPanel } from './TodoImportExportPanel';
+import { TodoExportService } from '../services/TodoExportService';
+import { Todo } from '../types';
+
+describe('TodoImportExportPanel', () => {
+  const todos: Todo[] = [
+    { id: '1', text: 'Write report', completed: true, createdAt: new Date('2024-01-01T00:00:00.000Z') },
+    { id: '2', text: 'Send report', completed: false, createdAt: new Date('2024-01-02T00:00:00.000Z') },
+  ];
+  let onImport: jest.Mock;
+
+  const renderPanel = async () => {
+    const user = userEvent.setup();
+    render(<TodoImportExportPanel todos={todos} exportService={new TodoExportService()} onImport={onImport} />);
+    await user.click(screen.getByRole('button', { name: 'Import / Export' }));
+    return user;
+  };
+
+  beforeEach(() => {
+    onImport = jest.fn();
+  });
+
+  it('starts collapsed', () => {
+    render(<TodoImportExportPanel todos={todos} exportService={new TodoExportService()} onImport={onImport} />);
+
+    expect(screen.getByRole('button', { name: 'Import / Export' })).toHaveAttribute('aria-expanded', 'false');
+    expect(screen.queryByRole('button', { name: 'Export' })).not.toBeInTheDocument();
+  });
+
+  it('offers every format from the export service', async () => {
+    await renderPanel();
+
+    const options = screen.getAllByRole('option').map(option => option.textContent);
+    expect(options).toEqual(['JSON', 'CSV', 'Markdown checklist', 'todo.txt', 'iCalendar (VTODO)']);
+  });
+
+  it('exports the current todos in the chosen format with a download link', async () => {
+    const user = await renderPanel();
+
+    await user.selectOptions(screen.getByLabelText('Format'), 'markdown');
+    await user.click(screen.getByRole('button', { name: 'Export' }));
+
+    expect(screen.getByLabelText('Exported todos')).toHaveValue('- [x] Write report\n- [ ] Send report\n');
+    const link = screen.getByRole('link', { name: 'Download' });
+    expect(link).toHaveAttribute('download', 'todos.md');
+    expect(link.getAttribute('href')).toMatch(/^data:text\/markdown;charset=utf-8,/);
+  });
+
+  it('imports valid rows and lists the rejected ones', async () => {
+    const user = await renderPanel();
+
+    await user.selectOptions(screen.getByLabelText('Format'), 'markdown');
+    await user.type(screen.getByLabelText('Todos to import'), '- [[ ] Imported{enter}not a task');
+    await user.click(screen.getByRole('button', { name: 'Import' }));
+
+    expect(onImport).toHaveBeenCalledWith([{ text: 'Imported', completed: false }]);
+    expect(screen.getByTestId('import-summary')).toHaveTextContent('Imported 1 todo, 1 rejected');
+    expect(screen.getByTestId('import-errors')).toHaveTextContent('Row 2: not a checklist item');
+  });
+
+  it('does not call onImport when nothing is valid', async () => {
+    const user = await renderPanel();
+
+    await user.type(screen.getByLabelText('Todos to import'), 'not json');
+    await user.click(screen.getByRole('button', { name: 'Import' }));
+
+    expect(onImport).not.toHaveBeenCalled();
+    expect(screen.getByTestId('import-errors')).toHaveTextContent('Invalid JSON');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import type { Todo } from '../types';
+import type { TodoDraft, TodoImportError } from '../formats/TodoFormat';
+import type { ITodoExportService } from '../services/TodoExportService';
+
+interface TodoImportExportPanelProps {
+  todos: Todo[];
+  exportService: ITodoExportService;
+  onImport: (drafts: TodoDraft[]) => void;
+}
+
+const buttonStyle: React.CSSProperties = {
+  padding: '5px 10px',
+  fontSize: '12px',
+  backgroundColor: '#6c757d',
+  color: 'white',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: 'pointer'
+};
+
+export const TodoImportExportPanel: React.FC<TodoImportExportPanelProps> = ({ todos, exportService, onImport }) => {
+  const formats = exportService.getFormats();
+  const [isOpen, setIsOpen] = useState(false);
+  const [formatId, setFormatId] = useState(formats[0]?.id ?? '');
+  const [exportedText, setExportedText] = useState<string | null>(null);
+  const [importText, setImportText] = useState('');
+  const [importedCount, setImportedCount] = useState<number | null>(null);
+  const [importErrors, setImportErrors] = useState<TodoImportError[]>([]);
+
+  const format = formats.find(candidate => candidate.id === formatId);
+
+  const handleFormatChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setFormatId(e.target.value);
+    setExportedText(null);
+  };
+
+  const handleExport = () => {
+    setExportedText(exportService.exportTodos(todos, formatId));
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setImportText(await file.text());
+    }
+  };
+
+  // Valid rows are imported even when others are rejected; the rejects are listed
+  const handleImport = () => {
+    const result = exportService.importTodos(importText, formatId);
+    if (result.todos.length > 0) {
+      onImport(result.todos);
+    }
+    setImportedCount(result.todos.length);
+    setImportErrors(result.errors);
+    if (result.errors.length === 0) {
+      setImportText('');
+    }
+  };
+
+  return (
+    <div data-testid="import-export-panel" style={{ marginBottom: '20px' }}>
+      <button type="button" onClick={() => setIsOpen(!isOpen)} aria-expanded={isOpen} style={buttonStyle}>
+        Import / Export
+      </button>
+
+      {isOpen && (
+        <div style={{ marginTop: '10px', padding: '10px', border: '1px solid #ddd', borderRadius: '4px' }}>
+          <label style={{ display: 'block', marginBottom: '10px', fontSize: '14px' }}>
+            Format{' '}
+            <select value={formatId} onChange={handleFormatChange}>
+              {formats.map(candidate => (
+                <option key={candidate.id} value={candidate.id}>{candidate.label}</option>
+              ))}
+            </select>
+          </label>
+
+          <div style={{ marginBottom: '10px' }}>
+            <button type="button" onClick={handleExport} style={buttonStyle}>
+              Export
+            </button>
+            {exportedText !== null && format && (
+              <>
+                {' '}
+                <a
+                  href={`data:${format.mimeType};charset=utf-8,${encodeURIComponent(exportedText)}`}
+                  download={`todos.${format.fileExtension}`}
+                  style={{ fontSize: '12px' }}
+                >
+                  Download
+                </a>
+                <textarea
+                  readOnly
+                  aria-label="Exported todos"
+                  value={exportedText}
+                  rows={6}
+                  style={{ display: 'block', width: '100%', marginTop: '8px', fontFamily: 'monospace' }}
+                />
+              </>
+            )}
+          </div>
+
+          <div>
+            <textarea
+              aria-label="Todos to import"
+              placeholder="Paste todos to import..."
+              value={importText}
+              onChange={(e) => setImportText(e.target.value)}
+              rows={6}
+              style={{ display: 'block', width: '100%', marginBottom: '8px', fontFamily: 'monospace' }}
+            />
+            <input
+              type="file"
+              aria-label="Import file"
+              accept={format ? `.${format.fileExtension},${format.mimeType}` : undefined}
+              onChange={handleFileChange}
+              style={{ fontSize: '12px', marginRight: '10px' }}
+            />
+            <button type="button" onClick={handleImport} disabled={!importText.trim()} style={buttonStyle}>
+              Import
+            </button>
+          </div>
+
+          {importedCount !== null && (
+            <p data-testid="import-summary" style={{ fontSize: '14px', color: '#6c757d' }}>
+              Imported {importedCount} {importedCount === 1 ? 'todo' : 'todos'}
+              {importErrors.length > 0 && `, ${importErrors.length} rejected`}
+            </p>
+          )}
+          {importErrors.length > 0 && (
+            <ul data-testid="import-errors" style={{ fontSize: '12px', color: '#dc3545' }}>
+              {importErrors.map((error, index) => (
+                <li key={index}>
+                  {error.row !== undefined ? `Row ${error.row}: ` : ''}{error.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
\ No newline at end of file
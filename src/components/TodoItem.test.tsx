@@ -342,4 +342,379 @@ describe('TodoItem', () => {
       expect(checkboxes).toHaveLength(2);
     });
   });
+
+  describe('Inline Editing', () => {
+    let mockOnUpdate: jest.Mock;
+
+    const renderEditable = () => {
+      renderWithContainer(
+        <TodoItem todo={sampleTodo} onToggle={mockOnToggle} onRemove={mockOnRemove} onUpdate={mockOnUpdate} />,
+        { testContainer }
+      );
+      return userEvent.setup();
+    };
+
+    beforeEach(() => {
+      mockOnUpdate = jest.fn();
+    });
+
+    it('switches to an input on double-click', async () => {
+      const user = renderEditable();
+
+      await user.dblClick(screen.getByTestId('todo-text'));
+
+      const input = screen.getByRole('textbox', { name: 'Edit todo' });
+      expect(input).toHaveValue('Test todo item');
+      expect(input).toHaveFocus();
+    });
+
+    it('saves the trimmed text on Enter', async () => {
+      const user = renderEditable();
+
+      await user.dblClick(screen.getByTestId('todo-text'));
+      await user.clear(screen.getByRole('textbox', { name: 'Edit todo' }));
+      await user.type(screen.getByRole('textbox', { name: 'Edit todo' }), '  Edited text  {Enter}');
+
+      expect(mockOnUpdate).toHaveBeenCalledTimes(1);
+      expect(mockOnUpdate).toHaveBeenCalledWith('test-todo-1', { text: 'Edited text' });
+      expect(screen.queryByRole('textbox', { name: 'Edit todo' })).not.toBeInTheDocument();
+    });
+
+    it('saves when the input loses focus', async () => {
+      const user = renderEditable();
+
+      await user.dblClick(screen.getByTestId('todo-text'));
+      await user.type(screen.getByRole('textbox', { name: 'Edit todo' }), '!');
+      await user.click(document.body);
+
+      expect(mockOnUpdate).toHaveBeenCalledWith('test-todo-1', { text: 'Test todo item!' });
+    });
+
+    it('cancels on Escape', async () => {
+      const user = renderEditable();
+
+      await user.dblClick(screen.getByTestId('todo-text'));
+      await user.type(screen.getByRole('textbox', { name: 'Edit todo' }), ' changed{Escape}');
+
+      expect(mockOnUpdate).not.toHaveBeenCalled();
+      expect(screen.getByTestId('todo-text')).toHaveTextContent('Test todo item');
+    });
+
+    it('removes the todo when the edit is empty', async () => {
+      const user = renderEditable();
+
+      await user.dblClick(screen.getByTestId('todo-text'));
+      await user.clear(screen.getByRole('textbox', { name: 'Edit todo' }));
+      await user.keyboard('{Enter}');
+
+      expect(mockOnRemove).toHaveBeenCalledWith('test-todo-1');
+      expect(mockOnUpdate).not.toHaveBeenCalled();
+    });
+
+    it('does not save unchanged text', async () => {
+      const user = renderEditable();
+
+      await user.dblClick(screen.getByTestId('todo-text'));
+      await user.keyboard('{Enter}');
+
+      expect(mockOnUpdate).not.toHaveBeenCalled();
+    });
+
+    it('is not editable without an onUpdate handler', async () => {
+      renderWithContainer(
+        <TodoItem todo={sampleTodo} onToggle={mockOnToggle} onRemove={mockOnRemove} />,
+        { testContainer }
+      );
+
+      await userEvent.setup().dblClick(screen.getByTestId('todo-text'));
+
+      expect(screen.queryByRole('textbox', { name: 'Edit todo' })).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Due dates', () => {
+    const now = new Date(2024, 2, 2, 12, 0);
+
+    it('highlights an overdue todo', () => {
+      renderWithContainer(
+        <TodoItem todo={{ ...sampleTodo, dueDate: new Date(2024, 2, 1) }} onToggle={mockOnToggle} onRemove={mockOnRemove} now={now} />,
+        { testContainer }
+      );
+
+      const badge = screen.getByTestId('due-date');
+      expect(badge).toHaveTextContent('Overdue');
+      expect(badge).toHaveAttribute('data-due-status', 'overdue');
+      expect(badge).toHaveStyle({ color: '#dc3545' });
+    });
+
+    it('marks a todo due today', () => {
+      renderWithContainer(
+        <TodoItem todo={{ ...sampleTodo, dueDate: new Date(2024, 2, 2) }} onToggle={mockOnToggle} onRemove={mockOnRemove} now={now} />,
+        { testContainer }
+      );
+
+      expect(screen.getByTestId('due-date')).toHaveTextContent('Due today');
+    });
+
+    it('does not highlight a completed todo', () => {
+      renderWithContainer(
+        <TodoItem
+          todo={{ ...sampleTodo, completed: true, dueDate: new Date(2024, 2, 1) }}
+          onToggle={mockOnToggle}
+          onRemove={mockOnRemove}
+          now={now}
+        />,
+        { testContainer }
+      );
+
+      expect(screen.getByTestId('due-date')).not.toHaveAttribute('data-due-status');
+    });
+
+    it('edits the due date with the date picker', () => {
+      const mockOnUpdate = jest.fn();
+      renderWithContainer(
+        <TodoItem
+          todo={{ ...sampleTodo, dueDate: new Date(2024, 2, 4) }}
+          onToggle={mockOnToggle}
+          onRemove={mockOnRemove}
+          onUpdate={mockOnUpdate}
+          now={now}
+        />,
+        { testContainer }
+      );
+
+      const picker = screen.getByLabelText('Due date for Test todo item');
+      expect(picker).toHaveValue('2024-03-04');
+
+      fireEvent.change(picker, { target: { value: '2024-03-05' } });
+      expect(mockOnUpdate).toHaveBeenCalledWith('test-todo-1', { dueDate: new Date(2024, 2, 5) });
+
+      fireEvent.change(picker, { target: { value: '' } });
+      expect(mockOnUpdate).toHaveBeenLastCalledWith('test-todo-1', { dueDate: undefined });
+    });
+  });
+
+  describe('Priority', () => {
+    it('shows a badge for the priority', () => {
+      renderWithContainer(
+        <TodoItem todo={{ ...sampleTodo, priority: 'urgent' }} onToggle={mockOnToggle} onRemove={mockOnRemove} />,
+        { testContainer }
+      );
+
+      const badge = screen.getByTestId('priority');
+      expect(badge).toHaveTextContent('Urgent');
+      expect(badge).toHaveStyle({ backgroundColor: '#dc3545' });
+    });
+
+    it('shows no badge without a priority', () => {
+      renderWithContainer(
+        <TodoItem todo={sampleTodo} onToggle={mockOnToggle} onRemove={mockOnRemove} />,
+        { testContainer }
+      );
+
+      expect(screen.queryByTestId('priority')).not.toBeInTheDocument();
+    });
+
+    it('changes and clears the priority', async () => {
+      const user = userEvent.setup();
+      const mockOnUpdate = jest.fn();
+      renderWithContainer(
+        <TodoItem todo={{ ...sampleTodo, priority: 'low' }} onToggle={mockOnToggle} onRemove={mockOnRemove} onUpdate={mockOnUpdate} />,
+        { testContainer }
+      );
+
+      const select = screen.getByRole('combobox', { name: 'Priority for Test todo item' });
+      await user.selectOptions(select, 'High');
+      expect(mockOnUpdate).toHaveBeenCalledWith('test-todo-1', { priority: 'high' });
+
+      await user.selectOptions(select, 'No priority');
+      expect(mockOnUpdate).toHaveBeenLastCalledWith('test-todo-1', { priority: undefined });
+    });
+  });
+
+  describe('Recurrence', () => {
+    it('shows what the rule repeats on and how often it was done', () => {
+      renderWithContainer(
+        <TodoItem
+          todo={{
+            ...sampleTodo,
+            recurrence: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO',
+            completions: [{ completedAt: new Date(2024, 0, 1) }, { completedAt: new Date(2024, 0, 15) }]
+          }}
+          onToggle={mockOnToggle}
+          onRemove={mockOnRemove}
+        />,
+        { testContainer }
+      );
+
+      const badge = screen.getByTestId('recurrence');
+      expect(badge).toHaveTextContent('↻ Every 2 weeks on Mon');
+      expect(badge).toHaveAttribute('title', 'Done 2 times so far');
+    });
+
+    it('shows no badge for a todo that does not repeat', () => {
+      renderWithContainer(
+        <TodoItem todo={sampleTodo} onToggle={mockOnToggle} onRemove={mockOnRemove} />,
+        { testContainer }
+      );
+
+      expect(screen.queryByTestId('recurrence')).not.toBeInTheDocument();
+    });
+
+    it('changes and clears the rule', async () => {
+      const user = userEvent.setup();
+      const mockOnUpdate = jest.fn();
+      renderWithContainer(
+        <TodoItem todo={{ ...sampleTodo, recurrence: 'FREQ=DAILY' }} onToggle={mockOnToggle} onRemove={mockOnRemove} onUpdate={mockOnUpdate} />,
+        { testContainer }
+      );
+
+      const select = screen.getByRole('combobox', { name: 'Repeats for Test todo item' });
+      expect(select).toHaveValue('daily');
+      await user.selectOptions(select, 'Monthly');
+      expect(mockOnUpdate).toHaveBeenCalledWith('test-todo-1', { recurrence: 'FREQ=MONTHLY' });
+
+      await user.selectOptions(select, 'Does not repeat');
+      expect(mockOnUpdate).toHaveBeenLastCalledWith('test-todo-1', { recurrence: undefined });
+    });
+
+    it('edits a custom rule in place', async () => {
+      const user = userEvent.setup();
+      const mockOnUpdate = jest.fn();
+      renderWithContainer(
+        <TodoItem
+          todo={{ ...sampleTodo, recurrence: 'FREQ=MONTHLY;BYMONTHDAY=-1' }}
+          onToggle={mockOnToggle}
+          onRemove={mockOnRemove}
+          onUpdate={mockOnUpdate}
+        />,
+        { testContainer }
+      );
+
+      expect(screen.getByRole('combobox', { name: 'Repeats for Test todo item' })).toHaveValue('custom');
+      const rule = screen.getByRole('textbox', { name: 'Repeats for Test todo item rule' });
+      expect(rule).toHaveValue('FREQ=MONTHLY;BYMONTHDAY=-1');
+
+      await user.clear(rule);
+      await user.type(rule, 'FREQ=MONTHLY;BYMONTHDAY=1');
+      await user.tab();
+      expect(mockOnUpdate).toHaveBeenCalledWith('test-todo-1', { recurrence: 'FREQ=MONTHLY;BYMONTHDAY=1' });
+    });
+  });
+
+  describe('Tags', () => {
+    it('shows a chip per tag', () => {
+      renderWithContainer(
+        <TodoItem todo={{ ...sampleTodo, tags: ['work', 'home'] }} onToggle={mockOnToggle} onRemove={mockOnRemove} />,
+        { testContainer }
+      );
+
+      expect(screen.getAllByTestId('tag').map(chip => chip.textContent)).toEqual(['#work', '#home']);
+      expect(screen.queryByRole('button', { name: '#work' })).not.toBeInTheDocument();
+    });
+
+    it('toggles the tag filter from a chip without selecting the row', async () => {
+      const user = userEvent.setup();
+      const mockOnTagClick = jest.fn();
+      const mockOnSelect = jest.fn();
+      renderWithContainer(
+        <TodoItem
+          todo={{ ...sampleTodo, tags: ['work'] }}
+          onToggle={mockOnToggle}
+          onRemove={mockOnRemove}
+          onSelect={mockOnSelect}
+          onTagClick={mockOnTagClick}
+          activeTags={['work']}
+        />,
+        { testContainer }
+      );
+
+      const chip = screen.getByRole('button', { name: '#work' });
+      expect(chip).toHaveAttribute('aria-pressed', 'true');
+
+      await user.keyboard('{Control>}');
+      await user.click(chip);
+      await user.keyboard('{/Control}');
+
+      expect(mockOnTagClick).toHaveBeenCalledWith('work');
+      expect(mockOnSelect).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Reordering', () => {
+    it('only offers a drag handle when it can be reordered', () => {
+      const { unmount } = renderWithContainer(
+        <TodoItem todo={sampleTodo} onToggle={mockOnToggle} onRemove={mockOnRemove} />,
+        { testContainer }
+      );
+      expect(screen.queryByRole('button', { name: 'Reorder Test todo item' })).not.toBeInTheDocument();
+      unmount();
+
+      const reorder = { startDrag: jest.fn(), handleKeyDown: jest.fn(), cancel: jest.fn() };
+      renderWithContainer(
+        <TodoItem todo={sampleTodo} onToggle={mockOnToggle} onRemove={mockOnRemove} reorder={reorder} />,
+        { testContainer }
+      );
+
+      const handle = screen.getByRole('button', { name: 'Reorder Test todo item' });
+      expect(handle).toHaveAttribute('aria-keyshortcuts', 'Alt+ArrowUp Alt+ArrowDown');
+      fireEvent.keyDown(handle, { key: 'ArrowUp', altKey: true });
+      expect(reorder.handleKeyDown).toHaveBeenCalledWith('test-todo-1', expect.objectContaining({ key: 'ArrowUp' }));
+    });
+  });
+
+  describe('Subtasks', () => {
+    const subtasks = [
+      { id: 's1', text: 'Book flights', completed: true },
+      { id: 's2', text: 'Book hotel', completed: false },
+    ];
+
+    it('shows progress and expands into the checklist', async () => {
+      const user = userEvent.setup();
+      renderWithContainer(
+        <TodoItem todo={{ ...sampleTodo, subtasks }} onToggle={mockOnToggle} onRemove={mockOnRemove} />,
+        { testContainer }
+      );
+
+      const progress = screen.getByRole('button', { name: 'Subtasks for Test todo item' });
+      expect(progress).toHaveTextContent('1/2');
+      expect(screen.queryByRole('list', { name: 'Subtasks of Test todo item' })).not.toBeInTheDocument();
+
+      await user.click(progress);
+
+      expect(progress).toHaveAttribute('aria-expanded', 'true');
+      expect(screen.getByRole('checkbox', { name: 'Book flights' })).toBeChecked();
+      expect(screen.getByRole('checkbox', { name: 'Book hotel' })).toBeDisabled();
+      expect(screen.queryByRole('textbox', { name: 'New subtask for Test todo item' })).not.toBeInTheDocument();
+    });
+
+    it('shows nothing for a todo without a checklist that cannot be edited', () => {
+      renderWithContainer(
+        <TodoItem todo={sampleTodo} onToggle={mockOnToggle} onRemove={mockOnRemove} />,
+        { testContainer }
+      );
+
+      expect(screen.queryByTestId('subtask-progress')).not.toBeInTheDocument();
+    });
+
+    it('adds, toggles and removes items through the actions', async () => {
+      const user = userEvent.setup();
+      const actions = { addSubtask: jest.fn(), toggleSubtask: jest.fn(), removeSubtask: jest.fn() };
+      renderWithContainer(
+        <TodoItem todo={{ ...sampleTodo, subtasks }} onToggle={mockOnToggle} onRemove={mockOnRemove} subtaskActions={actions} />,
+        { testContainer }
+      );
+
+      await user.click(screen.getByRole('button', { name: 'Subtasks for Test todo item' }));
+      await user.click(screen.getByRole('checkbox', { name: 'Book hotel' }));
+      await user.click(screen.getByRole('button', { name: 'Remove subtask Book flights' }));
+      await user.type(screen.getByRole('textbox', { name: 'New subtask for Test todo item' }), 'Pack{Enter}');
+
+      expect(actions.toggleSubtask).toHaveBeenCalledWith('test-todo-1', 's2');
+      expect(actions.removeSubtask).toHaveBeenCalledWith('test-todo-1', 's1');
+      expect(actions.addSubtask).toHaveBeenCalledWith('test-todo-1', 'Pack');
+      expect(mockOnToggle).not.toHaveBeenCalled();
+      expect(screen.getByRole('textbox', { name: 'New subtask for Test todo item' })).toHaveValue('');
+    });
+  });
 });
\ No newline at end of file
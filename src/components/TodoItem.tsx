@@ -1,41 +1,108 @@
 import React from 'react';
 import { Todo } from '../types';
+import type { TodoPatch, TodoSelectionMode } from '../stores/todoStore';
+import { EditableTodoText } from './EditableTodoText';
+import { selectedRowStyle, selectionModeForClick } from './TodoBulkActions';
+import { dueStatus } from '../stores/todoSelectors';
+import { DueDateBadge, DueDateInput, dueRowStyle } from './DueDate';
+import { PriorityBadge, PrioritySelect } from './Priority';
+import { RecurrenceBadge, RecurrenceSelect } from './Recurrence';
+import { TagChips } from './Tags';
+import { TodoSubtaskActions, TodoSubtasks } from './TodoSubtasks';
+import { TodoDrag, TodoDragHandle, TodoReorder, dragRowStyle, reorderRowProps } from './TodoReorder';
 
 interface TodoItemProps {
   todo: Todo;
   onToggle: (id: string) => void;
   onRemove: (id: string) => void;
+  // Enables double-click editing of the text
+  onUpdate?: (id: string, patch: TodoPatch) => void;
+  selected?: boolean;
+  // Enables Ctrl/Cmd-click and Shift-click selection
+  onSelect?: (id: string, mode: TodoSelectionMode) => void;
+  // Enables overdue and due-today highlighting
+  now?: Date;
+  // Makes the tag chips toggle the tag filter
+  onTagClick?: (tag: string) => void;
+  activeTags?: string[];
+  // Makes the checklist editable
+  subtaskActions?: TodoSubtaskActions;
+  // Enables dragging the todo by its handle, and moving it with Alt+Up/Down
+  reorder?: TodoReorder;
+  drag?: TodoDrag | null;
 }
 
-export const TodoItem: React.FC<TodoItemProps> = ({ todo, onToggle, onRemove }) => {
+export const TodoItem: React.FC<TodoItemProps> = ({ todo, onToggle, onRemove, onUpdate, selected = false, onSelect, now, onTagClick, activeTags, subtaskActions, reorder, drag }) => {
+  const status = now ? dueStatus(todo, now) : undefined;
+
+  const handleClick = (e: React.MouseEvent) => {
+    const mode = onSelect && selectionModeForClick(e);
+    if (mode) {
+      onSelect(todo.id, mode);
+    }
+  };
+
   return (
     <div
+      data-selected={selected || undefined}
+      onClick={handleClick}
+      {...(reorder && reorderRowProps(reorder, todo.id))}
       style={{
         display: 'flex',
+        flexWrap: 'wrap',
         alignItems: 'center',
         padding: '10px',
         border: '1px solid #eee',
         borderRadius: '4px',
         marginBottom: '10px',
-        backgroundColor: todo.completed ? '#f8f9fa' : 'white'
+        backgroundColor: todo.completed ? '#f8f9fa' : 'white',
+        ...dueRowStyle(status),
+        ...selectedRowStyle(selected),
+        ...dragRowStyle(todo.id, drag)
       }}
     >
+      {reorder && <TodoDragHandle text={todo.text} onPointerDown={(e) => reorder.startDrag(todo.id, e)} />}
       <input
         type="checkbox"
         checked={todo.completed}
         onChange={() => onToggle(todo.id)}
         style={{ marginRight: '10px' }}
       />
-      <span
-        data-testid="todo-text"
-        style={{
-          flex: 1,
-          textDecoration: todo.completed ? 'line-through' : 'none',
-          color: todo.completed ? '#6c757d' : 'black'
-        }}
-      >
-        {todo.text}
-      </span>
+      <EditableTodoText
+        text={todo.text}
+        completed={todo.completed}
+        onSave={onUpdate ? (text) => onUpdate(todo.id, { text }) : undefined}
+        onRemove={() => onRemove(todo.id)}
+        testId="todo-text"
+      />
+      <TagChips tags={todo.tags} onTagClick={onTagClick} activeTags={activeTags} />
+      <TodoSubtasks todo={todo} actions={subtaskActions} />
+      {todo.priority && <PriorityBadge priority={todo.priority} />}
+      {todo.recurrence && <RecurrenceBadge recurrence={todo.recurrence} completions={todo.completions} />}
+      {todo.dueDate && (status === 'overdue' || status === 'today' || !onUpdate) && (
+        <DueDateBadge dueDate={todo.dueDate} status={status} />
+      )}
+      {onUpdate && (
+        <DueDateInput
+          value={todo.dueDate}
+          onChange={(dueDate) => onUpdate(todo.id, { dueDate })}
+          label={`Due date for ${todo.text}`}
+        />
+      )}
+      {onUpdate && (
+        <PrioritySelect
+          value={todo.priority}
+          onChange={(priority) => onUpdate(todo.id, { priority })}
+          label={`Priority for ${todo.text}`}
+        />
+      )}
+      {onUpdate && (
+        <RecurrenceSelect
+          value={todo.recurrence}
+          onChange={(recurrence) => onUpdate(todo.id, { recurrence })}
+          label={`Repeats for ${todo.text}`}
+        />
+      )}
       <button
         onClick={() => onRemove(todo.id)}
         style={{
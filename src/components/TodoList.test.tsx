@@ -7,16 +7,15 @@ import { Todo } from '../types';
 import { TodoStore, TodoState } from '../stores/todoStore';
 import { TodoItem } from './TodoItem';
 import { AddTodo } from './AddTodo';
+import { useInjection } from '../container/ContainerProvider';
 import { 
   renderWithContainer, 
-  createTestContainer, 
-  useTestContainer 
+  createTestContainer 
 } from '../test-utils/component-test-utils';
 
-// Create a testable version of TodoList that uses the test container
+// A pared-down TodoList that resolves its store the same way
 const TestableTodoList: React.FC = () => {
-  const container = useTestContainer();
-  const todoStore = container.get<TodoStore>(TYPES.TodoStore);
+  const todoStore = useInjection<TodoStore>(TYPES.TodoStore);
   const todos = todoStore((state: TodoState) => state.todos);
   const addTodo = todoStore((state: TodoState) => state.addTodo);
   const toggleTodo = todoStore((state: TodoState) => state.toggleTodo);
@@ -1,25 +1,59 @@
 import React, { useEffect } from 'react';
-import { container } from '../container';
 import { TYPES } from '../container/types';
+import { useInjection } from '../container/ContainerProvider';
 import { Todo } from '../types';
 import { TodoStore, TodoState } from '../stores/todoStore';
+import { selectDueGroups, selectSelectedTodos, selectTagIndex, selectTodoCounts, selectVisibleTodos } from '../stores/todoSelectors';
+import type { ITodoExportService } from '../services/TodoExportService';
 import { TodoItem } from './TodoItem';
 import { AddTodo } from './AddTodo';
+import { TodoImportExportPanel } from './TodoImportExportPanel';
+import { useUndoRedoShortcuts } from './undoRedoShortcuts';
+import { TodoFilterFooter } from './TodoFilterFooter';
+import { useFilterHashRouting } from './filterHashRouting';
+import { TodoBulkActions } from './TodoBulkActions';
+import { TodoDueView } from './TodoDueView';
+import { TodoSortSelect } from './TodoSortSelect';
+import { TodoTagFilter } from './Tags';
+import { useTodoReorder } from './TodoReorder';
 
+// Shows the list whose container is provided: the app's own shows the default list
 export const TodoList: React.FC = () => {
-  const todoStore = container.get<TodoStore>(TYPES.TodoStore);
+  const todoStore = useInjection<TodoStore>(TYPES.TodoStore);
+  const exportService = useInjection<ITodoExportService>(TYPES.TodoExportService);
   const todos = todoStore((state: TodoState) => state.todos);
+  const visibleTodos = todoStore(selectVisibleTodos);
+  const counts = todoStore(selectTodoCounts);
+  const dueGroups = todoStore(selectDueGroups);
+  const filter = todoStore((state: TodoState) => state.filter);
+  const sortOrder = todoStore((state: TodoState) => state.sortOrder);
+  const tagFilter = todoStore((state: TodoState) => state.tagFilter);
+  const tagIndex = todoStore(selectTagIndex);
+  const selectedIds = todoStore((state: TodoState) => state.selectedIds);
+  const selectedCount = todoStore(selectSelectedTodos).length;
+  const isLoading = todoStore((state: TodoState) => state.isLoading);
+  const error = todoStore((state: TodoState) => state.error);
   const addTodo = todoStore((state: TodoState) => state.addTodo);
   const toggleTodo = todoStore((state: TodoState) => state.toggleTodo);
+  const updateTodo = todoStore((state: TodoState) => state.updateTodo);
   const removeTodo = todoStore((state: TodoState) => state.removeTodo);
+  const importTodos = todoStore((state: TodoState) => state.importTodos);
   const loadTodos = todoStore((state: TodoState) => state.loadTodos);
+  const setFilter = todoStore((state: TodoState) => state.setFilter);
+  const setSortOrder = todoStore((state: TodoState) => state.setSortOrder);
+  const selectTodo = todoStore((state: TodoState) => state.selectTodo);
+  const toggleTagFilter = todoStore((state: TodoState) => state.toggleTagFilter);
+  const setTagMatch = todoStore((state: TodoState) => state.setTagMatch);
+  const clearTagFilter = todoStore((state: TodoState) => state.clearTagFilter);
+  const now = todoStore((state: TodoState) => state.now);
 
   useEffect(() => {
     loadTodos();
   }, [loadTodos]);
 
-  const completedCount = todos.filter((todo: Todo) => todo.completed).length;
-  const totalCount = todos.length;
+  useUndoRedoShortcuts(todoStore);
+  useFilterHashRouting(todoStore);
+  const { reorder, drag } = useTodoReorder(todoStore);
 
   return (
     <div style={{ maxWidth: '600px', margin: '0 auto', padding: '20px' }}>
@@ -27,28 +61,61 @@ export const TodoList: React.FC = () => {
         Todo App
       </h1>
       
-      <AddTodo onAdd={addTodo} />
+      <AddTodo onAdd={addTodo} tagIndex={tagIndex} />
       
       <div style={{ marginBottom: '20px' }}>
         <p style={{ color: '#6c757d', fontSize: '14px' }}>
-          {totalCount > 0 ? (
-            `${completedCount} of ${totalCount} tasks completed`
+          {isLoading ? (
+            'Loading todos...'
+          ) : error ? (
+            `Could not load todos: ${error}`
+          ) : counts.total > 0 ? (
+            `${counts.completed} of ${counts.total} tasks completed`
           ) : (
             'No todos yet. Add one above!'
           )}
         </p>
       </div>
 
+      <TodoDueView groups={dueGroups} onToggle={toggleTodo} />
+
+      <TodoBulkActions counts={counts} selectedCount={selectedCount} actions={todoStore.getState()} />
+
+      {counts.total > 0 && <TodoSortSelect sortOrder={sortOrder} onSortOrderChange={setSortOrder} />}
+
+      <TodoTagFilter
+        tagIndex={tagIndex}
+        tagFilter={tagFilter}
+        onToggleTag={toggleTagFilter}
+        onMatchChange={setTagMatch}
+        onClear={clearTagFilter}
+      />
+
       <div>
-        {todos.map((todo: Todo) => (
+        {visibleTodos.map((todo: Todo) => (
           <TodoItem
             key={todo.id}
             todo={todo}
             onToggle={toggleTodo}
             onRemove={removeTodo}
+            onUpdate={updateTodo}
+            selected={selectedIds.includes(todo.id)}
+            onSelect={selectTodo}
+            onTagClick={toggleTagFilter}
+            activeTags={tagFilter.tags}
+            subtaskActions={todoStore.getState()}
+            reorder={sortOrder === 'manual' ? reorder : undefined}
+            drag={drag}
+            now={now()}
           />
         ))}
       </div>
+
+      {counts.total > 0 && (
+        <TodoFilterFooter filter={filter} counts={counts} onFilterChange={setFilter} />
+      )}
+
+      <TodoImportExportPanel todos={todos} exportService={exportService} onImport={importTodos} />
     </div>
   );
 };
\ No newline at end of file
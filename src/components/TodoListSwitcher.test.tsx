@@ -0,0 +1,91 @@
+import React from 'react';
+import { act, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { TodoListSwitcher } from './TodoListSwitcher';
+import { createTestContainer, bindTestTodoLists } from '../test-utils/test-container';
+import type { TodoListsStore } from '../stores/todoListsStore';
+import { DEFAULT_TODO_LIST_ID } from '../types';
+
+const ConnectedSwitcher: React.FC<{ todoLists: TodoListsStore }> = ({ todoLists }) => {
+  const lists = todoLists(state => state.lists);
+  const activeListId = todoLists(state => state.activeListId);
+  return <TodoListSwitcher lists={lists} activeListId={activeListId} actions={todoLists.getState()} />;
+};
+
+describe('TodoListSwitcher', () => {
+  let todoLists: TodoListsStore;
+
+  const tabs = () => screen.getAllByRole('button', { name: /^(Todos|Work|Home|Office)$/ }).map(tab => tab.textContent);
+
+  beforeEach(() => {
+    ({ todoLists } = bindTestTodoLists(createTestContainer().container));
+  });
+
+  it('creates a list and switches to it', async () => {
+    const user = userEvent.setup();
+    render(<ConnectedSwitcher todoLists={todoLists} />);
+
+    await user.type(screen.getByRole('textbox', { name: 'New list name' }), 'Work{Enter}');
+
+    expect(tabs()).toEqual(['Todos', 'Work']);
+    expect(screen.getByRole('button', { name: 'Work' })).toHaveAttribute('aria-current', 'page');
+    expect(screen.getByRole('textbox', { name: 'New list name' })).toHaveValue('');
+
+    await user.click(screen.getByRole('button', { name: 'Todos' }));
+    expect(todoLists.getState().activeListId).toBe(DEFAULT_TODO_LIST_ID);
+  });
+
+  it('renames the active list', async () => {
+    const user = userEvent.setup();
+    act(() => {
+      todoLists.getState().createList('Work');
+    });
+    render(<ConnectedSwitcher todoLists={todoLists} />);
+
+    await user.click(screen.getByRole('button', { name: 'Rename list' }));
+    await user.clear(screen.getByRole('textbox', { name: 'List name' }));
+    await user.type(screen.getByRole('textbox', { name: 'List name' }), 'Office{Enter}');
+
+    expect(tabs()).toEqual(['Todos', 'Office']);
+  });
+
+  it('offers neither archiving nor deleting the default list', () => {
+    render(<ConnectedSwitcher todoLists={todoLists} />);
+
+    expect(screen.getByRole('button', { name: 'Rename list' })).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Archive list' })).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Delete list' })).not.toBeInTheDocument();
+  });
+
+  it('archives a list and restores it from the archived lists', async () => {
+    const user = userEvent.setup();
+    act(() => {
+      todoLists.getState().createList('Work');
+    });
+    render(<ConnectedSwitcher todoLists={todoLists} />);
+
+    await user.click(screen.getByRole('button', { name: 'Archive list' }));
+    expect(tabs()).toEqual(['Todos']);
+
+    await user.click(screen.getByRole('button', { name: 'Archived (1)' }));
+    await user.click(screen.getByRole('button', { name: 'Restore' }));
+    expect(tabs()).toEqual(['Todos', 'Work']);
+  });
+
+  it('deletes a list only once confirmed', async () => {
+    const user = userEvent.setup();
+    act(() => {
+      todoLists.getState().createList('Work');
+    });
+    render(<ConnectedSwitcher todoLists={todoLists} />);
+
+    await user.click(screen.getByRole('button', { name: 'Delete list' }));
+    expect(screen.getByRole('alert')).toHaveTextContent('Delete "Work" and its todos?');
+    await user.click(screen.getByRole('button', { name: 'Cancel' }));
+    expect(tabs()).toEqual(['Todos', 'Work']);
+
+    await user.click(screen.getByRole('button', { name: 'Delete list' }));
+    await user.click(screen.getByRole('button', { name: 'Confirm delete' }));
+    expect(tabs()).toEqual(['Todos']);
+  });
+});
\ No newline at end of file
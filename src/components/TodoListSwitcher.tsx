@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { DEFAULT_TODO_LIST_ID, TodoListInfo } from '../types';
+import type { TodoListsState } from '../stores/todoListsStore';
+
+type TodoListActionHandlers = Pick<
+  TodoListsState,
+  'setActiveList' | 'createList' | 'renameList' | 'archiveList' | 'restoreList' | 'deleteList'
+>;
+
+interface TodoListSwitcherProps {
+  lists: TodoListInfo[];
+  activeListId: string;
+  actions: TodoListActionHandlers;
+}
+
+const buttonStyle: React.CSSProperties = {
+  padding: '5px 10px',
+  fontSize: '12px',
+  border: '1px solid #ddd',
+  borderRadius: '3px',
+  backgroundColor: 'white',
+  cursor: 'pointer'
+};
+
+const tabStyle = (active: boolean): React.CSSProperties => ({
+  ...buttonStyle,
+  fontSize: '14px',
+  fontWeight: active ? 'bold' : 'normal',
+  backgroundColor: active ? '#007bff' : 'white',
+  color: active ? 'white' : '#333',
+  borderColor: active ? '#007bff' : '#ddd'
+});
+
+const inputStyle: React.CSSProperties = {
+  padding: '4px 6px',
+  fontSize: '12px',
+  border: '1px solid #ddd',
+  borderRadius: '3px',
+  width: '140px'
+};
+
+// Tabs for the open lists, plus creating, renaming, archiving and deleting lists.
+// Deleting asks for confirmation, as it takes the list's todos with it.
+export const TodoListSwitcher: React.FC<TodoListSwitcherProps> = ({ lists, activeListId, actions }) => {
+  const [newName, setNewName] = useState('');
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+
+  const openLists = lists.filter(list => !list.archived);
+  const archivedLists = lists.filter(list => list.archived);
+  const activeList = lists.find(list => list.id === activeListId);
+
+  const switchTo = (id: string) => {
+    setRenaming(null);
+    setConfirmingDelete(false);
+    actions.setActiveList(id);
+  };
+
+  const handleCreate = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (newName.trim()) {
+      actions.createList(newName);
+      setNewName('');
+    }
+  };
+
+  const finishRename = (save: boolean) => {
+    if (save && renaming !== null && activeList) {
+      actions.renameList(activeList.id, renaming);
+    }
+    setRenaming(null);
+  };
+
+  return (
+    <div data-testid="todo-list-switcher" style={{ maxWidth: '600px', margin: '20px auto 0', padding: '0 20px' }}>
+      <nav aria-label="Todo lists" style={{ display: 'flex', flexWrap: 'wrap', gap: '6px', marginBottom: '10px' }}>
+        {openLists.map(list => (
+          <button
+            key={list.id}
+            aria-current={list.id === activeListId ? 'page' : undefined}
+            onClick={() => switchTo(list.id)}
+            style={tabStyle(list.id === activeListId)}
+          >
+            {list.name}
+          </button>
+        ))}
+      </nav>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '6px' }}>
+        <form onSubmit={handleCreate} style={{ display: 'flex', gap: '6px' }}>
+          <input
+            type="text"
+            aria-label="New list name"
+            placeholder="New list..."
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            style={inputStyle}
+          />
+          <button type="submit" disabled={!newName.trim()} style={buttonStyle}>Add list</button>
+        </form>
+
+        {activeList && renaming !== null && (
+          <input
+            type="text"
+            aria-label="List name"
+            value={renaming}
+            onChange={(e) => setRenaming(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                finishRename(true);
+              } else if (e.key === 'Escape') {
+                finishRename(false);
+              }
+            }}
+            onBlur={() => finishRename(true)}
+            autoFocus
+            style={inputStyle}
+          />
+        )}
+        {activeList && renaming === null && (
+          <button onClick={() => setRenaming(activeList.name)} style={buttonStyle}>Rename list</button>
+        )}
+        {activeList && activeList.id !== DEFAULT_TODO_LIST_ID && !confirmingDelete && (
+          <>
+            <button onClick={() => actions.archiveList(activeList.id)} style={buttonStyle}>Archive list</button>
+            <button onClick={() => setConfirmingDelete(true)} style={{ ...buttonStyle, color: '#dc3545' }}>
+              Delete list
+            </button>
+          </>
+        )}
+        {activeList && confirmingDelete && (
+          <span role="alert" style={{ fontSize: '12px' }}>
+            Delete "{activeList.name}" and its todos?{' '}
+            <button
+              onClick={() => {
+                setConfirmingDelete(false);
+                actions.deleteList(activeList.id);
+              }}
+              style={{ ...buttonStyle, color: '#dc3545' }}
+            >
+              Confirm delete
+            </button>{' '}
+            <button onClick={() => setConfirmingDelete(false)} style={buttonStyle}>Cancel</button>
+          </span>
+        )}
+        {archivedLists.length > 0 && (
+          <button aria-expanded={showArchived} onClick={() => setShowArchived(!showArchived)} style={buttonStyle}>
+            Archived ({archivedLists.length})
+          </button>
+        )}
+      </div>
+
+      {showArchived && archivedLists.length > 0 && (
+        <ul aria-label="Archived lists" style={{ listStyle: 'none', padding: 0, fontSize: '14px', color: '#6c757d' }}>
+          {archivedLists.map(list => (
+            <li key={list.id} style={{ marginTop: '6px' }}>
+              {list.name}{' '}
+              <button onClick={() => actions.restoreList(list.id)} style={buttonStyle}>Restore</button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,188 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { TodoStore } from '../stores/todoStore';
+import { selectVisibleTodos } from '../stores/todoSelectors';
+import { TodoMoveDirection, dropTarget, sortByOrder, stepTarget } from '../stores/todoOrder';
+import { isTextField } from './undoRedoShortcuts';
+
+export interface TodoDrag {
+  id: string;
+  // The row under the pointer, and which of its edges the todo would land on
+  overId: string;
+  edge: 'top' | 'bottom';
+}
+
+export interface TodoReorder {
+  // For pointerdown on a row's drag handle
+  startDrag: (id: string, e: React.PointerEvent) => void;
+  // For keydown on a row: Alt+Up and Alt+Down move the todo past its neighbour
+  handleKeyDown: (id: string, e: React.KeyboardEvent) => void;
+  // Drops a drag in progress without moving anything
+  cancel: () => void;
+}
+
+export const moveDirectionForKey = (e: React.KeyboardEvent | KeyboardEvent): TodoMoveDirection | null => {
+  if (!e.altKey || e.ctrlKey || e.metaKey || e.shiftKey) {
+    return null;
+  }
+  return e.key === 'ArrowUp' ? 'up' : e.key === 'ArrowDown' ? 'down' : null;
+};
+
+const todoIdAt = (x: number, y: number): string | null =>
+  document.elementFromPoint?.(x, y)?.closest('[data-todo-id]')?.getAttribute('data-todo-id') ?? null;
+
+// Reorders the rows of a todo list, which need `data-todo-id` (see reorderRowProps).
+// Rows are picked as they are shown, filtered, and a todo lands next to the one it is
+// dropped on in the manual order. A sorted list keeps its order, so nothing moves there.
+export const createTodoReorder = (
+  todoStore: TodoStore,
+  onDragChange: (drag: TodoDrag | null) => void,
+  target: Window = window
+): TodoReorder => {
+  let drag: TodoDrag | null = null;
+
+  const isSorted = () => todoStore.getState().sortOrder !== 'manual';
+
+  const shown = () => {
+    const state = todoStore.getState();
+    return { todos: sortByOrder(state.todos), visible: selectVisibleTodos(state) };
+  };
+
+  const handlePointerMove = (e: PointerEvent) => {
+    const overId = todoIdAt(e.clientX, e.clientY);
+    const { visible } = shown();
+    const over = visible.findIndex(todo => todo.id === overId);
+    if (!drag || !overId || over === -1 || overId === drag.overId) {
+      return;
+    }
+    const edge = over > visible.findIndex(todo => todo.id === drag?.id) ? 'bottom' : 'top';
+    drag = { ...drag, overId, edge };
+    onDragChange(drag);
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) {
+      return;
+    }
+    const { todos, visible } = shown();
+    const { id, overId } = drag;
+    cancel();
+    const beforeId = dropTarget(todos, visible, id, overId);
+    if (beforeId !== undefined) {
+      todoStore.getState().moveTodo(id, beforeId);
+    }
+  };
+
+  const handleEscape = (e: KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      cancel();
+    }
+  };
+
+  const cancel = () => {
+    if (!drag) {
+      return;
+    }
+    drag = null;
+    target.removeEventListener('pointermove', handlePointerMove);
+    target.removeEventListener('pointerup', handlePointerUp);
+    target.removeEventListener('pointercancel', cancel);
+    target.removeEventListener('keydown', handleEscape);
+    onDragChange(null);
+  };
+
+  const startDrag = (id: string, e: React.PointerEvent) => {
+    if (e.button !== 0 || isSorted()) {
+      return;
+    }
+    // Keeps the browser from selecting text on the way
+    e.preventDefault();
+    cancel();
+    drag = { id, overId: id, edge: 'top' };
+    target.addEventListener('pointermove', handlePointerMove);
+    target.addEventListener('pointerup', handlePointerUp);
+    target.addEventListener('pointercancel', cancel);
+    target.addEventListener('keydown', handleEscape);
+    onDragChange(drag);
+  };
+
+  const handleKeyDown = (id: string, e: React.KeyboardEvent) => {
+    const direction = moveDirectionForKey(e);
+    // Selects open on Alt+Down, and text fields move the caret
+    if (!direction || isSorted() || isTextField(e.target) || e.target instanceof HTMLSelectElement) {
+      return;
+    }
+    e.preventDefault();
+    const { todos, visible } = shown();
+    const beforeId = stepTarget(todos, visible, id, direction);
+    if (beforeId === undefined) {
+      return;
+    }
+    const focused = document.activeElement;
+    todoStore.getState().moveTodo(id, beforeId);
+    // The row is moved in the page, which can take the focus away from it
+    if (focused instanceof HTMLElement) {
+      requestAnimationFrame(() => {
+        if (focused.isConnected && document.activeElement !== focused) {
+          focused.focus();
+        }
+      });
+    }
+  };
+
+  return { startDrag, handleKeyDown, cancel };
+};
+
+export const useTodoReorder = (todoStore: TodoStore) => {
+  const [drag, setDrag] = useState<TodoDrag | null>(null);
+  const reorder = useMemo(() => createTodoReorder(todoStore, setDrag), [todoStore]);
+
+  useEffect(() => reorder.cancel, [reorder]);
+
+  return { reorder, drag };
+};
+
+export const reorderRowProps = (reorder: TodoReorder, id: string) => ({
+  'data-todo-id': id,
+  onKeyDown: (e: React.KeyboardEvent) => reorder.handleKeyDown(id, e)
+});
+
+export const dragRowStyle = (id: string, drag: TodoDrag | null | undefined): React.CSSProperties => {
+  if (!drag) {
+    return {};
+  }
+  if (drag.id === id) {
+    return { opacity: 0.5 };
+  }
+  if (drag.overId !== id) {
+    return {};
+  }
+  return drag.edge === 'top' ? { boxShadow: 'inset 0 3px 0 #007bff' } : { boxShadow: 'inset 0 -3px 0 #007bff' };
+};
+
+interface TodoDragHandleProps {
+  text: string;
+  onPointerDown: (e: React.PointerEvent) => void;
+}
+
+export const TodoDragHandle: React.FC<TodoDragHandleProps> = ({ text, onPointerDown }) => (
+  <button
+    type="button"
+    aria-label={`Reorder ${text}`}
+    aria-keyshortcuts="Alt+ArrowUp Alt+ArrowDown"
+    title="Drag to reorder, or press Alt+↑/↓"
+    data-drag-handle
+    onPointerDown={onPointerDown}
+    style={{
+      padding: '0 4px',
+      marginRight: '6px',
+      border: 'none',
+      background: 'none',
+      color: '#adb5bd',
+      fontSize: '16px',
+      cursor: 'grab',
+      touchAction: 'none'
+    }}
+  >
+    ⠿
+  </button>
+);
\ No newline at end of file
@@ -0,0 +1,37 @@
+import React from 'react';
+import { TODO_SORT_ORDERS, TodoSortOrder } from '../stores/todoStore';
+
+const SORT_ORDER_LABELS: Record<TodoSortOrder, string> = {
+  manual: 'Order added',
+  priority: 'Priority',
+  dueDate: 'Due date',
+  createdAt: 'Date created',
+};
+
+interface TodoSortSelectProps {
+  sortOrder: TodoSortOrder;
+  onSortOrderChange: (sortOrder: TodoSortOrder) => void;
+}
+
+// Todos can only be dragged into place in the manual order, which the hint points to
+export const TodoSortSelect: React.FC<TodoSortSelectProps> = ({ sortOrder, onSortOrderChange }) => (
+  <div style={{ marginBottom: '10px', fontSize: '14px', color: '#6c757d' }}>
+    <label>
+      Sort by{' '}
+      <select
+        value={sortOrder}
+        onChange={(e) => onSortOrderChange(e.target.value as TodoSortOrder)}
+        style={{ padding: '4px 6px', fontSize: '14px', border: '1px solid #ddd', borderRadius: '3px' }}
+      >
+        {TODO_SORT_ORDERS.map(option => (
+          <option key={option} value={option}>{SORT_ORDER_LABELS[option]}</option>
+        ))}
+      </select>
+    </label>
+    {sortOrder !== 'manual' && (
+      <span data-testid="reorder-hint" style={{ marginLeft: '8px', fontSize: '12px' }}>
+        Sort by {SORT_ORDER_LABELS.manual} to drag todos into place
+      </span>
+    )}
+  </div>
+);
\ No newline at end of file
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import type { Todo } from '../types';
+import type { TodoState } from '../stores/todoStore';
+import { subtaskProgress } from '../stores/todoSelectors';
+
+export type TodoSubtaskActions = Pick<TodoState, 'addSubtask' | 'toggleSubtask' | 'removeSubtask'>;
+
+interface TodoSubtasksProps {
+  todo: Todo;
+  // Without actions the checklist can be looked at but not changed
+  actions?: TodoSubtaskActions;
+}
+
+const progressStyle = (complete: boolean): React.CSSProperties => ({
+  fontSize: '11px',
+  color: complete ? '#28a745' : '#6c757d',
+  backgroundColor: 'white',
+  border: `1px solid ${complete ? '#28a745' : '#ddd'}`,
+  borderRadius: '10px',
+  padding: '2px 8px',
+  marginRight: '10px',
+  whiteSpace: 'nowrap',
+  cursor: 'pointer'
+});
+
+// A "done/total" indicator that expands into the todo's checklist. Rows lay out
+// in a wrapping flex line, so the checklist takes a line of its own below the row.
+export const TodoSubtasks: React.FC<TodoSubtasksProps> = ({ todo, actions }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [newText, setNewText] = useState('');
+  const progress = subtaskProgress(todo);
+
+  if (!progress && !actions) {
+    return null;
+  }
+
+  const handleAdd = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (actions && newText.trim()) {
+      actions.addSubtask(todo.id, newText);
+      setNewText('');
+    }
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        data-testid="subtask-progress"
+        aria-expanded={expanded}
+        aria-label={`Subtasks for ${todo.text}`}
+        onClick={() => setExpanded(!expanded)}
+        style={progressStyle(!!progress && progress.done === progress.total)}
+      >
+        {progress ? `${progress.done}/${progress.total}` : '+ Subtasks'}
+      </button>
+      {expanded && (
+        <div style={{ flexBasis: '100%', order: 1, padding: '6px 0 0 30px' }}>
+          <ul aria-label={`Subtasks of ${todo.text}`} style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+            {(todo.subtasks ?? []).map(subtask => (
+              <li key={subtask.id} style={{ display: 'flex', alignItems: 'center', padding: '2px 0', fontSize: '14px' }}>
+                <input
+                  type="checkbox"
+                  aria-label={subtask.text}
+                  checked={subtask.completed}
+                  disabled={!actions}
+                  onChange={() => actions?.toggleSubtask(todo.id, subtask.id)}
+                  style={{ marginRight: '8px' }}
+                />
+                <span
+                  style={{
+                    flex: 1,
+                    textDecoration: subtask.completed ? 'line-through' : 'none',
+                    color: subtask.completed ? '#6c757d' : 'inherit'
+                  }}
+                >
+                  {subtask.text}
+                </span>
+                {actions && (
+                  <button
+                    type="button"
+                    aria-label={`Remove subtask ${subtask.text}`}
+                    onClick={() => actions.removeSubtask(todo.id, subtask.id)}
+                    style={{ background: 'none', border: 'none', color: '#dc3545', cursor: 'pointer' }}
+                  >
+                    ×
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+          {actions && (
+            <form onSubmit={handleAdd} style={{ marginTop: '4px' }}>
+              <input
+                type="text"
+                aria-label={`New subtask for ${todo.text}`}
+                placeholder="Add a subtask..."
+                value={newText}
+                onChange={(e) => setNewText(e.target.value)}
+                style={{ padding: '4px 6px', fontSize: '12px', border: '1px solid #ddd', borderRadius: '3px', width: '200px' }}
+              />
+            </form>
+          )}
+        </div>
+      )}
+    </>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,39 @@
+import { useEffect } from 'react';
+import type { TodoFilter, TodoStore } from '../stores/todoStore';
+
+export const FILTER_HASHES: Record<TodoFilter, string> = {
+  all: '#/',
+  active: '#/active',
+  completed: '#/completed',
+};
+
+export const filterFromHash = (hash: string): TodoFilter => {
+  const match = (Object.keys(FILTER_HASHES) as TodoFilter[]).find(filter => FILTER_HASHES[filter] === hash);
+  return match ?? 'all';
+};
+
+// Keeps the store's filter and the URL hash in step: the hash wins on start-up
+// (deep links) and on hashchange (back/forward), and filter changes made through
+// the store push a new hash. Returns a function that stops syncing.
+export const bindFilterToLocationHash = (todoStore: TodoStore, target: Window = window): (() => void) => {
+  const applyHash = () => {
+    todoStore.getState().setFilter(filterFromHash(target.location.hash));
+  };
+
+  applyHash();
+  const unsubscribe = todoStore.subscribe((state, previousState) => {
+    if (state.filter !== previousState.filter && filterFromHash(target.location.hash) !== state.filter) {
+      target.location.hash = FILTER_HASHES[state.filter];
+    }
+  });
+  target.addEventListener('hashchange', applyHash);
+
+  return () => {
+    unsubscribe();
+    target.removeEventListener('hashchange', applyHash);
+  };
+};
+
+export const useFilterHashRouting = (todoStore: TodoStore) => {
+  useEffect(() => bindFilterToLocationHash(todoStore), [todoStore]);
+};
\ No newline at end of file
@@ -1,3 +1,16 @@
 export * from './TodoList';
 export * from './TodoItem';
-export * from './AddTodo';
\ No newline at end of file
+export * from './AddTodo';
+export * from './TodoImportExportPanel';
+export * from './EditableTodoText';
+export * from './TodoFilterFooter';
+export * from './TodoBulkActions';
+export * from './DueDate';
+export * from './TodoDueView';
+export * from './Priority';
+export * from './TodoSortSelect';
+export * from './Tags';
+export * from './TodoListSwitcher';
+export * from './TodoSubtasks';
+export * from './Recurrence';
+export * from './TodoReorder';
\ No newline at end of file
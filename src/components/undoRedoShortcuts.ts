@@ -0,0 +1,35 @@
+import { useEffect } from 'react';
+import type { TodoStore } from '../stores/todoStore';
+
+const NON_TEXT_INPUTS = ['checkbox', 'radio', 'button', 'submit', 'reset', 'file', 'range', 'color'];
+
+// Text fields keep their browser's own undo for what is being typed
+export const isTextField = (target: EventTarget | null): boolean => {
+  if (target instanceof HTMLInputElement) {
+    return !NON_TEXT_INPUTS.includes(target.type);
+  }
+  return target instanceof HTMLTextAreaElement || (target instanceof HTMLElement && target.isContentEditable);
+};
+
+// Ctrl+Z undoes and Ctrl+Shift+Z redoes the last todo change (Cmd on macOS).
+// Returns a function that removes the shortcuts again.
+export const bindUndoRedoShortcuts = (todoStore: TodoStore, target: Window = window): (() => void) => {
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey) || e.altKey || e.key.toLowerCase() !== 'z' || isTextField(e.target)) {
+      return;
+    }
+    e.preventDefault();
+    if (e.shiftKey) {
+      todoStore.getState().redo();
+    } else {
+      todoStore.getState().undo();
+    }
+  };
+
+  target.addEventListener('keydown', handleKeyDown);
+  return () => target.removeEventListener('keydown', handleKeyDown);
+};
+
+export const useUndoRedoShortcuts = (todoStore: TodoStore) => {
+  useEffect(() => bindUndoRedoShortcuts(todoStore), [todoStore]);
+};
\ No newline at end of file
@@ -0,0 +1,162 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { Container } from 'inversify';
+import { TYPES } from './types';
+import {
+  ContainerInjectionError,
+  ContainerProvider,
+  useContainer,
+  useInjection,
+  useOptionalInjection,
+} from './ContainerProvider';
+import { createTestContainer } from '../test-utils/test-container';
+import { TodoList } from '../components/TodoList';
+import type { TodoStore } from '../stores/todoStore';
+
+const GREETING = Symbol.for('Greeting');
+
+const Greeting: React.FC = () => <p>{useInjection<string>(GREETING)}</p>;
+
+const OptionalGreeting: React.FC = () => <p>{useOptionalInjection<string>(GREETING) ?? 'No greeting'}</p>;
+
+// React logs the errors it catches while rendering; they are what is being tested
+const renderFailing = (ui: React.ReactElement) => () => {
+  const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+  try {
+    render(ui);
+  } finally {
+    consoleError.mockRestore();
+  }
+};
+
+describe('ContainerProvider', () => {
+  let container: Container;
+
+  beforeEach(() => {
+    container = new Container();
+    container.bind<string>(GREETING).toConstantValue('Hello');
+  });
+
+  it('resolves dependencies from the provided container', () => {
+    render(
+      <ContainerProvider container={container}>
+        <Greeting />
+      </ContainerProvider>
+    );
+
+    expect(screen.getByText('Hello')).toBeInTheDocument();
+  });
+
+  it('lets a nested provider override the container with a child one', () => {
+    const child = container.createChild();
+    child.bind<string>(GREETING).toConstantValue('Hello from the child');
+    const Seen: React.FC = () => <p>{useContainer() === child ? 'child' : 'root'}</p>;
+
+    render(
+      <ContainerProvider container={container}>
+        <Greeting />
+        <ContainerProvider container={child}>
+          <Greeting />
+          <Seen />
+        </ContainerProvider>
+      </ContainerProvider>
+    );
+
+    expect(screen.getByText('Hello')).toBeInTheDocument();
+    expect(screen.getByText('Hello from the child')).toBeInTheDocument();
+    expect(screen.getByText('child')).toBeInTheDocument();
+  });
+
+  it('falls back to the parent of a child container', () => {
+    render(
+      <ContainerProvider container={container.createChild()}>
+        <Greeting />
+      </ContainerProvider>
+    );
+
+    expect(screen.getByText('Hello')).toBeInTheDocument();
+  });
+
+  it('resolves a transient binding once, not on every render', () => {
+    let built = 0;
+    const SERVICE = Symbol.for('Service');
+    container.bind(SERVICE).toDynamicValue(() => ({ id: ++built }));
+    const Service: React.FC<{ label: string }> = ({ label }) => (
+      <p>{label} {useInjection<{ id: number }>(SERVICE).id}</p>
+    );
+
+    const { rerender } = render(
+      <ContainerProvider container={container}>
+        <Service label="First" />
+      </ContainerProvider>
+    );
+    rerender(
+      <ContainerProvider container={container}>
+        <Service label="Again" />
+      </ContainerProvider>
+    );
+
+    expect(screen.getByText('Again 1')).toBeInTheDocument();
+    expect(built).toBe(1);
+  });
+
+  it('names the missing binding', () => {
+    const renderIt = renderFailing(
+      <ContainerProvider container={new Container()}>
+        <Greeting />
+      </ContainerProvider>
+    );
+
+    expect(renderIt).toThrow(new ContainerInjectionError(
+      'Nothing is bound to Symbol(Greeting) in the container of the nearest ContainerProvider'
+    ));
+  });
+
+  it('says when there is no provider at all', () => {
+    const renderIt = renderFailing(<Greeting />);
+
+    expect(renderIt).toThrow(new ContainerInjectionError('useInjection(Symbol(Greeting)) must be used within a ContainerProvider'));
+  });
+
+  describe('useOptionalInjection', () => {
+    it('resolves what is bound and gives undefined for what is not', () => {
+      render(
+        <>
+          <ContainerProvider container={container}>
+            <OptionalGreeting />
+          </ContainerProvider>
+          <ContainerProvider container={new Container()}>
+            <OptionalGreeting />
+          </ContainerProvider>
+        </>
+      );
+
+      expect(screen.getByText('Hello')).toBeInTheDocument();
+      expect(screen.getByText('No greeting')).toBeInTheDocument();
+    });
+
+    it('still needs a provider', () => {
+      expect(renderFailing(<OptionalGreeting />)).toThrow(ContainerInjectionError);
+    });
+  });
+
+  it('shows the list of the child container provided below the app\'s', () => {
+    const { container: root, todoStore } = createTestContainer();
+    todoStore.getState().addTodo('On the default list');
+    const scope = root.createChild();
+    const workStore = createTestContainer().todoStore;
+    workStore.getState().addTodo('On the work list');
+    scope.bind<TodoStore>(TYPES.TodoStore).toConstantValue(workStore);
+
+    render(
+      <ContainerProvider container={root}>
+        <ContainerProvider container={scope}>
+          <TodoList />
+        </ContainerProvider>
+      </ContainerProvider>
+    );
+
+    expect(screen.getByText('On the work list')).toBeInTheDocument();
+    expect(screen.queryByText('On the default list')).not.toBeInTheDocument();
+  });
+});
\ No newline at end of file
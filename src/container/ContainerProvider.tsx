@@ -0,0 +1,62 @@
+import React, { createContext, useContext, useMemo } from 'react';
+import { Container, getServiceIdentifierAsString, interfaces } from 'inversify';
+
+export class ContainerInjectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ContainerInjectionError';
+  }
+}
+
+// Class components cannot use the hooks below, so withInjection and injectProp read this directly
+export const ContainerContext = createContext<Container | null>(null);
+
+interface ContainerProviderProps {
+  container: Container;
+  children: React.ReactNode;
+}
+
+// Makes a container available to the components below it. Providers nest: a list's
+// child container (see TodoListScopes) overrides the app's for the part of the tree
+// that shows the list, and still falls back to the app's bindings.
+export const ContainerProvider: React.FC<ContainerProviderProps> = ({ container, children }) => (
+  <ContainerContext.Provider value={container}>
+    {children}
+  </ContainerContext.Provider>
+);
+
+const useNearestContainer = (caller: string): Container => {
+  const container = useContext(ContainerContext);
+  if (!container) {
+    throw new ContainerInjectionError(`${caller} must be used within a ContainerProvider`);
+  }
+  return container;
+};
+
+// The container of the nearest ContainerProvider
+export const useContainer = (): Container => useNearestContainer('useContainer');
+
+const nameOf = (serviceIdentifier: interfaces.ServiceIdentifier<unknown>) =>
+  getServiceIdentifierAsString(serviceIdentifier);
+
+// Resolves once per container, so a transient binding is not built again on every render
+export const useInjection = <T,>(serviceIdentifier: interfaces.ServiceIdentifier<T>): T => {
+  const container = useNearestContainer(`useInjection(${nameOf(serviceIdentifier)})`);
+  return useMemo(() => {
+    if (!container.isBound(serviceIdentifier)) {
+      throw new ContainerInjectionError(
+        `Nothing is bound to ${nameOf(serviceIdentifier)} in the container of the nearest ContainerProvider`
+      );
+    }
+    return container.get<T>(serviceIdentifier);
+  }, [container, serviceIdentifier]);
+};
+
+// For dependencies a component can do without; undefined when nothing is bound
+export const useOptionalInjection = <T,>(serviceIdentifier: interfaces.ServiceIdentifier<T>): T | undefined => {
+  const container = useNearestContainer(`useOptionalInjection(${nameOf(serviceIdentifier)})`);
+  return useMemo(
+    () => (container.isBound(serviceIdentifier) ? container.get<T>(serviceIdentifier) : undefined),
+    [container, serviceIdentifier]
+  );
+};
\ No newline at end of file
@@ -0,0 +1,99 @@
+import 'reflect-metadata';
+import { Container } from 'inversify';
+import { TYPES } from './types';
+import { AppContainerError, AppEnvironment, createAppContainer, findUnboundTypes, validateAppContainer } from './appContainer';
+import type { ITodoListScopes } from './todoListScopes';
+import { MockLoggingService } from '../test-utils/MockLoggingService';
+import { InMemoryTodoRepository } from '../repositories/InMemoryTodoRepository';
+import { RestTodoRepository } from '../repositories/RestTodoRepository';
+import { ServerWinsConflictResolver } from '../services/ConflictResolver';
+import { UlidIdGenerator, UuidIdGenerator } from '../services/IdGenerator';
+import type { TodoStore } from '../stores/todoStore';
+
+describe('createAppContainer', () => {
+  it.each<AppEnvironment>(['development', 'production', 'test', 'storybook'])(
+    'binds every token for %s',
+    (environment) => {
+      const container = createAppContainer({ environment });
+
+      expect(findUnboundTypes(container)).toEqual([]);
+      expect(container.get(TYPES.TodoStore)).toBeDefined();
+      expect(container.get(TYPES.TodoLists)).toBeDefined();
+    }
+  );
+
+  it('keeps todos in memory and numbers the ids for tests', () => {
+    const container = createAppContainer({ environment: 'test' });
+    const todoStore = container.get<TodoStore>(TYPES.TodoStore);
+
+    todoStore.getState().addTodo('First');
+
+    expect(container.get(TYPES.TodoRepository)).toBeInstanceOf(InMemoryTodoRepository);
+    expect(todoStore.getState().todos[0].id).toBe('todo-1');
+  });
+
+  it('ignores a REST backend outside development and production', () => {
+    const container = createAppContainer({ environment: 'storybook', apiUrl: 'http://localhost:3001' });
+
+    expect(container.get(TYPES.TodoRepository)).toBeInstanceOf(InMemoryTodoRepository);
+    expect(container.isBound(TYPES.TodoOutbox)).toBe(false);
+  });
+
+  it('syncs with a REST backend through an outbox when given one', () => {
+    const container = createAppContainer({
+      environment: 'production',
+      apiUrl: 'http://localhost:3001',
+      conflictPolicy: 'server-wins',
+    });
+
+    expect(container.get(TYPES.TodoRepository)).toBeInstanceOf(RestTodoRepository);
+    expect(container.get(TYPES.ConflictResolver)).toBeInstanceOf(ServerWinsConflictResolver);
+    expect(container.isBound(TYPES.TodoOutbox)).toBe(true);
+  });
+
+  it('stores lists in the browser without a backend', () => {
+    const container = createAppContainer({ environment: 'development' });
+
+    expect(container.get(TYPES.TodoRepository)).not.toBeInstanceOf(InMemoryTodoRepository);
+    expect(container.isBound(TYPES.TodoOutbox)).toBe(false);
+  });
+
+  it('picks the id format', () => {
+    expect(createAppContainer({ environment: 'production' }).get(TYPES.IdGenerator)).toBeInstanceOf(UuidIdGenerator);
+    expect(createAppContainer({ environment: 'production', idFormat: 'ulid' }).get(TYPES.IdGenerator))
+      .toBeInstanceOf(UlidIdGenerator);
+  });
+
+  it('binds the overrides in place of what the modules bind', () => {
+    const mockLoggingService = new MockLoggingService();
+    const container = createAppContainer({ environment: 'test', overrides: { LoggingService: mockLoggingService } });
+
+    container.get<TodoStore>(TYPES.TodoStore).getState().addTodo('Logged');
+
+    expect(container.get(TYPES.LoggingService)).toBe(mockLoggingService);
+    expect(mockLoggingService.getLastInfoLog().message).toBe('Todo added');
+  });
+
+  it('shows named lists from child containers of the app container', () => {
+    const container = createAppContainer({ environment: 'test' });
+    const scopes = container.get<ITodoListScopes>(TYPES.TodoListScopes);
+
+    expect(scopes.get('work').parent).toBe(container);
+  });
+});
+
+describe('validateAppContainer', () => {
+  it('names every token nothing is bound to, leaving out the optional ones', () => {
+    const container = createAppContainer({ environment: 'test' });
+    container.unbind(TYPES.TodoStore);
+    container.unbind(TYPES.TodoLists);
+
+    expect(() => validateAppContainer(container, 'test')).toThrow(
+      new AppContainerError('Nothing is bound to TodoLists, TodoStore in the test container')
+    );
+  });
+
+  it('finds nothing bound in an empty container', () => {
+    expect(findUnboundTypes(new Container())).toHaveLength(Object.keys(TYPES).length - 2);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,110 @@
+import 'reflect-metadata';
+import { Container } from 'inversify';
+import { TYPES } from './types';
+import { TodoIdFormat, createStorageModule, createStoresModule, createUiModule, loggingModule } from './modules';
+import { traceDependencies } from './diagnostics';
+import type { ITodoListScopes } from './todoListScopes';
+import type { ILoggingService } from '../services/LoggingService';
+import type { IClock } from '../services/Clock';
+import type { IIdGenerator } from '../services/IdGenerator';
+import type { ConflictPolicy, IConflictResolver } from '../services/ConflictResolver';
+import type { ITodoOutbox } from '../services/TodoOutbox';
+import type { ITodoExportService } from '../services/TodoExportService';
+import type { ITodoPreferences } from '../services/TodoPreferences';
+import type { ITodoRepository, TodoRepositoryFactory } from '../repositories/TodoRepository';
+import type { TodoMigrationRegistry } from '../migrations/TodoMigrationRegistry';
+import type { TodoStore } from '../stores/todoStore';
+import type { TodoListsStore } from '../stores/todoListsStore';
+
+export class AppContainerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AppContainerError';
+  }
+}
+
+// development and production keep todos in the browser, or on a REST backend when
+// given one; test and storybook keep them in memory and number their ids
+export type AppEnvironment = 'development' | 'production' | 'test' | 'storybook';
+
+export type AppTypeName = keyof typeof TYPES;
+
+// What is bound to each token in TYPES
+export interface AppBindings extends Record<AppTypeName, unknown> {
+  Clock: IClock;
+  LoggingService: ILoggingService;
+  ConflictResolver: IConflictResolver;
+  IdGenerator: IIdGenerator;
+  TodoExportService: ITodoExportService;
+  TodoHistoryLimit: number;
+  TodoListId: string;
+  TodoLists: TodoListsStore;
+  TodoListScopes: ITodoListScopes;
+  TodoOutbox: ITodoOutbox;
+  TodoPreferences: ITodoPreferences;
+  TodoMigrations: TodoMigrationRegistry;
+  TodoRepository: ITodoRepository;
+  TodoRepositoryFactory: TodoRepositoryFactory;
+  TodoStore: TodoStore;
+}
+
+export interface AppContainerOptions {
+  environment: AppEnvironment;
+  // A REST backend to sync todos with, for development and production
+  apiUrl?: string;
+  conflictPolicy?: ConflictPolicy;
+  idFormat?: TodoIdFormat;
+  // Bound in place of what the environment would bind, e.g. a mock logger
+  overrides?: Partial<AppBindings>;
+}
+
+// Only bound when there is a REST backend to sync with
+const OPTIONAL_TYPES: AppTypeName[] = ['ConflictResolver', 'TodoOutbox'];
+
+// The tokens in TYPES that nothing is bound to, leaving out the optional ones
+export const findUnboundTypes = (container: Container): AppTypeName[] =>
+  (Object.keys(TYPES) as AppTypeName[]).filter(name =>
+    !OPTIONAL_TYPES.includes(name) && !container.isBound(TYPES[name])
+  );
+
+export const validateAppContainer = (container: Container, environment: string = 'app'): void => {
+  const unbound = findUnboundTypes(container);
+  if (unbound.length > 0) {
+    throw new AppContainerError(`Nothing is bound to ${unbound.join(', ')} in the ${environment} container`);
+  }
+};
+
+// The composition root: loads the logging, storage, stores and UI modules as the
+// environment needs them, binds the overrides and checks that every token is bound
+export const createAppContainer = ({
+  environment,
+  apiUrl,
+  conflictPolicy,
+  idFormat = 'uuid',
+  overrides = {},
+}: AppContainerOptions): Container => {
+  const container = new Container();
+  const inMemory = environment === 'test' || environment === 'storybook';
+
+  container.load(
+    loggingModule,
+    createStorageModule(inMemory ? { storage: 'memory' } : { storage: 'browser', apiUrl, conflictPolicy }),
+    createStoresModule({ idFormat: inMemory ? 'sequential' : idFormat }),
+    createUiModule(container)
+  );
+
+  (Object.keys(overrides) as AppTypeName[]).forEach(name => {
+    const serviceIdentifier = TYPES[name];
+    const binding = container.isBound(serviceIdentifier)
+      ? container.rebind(serviceIdentifier)
+      : container.bind(serviceIdentifier);
+    binding.toConstantValue(overrides[name]);
+  });
+
+  validateAppContainer(container, environment);
+  // So the diagnostics panel can tell what the dynamic values depend on
+  if (environment === 'development') {
+    traceDependencies(container);
+  }
+  return container;
+};
\ No newline at end of file
@@ -0,0 +1,193 @@
+import 'reflect-metadata';
+import { Component } from 'react';
+import { Container, LazyServiceIdentifier, inject, injectable, optional } from 'inversify';
+import { TYPES } from './types';
+import { createAppContainer } from './appContainer';
+import { findCycles, inspectContainer, toDot, toMermaid, traceDependencies } from './diagnostics';
+
+const CLOCK = Symbol.for('Clock');
+const LOGGER = Symbol.for('Logger');
+const GREETER = Symbol.for('Greeter');
+const MISSING = Symbol.for('Missing');
+
+@injectable()
+class Logger {}
+
+@injectable()
+class Greeter {
+  @inject(CLOCK) @optional() private clock?: unknown;
+
+  constructor(@inject(LOGGER) private logger: Logger) {}
+}
+
+describe('inspectContainer', () => {
+  let container: Container;
+
+  beforeEach(() => {
+    container = new Container();
+    container.bind(LOGGER).to(Logger).inSingletonScope();
+    container.bind(GREETER).to(Greeter);
+  });
+
+  it('reports tokens, scopes, implementations and injected dependencies', () => {
+    const diagnostics = inspectContainer(container);
+
+    expect(diagnostics.bindings).toEqual([
+      { token: 'Greeter', scope: 'Transient', type: 'Instance', implementation: 'Greeter', depth: 0, resolved: false, dependencies: ['Logger', 'Clock'] },
+      { token: 'Logger', scope: 'Singleton', type: 'Instance', implementation: 'Logger', depth: 0, resolved: false, dependencies: [] },
+    ]);
+    expect(diagnostics.edges).toEqual([
+      { from: 'Greeter', to: 'Logger', optional: false },
+      { from: 'Greeter', to: 'Clock', optional: true },
+    ]);
+    expect(diagnostics.problems).toEqual([]);
+  });
+
+  it('notes singletons once they are built, and names constants', () => {
+    container.bind(CLOCK).toConstantValue(new Date(0));
+    container.get(LOGGER);
+
+    const bindings = inspectContainer(container).bindings;
+
+    expect(bindings.find(binding => binding.token === 'Logger')?.resolved).toBe(true);
+    expect(bindings.find(binding => binding.token === 'Clock')).toEqual(
+      expect.objectContaining({ implementation: 'Date', resolved: true })
+    );
+  });
+
+  it('shows what a traced dynamic value resolved', () => {
+    container.bind('Greeting').toDynamicValue((context) => {
+      context.container.get(GREETER);
+      return 'Hello';
+    });
+    traceDependencies(container);
+
+    expect(container.get('Greeting')).toBe('Hello');
+
+    const diagnostics = inspectContainer(container);
+    expect(diagnostics.bindings.find(binding => binding.token === 'Greeting')?.dependencies).toEqual(['Greeter']);
+    expect(diagnostics.edges).toContainEqual({ from: 'Greeting', to: 'Greeter', optional: false });
+  });
+
+  it('includes the parents\' bindings that a child container does not hide', () => {
+    const child = container.createChild();
+    child.bind(LOGGER).toConstantValue(new Logger());
+
+    const bindings = inspectContainer(child).bindings;
+
+    expect(bindings.map(({ token, type, depth }) => [token, type, depth])).toEqual([
+      ['Greeter', 'Instance', 1],
+      ['Logger', 'ConstantValue', 0],
+    ]);
+  });
+
+  it('points out missing bindings and React components bound as singletons', () => {
+    @injectable()
+    class NeedsMissing {
+      constructor(@inject(MISSING) private missing: unknown) {}
+    }
+    class Panel extends Component {}
+    container.bind(NeedsMissing).toSelf();
+    container.bind(Panel).toSelf().inSingletonScope();
+
+    expect(inspectContainer(container).problems).toEqual([
+      'NeedsMissing needs Missing, which nothing is bound to',
+      'Panel is a React component bound as a singleton, but React builds every instance it mounts',
+    ]);
+  });
+
+  it('finds dependency cycles', () => {
+    const CHICKEN = Symbol.for('Chicken');
+    const EGG = Symbol.for('Egg');
+    @injectable()
+    class Chicken {
+      constructor(@inject(new LazyServiceIdentifier(() => EGG)) private egg: unknown) {}
+    }
+    @injectable()
+    class Egg {
+      constructor(@inject(CHICKEN) private chicken: unknown) {}
+    }
+    container.bind(CHICKEN).to(Chicken);
+    container.bind(EGG).to(Egg);
+
+    const diagnostics = inspectContainer(container);
+
+    expect(diagnostics.cycles).toEqual([['Chicken', 'Egg']]);
+    expect(diagnostics.problems).toEqual(['Dependency cycle: Chicken → Egg → Chicken']);
+  });
+
+  it('traces the development container\'s stores to their factories', () => {
+    const appContainer = createAppContainer({ environment: 'development' });
+    appContainer.get(TYPES.TodoStore);
+
+    const diagnostics = inspectContainer(appContainer);
+
+    expect(diagnostics.edges).toContainEqual({ from: 'TodoStore', to: 'TodoStoreFactory', optional: false });
+    expect(diagnostics.edges).toContainEqual({ from: 'TodoStoreFactory', to: 'TodoRepository', optional: true });
+    expect(diagnostics.problems).toEqual([]);
+  });
+});
+
+describe('findCycles', () => {
+  it('reports each cycle once', () => {
+    const edge = (from: string, to: string) => ({ from, to, optional: false });
+
+    expect(findCycles([edge('a', 'b'), edge('b', 'c'), edge('c', 'a'), edge('c', 'd'), edge('d', 'd')])).toEqual([
+      ['a', 'b', 'c'],
+      ['d'],
+    ]);
+  });
+});
+
+describe('graph export', () => {
+  const diagnostics = {
+    bindings: [
+      { token: 'Greeter', scope: 'Transient' as const, type: 'Instance' as const, implementation: 'Greeter', depth: 0, resolved: false, dependencies: ['Logger', 'Clock'] },
+      { token: 'Logger', scope: 'Singleton' as const, type: 'Instance' as const, implementation: 'Logger', depth: 0, resolved: true, dependencies: [] },
+    ],
+    edges: [
+      { from: 'Greeter', to: 'Logger', optional: false },
+      { from: 'Greeter', to: 'Clock', optional: true },
+    ],
+    cycles: [],
+    problems: [],
+  };
+
+  it('writes Graphviz DOT', () => {
+    expect(toDot(diagnostics)).toBe([
+      'digraph container {',
+      '  rankdir=LR;',
+      '  node [shape=box];',
+      '  "Greeter" [label="Greeter\\nTransient · Greeter"];',
+      '  "Logger" [label="Logger\\nSingleton · Logger"];',
+      '  "Clock" [label="Clock\\nnot bound", style=dashed, color=red];',
+      '  "Greeter" -> "Logger";',
+      '  "Greeter" -> "Clock" [style=dashed];',
+      '}',
+    ].join('\n'));
+  });
+
+  it('writes a Mermaid flowchart', () => {
+    expect(toMermaid(diagnostics)).toBe([
+      'graph LR',
+      '  n0["Greeter<br/>Transient · Greeter"]',
+      '  n1["Logger<br/>Singleton · Logger"]',
+      '  n2["Clock<br/>not bound"]',
+      '  n0 --> n1',
+      '  n0 -.-> n2',
+      '  classDef unbound stroke:#dc3545,stroke-dasharray:4',
+      '  class n2 unbound',
+    ].join('\n'));
+  });
+
+  it('colours the edges of a cycle', () => {
+    const cyclic = {
+      ...diagnostics,
+      edges: [...diagnostics.edges, { from: 'Logger', to: 'Greeter', optional: false }],
+      cycles: [['Greeter', 'Logger']],
+    };
+
+    expect(toDot(cyclic)).toContain('"Greeter" -> "Logger" [color=red];');
+    expect(toMermaid(cyclic)).toContain('linkStyle 0 stroke:#dc3545');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,265 @@
+import { Container, LazyServiceIdentifier, METADATA_KEY, interfaces } from 'inversify';
+import { ownBindings } from './inversifyBindings';
+
+// Development aids: what a container binds, what each binding depends on, and where that goes wrong
+
+export interface BindingDiagnostics {
+  token: string;
+  scope: interfaces.BindingScope;
+  type: interfaces.BindingType;
+  implementation: string;
+  // 0 when bound in the inspected container, 1 in its parent, and so on
+  depth: number;
+  // Whether a singleton has been built yet; constants always are
+  resolved: boolean;
+  dependencies: string[];
+}
+
+export interface DependencyEdge {
+  from: string;
+  to: string;
+  optional: boolean;
+}
+
+export interface ContainerDiagnostics {
+  bindings: BindingDiagnostics[];
+  edges: DependencyEdge[];
+  cycles: string[][];
+  problems: string[];
+}
+
+interface InjectionMetadata {
+  key: string | number | symbol;
+  value: unknown;
+}
+
+interface Dependency {
+  serviceIdentifier: interfaces.ServiceIdentifier;
+  optional: boolean;
+}
+
+export const tokenName = (serviceIdentifier: interfaces.ServiceIdentifier): string => {
+  if (typeof serviceIdentifier === 'symbol') {
+    return serviceIdentifier.description ?? serviceIdentifier.toString();
+  }
+  return typeof serviceIdentifier === 'function' ? serviceIdentifier.name : String(serviceIdentifier);
+};
+
+const describeValue = (value: unknown): string => {
+  if (typeof value === 'function') {
+    return value.name || 'function';
+  }
+  if (typeof value === 'string') {
+    return JSON.stringify(value);
+  }
+  return value !== null && typeof value === 'object' ? value.constructor?.name ?? 'Object' : String(value);
+};
+
+const describeImplementation = (binding: interfaces.Binding<unknown>): string => {
+  switch (binding.type) {
+    case 'Instance':
+    case 'Constructor':
+      return describeValue(binding.implementationType);
+    case 'ConstantValue':
+    case 'Function':
+      return describeValue(binding.cache);
+    case 'DynamicValue':
+      return binding.cache !== null ? `dynamic value (${describeValue(binding.cache)})` : 'dynamic value';
+    default:
+      return binding.type.toLowerCase();
+  }
+};
+
+const tagValue = (metadata: InjectionMetadata[], key: string) => metadata.find(tag => tag.key === key)?.value;
+
+// What a class asks for with @inject and @multiInject, in its constructor and its properties
+const injectedDependencies = (implementation: unknown): Dependency[] => {
+  if (typeof implementation !== 'function') {
+    return [];
+  }
+  return [METADATA_KEY.TAGGED, METADATA_KEY.TAGGED_PROP].flatMap(key =>
+    Object.values<InjectionMetadata[]>(Reflect.getMetadata(key, implementation) ?? {}).flatMap(metadata => {
+      const wanted = tagValue(metadata, METADATA_KEY.INJECT_TAG) ?? tagValue(metadata, METADATA_KEY.MULTI_INJECT_TAG);
+      if (wanted === undefined) {
+        return [];
+      }
+      const serviceIdentifier = (wanted instanceof LazyServiceIdentifier ? wanted.unwrap() : wanted) as interfaces.ServiceIdentifier;
+      return [{ serviceIdentifier, optional: Boolean(tagValue(metadata, METADATA_KEY.OPTIONAL_TAG)) }];
+    })
+  );
+};
+
+// What dynamic values were seen asking their context's container for, by traceDependencies
+const tracedDependencies = new WeakMap<interfaces.Binding<unknown>, Map<interfaces.ServiceIdentifier, Dependency>>();
+
+const RESOLVING_METHODS = new Set<string | symbol>(['get', 'getAll', 'getNamed', 'getAllNamed', 'getTagged', 'getAllTagged', 'getAsync', 'getAllAsync']);
+
+// Makes the dynamic values bound in `container` note what they resolve, as nothing
+// but running them tells. Only the bindings already there are traced, so call it before
+// the container is used.
+export const traceDependencies = (container: Container): void => {
+  ownBindings(container).forEach(binding => {
+    const dynamicValue = binding.dynamicValue;
+    if (binding.type !== 'DynamicValue' || !dynamicValue || tracedDependencies.has(binding)) {
+      return;
+    }
+    const seen = new Map<interfaces.ServiceIdentifier, Dependency>();
+    tracedDependencies.set(binding, seen);
+
+    binding.dynamicValue = (context) => {
+      const tracing = new Proxy(context.container, {
+        get(target, property) {
+          const value = Reflect.get(target, property, target);
+          if (typeof value !== 'function') {
+            return value;
+          }
+          if (!RESOLVING_METHODS.has(property)) {
+            return value.bind(target);
+          }
+          return (serviceIdentifier: interfaces.ServiceIdentifier, ...rest: unknown[]) => {
+            seen.set(serviceIdentifier, { serviceIdentifier, optional: false });
+            return value.call(target, serviceIdentifier, ...rest);
+          };
+        }
+      });
+      return dynamicValue(new Proxy(context, {
+        get: (target, property) => (property === 'container' ? tracing : Reflect.get(target, property, target))
+      }));
+    };
+  });
+};
+
+const dependenciesOf = (binding: interfaces.Binding<unknown>): Dependency[] => [
+  ...injectedDependencies(binding.implementationType),
+  ...(tracedDependencies.get(binding)?.values() ?? [])
+];
+
+const isReactComponentClass = (implementation: unknown): boolean =>
+  typeof implementation === 'function' && Boolean(implementation.prototype?.isReactComponent);
+
+// Each cycle once, starting from its first token in alphabetical order
+export const findCycles = (edges: DependencyEdge[]): string[][] => {
+  const next = new Map<string, string[]>();
+  edges.forEach(({ from, to }) => next.set(from, [...(next.get(from) ?? []), to]));
+
+  const cycles: string[][] = [];
+  const done = new Set<string>();
+  const path: string[] = [];
+  const visit = (token: string) => {
+    const index = path.indexOf(token);
+    if (index !== -1) {
+      cycles.push(path.slice(index));
+      return;
+    }
+    if (done.has(token)) {
+      return;
+    }
+    path.push(token);
+    (next.get(token) ?? []).forEach(visit);
+    path.pop();
+    done.add(token);
+  };
+  Array.from(next.keys()).sort().forEach(visit);
+  return cycles;
+};
+
+// Walks a container and its parents. A binding in a nearer container hides the parents' ones.
+export const inspectContainer = (container: Container): ContainerDiagnostics => {
+  const bindings: BindingDiagnostics[] = [];
+  const edges: DependencyEdge[] = [];
+  const problems: string[] = [];
+  const shadowed = new Set<interfaces.ServiceIdentifier>();
+
+  for (let current: interfaces.Container | null = container, depth = 0; current; current = current.parent, depth++) {
+    const nearest = ownBindings(current).filter(binding => !shadowed.has(binding.serviceIdentifier));
+    nearest.forEach(binding => {
+      const token = tokenName(binding.serviceIdentifier);
+      const dependencies = dependenciesOf(binding);
+      bindings.push({
+        token,
+        scope: binding.scope,
+        type: binding.type,
+        implementation: describeImplementation(binding),
+        depth,
+        resolved: binding.type === 'ConstantValue' || binding.cache !== null,
+        dependencies: dependencies.map(dependency => tokenName(dependency.serviceIdentifier))
+      });
+      dependencies.forEach(({ serviceIdentifier, optional }) => {
+        const to = tokenName(serviceIdentifier);
+        if (!edges.some(edge => edge.from === token && edge.to === to)) {
+          edges.push({ from: token, to, optional });
+        }
+        if (!optional && !container.isBound(serviceIdentifier)) {
+          problems.push(`${token} needs ${to}, which nothing is bound to`);
+        }
+      });
+      if (isReactComponentClass(binding.implementationType) && binding.scope === 'Singleton') {
+        problems.push(`${token} is a React component bound as a singleton, but React builds every instance it mounts`);
+      }
+    });
+    nearest.forEach(binding => shadowed.add(binding.serviceIdentifier));
+  }
+
+  bindings.sort((a, b) => a.token.localeCompare(b.token) || a.depth - b.depth);
+  const cycles = findCycles(edges);
+  cycles.forEach(cycle => problems.push(`Dependency cycle: ${[...cycle, cycle[0]].join(' → ')}`));
+  return { bindings, edges, cycles, problems: Array.from(new Set(problems)) };
+};
+
+const nodeLabel = (diagnostics: ContainerDiagnostics, token: string): string[] => {
+  const found = diagnostics.bindings.filter(binding => binding.token === token);
+  return found.length > 0
+    ? [token, ...found.map(binding => `${binding.scope} · ${binding.implementation}`)]
+    : [token, 'not bound'];
+};
+
+const tokensOf = (diagnostics: ContainerDiagnostics): string[] =>
+  Array.from(new Set([
+    ...diagnostics.bindings.map(binding => binding.token),
+    ...diagnostics.edges.map(edge => edge.to)
+  ]));
+
+const inCycle = (diagnostics: ContainerDiagnostics, { from, to }: DependencyEdge): boolean =>
+  diagnostics.cycles.some(cycle => cycle.some((token, index) => token === from && cycle[(index + 1) % cycle.length] === to));
+
+// Lines are joined with DOT's own line break, \n
+const dotString = (...lines: string[]) => `"${lines.map(line => line.replace(/["\\]/g, '\\$&')).join('\\n')}"`;
+
+// Graphviz: `dot -Tsvg` draws it. Optional dependencies are dashed, cycles red.
+export const toDot = (diagnostics: ContainerDiagnostics): string => {
+  const bound = new Set(diagnostics.bindings.map(binding => binding.token));
+  const lines = ['digraph container {', '  rankdir=LR;', '  node [shape=box];'];
+  tokensOf(diagnostics).forEach(token => {
+    const style = bound.has(token) ? '' : ', style=dashed, color=red';
+    lines.push(`  ${dotString(token)} [label=${dotString(...nodeLabel(diagnostics, token))}${style}];`);
+  });
+  diagnostics.edges.forEach(edge => {
+    const attributes = [edge.optional && 'style=dashed', inCycle(diagnostics, edge) && 'color=red'].filter(Boolean);
+    lines.push(`  ${dotString(edge.from)} -> ${dotString(edge.to)}${attributes.length ? ` [${attributes.join(', ')}]` : ''};`);
+  });
+  lines.push('}');
+  return lines.join('\n');
+};
+
+const mermaidString = (text: string) => `"${text.replace(/"/g, '#quot;')}"`;
+
+// Mermaid flowchart, for Markdown that renders it
+export const toMermaid = (diagnostics: ContainerDiagnostics): string => {
+  const bound = new Set(diagnostics.bindings.map(binding => binding.token));
+  const tokens = tokensOf(diagnostics);
+  const id = (token: string) => `n${tokens.indexOf(token)}`;
+  const lines = ['graph LR'];
+  tokens.forEach(token => lines.push(`  ${id(token)}[${mermaidString(nodeLabel(diagnostics, token).join('<br/>'))}]`));
+  diagnostics.edges.forEach(edge => lines.push(`  ${id(edge.from)} ${edge.optional ? '-.->' : '-->'} ${id(edge.to)}`));
+  const unbound = tokens.filter(token => !bound.has(token));
+  if (unbound.length > 0) {
+    lines.push('  classDef unbound stroke:#dc3545,stroke-dasharray:4');
+    lines.push(`  class ${unbound.map(id).join(',')} unbound`);
+  }
+  diagnostics.edges.forEach((edge, index) => {
+    if (inCycle(diagnostics, edge)) {
+      lines.push(`  linkStyle ${index} stroke:#dc3545`);
+    }
+  });
+  return lines.join('\n');
+};
\ No newline at end of file
@@ -1,2 +1,8 @@
 export * from './container';
-export * from './types';
\ No newline at end of file
+export * from './types';
+export * from './ContainerProvider';
+export * from './withInjection';
+export * from './injectProp';
+export * from './appContainer';
+export * from './modules';
+export * from './diagnostics';
\ No newline at end of file
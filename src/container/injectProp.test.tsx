@@ -0,0 +1,125 @@
+import React, { Component, createContext } from 'react';
+import { render, screen } from '@testing-library/react';
+import { Container } from 'inversify';
+import { ContainerInjectionError, ContainerProvider } from './ContainerProvider';
+import { injectOptionalProp, injectProp } from './injectProp';
+
+const GREETING = Symbol.for('Greeting');
+const NAME = Symbol.for('Name');
+
+interface GreetingProps {
+  punctuation: string;
+}
+
+class Greeting extends Component<GreetingProps> {
+  @injectProp(GREETING) private greeting!: string;
+  @injectOptionalProp(NAME) private name?: string;
+
+  // Field initializers run once React has handed over the context
+  readonly greetingWhenBuilt = this.greeting;
+
+  render() {
+    return <p>{this.greeting}, {this.name ?? 'nobody'}{this.props.punctuation}</p>;
+  }
+}
+
+describe('injectProp', () => {
+  let container: Container;
+
+  beforeEach(() => {
+    container = new Container();
+    container.bind<string>(GREETING).toConstantValue('Hello');
+  });
+
+  const renderGreeting = (ui: React.ReactNode, provided: Container = container) =>
+    render(<ContainerProvider container={provided}>{ui}</ContainerProvider>);
+
+  it('injects properties of an ordinary class component and keeps its props', () => {
+    container.bind<string>(NAME).toConstantValue('Ada');
+    const ref = React.createRef<Greeting>();
+
+    renderGreeting(<Greeting punctuation="!" ref={ref} />);
+
+    expect(screen.getByText('Hello, Ada!')).toBeInTheDocument();
+    expect(ref.current?.greetingWhenBuilt).toBe('Hello');
+  });
+
+  it('leaves an optional property undefined when nothing is bound', () => {
+    renderGreeting(<Greeting punctuation="." />);
+
+    expect(screen.getByText('Hello, nobody.')).toBeInTheDocument();
+  });
+
+  it('resolves from the nearest provider', () => {
+    const child = container.createChild();
+    child.bind<string>(GREETING).toConstantValue('Hi');
+
+    renderGreeting(
+      <>
+        <Greeting punctuation="!" />
+        <ContainerProvider container={child}>
+          <Greeting punctuation="?" />
+        </ContainerProvider>
+      </>
+    );
+
+    expect(screen.getByText('Hello, nobody!')).toBeInTheDocument();
+    expect(screen.getByText('Hi, nobody?')).toBeInTheDocument();
+  });
+
+  it('resolves a transient binding once per instance, and again for another container', () => {
+    let built = 0;
+    container.rebind<string>(GREETING).toDynamicValue(() => `Hello #${++built}`);
+    const other = new Container();
+    other.bind<string>(GREETING).toConstantValue('Howdy');
+
+    const { rerender } = renderGreeting(<Greeting punctuation="!" />);
+    rerender(<ContainerProvider container={container}><Greeting punctuation="?" /></ContainerProvider>);
+    expect(screen.getByText('Hello #1, nobody?')).toBeInTheDocument();
+
+    rerender(<ContainerProvider container={other}><Greeting punctuation="." /></ContainerProvider>);
+    expect(screen.getByText('Howdy, nobody.')).toBeInTheDocument();
+    expect(built).toBe(1);
+  });
+
+  it('will not take over a class that reads another context', () => {
+    const ThemeContext = createContext('light');
+
+    expect(() => {
+      class Themed extends Component {
+        static contextType = ThemeContext;
+        @injectProp(GREETING) private greeting!: string;
+
+        render() {
+          return <p>{this.greeting}</p>;
+        }
+      }
+      return Themed;
+    }).toThrow(new ContainerInjectionError('Themed reads another context, so greeting cannot be injected'));
+  });
+
+  describe('errors', () => {
+    let consoleError: jest.SpyInstance;
+
+    // React logs the errors it catches while rendering; they are what is being tested
+    beforeEach(() => {
+      consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      consoleError.mockRestore();
+    });
+
+    it('names the missing binding and the component that needs it', () => {
+      expect(() => renderGreeting(<Greeting punctuation="!" />, new Container())).toThrow(new ContainerInjectionError(
+        'Nothing is bound to Symbol(Greeting), which Greeting needs, in the container of the nearest ContainerProvider'
+      ));
+    });
+
+    it('says when there is no provider', () => {
+      expect(() => render(<Greeting punctuation="!" />)).toThrow(
+        new ContainerInjectionError('Greeting must be rendered within a ContainerProvider')
+      );
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,64 @@
+import type { Component } from 'react';
+import { Container, getServiceIdentifierAsString, interfaces } from 'inversify';
+import { ContainerContext, ContainerInjectionError } from './ContainerProvider';
+
+interface Resolved {
+  container: Container;
+  value: unknown;
+}
+
+interface ComponentClass {
+  name: string;
+  contextType?: unknown;
+}
+
+type PropertyDecorator = <P, S>(target: Component<P, S>, property: string | symbol) => void;
+
+const injectFromContext = (serviceIdentifier: interfaces.ServiceIdentifier<unknown>, optional: boolean): PropertyDecorator =>
+  (target, property) => {
+    const componentClass = target.constructor as ComponentClass;
+    const name = componentClass.name || 'Component';
+    if (componentClass.contextType !== undefined && componentClass.contextType !== ContainerContext) {
+      throw new ContainerInjectionError(`${name} reads another context, so ${String(property)} cannot be injected`);
+    }
+    componentClass.contextType = ContainerContext;
+
+    // Per instance, and per container should the nearest provider change
+    const resolved = new WeakMap<object, Resolved>();
+
+    Object.defineProperty(target, property, {
+      configurable: true,
+      get(this: Component) {
+        const container = this.context as Container | null | undefined;
+        if (!container) {
+          throw new ContainerInjectionError(`${name} must be rendered within a ContainerProvider`);
+        }
+        const known = resolved.get(this);
+        if (known?.container === container) {
+          return known.value;
+        }
+        let value: unknown;
+        if (container.isBound(serviceIdentifier)) {
+          value = container.get(serviceIdentifier);
+        } else if (!optional) {
+          throw new ContainerInjectionError(
+            `Nothing is bound to ${getServiceIdentifierAsString(serviceIdentifier)}, which ${name} needs, ` +
+            'in the container of the nearest ContainerProvider'
+          );
+        }
+        resolved.set(this, { container, value });
+        return value;
+      }
+    });
+  };
+
+// Injects a class component's property from the container of the nearest ContainerProvider.
+// It is resolved the first time it is read, from render, a lifecycle method or a field
+// initializer, so the component keeps React's own constructor. A constructor written
+// out has to pass the context on, super(props, context), to read it there.
+export const injectProp = <T,>(serviceIdentifier: interfaces.ServiceIdentifier<T>): PropertyDecorator =>
+  injectFromContext(serviceIdentifier, false);
+
+// For dependencies a component can do without; undefined when nothing is bound
+export const injectOptionalProp = <T,>(serviceIdentifier: interfaces.ServiceIdentifier<T>): PropertyDecorator =>
+  injectFromContext(serviceIdentifier, true);
\ No newline at end of file
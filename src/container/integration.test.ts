@@ -1,9 +1,18 @@
-import { createTestContainer, createTestContainerWithCustomMocks } from '../test-utils/test-container';
+/**
+ * @jest-environment node
+ */
+// Runs under Node so the REST tests can use the real fetch against the local mock server
+import { createTestContainer, createTestContainerWithCustomMocks, TEST_NOW } from '../test-utils/test-container';
 import { MockLoggingService } from '../test-utils/MockLoggingService';
 import { TYPES } from './types';
 import { ILoggingService } from '../services/LoggingService';
 import { TodoStore } from '../stores/todoStore';
+import { RestTodoRepository } from '../repositories/RestTodoRepository';
 import { act } from '@testing-library/react';
+import { createMockTodoServer } from '../../mock-server';
+import { Container } from 'inversify';
+import { createStorageModule } from './modules';
+import { ITodoRepository, TodoRepositoryFactory, isPromiseLike } from '../repositories/TodoRepository';
 
 describe('InversifyJS Integration Tests', () => {
   describe('Container Setup', () => {
@@ -15,6 +24,21 @@ describe('InversifyJS Integration Tests', () => {
       expect(() => container.get(TYPES.TodoStore)).not.toThrow();
     });
 
+    it('binds a frozen clock and sequential ids by default', () => {
+      const { container, todoStore, clock } = createTestContainer();
+
+      act(() => {
+        todoStore.getState().addTodo('First');
+        todoStore.getState().addTodo('Second');
+      });
+
+      expect(container.get(TYPES.Clock)).toBe(clock);
+      expect(todoStore.getState().todos).toEqual([
+        expect.objectContaining({ id: 'todo-1', createdAt: TEST_NOW }),
+        expect.objectContaining({ id: 'todo-2', createdAt: TEST_NOW }),
+      ]);
+    });
+
     it('provides singleton instances', () => {
       const { container } = createTestContainer();
 
@@ -252,4 +276,182 @@ describe('InversifyJS Integration Tests', () => {
       expect(removeWarnings).toHaveLength(1);
     });
   });
+
+  describe('REST Backend Sync', () => {
+    let mockServer: ReturnType<typeof createMockTodoServer>;
+    let baseUrl: string;
+
+    // Records the requests the store fires and forgets, so a test can wait for exactly
+    // those to settle; the store's own handlers are attached first and so run before
+    const trackRequests = (remote: ITodoRepository) => {
+      const pending: PromiseLike<unknown>[] = [];
+      const track = <T>(result: T): T => {
+        if (isPromiseLike(result)) pending.push(result);
+        return result;
+      };
+      const repository: ITodoRepository = {
+        load: () => track(remote.load()),
+        apply: changes => track(remote.apply(changes)),
+      };
+      const waitForRequests = async () => {
+        while (pending.length > 0) {
+          await Promise.allSettled(pending.splice(0));
+        }
+      };
+      return { repository, waitForRequests };
+    };
+
+    beforeEach(async () => {
+      mockServer = createMockTodoServer({
+        todos: [{ id: 'server-1', text: 'From the server', completed: false, createdAt: '2024-04-01T09:00:00.000Z' }]
+      });
+      baseUrl = await mockServer.listen();
+    });
+
+    afterEach(async () => {
+      await mockServer.close();
+    });
+
+    const createRestContainer = () => {
+      const { repository, waitForRequests } = trackRequests(new RestTodoRepository(baseUrl));
+      return { ...createTestContainerWithCustomMocks(new MockLoggingService(), repository), waitForRequests };
+    };
+
+    it('hydrates the store from GET /todos', async () => {
+      const { todoStore, mockLoggingService, waitForRequests } = createRestContainer();
+
+      await act(async () => {
+        todoStore.getState().loadTodos();
+        await waitForRequests();
+      });
+
+      const [todo] = todoStore.getState().todos;
+      expect(todo.text).toBe('From the server');
+      expect(todo.createdAt).toEqual(new Date('2024-04-01T09:00:00.000Z'));
+      expect(mockLoggingService.getLastInfoLog()).toEqual({ message: 'Todos loaded', data: { count: 1 } });
+    });
+
+    it('syncs added, toggled and removed todos to the server', async () => {
+      const { todoStore, waitForRequests } = createRestContainer();
+
+      await act(async () => {
+        todoStore.getState().loadTodos();
+        await waitForRequests();
+        todoStore.getState().addTodo('Created via REST');
+        await waitForRequests();
+      });
+      const newId = todoStore.getState().todos[1].id;
+      expect(mockServer.todos.get(newId)).toMatchObject({ text: 'Created via REST', completed: false });
+
+      await act(async () => {
+        todoStore.getState().toggleTodo(newId);
+        await waitForRequests();
+      });
+      expect(mockServer.todos.get(newId)).toMatchObject({ completed: true });
+
+      await act(async () => {
+        todoStore.getState().removeTodo('server-1');
+        await waitForRequests();
+      });
+      expect(Array.from(mockServer.todos.keys())).toEqual([newId]);
+    });
+
+    it('applies updates optimistically and rolls them back when the server fails', async () => {
+      const { todoStore, mockLoggingService, waitForRequests } = createRestContainer();
+
+      await act(async () => {
+        todoStore.getState().loadTodos();
+        await waitForRequests();
+      });
+
+      mockServer.failNextRequests(1);
+      act(() => {
+        todoStore.getState().toggleTodo('server-1');
+      });
+
+      // The UI sees the change straight away...
+      expect(todoStore.getState().todos[0].completed).toBe(true);
+
+      await act(async () => {
+        await waitForRequests();
+      });
+
+      // ...and it is undone once the server rejects it
+      expect(todoStore.getState().todos[0].completed).toBe(false);
+      expect(mockServer.todos.get('server-1')).toMatchObject({ completed: false });
+      expect(mockLoggingService.getLastErrorLog()).toEqual({
+        message: 'Failed to save todos',
+        error: expect.objectContaining({ message: 'PUT /todos/server-1 failed with status 503' })
+      });
+    });
+
+    it('restores a removed todo in place when the delete fails', async () => {
+      const { todoStore, waitForRequests } = createRestContainer();
+
+      await act(async () => {
+        todoStore.getState().loadTodos();
+        await waitForRequests();
+        todoStore.getState().addTodo('Second');
+        await waitForRequests();
+      });
+
+      mockServer.failNextRequests(1);
+      await act(async () => {
+        todoStore.getState().removeTodo('server-1');
+        await waitForRequests();
+      });
+
+      expect(todoStore.getState().todos.map(todo => todo.text)).toEqual(['From the server', 'Second']);
+    });
+
+    it('reports a failed load through the error state', async () => {
+      const { todoStore, mockLoggingService, waitForRequests } = createRestContainer();
+      mockServer.failNextRequests(1);
+
+      await act(async () => {
+        todoStore.getState().loadTodos();
+        await waitForRequests();
+      });
+
+      expect(todoStore.getState().error).toBe('GET /todos failed with status 503');
+      expect(mockLoggingService.getLastErrorLog().message).toBe('Failed to load todos');
+    });
+
+    it('keeps a named list apart under /lists/:listId/todos', async () => {
+      const storage = new Container();
+      storage.load(createStorageModule({ storage: 'browser', apiUrl: baseUrl }));
+      const { repository, waitForRequests } = trackRequests(
+        storage.get<TodoRepositoryFactory>(TYPES.TodoRepositoryFactory)('work')
+      );
+      const { todoStore } = createTestContainerWithCustomMocks(new MockLoggingService(), repository);
+
+      await act(async () => {
+        todoStore.getState().loadTodos();
+        await waitForRequests();
+      });
+      expect(todoStore.getState()).toMatchObject({ todos: [], error: null });
+
+      await act(async () => {
+        todoStore.getState().addTodo('File the report');
+        await waitForRequests();
+      });
+      const [created] = todoStore.getState().todos;
+      expect(mockServer.listTodos('work').get(created.id)).toMatchObject({ text: 'File the report', completed: false });
+
+      await act(async () => {
+        todoStore.getState().toggleTodo(created.id);
+        await waitForRequests();
+      });
+      expect(todoStore.getState().todos[0].completed).toBe(true);
+      expect(mockServer.listTodos('work').get(created.id)).toMatchObject({ completed: true });
+      expect(Array.from(mockServer.todos.keys())).toEqual(['server-1']);
+
+      const reloaded = createTestContainerWithCustomMocks(new MockLoggingService(), repository).todoStore;
+      await act(async () => {
+        reloaded.getState().loadTodos();
+        await waitForRequests();
+      });
+      expect(reloaded.getState().todos).toEqual([expect.objectContaining({ id: created.id, completed: true })]);
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,41 @@
+import 'reflect-metadata';
+import { Container, injectable } from 'inversify';
+import { ownBindings } from './inversifyBindings';
+
+@injectable()
+class Logger {}
+
+describe('ownBindings', () => {
+  it('lists every binding made in the container, however many a token has', () => {
+    const container = new Container();
+    container.bind('Logger').to(Logger);
+    container.bind('Plugin').toConstantValue('first');
+    container.bind('Plugin').toConstantValue('second');
+
+    expect(ownBindings(container).map(binding => [binding.serviceIdentifier, binding.type])).toEqual([
+      ['Logger', 'Instance'],
+      ['Plugin', 'ConstantValue'],
+      ['Plugin', 'ConstantValue'],
+    ]);
+  });
+
+  it('leaves out what the parent binds, and forgets what was unbound', () => {
+    const parent = new Container();
+    parent.bind('Logger').to(Logger);
+    const child = parent.createChild();
+    child.bind('Clock').toConstantValue(new Date(0));
+    child.bind('Greeting').toConstantValue('hello');
+    child.unbind('Greeting');
+
+    expect(ownBindings(child).map(binding => binding.serviceIdentifier)).toEqual(['Clock']);
+  });
+
+  it('fails clearly when inversify no longer keeps bindings the 6.x way', () => {
+    const container = new Container();
+    Object.assign(container, { _bindingDictionary: undefined });
+
+    expect(() => ownBindings(container)).toThrow(
+      'Cannot list the container bindings: this inversify version keeps them differently than 6.x'
+    );
+  });
+});
\ No newline at end of file
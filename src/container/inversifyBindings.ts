@@ -0,0 +1,21 @@
+import { interfaces } from 'inversify';
+
+// inversify 6 has no public way to list a container's bindings, so this reads the
+// binding dictionary every 6.x container keeps. It is the one place that reaches into
+// inversify's internals; package.json holds inversify to 6.2.x and the tests pin the shape.
+
+interface BindingDictionary {
+  getMap(): Map<interfaces.ServiceIdentifier, interfaces.Binding<unknown>[]>;
+}
+
+const bindingDictionaryOf = (container: interfaces.Container): BindingDictionary => {
+  const dictionary = (container as unknown as { _bindingDictionary?: Partial<BindingDictionary> })._bindingDictionary;
+  if (typeof dictionary?.getMap !== 'function') {
+    throw new Error('Cannot list the container bindings: this inversify version keeps them differently than 6.x');
+  }
+  return dictionary as BindingDictionary;
+};
+
+// The bindings made in `container` itself, not in its parents
+export const ownBindings = (container: interfaces.Container): interfaces.Binding<unknown>[] =>
+  Array.from(bindingDictionaryOf(container).getMap().values()).flat();
\ No newline at end of file
@@ -0,0 +1,122 @@
+import { Container, ContainerModule } from 'inversify';
+import { TYPES } from './types';
+import { LoggingService, ILoggingService } from '../services/LoggingService';
+import { IClock, SystemClock } from '../services/Clock';
+import { IIdGenerator, SequentialIdGenerator, UlidIdGenerator, UuidIdGenerator } from '../services/IdGenerator';
+import {
+  ConflictPolicy,
+  IConflictResolver,
+  LastWriteWinsConflictResolver,
+  ServerWinsConflictResolver,
+} from '../services/ConflictResolver';
+import { ITodoOutbox, TodoOutbox } from '../services/TodoOutbox';
+import { ITodoExportService, TodoExportService } from '../services/TodoExportService';
+import { ITodoPreferences, InMemoryTodoPreferences, LocalStorageTodoPreferences } from '../services/TodoPreferences';
+import { ITodoRepository, TodoRepositoryFactory, todoListStorageName } from '../repositories/TodoRepository';
+import { InMemoryTodoRepository } from '../repositories/InMemoryTodoRepository';
+import { LocalStorageTodoRepository, TODOS_STORAGE_KEY } from '../repositories/LocalStorageTodoRepository';
+import { IndexedDBTodoRepository, TODOS_DATABASE_NAME } from '../repositories/IndexedDBTodoRepository';
+import { RestTodoRepository } from '../repositories/RestTodoRepository';
+import { TodoMigrationRegistry } from '../migrations/TodoMigrationRegistry';
+import { TodoStoreFactory } from '../stores/todoStore';
+import { TodoListsStoreFactory } from '../stores/todoListsStore';
+import { ITodoListScopes, TodoListScopes } from './todoListScopes';
+import { DEFAULT_TODO_LIST_ID } from '../types';
+import { DEFAULT_HISTORY_LIMIT } from '../stores/historyMiddleware';
+
+// 'browser' keeps todos in the browser or on a REST backend, 'memory' only for as long as the page is open
+export type TodoStorage = 'browser' | 'memory';
+
+export type TodoIdFormat = 'uuid' | 'ulid';
+
+export interface StorageModuleOptions {
+  storage: TodoStorage;
+  // A REST backend to keep todos on, which wins over the browser's storage
+  apiUrl?: string;
+  conflictPolicy?: ConflictPolicy;
+}
+
+export interface StoresModuleOptions {
+  // Random ids for a real app; 'sequential' gives "todo-1", "todo-2", ... every run
+  idFormat: TodoIdFormat | 'sequential';
+}
+
+export const loggingModule = new ContainerModule((bind) => {
+  bind<ILoggingService>(TYPES.LoggingService).to(LoggingService).inSingletonScope();
+});
+
+// Repositories, the offline outbox and view preferences. Each named list is stored apart.
+export const createStorageModule = ({ storage, apiUrl, conflictPolicy }: StorageModuleOptions) =>
+  new ContainerModule((bind) => {
+    bind(TYPES.TodoMigrations).toDynamicValue(() => new TodoMigrationRegistry()).inSingletonScope();
+    bind<TodoRepositoryFactory>(TYPES.TodoRepositoryFactory).toDynamicValue((context) => {
+      const migrations = context.container.get<TodoMigrationRegistry>(TYPES.TodoMigrations);
+      return (listId) => {
+        if (storage === 'memory') {
+          return new InMemoryTodoRepository();
+        }
+        if (apiUrl) {
+          return new RestTodoRepository(
+            listId === DEFAULT_TODO_LIST_ID ? apiUrl : `${apiUrl}/lists/${encodeURIComponent(listId)}`
+          );
+        }
+        // IndexedDB copes with large lists, and localStorage is the fallback
+        return typeof indexedDB !== 'undefined'
+          ? new IndexedDBTodoRepository(indexedDB, todoListStorageName(TODOS_DATABASE_NAME, listId), undefined, migrations)
+          : new LocalStorageTodoRepository(localStorage, todoListStorageName(TODOS_STORAGE_KEY, listId), migrations);
+      };
+    }).inSingletonScope();
+    bind<ITodoRepository>(TYPES.TodoRepository).toDynamicValue((context) =>
+      context.container.get<TodoRepositoryFactory>(TYPES.TodoRepositoryFactory)(DEFAULT_TODO_LIST_ID)
+    ).inSingletonScope();
+
+    // Offline sync - changes made while the backend is unreachable wait in a durable outbox
+    if (storage === 'browser' && apiUrl) {
+      // Built by hand, as the server-wins resolver takes the prompt it asks the user with
+      bind<IConflictResolver>(TYPES.ConflictResolver).toDynamicValue(() =>
+        conflictPolicy === 'server-wins' ? new ServerWinsConflictResolver() : new LastWriteWinsConflictResolver()
+      ).inSingletonScope();
+      bind<ITodoOutbox>(TYPES.TodoOutbox).to(TodoOutbox).inSingletonScope();
+    }
+
+    // View preferences such as the sort order
+    bind<ITodoPreferences>(TYPES.TodoPreferences).toDynamicValue(() =>
+      storage === 'browser' && typeof localStorage !== 'undefined'
+        ? new LocalStorageTodoPreferences(localStorage)
+        : new InMemoryTodoPreferences()
+    ).inSingletonScope();
+  });
+
+// The stores, and the clock and ids they stamp todos with. The container they are
+// loaded into serves the default list.
+export const createStoresModule = ({ idFormat }: StoresModuleOptions) =>
+  new ContainerModule((bind) => {
+    bind<IClock>(TYPES.Clock).to(SystemClock).inSingletonScope();
+    if (idFormat === 'sequential') {
+      bind<IIdGenerator>(TYPES.IdGenerator).toDynamicValue(() => new SequentialIdGenerator()).inSingletonScope();
+    } else {
+      bind<IIdGenerator>(TYPES.IdGenerator).to(idFormat === 'ulid' ? UlidIdGenerator : UuidIdGenerator).inSingletonScope();
+    }
+
+    bind<number>(TYPES.TodoHistoryLimit).toConstantValue(DEFAULT_HISTORY_LIMIT);
+    bind<string>(TYPES.TodoListId).toConstantValue(DEFAULT_TODO_LIST_ID);
+    bind(TodoStoreFactory).toSelf().inSingletonScope();
+    bind(TYPES.TodoStore).toDynamicValue((context) => {
+      const factory = context.container.get(TodoStoreFactory);
+      return factory.getStore();
+    }).inSingletonScope();
+
+    bind(TodoListsStoreFactory).toSelf().inSingletonScope();
+    bind(TYPES.TodoLists).toDynamicValue((context) => {
+      const factory = context.container.get(TodoListsStoreFactory);
+      return factory.getStore();
+    }).inSingletonScope();
+  });
+
+// What the views need besides the stores: every named list but the default one is
+// shown from a child container of `root`, and todos are imported and exported as files
+export const createUiModule = (root: Container) =>
+  new ContainerModule((bind) => {
+    bind<ITodoListScopes>(TYPES.TodoListScopes).toConstantValue(new TodoListScopes(root));
+    bind<ITodoExportService>(TYPES.TodoExportService).toDynamicValue(() => new TodoExportService()).inSingletonScope();
+  });
\ No newline at end of file
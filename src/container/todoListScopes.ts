@@ -0,0 +1,69 @@
+import { Container } from 'inversify';
+import { TYPES } from './types';
+import { DEFAULT_TODO_LIST_ID } from '../types';
+import type { ILoggingService } from '../services/LoggingService';
+import type { IConflictResolver } from '../services/ConflictResolver';
+import { ITodoOutbox, OUTBOX_STORAGE_KEY, TodoOutbox } from '../services/TodoOutbox';
+import { ITodoRepository, TodoRepositoryFactory, todoListStorageName } from '../repositories/TodoRepository';
+import { TodoStoreFactory } from '../stores/todoStore';
+
+export interface ITodoListScopes {
+  // The container a list's store and components resolve from
+  get(listId: string): Container;
+  // Forgets a deleted list, so asking for it again starts from scratch
+  release(listId: string): void;
+}
+
+// The default list is served by the root container itself. Every other list gets a
+// child container that rebinds whatever holds the list's todos, and inherits the rest,
+// so components resolve `TYPES.TodoStore` without knowing which list they show.
+export class TodoListScopes implements ITodoListScopes {
+  private scopes = new Map<string, Container>();
+
+  constructor(private root: Container) {}
+
+  get(listId: string): Container {
+    if (listId === DEFAULT_TODO_LIST_ID) {
+      return this.root;
+    }
+
+    let scope = this.scopes.get(listId);
+    if (!scope) {
+      scope = this.createScope(listId);
+      this.scopes.set(listId, scope);
+    }
+    return scope;
+  }
+
+  release(listId: string): void {
+    this.scopes.delete(listId);
+  }
+
+  private createScope(listId: string): Container {
+    const scope = this.root.createChild();
+
+    scope.bind<string>(TYPES.TodoListId).toConstantValue(listId);
+    scope.bind<ITodoRepository>(TYPES.TodoRepository).toDynamicValue((context) =>
+      context.container.get<TodoRepositoryFactory>(TYPES.TodoRepositoryFactory)(listId)
+    ).inSingletonScope();
+
+    // Changes waiting for the backend are kept per list, as each list has its own endpoint
+    if (this.root.isBound(TYPES.TodoOutbox)) {
+      scope.bind<ITodoOutbox>(TYPES.TodoOutbox).toDynamicValue((context) => new TodoOutbox(
+        context.container.get<ITodoRepository>(TYPES.TodoRepository),
+        context.container.get<IConflictResolver>(TYPES.ConflictResolver),
+        context.container.get<ILoggingService>(TYPES.LoggingService),
+        window.localStorage,
+        todoListStorageName(OUTBOX_STORAGE_KEY, listId)
+      )).inSingletonScope();
+    }
+
+    scope.bind(TodoStoreFactory).toSelf().inSingletonScope();
+    scope.bind(TYPES.TodoStore).toDynamicValue((context) => {
+      const factory = context.container.get(TodoStoreFactory);
+      return factory.getStore();
+    }).inSingletonScope();
+
+    return scope;
+  }
+}
\ No newline at end of file
@@ -1,4 +1,17 @@
 export const TYPES = {
+  Clock: Symbol.for('Clock'),
   LoggingService: Symbol.for('LoggingService'),
+  ConflictResolver: Symbol.for('ConflictResolver'),
+  IdGenerator: Symbol.for('IdGenerator'),
+  TodoExportService: Symbol.for('TodoExportService'),
+  TodoHistoryLimit: Symbol.for('TodoHistoryLimit'),
+  TodoListId: Symbol.for('TodoListId'),
+  TodoLists: Symbol.for('TodoLists'),
+  TodoListScopes: Symbol.for('TodoListScopes'),
+  TodoOutbox: Symbol.for('TodoOutbox'),
+  TodoPreferences: Symbol.for('TodoPreferences'),
+  TodoMigrations: Symbol.for('TodoMigrations'),
+  TodoRepository: Symbol.for('TodoRepository'),
+  TodoRepositoryFactory: Symbol.for('TodoRepositoryFactory'),
   TodoStore: Symbol.for('TodoStore'),
 };
\ No newline at end of file
@@ -0,0 +1,154 @@
+import React, { Component } from 'react';
+import { render, screen } from '@testing-library/react';
+import { Container, inject, injectable, multiInject, named, optional } from 'inversify';
+import { ContainerInjectionError, ContainerProvider } from './ContainerProvider';
+import { withInjection } from './withInjection';
+
+const GREETING = Symbol.for('Greeting');
+const NAME = Symbol.for('Name');
+const EXTRA = Symbol.for('Extra');
+
+interface GreetingProps {
+  punctuation: string;
+}
+
+@injectable()
+class GreetingView extends Component<GreetingProps> {
+  static built = 0;
+  mounted = false;
+
+  @inject(NAME) @optional() private name?: string;
+
+  constructor(
+    @inject(GREETING) private greeting: string,
+    props: GreetingProps
+  ) {
+    super(props);
+    GreetingView.built++;
+  }
+
+  componentDidMount() {
+    this.mounted = true;
+  }
+
+  render() {
+    return <p>{this.greeting}, {this.name ?? 'nobody'}{this.props.punctuation}</p>;
+  }
+}
+
+const Greeting = withInjection(GreetingView);
+
+describe('withInjection', () => {
+  let container: Container;
+
+  beforeEach(() => {
+    container = new Container();
+    container.bind<string>(GREETING).toConstantValue('Hello');
+    GreetingView.built = 0;
+  });
+
+  const renderGreeting = (ui: React.ReactNode, provided: Container = container) =>
+    render(<ContainerProvider container={provided}>{ui}</ContainerProvider>);
+
+  it('fills in @inject parameters and properties and forwards the props', () => {
+    container.bind<string>(NAME).toConstantValue('Ada');
+
+    renderGreeting(<Greeting punctuation="!" />);
+
+    expect(screen.getByText('Hello, Ada!')).toBeInTheDocument();
+  });
+
+  it('leaves an @optional property unset when nothing is bound', () => {
+    renderGreeting(<Greeting punctuation="." />);
+
+    expect(screen.getByText('Hello, nobody.')).toBeInTheDocument();
+  });
+
+  it('lets React mount every instance, running its lifecycle methods', () => {
+    const first = React.createRef<GreetingView>();
+    const second = React.createRef<GreetingView>();
+
+    renderGreeting(
+      <>
+        <Greeting punctuation="!" ref={first} />
+        <Greeting punctuation="?" ref={second} />
+      </>
+    );
+
+    expect(GreetingView.built).toBe(2);
+    expect(first.current).toBeInstanceOf(GreetingView);
+    expect(first.current).not.toBe(second.current);
+    expect(first.current?.mounted).toBe(true);
+  });
+
+  it('resolves from the nearest provider', () => {
+    const child = container.createChild();
+    child.bind<string>(GREETING).toConstantValue('Hi');
+
+    renderGreeting(
+      <>
+        <Greeting punctuation="!" />
+        <ContainerProvider container={child}>
+          <Greeting punctuation="?" />
+        </ContainerProvider>
+      </>
+    );
+
+    expect(screen.getByText('Hello, nobody!')).toBeInTheDocument();
+    expect(screen.getByText('Hi, nobody?')).toBeInTheDocument();
+  });
+
+  it('gives back the same component for the same class', () => {
+    expect(withInjection(GreetingView)).toBe(Greeting);
+    expect(Greeting.displayName).toBe('withInjection(GreetingView)');
+  });
+
+  it('supports @multiInject and @named', () => {
+    @injectable()
+    class ExtrasView extends Component {
+      constructor(
+        @multiInject(EXTRA) private extras: string[],
+        @inject(GREETING) @named('formal') private greeting: string
+      ) {
+        super({});
+      }
+
+      render() {
+        return <p>{this.greeting}: {this.extras.join(', ')}</p>;
+      }
+    }
+    const Extras = withInjection(ExtrasView);
+    container.bind<string>(EXTRA).toConstantValue('tea');
+    container.bind<string>(EXTRA).toConstantValue('cake');
+    container.rebind<string>(GREETING).toConstantValue('Good afternoon').whenTargetNamed('formal');
+
+    renderGreeting(<Extras />);
+
+    expect(screen.getByText('Good afternoon: tea, cake')).toBeInTheDocument();
+  });
+
+  describe('errors', () => {
+    let consoleError: jest.SpyInstance;
+
+    // React logs the errors it catches while rendering; they are what is being tested
+    beforeEach(() => {
+      consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      consoleError.mockRestore();
+    });
+
+    it('names the missing binding and the component that needs it', () => {
+      expect(() => renderGreeting(<Greeting punctuation="!" />, new Container())).toThrow(new ContainerInjectionError(
+        'Nothing is bound to Symbol(Greeting), which GreetingView needs, in the container of the nearest ContainerProvider'
+      ));
+    });
+
+    it('says when there is no provider', () => {
+      expect(() => render(<Greeting punctuation="!" />)).toThrow(
+        new ContainerInjectionError('GreetingView must be rendered within a ContainerProvider')
+      );
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,86 @@
+import React from 'react';
+import { Container, LazyServiceIdentifier, METADATA_KEY, getServiceIdentifierAsString, interfaces } from 'inversify';
+import { ContainerContext, ContainerInjectionError } from './ContainerProvider';
+
+interface InjectionMetadata {
+  key: string | number | symbol;
+  value: unknown;
+}
+
+// Takes any constructor parameters: which of them get the props or a service is read
+// from the @inject metadata when the component is built
+type InjectableComponentClass<P> = new (...args: never[]) => React.Component<P, unknown>;
+
+const metadataOf = (target: object, key: string): Record<string, InjectionMetadata[]> =>
+  Reflect.getMetadata(key, target) ?? {};
+
+const tagValue = (metadata: InjectionMetadata[], key: string) => metadata.find(tag => tag.key === key)?.value;
+
+const isInjected = (metadata: InjectionMetadata[] | undefined): metadata is InjectionMetadata[] =>
+  metadata !== undefined &&
+  (tagValue(metadata, METADATA_KEY.INJECT_TAG) !== undefined || tagValue(metadata, METADATA_KEY.MULTI_INJECT_TAG) !== undefined);
+
+// What @inject or @multiInject asked for, minding @optional and @named
+const resolve = (container: Container, metadata: InjectionMetadata[], neededBy: string): unknown => {
+  const multiple = tagValue(metadata, METADATA_KEY.MULTI_INJECT_TAG);
+  const wanted = multiple ?? tagValue(metadata, METADATA_KEY.INJECT_TAG);
+  const serviceIdentifier = (wanted instanceof LazyServiceIdentifier ? wanted.unwrap() : wanted) as interfaces.ServiceIdentifier;
+  const name = tagValue(metadata, METADATA_KEY.NAMED_TAG) as string | undefined;
+  const bound = name === undefined ? container.isBound(serviceIdentifier) : container.isBoundNamed(serviceIdentifier, name);
+  if (!bound) {
+    if (tagValue(metadata, METADATA_KEY.OPTIONAL_TAG)) {
+      return multiple !== undefined ? [] : undefined;
+    }
+    throw new ContainerInjectionError(
+      `Nothing is bound to ${getServiceIdentifierAsString(serviceIdentifier)}, which ${neededBy} needs, ` +
+      'in the container of the nearest ContainerProvider'
+    );
+  }
+  if (multiple !== undefined) {
+    return name === undefined ? container.getAll(serviceIdentifier) : container.getAllNamed(serviceIdentifier, name);
+  }
+  return name === undefined ? container.get(serviceIdentifier) : container.getNamed(serviceIdentifier, name);
+};
+
+const injected = new WeakMap<InjectableComponentClass<never>, React.ComponentClass<never>>();
+
+// Lets React mount an @injectable class component. React builds every instance itself,
+// passing the props (and the container, through contextType) to the constructor, and
+// this fills in the constructor's @inject parameters and @inject properties from the
+// nearest ContainerProvider's container. Parameters without @inject get the props.
+// The same class always gives back the same component, so it keeps its state when
+// re-rendered.
+export const withInjection = <P,>(Target: InjectableComponentClass<P>): React.ComponentClass<P> => {
+  const known = injected.get(Target as InjectableComponentClass<never>);
+  if (known) {
+    return known as unknown as React.ComponentClass<P>;
+  }
+
+  const name = Target.name || 'Component';
+  const parameters = metadataOf(Target, METADATA_KEY.TAGGED);
+  const properties = metadataOf(Target, METADATA_KEY.TAGGED_PROP);
+  const arity = Math.max(Target.length, ...Object.keys(parameters).map(index => Number(index) + 1));
+
+  class Injected extends Target {
+    static displayName = `withInjection(${name})`;
+    static contextType = ContainerContext;
+
+    constructor(props: P, container: Container | null) {
+      if (!container) {
+        throw new ContainerInjectionError(`${name} must be rendered within a ContainerProvider`);
+      }
+      super(...Array.from({ length: arity }, (_, index) => {
+        const metadata = parameters[index];
+        return isInjected(metadata) ? resolve(container, metadata, name) : props;
+      }) as never[]);
+      Object.entries(properties).forEach(([property, metadata]) => {
+        if (isInjected(metadata)) {
+          (this as Record<string, unknown>)[property] = resolve(container, metadata, name);
+        }
+      });
+    }
+  }
+
+  injected.set(Target as InjectableComponentClass<never>, Injected as unknown as React.ComponentClass<never>);
+  return Injected as unknown as React.ComponentClass<P>;
+};
\ No newline at end of file
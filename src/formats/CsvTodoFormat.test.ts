@@ -0,0 +1,140 @@
+import { CsvTodoFormat, parseCsvRecords } from './CsvTodoFormat';
+import { Todo } from '../types';
+
+describe('CsvTodoFormat', () => {
+  const format = new CsvTodoFormat();
+  const todos: Todo[] = [
+    { id: '1', text: 'Plain', completed: false, createdAt: new Date('2024-01-01T00:00:00.000Z') },
+    { id: '2', text: 'Milk, eggs and "fresh" bread', completed: true, createdAt: new Date('2024-01-02T00:00:00.000Z') },
+    { id: '3', text: 'Line one\nline two', completed: false, createdAt: new Date('2024-01-03T00:00:00.000Z') },
+  ];
+
+  describe('serialize', () => {
+    it('writes a header and CRLF-terminated records', () => {
+      expect(format.serialize([todos[0]])).toBe(
+        'id,text,completed,createdAt,completedAt,dueDate,priority,tags,recurrence,subtasks\r\n' +
+        '1,Plain,false,2024-01-01T00:00:00.000Z,,,,,,\r\n'
+      );
+    });
+
+    it('quotes fields with commas, quotes and line breaks and doubles inner quotes', () => {
+      const csv = format.serialize(todos);
+      expect(csv).toContain('2,"Milk, eggs and ""fresh"" bread",true,');
+      expect(csv).toContain('3,"Line one\nline two",false,');
+    });
+  });
+
+  describe('parse', () => {
+    it('round-trips exported todos', () => {
+      const result = format.parse(format.serialize(todos));
+
+      expect(result.errors).toEqual([]);
+      expect(result.todos).toEqual(todos.map(({ text, completed, createdAt }) => ({ text, completed, createdAt })));
+    });
+
+    it('round-trips priority, due date, tags, recurrence and subtasks', () => {
+      const detailed: Todo = {
+        id: '4',
+        text: 'Water the plants',
+        completed: true,
+        createdAt: new Date('2024-01-04T00:00:00.000Z'),
+        completedAt: new Date('2024-01-05T08:30:00.000Z'),
+        dueDate: new Date(2024, 0, 6),
+        priority: 'high',
+        tags: ['home', 'garden'],
+        recurrence: 'FREQ=WEEKLY;BYDAY=SA',
+        subtasks: [{ id: 's1', text: 'Fill the can', completed: true }, { id: 's2', text: 'Balcony, then "kitchen"', completed: false }],
+      };
+
+      const csv = format.serialize([detailed]);
+      const result = format.parse(csv);
+
+      expect(csv).toContain(',high,home garden,FREQ=WEEKLY;BYDAY=SA,"[x] Fill the can\n[ ] Balcony, then ""kitchen"""\r\n');
+      expect(result.errors).toEqual([]);
+      const { id: _id, ...draft } = detailed;
+      expect(result.todos).toEqual([{
+        ...draft,
+        subtasks: [{ text: 'Fill the can', completed: true }, { text: 'Balcony, then "kitchen"', completed: false }],
+      }]);
+    });
+
+    it('reads subtasks without a checkbox as open, and reports unreadable details', () => {
+      const result = format.parse([
+        'text,priority,tags,recurrence,subtasks',
+        'Open,,#Home  work,,Call',
+        'Bad priority,soon,,,',
+        'Bad rule,,,FREQ=HOURLY,',
+        'Empty subtask,,,,[x]',
+      ].join('\n'));
+
+      expect(result.todos).toEqual([
+        { text: 'Open', completed: false, createdAt: undefined, tags: ['home', 'work'], subtasks: [{ text: 'Call', completed: false }] },
+      ]);
+      expect(result.errors).toEqual([
+        { row: 3, message: 'priority must be one of low, medium, high, urgent, got "soon"' },
+        { row: 4, message: 'recurrence is not supported: FREQ=HOURLY is not supported' },
+        { row: 5, message: 'subtasks: every line needs the subtask text' },
+      ]);
+    });
+
+    it('accepts columns in any order and without optional columns', () => {
+      const result = format.parse('Completed,Text\nyes,Done\n,Open\n');
+
+      expect(result.todos).toEqual([
+        { text: 'Done', completed: true, createdAt: undefined },
+        { text: 'Open', completed: false, createdAt: undefined },
+      ]);
+    });
+
+    it('reports per-row errors and keeps the valid rows', () => {
+      const result = format.parse([
+        'text,completed,createdAt',
+        'Good,false,2024-01-01T00:00:00.000Z',
+        ',false,',
+        'Bad flag,maybe,',
+        'Bad date,true,yesterday',
+        'Too,many,fields,here',
+      ].join('\n'));
+
+      expect(result.todos.map(todo => todo.text)).toEqual(['Good']);
+      expect(result.errors).toEqual([
+        { row: 3, message: 'text is required' },
+        { row: 4, message: 'completed must be true or false, got "maybe"' },
+        { row: 5, message: 'createdAt is not a valid date: "yesterday"' },
+        { row: 6, message: 'expected 3 fields, found 4' },
+      ]);
+    });
+
+    it('requires a text column', () => {
+      expect(format.parse('title\nSomething\n').errors).toEqual([
+        { row: 1, message: 'The header row needs a "text" column' }
+      ]);
+    });
+
+    it('reports an unterminated quoted field', () => {
+      expect(format.parse('text\n"never closed\n').errors).toEqual([
+        { message: 'unterminated quoted field starting on line 2' }
+      ]);
+    });
+
+    it('reports an empty file', () => {
+      expect(format.parse('').errors).toEqual([{ message: 'The file is empty' }]);
+    });
+  });
+
+  describe('parseCsvRecords', () => {
+    it('handles CRLF, LF and a missing final line break', () => {
+      expect(parseCsvRecords('a,b\r\nc,d\ne,f').map(record => record.fields)).toEqual([
+        ['a', 'b'], ['c', 'd'], ['e', 'f']
+      ]);
+    });
+
+    it('keeps empty fields and tracks the line each record starts on', () => {
+      expect(parseCsvRecords('a,,c\n"x\ny",z\nlast,')).toEqual([
+        { fields: ['a', '', 'c'], line: 1 },
+        { fields: ['x\ny', 'z'], line: 2 },
+        { fields: ['last', ''], line: 4 },
+      ]);
+    });
+  });
+});
\ No newline at end of file
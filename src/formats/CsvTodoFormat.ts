@@ -0,0 +1,213 @@
+import type { Todo } from '../types';
+import { normalizeTags } from '../stores/todoTags';
+import {
+  ITodoFormat,
+  TodoDraft,
+  TodoFieldError,
+  TodoImportResult,
+  TodoSubtaskDraft,
+  parseCompleted,
+  parseOptionalDate,
+  parsePriority,
+  parseRecurrence,
+  parseTodoText,
+} from './TodoFormat';
+
+const CSV_COLUMNS = [
+  'id', 'text', 'completed', 'createdAt', 'completedAt', 'dueDate', 'priority', 'tags', 'recurrence', 'subtasks',
+];
+
+// Tags share a cell, separated by spaces
+const parseTags = (value: string): string[] => normalizeTags(value.split(/\s+/));
+
+// Subtasks share a cell, one per line, checked off as in Markdown: "[x] Done" or "[ ] Open"
+const SUBTASK_LINE = /^\[([ xX])\]\s*/;
+
+const parseSubtasks = (value: string): TodoSubtaskDraft[] =>
+  value.split(/\r\n|\r|\n/).filter(line => line.trim()).map(line => {
+    const checkbox = line.trim().match(SUBTASK_LINE);
+    const text = line.trim().slice(checkbox?.[0].length ?? 0).trim();
+    if (!text) {
+      throw new TodoFieldError('subtasks: every line needs the subtask text');
+    }
+    return { text, completed: checkbox ? checkbox[1] !== ' ' : false };
+  });
+
+const serializeSubtasks = (todo: Todo): string =>
+  (todo.subtasks ?? []).map(subtask => `[${subtask.completed ? 'x' : ' '}] ${subtask.text}`).join('\n');
+
+// RFC 4180: quote fields containing commas, quotes or line breaks, doubling inner quotes
+const escapeCsvField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+interface CsvRecord {
+  fields: string[];
+  // Line the record starts on, for error messages (records may span lines)
+  line: number;
+}
+
+// Splits RFC 4180 text into records, allowing quoted fields to contain line breaks
+export const parseCsvRecords = (input: string): CsvRecord[] => {
+  const records: CsvRecord[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+  let i = 0;
+
+  const endRecord = () => {
+    fields.push(field);
+    // A trailing line break does not start another record
+    if (!(fields.length === 1 && fields[0] === '')) {
+      records.push({ fields, line: recordLine });
+    }
+    fields = [];
+    field = '';
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i += 2;
+        continue;
+      }
+      if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') {
+          line++;
+        }
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      endRecord();
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+    i++;
+  }
+
+  if (inQuotes) {
+    throw new TodoFieldError(`unterminated quoted field starting on line ${recordLine}`);
+  }
+  if (field !== '' || fields.length > 0) {
+    endRecord();
+  }
+
+  return records;
+};
+
+export class CsvTodoFormat implements ITodoFormat {
+  id = 'csv';
+  label = 'CSV';
+  fileExtension = 'csv';
+  mimeType = 'text/csv';
+
+  serialize(todos: Todo[]): string {
+    const rows = todos.map(todo => [
+      todo.id,
+      todo.text,
+      String(todo.completed),
+      todo.createdAt.toISOString(),
+      todo.completedAt?.toISOString() ?? '',
+      todo.dueDate?.toISOString() ?? '',
+      todo.priority ?? '',
+      (todo.tags ?? []).join(' '),
+      todo.recurrence ?? '',
+      serializeSubtasks(todo),
+    ]);
+    return [CSV_COLUMNS, ...rows]
+      .map(row => row.map(escapeCsvField).join(','))
+      .join('\r\n') + '\r\n';
+  }
+
+  parse(input: string): TodoImportResult {
+    let records: CsvRecord[];
+    try {
+      records = parseCsvRecords(input);
+    } catch (error) {
+      return { todos: [], errors: [{ message: (error as Error).message }] };
+    }
+
+    if (records.length === 0) {
+      return { todos: [], errors: [{ message: 'The file is empty' }] };
+    }
+
+    const [header, ...rows] = records;
+    const columns = header.fields.map(name => name.trim().toLowerCase());
+    const textIndex = columns.indexOf('text');
+    if (textIndex === -1) {
+      return { todos: [], errors: [{ row: 1, message: 'The header row needs a "text" column' }] };
+    }
+    const completedIndex = columns.indexOf('completed');
+    const createdAtIndex = columns.indexOf('createdat');
+    // The columns added after the first four are read when a file has them
+    const optionalIndexes = {
+      completedAt: columns.indexOf('completedat'),
+      dueDate: columns.indexOf('duedate'),
+      priority: columns.indexOf('priority'),
+      tags: columns.indexOf('tags'),
+      recurrence: columns.indexOf('recurrence'),
+      subtasks: columns.indexOf('subtasks'),
+    };
+
+    const result: TodoImportResult = { todos: [], errors: [] };
+    rows.forEach((record, index) => {
+      // Row numbers count the header, matching what spreadsheet users see
+      const row = index + 2;
+      if (record.fields.length !== columns.length) {
+        result.errors.push({ row, message: `expected ${columns.length} fields, found ${record.fields.length}` });
+        return;
+      }
+
+      try {
+        const field = (index: number): string => (index === -1 ? '' : record.fields[index]);
+        const text = parseTodoText(record.fields[textIndex]);
+        const completed = completedIndex === -1 ? false : parseCompleted(record.fields[completedIndex]);
+        const createdAt = parseOptionalDate(field(createdAtIndex), 'createdAt');
+        const completedAt = parseOptionalDate(field(optionalIndexes.completedAt), 'completedAt');
+        const dueDate = parseOptionalDate(field(optionalIndexes.dueDate), 'dueDate');
+        const priority = parsePriority(field(optionalIndexes.priority).trim());
+        const tags = parseTags(field(optionalIndexes.tags));
+        const recurrence = parseRecurrence(field(optionalIndexes.recurrence).trim());
+        const subtasks = parseSubtasks(field(optionalIndexes.subtasks));
+        const todo: TodoDraft = {
+          text,
+          completed,
+          createdAt,
+          ...(completedAt ? { completedAt } : {}),
+          ...(dueDate ? { dueDate } : {}),
+          ...(priority ? { priority } : {}),
+          ...(tags.length > 0 ? { tags } : {}),
+          ...(recurrence ? { recurrence } : {}),
+          ...(subtasks.length > 0 ? { subtasks } : {}),
+        };
+        result.todos.push(todo);
+      } catch (error) {
+        if (!(error instanceof TodoFieldError)) {
+          throw error;
+        }
+        result.errors.push({ row, message: error.message });
+      }
+    });
+    return result;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,268 @@
+import fs from 'fs';
+import path from 'path';
+import fc from 'fast-check';
+import {
+  IcsTodoFormat,
+  escapeIcsText,
+  foldIcsLine,
+  unescapeIcsText,
+  unfoldIcsLines,
+  zonedTimeToUtc,
+} from './IcsTodoFormat';
+import { Todo } from '../types';
+
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, '__fixtures__', name), 'utf8');
+const octets = (line: string) => Buffer.byteLength(line, 'utf8');
+
+describe('IcsTodoFormat', () => {
+  const format = new IcsTodoFormat(() => new Date('2024-03-10T12:00:00.000Z'));
+
+  describe('text escaping', () => {
+    it('escapes backslashes, semicolons, commas and line breaks', () => {
+      expect(escapeIcsText('a\\b; c, d\r\ne\nf')).toBe('a\\\\b\\; c\\, d\\ne\\nf');
+    });
+
+    it('unescapes what it escapes', () => {
+      fc.assert(fc.property(fc.string(), text => {
+        expect(unescapeIcsText(escapeIcsText(text))).toBe(text.replace(/\r\n|\r/g, '\n'));
+      }));
+    });
+  });
+
+  describe('line folding', () => {
+    it('leaves short lines alone', () => {
+      expect(foldIcsLine('SUMMARY:Short')).toBe('SUMMARY:Short');
+    });
+
+    it('folds at 75 octets without splitting multi-byte characters', () => {
+      const folded = foldIcsLine(`SUMMARY:${'é'.repeat(40)}${'🎉'.repeat(20)}`);
+      const lines = folded.split('\r\n');
+
+      expect(lines.length).toBeGreaterThan(1);
+      lines.forEach((line, index) => {
+        expect(octets(line)).toBeLessThanOrEqual(75);
+        expect(line).not.toContain('�');
+        if (index > 0) {
+          expect(line.startsWith(' ')).toBe(true);
+        }
+      });
+    });
+
+    it('unfolds back to the original line', () => {
+      fc.assert(fc.property(fc.string({ unit: 'grapheme', maxLength: 300 }), text => {
+        const line = `SUMMARY:${text.replace(/[\r\n]/g, '')}`;
+        const folded = foldIcsLine(line);
+
+        folded.split('\r\n').forEach(physical => expect(octets(physical)).toBeLessThanOrEqual(75));
+        expect(unfoldIcsLines(folded)).toEqual([{ text: line, line: 1 }]);
+      }));
+    });
+  });
+
+  describe('time zones', () => {
+    const wallClock = (iso: string) => Date.parse(`${iso}Z`);
+
+    it('converts wall-clock times in IANA zones, including daylight saving time', () => {
+      expect(zonedTimeToUtc(wallClock('2024-01-15T09:00:00'), 'America/New_York').toISOString())
+        .toBe('2024-01-15T14:00:00.000Z');
+      expect(zonedTimeToUtc(wallClock('2024-07-15T09:00:00'), 'America/New_York').toISOString())
+        .toBe('2024-07-15T13:00:00.000Z');
+      expect(zonedTimeToUtc(wallClock('2024-07-15T09:00:00'), 'Asia/Kolkata').toISOString())
+        .toBe('2024-07-15T03:30:00.000Z');
+    });
+
+    it('reads skipped times with the offset from before the change', () => {
+      expect(zonedTimeToUtc(wallClock('2024-03-10T02:30:00'), 'America/New_York').toISOString())
+        .toBe('2024-03-10T07:30:00.000Z');
+    });
+
+    it('reads repeated times as their first occurrence', () => {
+      expect(zonedTimeToUtc(wallClock('2024-11-03T01:30:00'), 'America/New_York').toISOString())
+        .toBe('2024-11-03T05:30:00.000Z');
+    });
+  });
+
+  describe('serialize', () => {
+    const todos: Todo[] = [
+      {
+        id: '1',
+        text: 'Buy milk, eggs; bread',
+        completed: false,
+        createdAt: new Date('2024-03-01T14:00:00.000Z'),
+        dueDate: new Date(2024, 2, 15),
+      },
+      {
+        id: '2',
+        text: 'Done',
+        completed: true,
+        createdAt: new Date('2024-03-01T14:00:00.000Z'),
+        updatedAt: new Date('2024-03-02T08:30:00.000Z'),
+        completedAt: new Date('2024-03-02T08:30:00.000Z'),
+      },
+    ];
+
+    it('writes a calendar with one VTODO per todo and CRLF line endings', () => {
+      expect(format.serialize(todos)).toBe([
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//inversify-zustand-todo//Todo export//EN',
+        'BEGIN:VTODO',
+        'UID:1',
+        'DTSTAMP:20240310T120000Z',
+        'CREATED:20240301T140000Z',
+        'SUMMARY:Buy milk\\, eggs\\; bread',
+        'STATUS:NEEDS-ACTION',
+        'DUE;VALUE=DATE:20240315',
+        'END:VTODO',
+        'BEGIN:VTODO',
+        'UID:2',
+        'DTSTAMP:20240310T120000Z',
+        'CREATED:20240301T140000Z',
+        'LAST-MODIFIED:20240302T083000Z',
+        'SUMMARY:Done',
+        'STATUS:COMPLETED',
+        'COMPLETED:20240302T083000Z',
+        'END:VTODO',
+        'END:VCALENDAR',
+        '',
+      ].join('\r\n'));
+    });
+
+    it('round-trips todos through the format', () => {
+      expect(format.parse(format.serialize(todos))).toEqual({
+        todos: [
+          { text: 'Buy milk, eggs; bread', completed: false, createdAt: todos[0].createdAt, dueDate: todos[0].dueDate },
+          { text: 'Done', completed: true, createdAt: todos[1].createdAt, completedAt: todos[1].completedAt },
+        ],
+        errors: [],
+      });
+    });
+
+    it('writes due dates as the local calendar day, whatever the time', () => {
+      const dueTodos: Todo[] = [
+        { id: 'morning', text: 'Early', completed: false, createdAt: todos[0].createdAt, dueDate: new Date(2024, 2, 15, 0, 30) },
+        { id: 'evening', text: 'Late', completed: false, createdAt: todos[0].createdAt, dueDate: new Date(2024, 11, 31, 23, 30) },
+      ];
+
+      expect(format.serialize(dueTodos)).toBe(fixture('due-dates.ics').replace(/\r?\n/g, '\r\n'));
+      expect(format.parse(fixture('due-dates.ics')).todos.map(todo => todo.dueDate)).toEqual([
+        new Date(2024, 2, 15),
+        new Date(2024, 11, 31),
+      ]);
+    });
+
+    it('round-trips long, multi-line and non-ASCII text', () => {
+      const text = `Résumé review 📄 — ${'notes, '.repeat(20)}\nsecond line; with \\ backslash`;
+      const todo: Todo = { id: 'long', text, completed: false, createdAt: new Date('2024-03-01T00:00:00.000Z') };
+
+      expect(format.parse(format.serialize([todo])).todos[0].text).toBe(text.trim());
+    });
+  });
+
+  describe('parse', () => {
+    it('reads an Apple Reminders export', () => {
+      expect(format.parse(fixture('apple-reminders.ics'))).toEqual({
+        todos: [
+          {
+            text: 'Buy milk, eggs; and bread',
+            completed: false,
+            createdAt: new Date('2024-03-01T14:00:00.000Z'),
+            // 17:00 in New York, after clocks went forward on 10 March
+            dueDate: new Date('2024-03-15T21:00:00.000Z'),
+          },
+          {
+            text: 'Plan the Zürich offsite — book rooms, trains and the team dinner for everyone',
+            completed: true,
+            createdAt: new Date('2024-01-10T09:00:00.000Z'),
+            completedAt: new Date('2024-03-05T18:30:00.000Z'),
+            dueDate: new Date(2024, 2, 6),
+          },
+        ],
+        errors: [],
+      });
+    });
+
+    it('handles edge cases and reports broken VTODOs by the line they start on', () => {
+      const result = format.parse(fixture('edge-cases.ics'));
+
+      expect(result.todos).toEqual([
+        { text: 'Clocks spring forward', completed: false, dueDate: new Date('2024-03-31T01:30:00.000Z') },
+        { text: 'Clocks fall back', completed: false, dueDate: new Date('2024-10-27T00:30:00.000Z') },
+        {
+          text: 'Folded with a tab and an escaped backslash \\ and a line\nbreak',
+          completed: true,
+          completedAt: new Date(2024, 2, 1, 12, 0, 0),
+          dueDate: new Date(2024, 1, 29),
+        },
+      ]);
+      expect(result.errors).toEqual([
+        { row: 27, message: 'SUMMARY is required' },
+        { row: 31, message: 'DUE is not a valid date: "20240230T100000Z"' },
+        { row: 36, message: 'unknown time zone "Eastern Standard Time"' },
+        { row: 41, message: 'line 44: not a valid iCalendar content line: "this line has no colon"' },
+      ]);
+    });
+
+    it('lets STATUS win over a stray COMPLETED property', () => {
+      const result = format.parse([
+        'BEGIN:VCALENDAR',
+        'BEGIN:VTODO',
+        'SUMMARY:Reopened',
+        'STATUS:NEEDS-ACTION',
+        'COMPLETED:20240301T120000Z',
+        'END:VTODO',
+        'END:VCALENDAR',
+      ].join('\r\n'));
+
+      expect(result.todos).toEqual([{ text: 'Reopened', completed: false }]);
+    });
+
+    it('maps PRIORITY to priority levels and back', () => {
+      const vtodo = (priority: string) => `BEGIN:VTODO\r\nSUMMARY:P${priority}\r\nPRIORITY:${priority}\r\nEND:VTODO`;
+      const result = format.parse(`BEGIN:VCALENDAR\r\n${['0', '1', '2', '4', '5', '6', '9'].map(vtodo).join('\r\n')}\r\nEND:VCALENDAR`);
+
+      expect(result.todos.map(todo => todo.priority))
+        .toEqual([undefined, 'urgent', 'high', 'high', 'medium', 'low', 'low']);
+
+      const createdAt = new Date('2024-03-01T00:00:00.000Z');
+      const written = format.serialize([{ id: '1', text: 'High', completed: false, createdAt, priority: 'high' }]);
+      expect(written).toContain('\r\nPRIORITY:3\r\n');
+      expect(format.parse(written).todos[0].priority).toBe('high');
+    });
+
+    it('maps RRULE to the recurrence rule and back', () => {
+      const createdAt = new Date('2024-03-01T00:00:00.000Z');
+      const written = format.serialize([
+        { id: '1', text: 'Water plants', completed: false, createdAt, recurrence: 'FREQ=WEEKLY;BYDAY=MO,TH' }
+      ]);
+
+      expect(written).toContain('\r\nRRULE:FREQ=WEEKLY;BYDAY=MO,TH\r\n');
+      expect(format.parse(written).todos[0].recurrence).toBe('FREQ=WEEKLY;BYDAY=MO,TH');
+    });
+
+    it('reports an RRULE outside the supported subset', () => {
+      const result = format.parse([
+        'BEGIN:VCALENDAR',
+        'BEGIN:VTODO',
+        'SUMMARY:Hourly',
+        'RRULE:FREQ=HOURLY',
+        'END:VTODO',
+        'END:VCALENDAR',
+      ].join('\r\n'));
+
+      expect(result.errors).toEqual([{ row: 2, message: 'RRULE is not supported: FREQ=HOURLY is not supported' }]);
+    });
+
+    it('reports a VTODO that is never closed', () => {
+      expect(format.parse('BEGIN:VCALENDAR\r\nBEGIN:VTODO\r\nSUMMARY:Cut off\r\n').errors).toEqual([
+        { row: 2, message: 'VTODO is missing END:VTODO' },
+      ]);
+    });
+
+    it('rejects input that is not a calendar', () => {
+      expect(format.parse('- [ ] A markdown item').errors).toEqual([
+        { message: 'Not an iCalendar file (no BEGIN:VCALENDAR)' },
+      ]);
+    });
+  });
+});
\ No newline at end of file
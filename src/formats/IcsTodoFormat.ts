@@ -0,0 +1,366 @@
+import type { Todo, TodoPriority } from '../types';
+import { ITodoFormat, TodoDraft, TodoFieldError, TodoImportResult } from './TodoFormat';
+import { parseRecurrenceRule } from '../recurrence';
+
+// RFC 5545 calendar with one VTODO per todo
+const PRODUCT_ID = '-//inversify-zustand-todo//Todo export//EN';
+const MAX_LINE_OCTETS = 75;
+
+const DATE_VALUE = /^(\d{4})(\d{2})(\d{2})$/;
+const DATE_TIME_VALUE = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/;
+
+export interface IcsContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+  // Line the (possibly folded) content line starts on
+  line: number;
+}
+
+// TEXT values escape backslashes, semicolons, commas and line breaks (RFC 5545 3.3.11)
+export const escapeIcsText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+
+export const unescapeIcsText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+const utf8Length = (char: string): number => {
+  const codePoint = char.codePointAt(0)!;
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  if (codePoint < 0x10000) return 3;
+  return 4;
+};
+
+// Lines are limited to 75 octets; longer ones continue on lines starting with a
+// space, and are only ever split between characters (RFC 5545 3.1)
+export const foldIcsLine = (line: string): string => {
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = utf8Length(char);
+    // Continuation lines spend one octet on the leading space
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      lines.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+
+  lines.push(current);
+  return lines.join('\r\n ');
+};
+
+// Joins folded lines back together; bare LF line endings are accepted too
+export const unfoldIcsLines = (input: string): { text: string; line: number }[] => {
+  const lines: { text: string; line: number }[] = [];
+
+  input.split(/\r\n|\r|\n/).forEach((text, index) => {
+    const previous = lines[lines.length - 1];
+    if ((text.startsWith(' ') || text.startsWith('\t')) && previous) {
+      previous.text += text.slice(1);
+    } else {
+      lines.push({ text, line: index + 1 });
+    }
+  });
+
+  return lines.filter(({ text }) => text !== '');
+};
+
+// NAME;PARAM=value;PARAM="quoted:value":property value
+export const parseIcsContentLine = (text: string, line: number): IcsContentLine => {
+  const segments: string[] = [];
+  let segment = '';
+  let inQuotes = false;
+  let valueStart = -1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && char === ';') {
+      segments.push(segment);
+      segment = '';
+      continue;
+    } else if (!inQuotes && char === ':') {
+      valueStart = i + 1;
+      break;
+    }
+    segment += char;
+  }
+  segments.push(segment);
+
+  const [name, ...paramSegments] = segments;
+  if (valueStart === -1 || !/^[A-Za-z0-9-]+$/.test(name)) {
+    throw new TodoFieldError(`not a valid iCalendar content line: "${text}"`);
+  }
+
+  const params: Record<string, string> = {};
+  paramSegments.forEach(param => {
+    const separator = param.indexOf('=');
+    const value = param.slice(separator + 1);
+    params[param.slice(0, separator).toUpperCase()] = value.replace(/^"(.*)"$/, '$1');
+  });
+
+  return { name: name.toUpperCase(), params, value: text.slice(valueStart), line };
+};
+
+// Difference between the wall-clock time in the zone and UTC at an instant
+const zoneOffset = (timeZone: string, instant: number): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(instant));
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(candidate => candidate.type === type)!.value);
+
+  return Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second')) - instant;
+};
+
+// Resolves a wall-clock time in an IANA zone. Per RFC 5545 3.3.5, a time repeated
+// when clocks go back means its first occurrence, and a time skipped when clocks go
+// forward is read with the offset from before the change.
+export const zonedTimeToUtc = (wallClock: number, timeZone: string): Date => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+  } catch {
+    throw new TodoFieldError(`unknown time zone "${timeZone}"`);
+  }
+
+  const day = 24 * 60 * 60 * 1000;
+  const offsetBefore = zoneOffset(timeZone, wallClock - day);
+  const offsetAfter = zoneOffset(timeZone, wallClock + day);
+  const candidates = [wallClock - offsetBefore, wallClock - offsetAfter]
+    .filter(instant => instant + zoneOffset(timeZone, instant) === wallClock);
+
+  return new Date(candidates.length > 0 ? Math.min(...candidates) : wallClock - offsetBefore);
+};
+
+export const formatIcsDateTime = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Due dates are calendar days in local time, so they go out as DATE values for that day
+export const formatIcsDate = (date: Date): string =>
+  [date.getFullYear(), date.getMonth() + 1, date.getDate()]
+    .map((part, index) => String(part).padStart(index === 0 ? 4 : 2, '0'))
+    .join('');
+
+// DATE values and floating times are read in local time, "Z" times as UTC and
+// TZID times in their zone
+export const parseIcsDateTime = ({ name, params, value }: IcsContentLine): Date => {
+  const invalid = () => new TodoFieldError(`${name} is not a valid date: "${value}"`);
+  const dateOnly = value.match(DATE_VALUE);
+  const dateTime = value.match(DATE_TIME_VALUE);
+
+  if (dateOnly && (params.VALUE ?? 'DATE') === 'DATE') {
+    const [year, month, day] = dateOnly.slice(1).map(Number);
+    const date = new Date(year, month - 1, day);
+    if (date.getMonth() !== month - 1 || date.getDate() !== day) {
+      throw invalid();
+    }
+    return date;
+  }
+  if (!dateTime) {
+    throw invalid();
+  }
+
+  const [year, month, day, hour, minute, second] = dateTime.slice(1, 7).map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  const check = new Date(wallClock);
+  if (check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day || hour > 23 || minute > 59 || second > 60) {
+    throw invalid();
+  }
+
+  if (dateTime[7] === 'Z') {
+    return check;
+  }
+  if (params.TZID) {
+    // A leading "/" marks a globally unique zone id, which we treat as an IANA name
+    return zonedTimeToUtc(wallClock, params.TZID.replace(/^\//, ''));
+  }
+  return new Date(year, month - 1, day, hour, minute, second);
+};
+
+// PRIORITY runs from 1 (highest) to 9 (lowest), and 0 means undefined (RFC 5545 3.8.1.9)
+const ICS_PRIORITIES: Record<TodoPriority, number> = { urgent: 1, high: 3, medium: 5, low: 7 };
+
+export const priorityFromIcs = (value: string): TodoPriority | undefined => {
+  const level = Number(value);
+  if (!/^\d$/.test(value.trim()) || level === 0) {
+    return undefined;
+  }
+  if (level === 1) return 'urgent';
+  if (level <= 4) return 'high';
+  return level === 5 ? 'medium' : 'low';
+};
+
+interface PendingTodo {
+  // Line of BEGIN:VTODO, used as the row in import errors
+  row: number;
+  properties: IcsContentLine[];
+  error?: string;
+}
+
+const toDraft = (properties: IcsContentLine[]): TodoDraft => {
+  const property = (name: string) => properties.find(candidate => candidate.name === name);
+
+  const summary = property('SUMMARY');
+  const text = summary ? unescapeIcsText(summary.value).trim() : '';
+  if (!text) {
+    throw new TodoFieldError('SUMMARY is required');
+  }
+
+  const status = property('STATUS')?.value.toUpperCase();
+  const completedProperty = property('COMPLETED');
+  const completed = status ? status === 'COMPLETED' : completedProperty !== undefined;
+
+  const created = property('CREATED');
+  const due = property('DUE');
+  const priority = property('PRIORITY');
+  const level = priority ? priorityFromIcs(priority.value) : undefined;
+  const rrule = property('RRULE');
+  if (rrule) {
+    try {
+      parseRecurrenceRule(rrule.value);
+    } catch (error) {
+      throw new TodoFieldError(`RRULE is not supported: ${(error as Error).message}`);
+    }
+  }
+  return {
+    text,
+    completed,
+    ...(created ? { createdAt: parseIcsDateTime(created) } : {}),
+    ...(completed && completedProperty ? { completedAt: parseIcsDateTime(completedProperty) } : {}),
+    ...(due ? { dueDate: parseIcsDateTime(due) } : {}),
+    ...(level ? { priority: level } : {}),
+    ...(rrule ? { recurrence: rrule.value } : {}),
+  };
+};
+
+export class IcsTodoFormat implements ITodoFormat {
+  id = 'ics';
+  label = 'iCalendar (VTODO)';
+  fileExtension = 'ics';
+  mimeType = 'text/calendar';
+
+  // DTSTAMP records when the file was written
+  constructor(private now: () => Date = () => new Date()) {}
+
+  serialize(todos: Todo[]): string {
+    const stamp = formatIcsDateTime(this.now());
+    const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODUCT_ID}`];
+
+    todos.forEach(todo => {
+      lines.push(
+        'BEGIN:VTODO',
+        `UID:${escapeIcsText(todo.id)}`,
+        `DTSTAMP:${stamp}`,
+        `CREATED:${formatIcsDateTime(todo.createdAt)}`
+      );
+      if (todo.updatedAt) {
+        lines.push(`LAST-MODIFIED:${formatIcsDateTime(todo.updatedAt)}`);
+      }
+      lines.push(`SUMMARY:${escapeIcsText(todo.text)}`, `STATUS:${todo.completed ? 'COMPLETED' : 'NEEDS-ACTION'}`);
+      if (todo.completed) {
+        lines.push(`COMPLETED:${formatIcsDateTime(todo.completedAt ?? todo.updatedAt ?? todo.createdAt)}`);
+      }
+      if (todo.dueDate) {
+        lines.push(`DUE;VALUE=DATE:${formatIcsDate(todo.dueDate)}`);
+      }
+      if (todo.priority) {
+        lines.push(`PRIORITY:${ICS_PRIORITIES[todo.priority]}`);
+      }
+      if (todo.recurrence) {
+        lines.push(`RRULE:${todo.recurrence.replace(/^RRULE:/i, '')}`);
+      }
+      lines.push('END:VTODO');
+    });
+
+    lines.push('END:VCALENDAR');
+    return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+  }
+
+  parse(input: string): TodoImportResult {
+    const result: TodoImportResult = { todos: [], errors: [] };
+    const lines = unfoldIcsLines(input);
+
+    if (!lines.some(({ text }) => text.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+      result.errors.push({ message: 'Not an iCalendar file (no BEGIN:VCALENDAR)' });
+      return result;
+    }
+
+    // Properties of the VTODO being read; components nested in it (VALARM) are skipped
+    let current: PendingTodo | null = null;
+    let nestedDepth = 0;
+
+    const finish = (todo: PendingTodo) => {
+      if (todo.error) {
+        result.errors.push({ row: todo.row, message: todo.error });
+        return;
+      }
+      try {
+        result.todos.push(toDraft(todo.properties));
+      } catch (error) {
+        if (!(error instanceof TodoFieldError)) {
+          throw error;
+        }
+        result.errors.push({ row: todo.row, message: error.message });
+      }
+    };
+
+    for (const { text, line } of lines) {
+      let property: IcsContentLine;
+      try {
+        property = parseIcsContentLine(text, line);
+      } catch (error) {
+        if (!(error instanceof TodoFieldError)) {
+          throw error;
+        }
+        if (current) {
+          current.error ??= `line ${line}: ${error.message}`;
+        } else {
+          result.errors.push({ row: line, message: error.message });
+        }
+        continue;
+      }
+
+      const component = property.value.trim().toUpperCase();
+      if (property.name === 'BEGIN') {
+        if (current) {
+          nestedDepth++;
+        } else if (component === 'VTODO') {
+          current = { row: line, properties: [] };
+        }
+      } else if (property.name === 'END' && current) {
+        if (nestedDepth > 0) {
+          nestedDepth--;
+        } else if (component === 'VTODO') {
+          finish(current);
+          current = null;
+        }
+      } else if (current && nestedDepth === 0) {
+        current.properties.push(property);
+      }
+    }
+
+    if (current) {
+      result.errors.push({ row: current.row, message: 'VTODO is missing END:VTODO' });
+    }
+
+    return result;
+  }
+}
\ No newline at end of file
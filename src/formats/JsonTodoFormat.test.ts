@@ -0,0 +1,87 @@
+import { JsonTodoFormat } from './JsonTodoFormat';
+import { Todo } from '../types';
+
+describe('JsonTodoFormat', () => {
+  const format = new JsonTodoFormat();
+  const todo: Todo = { id: '1', text: 'Export me', completed: true, createdAt: new Date('2024-01-01T12:00:00.000Z') };
+
+  it('exports todos with ISO dates', () => {
+    expect(JSON.parse(format.serialize([todo]))).toEqual([
+      { id: '1', text: 'Export me', completed: true, createdAt: '2024-01-01T12:00:00.000Z' }
+    ]);
+  });
+
+  it('round-trips exported todos', () => {
+    expect(format.parse(format.serialize([todo]))).toEqual({
+      todos: [{ text: 'Export me', completed: true, createdAt: todo.createdAt }],
+      errors: [],
+    });
+  });
+
+  it('round-trips every field but the ones the store assigns on import', () => {
+    const full: Todo = {
+      id: '2',
+      text: 'Water the plants',
+      completed: true,
+      createdAt: new Date('2024-01-01T12:00:00.000Z'),
+      completedAt: new Date('2024-01-08T09:00:00.000Z'),
+      dueDate: new Date('2024-01-15T00:00:00.000Z'),
+      priority: 'low',
+      priorityLetter: 'F',
+      projects: ['Garden'],
+      contexts: ['home'],
+      tags: ['chores', 'weekly'],
+      subtasks: [{ id: 's1', text: 'Balcony', completed: true }, { id: 's2', text: 'Kitchen', completed: false }],
+      recurrence: 'FREQ=WEEKLY',
+      completions: [{ completedAt: new Date('2024-01-01T09:00:00.000Z'), dueDate: new Date('2024-01-01T00:00:00.000Z') }],
+      order: 'a3',
+      updatedAt: new Date('2024-01-08T09:00:00.000Z'),
+      version: 4,
+    };
+    const { id: _id, order: _order, updatedAt: _updatedAt, version: _version, ...draft } = full;
+
+    expect(format.parse(format.serialize([full]))).toEqual({ todos: [draft], errors: [] });
+  });
+
+  it('reports fields of the wrong shape', () => {
+    const result = format.parse(JSON.stringify([
+      { text: 'Priority', priority: 'whenever' },
+      { text: 'Rule', recurrence: 'FREQ=SOMETIMES' },
+      { text: 'Tags', tags: 'chores' },
+      { text: 'Subtask', subtasks: [{ id: 's1', text: ' ' }] },
+      { text: 'Completion', completions: [{ dueDate: '2024-01-01' }] },
+    ]));
+
+    expect(result.todos).toEqual([]);
+    expect(result.errors).toEqual([
+      { row: 1, message: 'priority must be one of low, medium, high, urgent, got "whenever"' },
+      { row: 2, message: expect.stringMatching(/^recurrence is not supported: /) },
+      { row: 3, message: 'tags must be an array' },
+      { row: 4, message: 'subtasks[0]: text is required' },
+      { row: 5, message: 'completions[0] must be an object with a completedAt date' },
+    ]);
+  });
+
+  it('reports invalid JSON and non-array input for the whole file', () => {
+    expect(format.parse('{oops').errors).toEqual([{ message: expect.stringContaining('Invalid JSON') }]);
+    expect(format.parse('{"text": "single"}').errors).toEqual([{ message: 'Expected a JSON array of todos' }]);
+  });
+
+  it('reports errors per array element and keeps the valid ones', () => {
+    const result = format.parse(JSON.stringify([
+      { text: 'Fine' },
+      'just a string',
+      { text: '   ' },
+      { text: 'Bad flag', completed: 'perhaps' },
+      { text: 'Bad date', createdAt: 12 },
+    ]));
+
+    expect(result.todos).toEqual([{ text: 'Fine', completed: false, createdAt: undefined }]);
+    expect(result.errors).toEqual([
+      { row: 2, message: 'expected an object' },
+      { row: 3, message: 'text is required' },
+      { row: 4, message: 'completed must be true or false, got "perhaps"' },
+      { row: 5, message: 'createdAt is not a valid date: "12"' },
+    ]);
+  });
+});
\ No newline at end of file
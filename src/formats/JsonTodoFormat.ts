@@ -0,0 +1,142 @@
+import type { Todo, TodoCompletion, TodoSubtask } from '../types';
+import { serializeTodo } from '../repositories/TodoRepository';
+import { normalizeTags } from '../stores/todoTags';
+import {
+  ITodoFormat,
+  TodoDraft,
+  TodoFieldError,
+  TodoImportResult,
+  parseCompleted,
+  parseOptionalDate,
+  parsePriority,
+  parseRecurrence,
+  parseTodoText,
+} from './TodoFormat';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isMissing = (value: unknown): value is undefined | null => value === undefined || value === null;
+
+const parsePriorityLetter = (value: unknown): string | undefined => {
+  if (isMissing(value)) {
+    return undefined;
+  }
+  if (typeof value !== 'string' || !/^[A-Z]$/.test(value)) {
+    throw new TodoFieldError(`priorityLetter must be a letter from A to Z, got "${value}"`);
+  }
+  return value;
+};
+
+const parseList = <T,>(value: unknown, field: string, parseItem: (item: unknown, name: string) => T): T[] | undefined => {
+  if (isMissing(value)) {
+    return undefined;
+  }
+  if (!Array.isArray(value)) {
+    throw new TodoFieldError(`${field} must be an array`);
+  }
+  return value.map((item, index) => parseItem(item, `${field}[${index}]`));
+};
+
+const parseString = (value: unknown, name: string): string => {
+  if (typeof value !== 'string') {
+    throw new TodoFieldError(`${name} must be a string`);
+  }
+  return value;
+};
+
+const parseSubtask = (value: unknown, name: string): TodoSubtask => {
+  if (!isRecord(value) || typeof value.id !== 'string' || !value.id) {
+    throw new TodoFieldError(`${name} must be an object with an id`);
+  }
+  try {
+    return { id: value.id, text: parseTodoText(value.text), completed: parseCompleted(value.completed) };
+  } catch (error) {
+    throw new TodoFieldError(`${name}: ${(error as Error).message}`);
+  }
+};
+
+const parseCompletion = (value: unknown, name: string): TodoCompletion => {
+  const completedAt = isRecord(value) ? parseOptionalDate(value.completedAt, `${name}.completedAt`) : undefined;
+  if (!isRecord(value) || !completedAt) {
+    throw new TodoFieldError(`${name} must be an object with a completedAt date`);
+  }
+  const dueDate = parseOptionalDate(value.dueDate, `${name}.dueDate`);
+  return { completedAt, ...(dueDate ? { dueDate } : {}) };
+};
+
+// Lists are left out when empty, as the store does
+const nonEmpty = <T,>(list: T[] | undefined): T[] | undefined => (list && list.length > 0 ? list : undefined);
+
+export class JsonTodoFormat implements ITodoFormat {
+  id = 'json';
+  label = 'JSON';
+  fileExtension = 'json';
+  mimeType = 'application/json';
+
+  serialize(todos: Todo[]): string {
+    return JSON.stringify(todos.map(serializeTodo), null, 2);
+  }
+
+  parse(input: string): TodoImportResult {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(input);
+    } catch (error) {
+      return { todos: [], errors: [{ message: `Invalid JSON: ${(error as Error).message}` }] };
+    }
+
+    if (!Array.isArray(parsed)) {
+      return { todos: [], errors: [{ message: 'Expected a JSON array of todos' }] };
+    }
+
+    const result: TodoImportResult = { todos: [], errors: [] };
+    parsed.forEach((item, index) => {
+      try {
+        result.todos.push(this.parseItem(item));
+      } catch (error) {
+        if (!(error instanceof TodoFieldError)) {
+          throw error;
+        }
+        result.errors.push({ row: index + 1, message: error.message });
+      }
+    });
+    return result;
+  }
+
+  // Reads back all that serialize writes, except what the store gives every imported
+  // todo afresh: id, manual order, version and updatedAt
+  private parseItem(item: unknown): TodoDraft {
+    if (!isRecord(item)) {
+      throw new TodoFieldError('expected an object');
+    }
+    const text = parseTodoText(item.text);
+    const completed = parseCompleted(item.completed);
+    const createdAt = parseOptionalDate(item.createdAt, 'createdAt');
+    const completedAt = parseOptionalDate(item.completedAt, 'completedAt');
+    const dueDate = parseOptionalDate(item.dueDate, 'dueDate');
+    const priority = parsePriority(item.priority);
+    const priorityLetter = parsePriorityLetter(item.priorityLetter);
+    const recurrence = parseRecurrence(item.recurrence);
+    const projects = nonEmpty(parseList(item.projects, 'projects', parseString));
+    const contexts = nonEmpty(parseList(item.contexts, 'contexts', parseString));
+    const tags = nonEmpty(normalizeTags(parseList(item.tags, 'tags', parseString) ?? []));
+    const subtasks = nonEmpty(parseList(item.subtasks, 'subtasks', parseSubtask));
+    const completions = nonEmpty(parseList(item.completions, 'completions', parseCompletion));
+    return {
+      text,
+      completed,
+      createdAt,
+      ...(completedAt ? { completedAt } : {}),
+      ...(dueDate ? { dueDate } : {}),
+      ...(priority ? { priority } : {}),
+      ...(priorityLetter ? { priorityLetter } : {}),
+      ...(recurrence ? { recurrence } : {}),
+      ...(projects ? { projects } : {}),
+      ...(contexts ? { contexts } : {}),
+      ...(tags ? { tags } : {}),
+      ...(subtasks ? { subtasks } : {}),
+      ...(completions ? { completions } : {}),
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,50 @@
+import { MarkdownTodoFormat } from './MarkdownTodoFormat';
+import { Todo } from '../types';
+
+describe('MarkdownTodoFormat', () => {
+  const format = new MarkdownTodoFormat();
+  const createdAt = new Date('2024-01-01T00:00:00.000Z');
+  const todos: Todo[] = [
+    { id: '1', text: 'Open task', completed: false, createdAt },
+    { id: '2', text: 'Finished task', completed: true, createdAt },
+  ];
+
+  it('exports GitHub-style checklist items', () => {
+    expect(format.serialize(todos)).toBe('- [ ] Open task\n- [x] Finished task\n');
+  });
+
+  it('keeps each item on a single line', () => {
+    expect(format.serialize([{ ...todos[0], text: 'Two\nlines' }])).toBe('- [ ] Two lines\n');
+  });
+
+  it('round-trips exported todos', () => {
+    expect(format.parse(format.serialize(todos))).toEqual({
+      todos: [
+        { text: 'Open task', completed: false },
+        { text: 'Finished task', completed: true },
+      ],
+      errors: [],
+    });
+  });
+
+  it('accepts other bullets, upper-case X, indentation, headings and blank lines', () => {
+    const result = format.parse('# Groceries\n\n* [X] Milk\n  + [ ] Eggs\r\n');
+
+    expect(result.errors).toEqual([]);
+    expect(result.todos).toEqual([
+      { text: 'Milk', completed: true },
+      { text: 'Eggs', completed: false },
+    ]);
+  });
+
+  it('reports lines that are not checklist items by line number', () => {
+    const result = format.parse('- [ ] Valid\nJust some prose\n- [x]\n- [?] Unknown state');
+
+    expect(result.todos).toEqual([{ text: 'Valid', completed: false }]);
+    expect(result.errors).toEqual([
+      { row: 2, message: 'not a checklist item ("- [ ] text")' },
+      { row: 3, message: 'text is required' },
+      { row: 4, message: 'not a checklist item ("- [ ] text")' },
+    ]);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,45 @@
+import type { Todo } from '../types';
+import { ITodoFormat, TodoImportResult } from './TodoFormat';
+
+// GitHub task list items: "- [ ] open" / "- [x] done" (also * and + bullets)
+const CHECKLIST_ITEM = /^\s*[-*+]\s+\[([ xX])\]\s*(.*)$/;
+
+export class MarkdownTodoFormat implements ITodoFormat {
+  id = 'markdown';
+  label = 'Markdown checklist';
+  fileExtension = 'md';
+  mimeType = 'text/markdown';
+
+  serialize(todos: Todo[]): string {
+    return todos
+      .map(todo => `- [${todo.completed ? 'x' : ' '}] ${todo.text.replace(/\s*[\r\n]+\s*/g, ' ')}`)
+      .join('\n') + '\n';
+  }
+
+  parse(input: string): TodoImportResult {
+    const result: TodoImportResult = { todos: [], errors: [] };
+
+    input.split(/\r\n|\r|\n/).forEach((line, index) => {
+      // Blank lines and headings are allowed around the checklist
+      if (!line.trim() || line.trim().startsWith('#')) {
+        return;
+      }
+
+      const match = line.match(CHECKLIST_ITEM);
+      if (!match) {
+        result.errors.push({ row: index + 1, message: 'not a checklist item ("- [ ] text")' });
+        return;
+      }
+
+      const text = match[2].trim();
+      if (!text) {
+        result.errors.push({ row: index + 1, message: 'text is required' });
+        return;
+      }
+
+      result.todos.push({ text, completed: match[1] !== ' ' });
+    });
+
+    return result;
+  }
+}
\ No newline at end of file
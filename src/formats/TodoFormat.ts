@@ -0,0 +1,103 @@
+import type { Todo, TodoPriority, TodoSubtask } from '../types';
+import { TODO_PRIORITIES } from '../types';
+import { parseRecurrenceRule } from '../recurrence';
+
+// A subtask read from a format that has no ids for them; the store gives it one
+export type TodoSubtaskDraft = Omit<TodoSubtask, 'id'> & {
+  id?: string;
+};
+
+// A todo read from an import, before the store gives it an id
+export type TodoDraft = Pick<
+  Todo,
+  | 'text' | 'completed' | 'completedAt' | 'dueDate' | 'priority' | 'priorityLetter' | 'projects' | 'contexts'
+  | 'tags' | 'recurrence' | 'completions'
+> & {
+  createdAt?: Date;
+  subtasks?: TodoSubtaskDraft[];
+};
+
+export interface TodoImportError {
+  // 1-based position in the input (line, record or array element, depending on
+  // the format); absent when the input as a whole is unreadable
+  row?: number;
+  message: string;
+}
+
+export interface TodoImportResult {
+  todos: TodoDraft[];
+  errors: TodoImportError[];
+}
+
+export interface ITodoFormat {
+  id: string;
+  label: string;
+  fileExtension: string;
+  mimeType: string;
+  serialize(todos: Todo[]): string;
+  parse(input: string): TodoImportResult;
+}
+
+// Thrown by the per-row field parsers; the format turns it into a TodoImportError
+export class TodoFieldError extends Error {}
+
+export const parseTodoText = (value: unknown): string => {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new TodoFieldError('text is required');
+  }
+  return value.trim();
+};
+
+export const parseCompleted = (value: unknown): boolean => {
+  if (value === undefined || value === null || value === '') {
+    return false;
+  }
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  const normalized = String(value).trim().toLowerCase();
+  if (['true', 'yes', '1', 'x'].includes(normalized)) {
+    return true;
+  }
+  if (['false', 'no', '0'].includes(normalized)) {
+    return false;
+  }
+  throw new TodoFieldError(`completed must be true or false, got "${value}"`);
+};
+
+export const parseOptionalDate = (value: unknown, field: string): Date | undefined => {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const date = new Date(String(value));
+  if (typeof value !== 'string' || isNaN(date.getTime())) {
+    throw new TodoFieldError(`${field} is not a valid date: "${value}"`);
+  }
+  return date;
+};
+
+export const parsePriority = (value: unknown): TodoPriority | undefined => {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  if (!TODO_PRIORITIES.includes(value as TodoPriority)) {
+    throw new TodoFieldError(`priority must be one of ${TODO_PRIORITIES.join(', ')}, got "${value}"`);
+  }
+  return value as TodoPriority;
+};
+
+// An RFC 5545 rule the app can follow, kept as written
+export const parseRecurrence = (value: unknown): string | undefined => {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new TodoFieldError(`recurrence must be a string, got ${JSON.stringify(value)}`);
+  }
+  try {
+    parseRecurrenceRule(value);
+  } catch (error) {
+    throw new TodoFieldError(`recurrence is not supported: ${(error as Error).message}`);
+  }
+  return value;
+};
\ No newline at end of file
@@ -0,0 +1,254 @@
+import fc from 'fast-check';
+import { TodoTxtFormat, formatTodoTxtDate, parseTodoTxtLine, priorityFromTodoTxt, serializeTodoTxtLine } from './TodoTxtFormat';
+import { Todo } from '../types';
+import type { TodoDraft } from './TodoFormat';
+
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date);
+
+describe('TodoTxtFormat', () => {
+  const format = new TodoTxtFormat();
+
+  describe('parse', () => {
+    it('reads an open task with priority, creation date and tags', () => {
+      expect(parseTodoTxtLine('(A) 2024-03-01 Call Mom +Family @phone @home')).toEqual({
+        text: 'Call Mom +Family @phone @home',
+        completed: false,
+        priority: 'urgent',
+        createdAt: day(2024, 3, 1),
+        projects: ['Family'],
+        contexts: ['phone', 'home'],
+      });
+    });
+
+    it('reads completion and creation dates on a completed task', () => {
+      expect(parseTodoTxtLine('x 2024-03-02 2024-03-01 Call Mom pri:B')).toEqual({
+        text: 'Call Mom',
+        completed: true,
+        completedAt: day(2024, 3, 2),
+        createdAt: day(2024, 3, 1),
+        priority: 'high',
+      });
+    });
+
+    it('maps priority letters to priority levels', () => {
+      expect(['A', 'B', 'C', 'D', 'Z'].map(letter => parseTodoTxtLine(`(${letter}) Task`).priority))
+        .toEqual(['urgent', 'high', 'medium', 'low', 'low']);
+    });
+
+    it('keeps the letters below D that low stands for', () => {
+      expect(parseTodoTxtLine('(D) Task')).not.toHaveProperty('priorityLetter');
+      expect(parseTodoTxtLine('(E) Task')).toEqual({ text: 'Task', completed: false, priority: 'low', priorityLetter: 'E' });
+      expect(parseTodoTxtLine('x 2024-03-02 Task pri:Z')).toMatchObject({ priority: 'low', priorityLetter: 'Z' });
+    });
+
+    it('treats a single date on a completed task as the completion date', () => {
+      expect(parseTodoTxtLine('x 2024-03-02 Done')).toEqual({
+        text: 'Done',
+        completed: true,
+        completedAt: day(2024, 3, 2),
+      });
+    });
+
+    it('only treats markers at the start of the line as markers', () => {
+      expect(parseTodoTxtLine('Fix x (A) 2024-01-01 and email me@example.com 1+1')).toEqual({
+        text: 'Fix x (A) 2024-01-01 and email me@example.com 1+1',
+        completed: false,
+      });
+      expect(parseTodoTxtLine('xylophone lesson').completed).toBe(false);
+      expect(parseTodoTxtLine('(a) lower-case is not a priority').priority).toBeUndefined();
+    });
+
+    it('reads #tags out of the text and due, rec and sub extensions off the line', () => {
+      expect(parseTodoTxtLine('2024-03-01 Call #Family Mom due:2024-03-05 rec:FREQ=WEEKLY sub:Find%20number sub:x:Dial')).toEqual({
+        text: 'Call Mom',
+        completed: false,
+        createdAt: day(2024, 3, 1),
+        tags: ['family'],
+        dueDate: day(2024, 3, 5),
+        recurrence: 'FREQ=WEEKLY',
+        subtasks: [{ text: 'Find number', completed: false }, { text: 'Dial', completed: true }],
+      });
+    });
+
+    it('reports extensions it cannot read', () => {
+      const result = format.parse('Task due:2024-13-01\nTask rec:FREQ=HOURLY\nTask sub:%E0\nsub:x:Dial');
+
+      expect(result.todos).toEqual([]);
+      expect(result.errors).toEqual([
+        { row: 1, message: '2024-13-01 is not a valid date' },
+        { row: 2, message: 'recurrence is not supported: FREQ=HOURLY is not supported' },
+        { row: 3, message: 'sub:%E0 is not a URI-encoded subtask' },
+        { row: 4, message: 'text is required' },
+      ]);
+    });
+
+    it('reports invalid dates and empty tasks by line and skips blank lines', () => {
+      const result = format.parse('(B) Valid\n\n2024-02-30 Not a day\nx 2024-01-01\r\n');
+
+      expect(result.todos).toEqual([{ text: 'Valid', completed: false, priority: 'high' }]);
+      expect(result.errors).toEqual([
+        { row: 3, message: '2024-02-30 is not a valid date' },
+        { row: 4, message: 'text is required' },
+      ]);
+    });
+  });
+
+  describe('serialize', () => {
+    const createdAt = day(2024, 3, 1);
+
+    it('writes priority and creation date before the text', () => {
+      expect(serializeTodoTxtLine({ id: '1', text: 'Call Mom', completed: false, createdAt, priority: 'urgent' }))
+        .toBe('(A) 2024-03-01 Call Mom');
+      expect(serializeTodoTxtLine({ id: '1', text: 'Call Mom', completed: false, createdAt, priority: 'low' }))
+        .toBe('(D) 2024-03-01 Call Mom');
+    });
+
+    it('writes an imported letter below D back until the priority changes', () => {
+      const imported: Todo = { id: '1', text: 'Task', completed: false, createdAt, priority: 'low', priorityLetter: 'E' };
+
+      expect(serializeTodoTxtLine(imported)).toBe('(E) 2024-03-01 Task');
+      expect(serializeTodoTxtLine({ ...imported, priority: 'high' })).toBe('(B) 2024-03-01 Task');
+      expect(serializeTodoTxtLine({ ...imported, priority: undefined })).toBe('2024-03-01 Task');
+    });
+
+    it('keeps the priority of completed tasks as a pri: tag', () => {
+      expect(serializeTodoTxtLine({
+        id: '1', text: 'Call Mom', completed: true, createdAt, completedAt: day(2024, 3, 2), priority: 'high',
+      })).toBe('x 2024-03-02 2024-03-01 Call Mom pri:B');
+    });
+
+    it('falls back to the last update for completed tasks without a completion date', () => {
+      expect(serializeTodoTxtLine({ id: '1', text: 'Done', completed: true, createdAt, updatedAt: day(2024, 4, 5) }))
+        .toBe('x 2024-04-05 2024-03-01 Done');
+    });
+
+    it('appends projects and contexts that are missing from the text', () => {
+      expect(serializeTodoTxtLine({
+        id: '1', text: 'Plan +Trip', completed: false, createdAt, projects: ['Trip', 'Holiday'], contexts: ['laptop'],
+      })).toBe('2024-03-01 Plan +Trip +Holiday @laptop');
+    });
+
+    it('writes tags, due date, recurrence and subtasks after the text', () => {
+      expect(serializeTodoTxtLine({
+        id: '1', text: 'Call Mom', completed: false, createdAt,
+        tags: ['family'], dueDate: day(2024, 3, 5), recurrence: 'FREQ=WEEKLY; INTERVAL=2',
+        subtasks: [{ id: 's1', text: 'Find number: home', completed: false }, { id: 's2', text: 'Dial', completed: true }],
+      })).toBe('2024-03-01 Call Mom #family due:2024-03-05 rec:FREQ=WEEKLY;INTERVAL=2 sub:Find%20number%3A%20home sub:x:Dial');
+    });
+
+    it('does not repeat tags the text already has', () => {
+      expect(serializeTodoTxtLine({ id: '1', text: 'Call #family', completed: false, createdAt, tags: ['family', 'phone'] }))
+        .toBe('2024-03-01 Call #family #phone');
+    });
+
+    it('writes one task per line', () => {
+      const todos: Todo[] = [
+        { id: '1', text: 'First\nsecond line', completed: false, createdAt },
+        { id: '2', text: 'Other', completed: false, createdAt },
+      ];
+      expect(format.serialize(todos)).toBe('2024-03-01 First second line\n2024-03-01 Other\n');
+    });
+  });
+
+  describe('round trip', () => {
+    const word = fc.stringMatching(/^[a-z0-9][a-zA-Z0-9.,!?'-]{0,8}$/);
+    const tag = fc.stringMatching(/^[A-Za-z][\w-]{0,8}$/);
+    const textToken = fc.oneof(
+      { weight: 4, arbitrary: word },
+      { weight: 1, arbitrary: tag.map(project => `+${project}`) },
+      { weight: 1, arbitrary: tag.map(context => `@${context}`) }
+    );
+    const calendarDay = fc
+      .date({ min: new Date(1990, 0, 1), max: new Date(2100, 11, 31), noInvalidDate: true })
+      .map(date => day(date.getFullYear(), date.getMonth() + 1, date.getDate()));
+    const priorityLetter = fc.option(fc.constantFrom(...'ABCDEFGHIJKLMNOPQRSTUVWXYZ'), { nil: undefined });
+    const tags = fc.uniqueArray(fc.stringMatching(/^[a-z0-9][a-z0-9_/-]{0,8}$/), { maxLength: 3 });
+    const recurrence = fc.option(fc.constantFrom('FREQ=DAILY', 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR', 'FREQ=MONTHLY;BYMONTHDAY=-1'), { nil: undefined });
+    const subtasks = fc.array(
+      fc.record({ text: fc.string({ minLength: 1, maxLength: 12 }).filter(text => text.trim() === text && text !== ''), completed: fc.boolean() }),
+      { maxLength: 3 }
+    );
+
+    // The model of a todo the parser can produce: tags in the text are listed on the todo
+    const todoTxtTodo = fc
+      .record({
+        tokens: fc.array(textToken, { minLength: 1, maxLength: 8 }),
+        completed: fc.boolean(),
+        priorityLetter,
+        createdAt: calendarDay,
+        completedAt: calendarDay,
+        dueDate: fc.option(calendarDay, { nil: undefined }),
+        tags,
+        recurrence,
+        subtasks,
+      })
+      .map(({ tokens, completed, priorityLetter, createdAt, completedAt, dueDate, tags, recurrence, subtasks }): Todo => {
+        const text = tokens.join(' ');
+        const projects = Array.from(new Set(tokens.filter(token => token.startsWith('+')).map(token => token.slice(1))));
+        const contexts = Array.from(new Set(tokens.filter(token => token.startsWith('@')).map(token => token.slice(1))));
+        return {
+          id: 'todo',
+          text,
+          completed,
+          createdAt,
+          ...(completed ? { completedAt } : {}),
+          ...(priorityLetter ? { priority: priorityFromTodoTxt(priorityLetter) } : {}),
+          ...(priorityLetter && priorityLetter > 'D' ? { priorityLetter } : {}),
+          ...(projects.length > 0 ? { projects } : {}),
+          ...(contexts.length > 0 ? { contexts } : {}),
+          ...(tags.length > 0 ? { tags } : {}),
+          ...(dueDate ? { dueDate } : {}),
+          ...(recurrence ? { recurrence } : {}),
+          ...(subtasks.length > 0 ? { subtasks: subtasks.map((subtask, index) => ({ id: `sub-${index}`, ...subtask })) } : {}),
+        };
+      });
+
+    // todo.txt has no subtask ids, so the store gives imported subtasks new ones
+    const withoutSubtaskIds = ({ id: _id, subtasks, ...todo }: Todo): TodoDraft => ({
+      ...todo,
+      ...(subtasks ? { subtasks: subtasks.map(({ id: _subtaskId, ...subtask }) => subtask) } : {}),
+    });
+    const withSubtaskIds = ({ subtasks, createdAt, ...draft }: TodoDraft): Todo => ({
+      ...draft,
+      id: 'todo',
+      createdAt: createdAt!,
+      ...(subtasks ? { subtasks: subtasks.map((subtask, index) => ({ ...subtask, id: `sub-${index}` })) } : {}),
+    });
+
+    it('parses a serialized todo back to the same todo', () => {
+      fc.assert(
+        fc.property(todoTxtTodo, todo => {
+          expect(parseTodoTxtLine(serializeTodoTxtLine(todo))).toEqual(withoutSubtaskIds(todo));
+        })
+      );
+    });
+
+    it('serializes a parsed line back to the same line', () => {
+      fc.assert(
+        fc.property(todoTxtTodo, todo => {
+          const line = serializeTodoTxtLine(todo);
+          const reparsed = parseTodoTxtLine(line);
+          expect(serializeTodoTxtLine(withSubtaskIds(reparsed))).toBe(line);
+        })
+      );
+    });
+
+    it('round-trips whole files through the format', () => {
+      fc.assert(
+        fc.property(fc.array(todoTxtTodo, { maxLength: 10 }), todos => {
+          const result = format.parse(format.serialize(todos));
+          expect(result.errors).toEqual([]);
+          expect(result.todos).toHaveLength(todos.length);
+        })
+      );
+    });
+
+    it('formats dates as local calendar days', () => {
+      fc.assert(
+        fc.property(calendarDay, date => {
+          expect(parseTodoTxtLine(`${formatTodoTxtDate(date)} task`).createdAt).toEqual(date);
+        })
+      );
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,217 @@
+import type { Todo, TodoPriority } from '../types';
+import { extractTags } from '../stores/todoTags';
+import { ITodoFormat, TodoDraft, TodoFieldError, TodoImportResult, TodoSubtaskDraft, parseRecurrence } from './TodoFormat';
+
+// https://github.com/todotxt/todo.txt
+//   x 2024-03-02 2024-03-01 Call Mom +Family @phone pri:A
+//   (A) 2024-03-01 Call Mom +Family @phone #family due:2024-03-05 rec:FREQ=WEEKLY sub:x:Find%20number
+const COMPLETED_PREFIX = /^x /;
+const PRIORITY_PREFIX = /^\(([A-Z])\)(?: |$)/;
+const DATE_PREFIX = /^(\d{4}-\d{2}-\d{2})(?: |$)/;
+// Completed tasks drop the "(A)" prefix; clients keep the priority as a pri: tag
+const PRIORITY_TAG = / pri:([A-Z])$/;
+const PROJECT_TAG = /(?:^|\s)\+(\S+)/g;
+const CONTEXT_TAG = /(?:^|\s)@(\S+)/g;
+// key:value extensions for what todo.txt has no syntax of its own for
+const EXTENSION_TAG = /(^|\s)(due|rec|sub):(\S+)/g;
+// A subtask is written with its text URI-encoded, after "x:" once it is done
+const DONE_SUBTASK = /^x:/;
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// todo.txt dates are calendar days, so they are read and written in local time
+export const formatTodoTxtDate = (date: Date): string =>
+  `${pad(date.getFullYear(), 4)}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const parseTodoTxtDate = (value: string): Date => {
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  if (date.getMonth() !== month - 1 || date.getDate() !== day) {
+    throw new TodoFieldError(`${value} is not a valid date`);
+  }
+  return date;
+};
+
+// todo.txt ranks priorities A (highest) to Z; everything from D down counts as low
+const PRIORITY_LETTERS: Record<TodoPriority, string> = { urgent: 'A', high: 'B', medium: 'C', low: 'D' };
+
+export const priorityFromTodoTxt = (letter: string): TodoPriority =>
+  (Object.keys(PRIORITY_LETTERS) as TodoPriority[]).find(priority => PRIORITY_LETTERS[priority] === letter) ?? 'low';
+
+export const todoTxtPriority = (priority: TodoPriority): string => PRIORITY_LETTERS[priority];
+
+// The priority level for a letter, along with the letter itself when the level cannot say it
+const readPriority = (letter: string): Pick<Todo, 'priority' | 'priorityLetter'> => {
+  const priority = priorityFromTodoTxt(letter);
+  return todoTxtPriority(priority) === letter ? { priority } : { priority, priorityLetter: letter };
+};
+
+// The letter a todo is written with: the one it was imported with while it is still low
+const priorityLetterOf = ({ priority, priorityLetter }: Todo): string | undefined => {
+  if (!priority) {
+    return undefined;
+  }
+  return priority === 'low' && priorityLetter ? priorityLetter : todoTxtPriority(priority);
+};
+
+const findTags = (text: string, pattern: RegExp): string[] =>
+  Array.from(new Set(Array.from(text.matchAll(pattern), match => match[1])));
+
+const parseSubtask = (value: string): TodoSubtaskDraft => {
+  const completed = DONE_SUBTASK.test(value);
+  let text: string;
+  try {
+    text = decodeURIComponent(completed ? value.slice(2) : value).trim();
+  } catch {
+    throw new TodoFieldError(`sub:${value} is not a URI-encoded subtask`);
+  }
+  if (!text) {
+    throw new TodoFieldError('sub: needs the subtask text');
+  }
+  return { text, completed };
+};
+
+const serializeSubtask = ({ text, completed }: TodoSubtaskDraft): string =>
+  `sub:${completed ? 'x:' : ''}${encodeURIComponent(text)}`;
+
+// Takes the due:, rec: and sub: extensions out of the text
+const readExtensions = (line: string): Pick<TodoDraft, 'dueDate' | 'recurrence' | 'subtasks'> & { text: string } => {
+  let dueDate: Date | undefined;
+  let recurrence: string | undefined;
+  const subtasks: TodoSubtaskDraft[] = [];
+  const text = line.replace(EXTENSION_TAG, (_match, space: string, key: string, value: string) => {
+    if (key === 'due') {
+      dueDate = parseTodoTxtDate(value);
+    } else if (key === 'rec') {
+      recurrence = parseRecurrence(value);
+    } else {
+      subtasks.push(parseSubtask(value));
+    }
+    return space;
+  });
+  return {
+    text: text === line ? text : text.replace(/\s{2,}/g, ' '),
+    ...(dueDate ? { dueDate } : {}),
+    ...(recurrence ? { recurrence } : {}),
+    ...(subtasks.length > 0 ? { subtasks } : {}),
+  };
+};
+
+// Splits the leading markers off a line and reads the tags out of what is left
+export const parseTodoTxtLine = (line: string): TodoDraft => {
+  let rest = line.trim();
+  const take = (pattern: RegExp): string | undefined => {
+    const match = rest.match(pattern);
+    if (match) {
+      rest = rest.slice(match[0].length);
+    }
+    return match?.[1];
+  };
+
+  const completed = COMPLETED_PREFIX.test(rest);
+  if (completed) {
+    rest = rest.slice(2);
+  }
+  // Some clients keep "(A)" on completed tasks, so accept it either way
+  let priorityLetter = take(PRIORITY_PREFIX);
+
+  // A completed task lists its completion date first, then its creation date
+  const firstDate = take(DATE_PREFIX);
+  const secondDate = completed && firstDate ? take(DATE_PREFIX) : undefined;
+  const completedAt = completed && firstDate ? parseTodoTxtDate(firstDate) : undefined;
+  const creationDate = completed ? secondDate : firstDate;
+  const createdAt = creationDate ? parseTodoTxtDate(creationDate) : undefined;
+
+  const priorityTag = completed ? rest.match(PRIORITY_TAG) : null;
+  if (priorityTag) {
+    priorityLetter = priorityTag[1];
+    rest = rest.slice(0, priorityTag.index);
+  }
+
+  // #tags leave the text as they do when typed into the app
+  const { text: withTags, ...extensions } = readExtensions(rest);
+  const { text, tags } = extractTags(withTags);
+  if (!text) {
+    throw new TodoFieldError('text is required');
+  }
+
+  const projects = findTags(text, PROJECT_TAG);
+  const contexts = findTags(text, CONTEXT_TAG);
+  return {
+    text,
+    completed,
+    ...(createdAt ? { createdAt } : {}),
+    ...(completedAt ? { completedAt } : {}),
+    ...(priorityLetter ? readPriority(priorityLetter) : {}),
+    ...(projects.length > 0 ? { projects } : {}),
+    ...(contexts.length > 0 ? { contexts } : {}),
+    ...(tags.length > 0 ? { tags } : {}),
+    ...extensions,
+  };
+};
+
+export const serializeTodoTxtLine = (todo: Todo): string => {
+  const text = todo.text.replace(/\s*[\r\n]+\s*/g, ' ').trim();
+  const textTags = new Set([
+    ...findTags(text, PROJECT_TAG).map(project => `+${project}`),
+    ...findTags(text, CONTEXT_TAG).map(context => `@${context}`),
+    ...extractTags(text).tags.map(tag => `#${tag}`),
+  ]);
+  // Tags kept only on the todo still have to reach the file
+  const missingTags = [
+    ...(todo.projects ?? []).map(project => `+${project}`),
+    ...(todo.contexts ?? []).map(context => `@${context}`),
+  ].filter(tag => !textTags.has(tag));
+  const extensions = [
+    ...(todo.tags ?? []).filter(tag => !textTags.has(`#${tag}`)).map(tag => `#${tag}`),
+    ...(todo.dueDate ? [`due:${formatTodoTxtDate(todo.dueDate)}`] : []),
+    ...(todo.recurrence ? [`rec:${todo.recurrence.replace(/\s+/g, '')}`] : []),
+    ...(todo.subtasks ?? []).map(serializeSubtask),
+  ];
+
+  const priority = priorityLetterOf(todo);
+  const parts: string[] = [];
+  if (todo.completed) {
+    // The creation date is always written, and a completion date has to precede it
+    parts.push('x', formatTodoTxtDate(todo.completedAt ?? todo.updatedAt ?? todo.createdAt));
+  } else if (priority) {
+    parts.push(`(${priority})`);
+  }
+  parts.push(formatTodoTxtDate(todo.createdAt), text, ...missingTags, ...extensions);
+  if (todo.completed && priority) {
+    parts.push(`pri:${priority}`);
+  }
+  return parts.join(' ');
+};
+
+export class TodoTxtFormat implements ITodoFormat {
+  id = 'todotxt';
+  label = 'todo.txt';
+  fileExtension = 'txt';
+  mimeType = 'text/plain';
+
+  serialize(todos: Todo[]): string {
+    return todos.map(serializeTodoTxtLine).join('\n') + '\n';
+  }
+
+  parse(input: string): TodoImportResult {
+    const result: TodoImportResult = { todos: [], errors: [] };
+
+    input.split(/\r\n|\r|\n/).forEach((line, index) => {
+      if (!line.trim()) {
+        return;
+      }
+
+      try {
+        result.todos.push(parseTodoTxtLine(line));
+      } catch (error) {
+        if (!(error instanceof TodoFieldError)) {
+          throw error;
+        }
+        result.errors.push({ row: index + 1, message: error.message });
+      }
+    });
+
+    return result;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,6 @@
+export * from './TodoFormat';
+export * from './JsonTodoFormat';
+export * from './CsvTodoFormat';
+export * from './MarkdownTodoFormat';
+export * from './TodoTxtFormat';
+export * from './IcsTodoFormat';
\ No newline at end of file
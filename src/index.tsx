@@ -2,9 +2,15 @@ import 'reflect-metadata';
 import React from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App';
+import { container as appContainer } from './container/container';
+import { ContainerProvider } from './container/ContainerProvider';
 
 const container = document.getElementById('root');
 if (!container) throw new Error('Failed to find the root element');
 
 const root = createRoot(container);
-root.render(<App />);
\ No newline at end of file
+root.render(
+  <ContainerProvider container={appContainer}>
+    <App />
+  </ContainerProvider>
+);
\ No newline at end of file
@@ -0,0 +1,123 @@
+import { TodoMigration, TodoMigrationError, TodoMigrationRegistry } from './TodoMigrationRegistry';
+import { TODO_MIGRATIONS } from './todoMigrations';
+
+describe('TodoMigrationRegistry', () => {
+  const renameTitle: TodoMigration = {
+    version: 1,
+    description: 'rename title to text',
+    up: todos => todos.map(({ title, ...todo }) => ({ ...todo, text: title })),
+  };
+  const addCompleted: TodoMigration = {
+    version: 2,
+    description: 'add completed flag',
+    up: todos => todos.map(todo => ({ ...todo, completed: false })),
+  };
+
+  it('reports the newest schema version as current', () => {
+    expect(new TodoMigrationRegistry([renameTitle, addCompleted]).currentVersion).toBe(2);
+  });
+
+  it('runs migrations in version order regardless of registration order', () => {
+    const registry = new TodoMigrationRegistry([addCompleted, renameTitle]);
+
+    expect(registry.migrate([{ id: '1', title: 'Old' }], 0)).toEqual([
+      { id: '1', text: 'Old', completed: false }
+    ]);
+  });
+
+  it('only runs migrations newer than the stored version', () => {
+    const registry = new TodoMigrationRegistry([renameTitle, addCompleted]);
+
+    expect(registry.migrate([{ id: '1', text: 'Already renamed' }], 1)).toEqual([
+      { id: '1', text: 'Already renamed', completed: false }
+    ]);
+    expect(registry.needsMigration(2)).toBe(false);
+  });
+
+  it('does not modify the original records', () => {
+    const original = [{ id: '1', title: 'Old' }];
+
+    new TodoMigrationRegistry([renameTitle]).migrate(original, 0);
+
+    expect(original).toEqual([{ id: '1', title: 'Old' }]);
+  });
+
+  it('rejects migrations with gaps in their numbering', () => {
+    expect(() => new TodoMigrationRegistry([renameTitle, { ...addCompleted, version: 3 }])).toThrow(/without gaps/);
+  });
+
+  it('wraps a failing migration in a TodoMigrationError', () => {
+    const broken: TodoMigration = {
+      version: 2,
+      description: 'broken',
+      up: () => {
+        throw new Error('Unexpected shape');
+      },
+    };
+    const registry = new TodoMigrationRegistry([renameTitle, broken]);
+
+    let error: unknown;
+    try {
+      registry.migrate([{ id: '1', title: 'Old' }], 0);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(TodoMigrationError);
+    expect(error).toMatchObject({
+      fromVersion: 0,
+      failedVersion: 2,
+      message: 'Migration to schema version 2 (broken) failed',
+      cause: expect.objectContaining({ message: 'Unexpected shape' }),
+    });
+  });
+
+  it('refuses data written by a newer version of the app', () => {
+    expect(() => new TodoMigrationRegistry([renameTitle]).migrate([], 5)).toThrow(TodoMigrationError);
+  });
+
+  describe('shipped migrations', () => {
+    const registry = new TodoMigrationRegistry(TODO_MIGRATIONS);
+
+    it('stamps version and updatedAt on unversioned todos', () => {
+      expect(registry.migrate([{ id: '1', text: 'Legacy', completed: false, createdAt: '2024-01-01T00:00:00.000Z' }], 0)).toEqual([
+        { id: '1', text: 'Legacy', completed: false, createdAt: '2024-01-01T00:00:00.000Z', version: 1, updatedAt: '2024-01-01T00:00:00.000Z', order: 'a0' }
+      ]);
+    });
+
+    it('keeps versions that are already present', () => {
+      const [todo] = registry.migrate([{ id: '1', createdAt: '2024-01-01T00:00:00.000Z', version: 4, updatedAt: '2024-02-01T00:00:00.000Z' }], 0);
+      expect(todo).toMatchObject({ version: 4, updatedAt: '2024-02-01T00:00:00.000Z' });
+    });
+
+    it('fails on records without an id', () => {
+      expect(() => registry.migrate([{ text: 'No id', createdAt: '2024-01-01T00:00:00.000Z' }], 0)).toThrow(TodoMigrationError);
+    });
+
+    it('replaces todo.txt priority letters with priority levels', () => {
+      const todos = ['A', 'B', 'C', 'E', 'high', undefined].map((priority, index) => ({
+        id: String(index), createdAt: '2024-01-01T00:00:00.000Z', ...(priority ? { priority } : {}),
+      }));
+
+      expect(registry.migrate(todos, 1).map(todo => todo.priority))
+        .toEqual(['urgent', 'high', 'medium', 'low', 'high', undefined]);
+      expect(registry.migrate(todos, 1)[5]).not.toHaveProperty('priority');
+    });
+
+    it('gives todos manual order keys oldest first, whatever order they were stored in', () => {
+      const todos = [
+        { id: 'f3c1', createdAt: '2024-01-03T00:00:00.000Z' },
+        { id: '09ab', createdAt: '2024-01-01T00:00:00.000Z' },
+        { id: 'c47e', createdAt: '2024-01-02T00:00:00.000Z' },
+      ];
+
+      expect(registry.migrate(todos, 2).map(todo => [todo.id, todo.order])).toEqual([['09ab', 'a0'], ['c47e', 'a1'], ['f3c1', 'a2']]);
+    });
+
+    it('keeps todos created at the same time in the order they were stored', () => {
+      const todos = ['b', 'a', 'c'].map(id => ({ id, createdAt: '2024-01-01T00:00:00.000Z' }));
+
+      expect(registry.migrate(todos, 2).map(todo => [todo.id, todo.order])).toEqual([['b', 'a0'], ['a', 'a1'], ['c', 'a2']]);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,79 @@
+import { injectable } from 'inversify';
+import { TODO_MIGRATIONS } from './todoMigrations';
+
+// Persisted todos are migrated in their serialized (JSON) form, before dates are revived
+export type PersistedTodoRecord = Record<string, unknown>;
+
+export interface TodoMigration {
+  // The schema version this migration upgrades the data to
+  version: number;
+  description: string;
+  up: (todos: PersistedTodoRecord[]) => PersistedTodoRecord[];
+}
+
+export class TodoMigrationError extends Error {
+  constructor(
+    message: string,
+    public readonly fromVersion: number,
+    public readonly failedVersion: number,
+    public readonly cause?: unknown,
+    // Where the untouched original payload was kept, if the backend moved it aside
+    public readonly backupLocation?: string
+  ) {
+    super(message);
+    this.name = 'TodoMigrationError';
+  }
+
+  withBackupLocation(backupLocation: string): TodoMigrationError {
+    return new TodoMigrationError(this.message, this.fromVersion, this.failedVersion, this.cause, backupLocation);
+  }
+}
+
+@injectable()
+export class TodoMigrationRegistry {
+  private migrations: TodoMigration[];
+
+  constructor(migrations: TodoMigration[] = TODO_MIGRATIONS) {
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+
+    this.migrations.forEach((migration, index) => {
+      if (migration.version !== index + 1) {
+        throw new Error(`Todo migrations must be numbered 1..n without gaps, found version ${migration.version} at position ${index + 1}`);
+      }
+    });
+  }
+
+  get currentVersion(): number {
+    return this.migrations.length;
+  }
+
+  needsMigration(fromVersion: number): boolean {
+    return fromVersion !== this.currentVersion;
+  }
+
+  // Runs every migration newer than fromVersion, in order, on a copy of the data
+  migrate(todos: PersistedTodoRecord[], fromVersion: number): PersistedTodoRecord[] {
+    if (fromVersion > this.currentVersion) {
+      throw new TodoMigrationError(
+        `Stored todos use schema version ${fromVersion}, but this app only knows up to ${this.currentVersion}`,
+        fromVersion,
+        fromVersion
+      );
+    }
+
+    return this.migrations
+      .filter(migration => migration.version > fromVersion)
+      .reduce((result, migration) => {
+        try {
+          return migration.up(result.map(todo => ({ ...todo })));
+        } catch (error) {
+          throw new TodoMigrationError(
+            `Migration to schema version ${migration.version} (${migration.description}) failed`,
+            fromVersion,
+            migration.version,
+            error
+          );
+        }
+      }, todos);
+  }
+}
\ No newline at end of file
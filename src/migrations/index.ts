@@ -0,0 +1,2 @@
+export * from './TodoMigrationRegistry';
+export * from './todoMigrations';
\ No newline at end of file
@@ -0,0 +1,43 @@
+import type { TodoMigration } from './TodoMigrationRegistry';
+import { orderKeysAfter } from '../stores/todoOrder';
+import { priorityFromTodoTxt } from '../formats/TodoTxtFormat';
+
+// Append new migrations here whenever the persisted shape of Todo changes.
+// Never edit or reorder a migration once it has shipped.
+export const TODO_MIGRATIONS: TodoMigration[] = [
+  {
+    version: 1,
+    description: 'stamp version and updatedAt on todos saved before sync existed',
+    up: todos => todos.map(todo => {
+      if (typeof todo.id !== 'string' || typeof todo.createdAt !== 'string') {
+        throw new Error(`Todo record is missing an id or createdAt: ${JSON.stringify(todo)}`);
+      }
+      return {
+        ...todo,
+        version: typeof todo.version === 'number' ? todo.version : 1,
+        updatedAt: typeof todo.updatedAt === 'string' ? todo.updatedAt : todo.createdAt,
+      };
+    }),
+  },
+  {
+    version: 2,
+    description: 'replace todo.txt priority letters with priority levels',
+    up: todos => todos.map(({ priority, ...todo }) => {
+      if (typeof priority !== 'string' || !/^[A-Z]$/.test(priority)) {
+        return priority === undefined ? todo : { ...todo, priority };
+      }
+      return { ...todo, priority: priorityFromTodoTxt(priority) };
+    }),
+  },
+  {
+    version: 3,
+    description: 'give todos a manual order key, oldest first',
+    // Records come back in storage key order (random ids for IndexedDB), which says
+    // nothing about the order the user saw, so they are put in creation order first
+    up: todos => {
+      const created = [...todos].sort((a, b) => Date.parse(String(a.createdAt)) - Date.parse(String(b.createdAt)));
+      const keys = orderKeysAfter(undefined, created.length);
+      return created.map((todo, index) => ({ ...todo, order: keys[index] }));
+    },
+  },
+];
\ No newline at end of file
@@ -0,0 +1 @@
+export * from './recurrenceRule';
\ No newline at end of file
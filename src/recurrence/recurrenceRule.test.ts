@@ -0,0 +1,334 @@
+import fc from 'fast-check';
+import {
+  RECURRENCE_PRESETS,
+  RecurrenceOptions,
+  RecurrenceRuleError,
+  advanceRecurrence,
+  describeRecurrence,
+  formatRecurrenceRule,
+  nextOccurrence,
+  occurrences,
+  parseRecurrenceRule,
+} from './recurrenceRule';
+
+const take = (rule: string, start: Date, limit: number, options?: RecurrenceOptions): Date[] => {
+  const dates: Date[] = [];
+  for (const date of occurrences(parseRecurrenceRule(rule), start, options)) {
+    if (dates.push(date) >= limit) {
+      break;
+    }
+  }
+  return dates;
+};
+
+// Local calendar days, e.g. "2024-01-31"
+const days = (dates: Date[]) => dates.map(date =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+);
+
+// Wall-clock time in a zone, e.g. "2024-03-10 09:00"
+const wallTimes = (dates: Date[], timeZone: string) => {
+  const format = new Intl.DateTimeFormat('sv-SE', { timeZone, dateStyle: 'short', timeStyle: 'short' });
+  return dates.map(date => format.format(date));
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Minutes the zone is ahead of UTC at an instant
+const offset = (instant: number, timeZone: string) => {
+  const name = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'longOffset' })
+    .formatToParts(instant).find(part => part.type === 'timeZoneName')!.value;
+  const [, sign, hours, minutes] = /GMT(?:([+-])(\d{2}):(\d{2}))?/.exec(name)!;
+  return sign ? (sign === '-' ? -1 : 1) * (Number(hours) * 60 + Number(minutes)) : 0;
+};
+
+describe('recurrenceRule', () => {
+  describe('parseRecurrenceRule', () => {
+    it('reads every preset', () => {
+      Object.values(RECURRENCE_PRESETS).forEach(preset => {
+        expect(formatRecurrenceRule(parseRecurrenceRule(preset))).toBe(preset);
+      });
+    });
+
+    it('reads the full supported subset, with or without the RRULE: prefix', () => {
+      expect(parseRecurrenceRule('rrule:freq=monthly;interval=2;byday=1mo,-1FR;wkst=MO;count=6')).toEqual({
+        frequency: 'MONTHLY',
+        interval: 2,
+        byDay: [{ weekday: 'MO', ordinal: 1 }, { weekday: 'FR', ordinal: -1 }],
+        count: 6
+      });
+      expect(parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=1,-1')).toEqual({
+        frequency: 'MONTHLY',
+        interval: 1,
+        byMonthDay: [1, -1]
+      });
+    });
+
+    it('reads UNTIL as a UTC time, a local time or a whole local day', () => {
+      expect(parseRecurrenceRule('FREQ=DAILY;UNTIL=20240310T120000Z').until).toEqual(new Date('2024-03-10T12:00:00Z'));
+      expect(parseRecurrenceRule('FREQ=DAILY;UNTIL=20240310T120000').until).toEqual(new Date(2024, 2, 10, 12));
+      expect(parseRecurrenceRule('FREQ=DAILY;UNTIL=20240310').until).toEqual(new Date(2024, 2, 10, 23, 59, 59, 999));
+    });
+
+    it.each([
+      ['', 'The rule is empty'],
+      ['INTERVAL=2', 'FREQ is required'],
+      ['FREQ=HOURLY', 'FREQ=HOURLY is not supported'],
+      ['FREQ=DAILY;FREQ=WEEKLY', 'FREQ is given more than once'],
+      ['FREQ=DAILY;BYSETPOS=1', 'BYSETPOS is not supported'],
+      ['FREQ=DAILY;INTERVAL=0', 'INTERVAL must be a positive whole number, got "0"'],
+      ['FREQ=DAILY;COUNT=1.5', 'COUNT must be a positive whole number, got "1.5"'],
+      ['FREQ=DAILY;COUNT=2;UNTIL=20240101', 'COUNT and UNTIL cannot both be given'],
+      ['FREQ=DAILY;UNTIL=20230229', '"20230229" is not an UNTIL date'],
+      ['FREQ=WEEKLY;BYDAY=XX', '"XX" is not a BYDAY value'],
+      ['FREQ=MONTHLY;BYDAY=6MO', '"6MO" is not a BYDAY value'],
+      ['FREQ=WEEKLY;BYDAY=1MO', 'Numbered BYDAY values need FREQ=MONTHLY'],
+      ['FREQ=MONTHLY;BYMONTHDAY=32', '"32" is not a BYMONTHDAY value'],
+      ['FREQ=WEEKLY;BYMONTHDAY=1', 'BYMONTHDAY cannot be used with FREQ=WEEKLY'],
+      ['FREQ=YEARLY;BYDAY=MO', 'BYDAY and BYMONTHDAY are not supported with FREQ=YEARLY'],
+      ['FREQ=DAILY;WKST=SU', 'Only WKST=MO is supported'],
+      ['FREQ', '"FREQ" is not a NAME=VALUE pair'],
+    ])('rejects %j', (rule, message) => {
+      expect(() => parseRecurrenceRule(rule)).toThrow(new RecurrenceRuleError(message));
+    });
+  });
+
+  describe('formatRecurrenceRule', () => {
+    it('writes rules back in a canonical form', () => {
+      expect(formatRecurrenceRule(parseRecurrenceRule('count=3;byday=we,mo;interval=2;freq=weekly')))
+        .toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=WE,MO;COUNT=3');
+      expect(formatRecurrenceRule(parseRecurrenceRule('FREQ=DAILY;UNTIL=20240310T120000Z')))
+        .toBe('FREQ=DAILY;UNTIL=20240310T120000Z');
+    });
+  });
+
+  describe('occurrences', () => {
+    it('repeats daily and every few days', () => {
+      expect(days(take('FREQ=DAILY', new Date(2024, 1, 27, 9), 4)))
+        .toEqual(['2024-02-27', '2024-02-28', '2024-02-29', '2024-03-01']);
+      expect(days(take('FREQ=DAILY;INTERVAL=3', new Date(2023, 11, 30, 9), 3)))
+        .toEqual(['2023-12-30', '2024-01-02', '2024-01-05']);
+    });
+
+    it('keeps the time of day of the first occurrence', () => {
+      take('FREQ=WEEKLY', new Date(2024, 0, 1, 18, 45, 30, 250), 60).forEach(date => {
+        expect([date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds()]).toEqual([18, 45, 30, 250]);
+      });
+    });
+
+    it('repeats weekly on the start day, or on the days given, weeks starting on Monday', () => {
+      // Wednesday 2024-01-03
+      expect(days(take('FREQ=WEEKLY', new Date(2024, 0, 3), 3))).toEqual(['2024-01-03', '2024-01-10', '2024-01-17']);
+      expect(days(take('FREQ=WEEKLY;INTERVAL=2;BYDAY=FR,MO', new Date(2024, 0, 3), 5)))
+        .toEqual(['2024-01-03', '2024-01-05', '2024-01-15', '2024-01-19', '2024-01-29']);
+    });
+
+    it('starts with the start date even when the rule would not pick it', () => {
+      // Saturday 2024-01-06
+      expect(days(take(RECURRENCE_PRESETS.weekdays, new Date(2024, 0, 6), 4)))
+        .toEqual(['2024-01-06', '2024-01-08', '2024-01-09', '2024-01-10']);
+    });
+
+    it('skips months without the start day instead of moving it', () => {
+      expect(days(take('FREQ=MONTHLY', new Date(2024, 0, 31), 5)))
+        .toEqual(['2024-01-31', '2024-03-31', '2024-05-31', '2024-07-31', '2024-08-31']);
+      expect(days(take('FREQ=MONTHLY', new Date(2023, 0, 30), 3))).toEqual(['2023-01-30', '2023-03-30', '2023-04-30']);
+    });
+
+    it('lands on the last day of every month with BYMONTHDAY=-1', () => {
+      expect(days(take('FREQ=MONTHLY;BYMONTHDAY=-1', new Date(2023, 11, 31), 5)))
+        .toEqual(['2023-12-31', '2024-01-31', '2024-02-29', '2024-03-31', '2024-04-30']);
+      expect(days(take('FREQ=MONTHLY;BYMONTHDAY=-1', new Date(2025, 0, 31), 2))).toEqual(['2025-01-31', '2025-02-28']);
+      expect(days(take('FREQ=MONTHLY;BYMONTHDAY=1,-2', new Date(2024, 1, 1), 4)))
+        .toEqual(['2024-02-01', '2024-02-28', '2024-03-01', '2024-03-30']);
+    });
+
+    it('skips months where a BYMONTHDAY does not exist', () => {
+      expect(days(take('FREQ=MONTHLY;BYMONTHDAY=30', new Date(2024, 0, 30), 3))).toEqual(['2024-01-30', '2024-03-30', '2024-04-30']);
+      expect(days(take('FREQ=DAILY;BYMONTHDAY=31', new Date(2024, 0, 1), 3))).toEqual(['2024-01-01', '2024-01-31', '2024-03-31']);
+    });
+
+    it('picks numbered weekdays within the month', () => {
+      expect(days(take('FREQ=MONTHLY;BYDAY=-1FR', new Date(2024, 0, 26), 4)))
+        .toEqual(['2024-01-26', '2024-02-23', '2024-03-29', '2024-04-26']);
+      expect(days(take('FREQ=MONTHLY;BYDAY=2MO', new Date(2024, 0, 8), 3))).toEqual(['2024-01-08', '2024-02-12', '2024-03-11']);
+      // Only some months have a fifth Thursday
+      expect(days(take('FREQ=MONTHLY;BYDAY=5TH', new Date(2024, 1, 29), 3))).toEqual(['2024-02-29', '2024-05-30', '2024-08-29']);
+    });
+
+    it('repeats a leap day only in leap years', () => {
+      expect(days(take('FREQ=YEARLY', new Date(2024, 1, 29), 3))).toEqual(['2024-02-29', '2028-02-29', '2032-02-29']);
+      expect(days(take('FREQ=YEARLY;INTERVAL=3', new Date(2024, 1, 29), 2))).toEqual(['2024-02-29', '2036-02-29']);
+    });
+
+    it('crosses year ends', () => {
+      expect(days(take('FREQ=WEEKLY;BYDAY=MO', new Date(2024, 11, 23), 3))).toEqual(['2024-12-23', '2024-12-30', '2025-01-06']);
+      expect(days(take('FREQ=MONTHLY;INTERVAL=5', new Date(2024, 9, 15), 3))).toEqual(['2024-10-15', '2025-03-15', '2025-08-15']);
+    });
+
+    it('stops after COUNT occurrences, the first one included', () => {
+      expect(days(take('FREQ=DAILY;COUNT=3', new Date(2024, 0, 1), 10))).toEqual(['2024-01-01', '2024-01-02', '2024-01-03']);
+      expect(take('FREQ=DAILY;COUNT=1', new Date(2024, 0, 1), 10)).toHaveLength(1);
+    });
+
+    it('stops after UNTIL, a date taking in the whole day', () => {
+      expect(days(take('FREQ=DAILY;UNTIL=20240103', new Date(2024, 0, 1, 23, 30), 10)))
+        .toEqual(['2024-01-01', '2024-01-02', '2024-01-03']);
+      expect(days(take('FREQ=DAILY;UNTIL=20240103T120000', new Date(2024, 0, 1, 18), 10))).toEqual(['2024-01-01', '2024-01-02']);
+    });
+
+    it('gives up on a rule that never matches again', () => {
+      // A fifth Monday is never the first of the month
+      expect(take('FREQ=MONTHLY;BYDAY=5MO;BYMONTHDAY=1', new Date(2024, 0, 1), 10)).toHaveLength(1);
+    });
+
+    it('always moves forward and keeps the wall-clock time', () => {
+      const rules = fc.constantFrom(
+        'FREQ=DAILY;INTERVAL=2',
+        'FREQ=WEEKLY;BYDAY=MO,TH,SU',
+        'FREQ=MONTHLY;BYMONTHDAY=31,-1,15',
+        'FREQ=MONTHLY;BYDAY=-1SU,1SA',
+        'FREQ=YEARLY'
+      );
+      const zones = fc.constantFrom('America/New_York', 'Europe/London', 'Australia/Sydney', 'Asia/Kolkata');
+      const starts = fc.date({ min: new Date('2000-01-01T00:00:00Z'), max: new Date('2040-01-01T00:00:00Z'), noInvalidDate: true });
+
+      fc.assert(fc.property(rules, zones, starts, (rule, timeZone, start) => {
+        const dates = take(rule, start, 15, { timeZone });
+        const time = (date: Date) => wallTimes([date], timeZone)[0].slice(11);
+        for (let i = 1; i < dates.length; i++) {
+          expect(dates[i].getTime()).toBeGreaterThan(dates[i - 1].getTime());
+          // Unless the time was skipped that day, when clocks went forward
+          if (time(dates[i]) !== time(start)) {
+            expect(offset(dates[i].getTime() + DAY, timeZone)).toBeGreaterThan(offset(dates[i].getTime() - DAY, timeZone));
+          }
+        }
+      }), { numRuns: 60 });
+    });
+  });
+
+  describe('daylight saving time', () => {
+    it('keeps the wall-clock time when clocks go forward and back', () => {
+      const newYork = { timeZone: 'America/New_York' };
+      // 9:00 EST on Saturday 9 March 2024; clocks went forward on the 10th and back on 3 November
+      const dates = take('FREQ=DAILY', new Date('2024-03-09T14:00:00Z'), 3, newYork);
+
+      expect(wallTimes(dates, newYork.timeZone)).toEqual(['2024-03-09 09:00', '2024-03-10 09:00', '2024-03-11 09:00']);
+      expect(dates.map(date => date.toISOString())).toEqual([
+        '2024-03-09T14:00:00.000Z', '2024-03-10T13:00:00.000Z', '2024-03-11T13:00:00.000Z'
+      ]);
+
+      const autumn = take('FREQ=WEEKLY', new Date('2024-10-27T13:00:00Z'), 2, newYork);
+      expect(wallTimes(autumn, newYork.timeZone)).toEqual(['2024-10-27 09:00', '2024-11-03 09:00']);
+      expect(autumn[1].toISOString()).toBe('2024-11-03T14:00:00.000Z');
+    });
+
+    it('moves a time skipped by clocks going forward on by the gap, for that day only', () => {
+      // 2:30 does not exist in New York on 10 March 2024
+      const dates = take('FREQ=DAILY', new Date('2024-03-09T07:30:00Z'), 3, { timeZone: 'America/New_York' });
+
+      expect(wallTimes(dates, 'America/New_York')).toEqual(['2024-03-09 02:30', '2024-03-10 03:30', '2024-03-11 02:30']);
+    });
+
+    it('takes the first of a time repeated by clocks going back', () => {
+      // 1:30 happens twice in New York on 3 November 2024, first in EDT
+      const dates = take('FREQ=DAILY', new Date('2024-11-02T05:30:00Z'), 3, { timeZone: 'America/New_York' });
+
+      expect(wallTimes(dates, 'America/New_York')).toEqual(['2024-11-02 01:30', '2024-11-03 01:30', '2024-11-04 01:30']);
+      expect(dates[1].toISOString()).toBe('2024-11-03T05:30:00.000Z');
+    });
+
+    it('handles zones east of UTC and the southern hemisphere', () => {
+      // Berlin skips 2:00-3:00 on 31 March 2024 and repeats 2:00-3:00 on 27 October
+      const berlin = take('FREQ=DAILY', new Date('2024-03-30T01:30:00Z'), 3, { timeZone: 'Europe/Berlin' });
+      expect(wallTimes(berlin, 'Europe/Berlin')).toEqual(['2024-03-30 02:30', '2024-03-31 03:30', '2024-04-01 02:30']);
+      const berlinAutumn = take('FREQ=DAILY', new Date('2024-10-26T00:30:00Z'), 2, { timeZone: 'Europe/Berlin' });
+      expect(berlinAutumn[1].toISOString()).toBe('2024-10-27T00:30:00.000Z');
+
+      // Sydney's clocks go back on 7 April 2024
+      const sydney = take('FREQ=MONTHLY;BYMONTHDAY=-1', new Date('2024-02-29T07:00:00Z'), 3, { timeZone: 'Australia/Sydney' });
+      expect(wallTimes(sydney, 'Australia/Sydney')).toEqual(['2024-02-29 18:00', '2024-03-31 18:00', '2024-04-30 18:00']);
+      expect(sydney[2].toISOString()).toBe('2024-04-30T08:00:00.000Z');
+    });
+
+    it('puts a month-end occurrence on the right calendar day across a change of clocks', () => {
+      // Just before midnight in London, where the UTC date is a day behind in summer
+      const dates = take('FREQ=MONTHLY;BYMONTHDAY=-1', new Date('2024-02-29T23:30:00Z'), 3, { timeZone: 'Europe/London' });
+
+      expect(wallTimes(dates, 'Europe/London')).toEqual(['2024-02-29 23:30', '2024-03-31 23:30', '2024-04-30 23:30']);
+      expect(dates[1].toISOString()).toBe('2024-03-31T22:30:00.000Z');
+    });
+  });
+
+  describe('nextOccurrence', () => {
+    const rule = parseRecurrenceRule('FREQ=WEEKLY;BYDAY=TU,TH;COUNT=4');
+    const start = new Date(2024, 0, 2, 8);
+
+    it('finds the first occurrence after a moment', () => {
+      expect(nextOccurrence(rule, start, start)).toEqual(new Date(2024, 0, 4, 8));
+      expect(nextOccurrence(rule, start, new Date(2024, 0, 4, 8))).toEqual(new Date(2024, 0, 9, 8));
+      expect(nextOccurrence(rule, start, new Date(2023, 0, 1))).toEqual(start);
+    });
+
+    it('finds nothing once the rule has run out', () => {
+      expect(nextOccurrence(rule, start, new Date(2024, 0, 11, 8))).toBeUndefined();
+    });
+  });
+
+  describe('advanceRecurrence', () => {
+    it('moves on to the next occurrence', () => {
+      expect(advanceRecurrence('FREQ=DAILY', new Date(2024, 0, 31, 9), new Date(2024, 0, 31)))
+        .toEqual({ dueDate: new Date(2024, 1, 1, 9), recurrence: 'FREQ=DAILY' });
+    });
+
+    it('skips occurrences missed before the given day', () => {
+      expect(advanceRecurrence('FREQ=WEEKLY', new Date(2024, 0, 1, 9), new Date(2024, 0, 20))?.dueDate)
+        .toEqual(new Date(2024, 0, 22, 9));
+      // Due yesterday and done today: today's occurrence is still to come
+      expect(advanceRecurrence('FREQ=DAILY', new Date(2024, 0, 1, 9), new Date(2024, 0, 2))?.dueDate)
+        .toEqual(new Date(2024, 0, 2, 9));
+    });
+
+    it('keeps the month-end anchor when moving through short months', () => {
+      let due = new Date(2024, 0, 31);
+      const dues: Date[] = [];
+      for (let i = 0; i < 3; i++) {
+        due = advanceRecurrence('FREQ=MONTHLY', due, due)!.dueDate;
+        dues.push(due);
+      }
+      expect(days(dues)).toEqual(['2024-03-31', '2024-05-31', '2024-07-31']);
+    });
+
+    it('counts down COUNT and runs out', () => {
+      const step = advanceRecurrence('RRULE:FREQ=DAILY;COUNT=3', new Date(2024, 0, 1), new Date(2024, 0, 1));
+      expect(step).toEqual({ dueDate: new Date(2024, 0, 2), recurrence: 'FREQ=DAILY;COUNT=2' });
+
+      expect(advanceRecurrence('FREQ=DAILY;COUNT=3', new Date(2024, 0, 1), new Date(2024, 0, 3)))
+        .toEqual({ dueDate: new Date(2024, 0, 3), recurrence: 'FREQ=DAILY;COUNT=1' });
+      expect(advanceRecurrence('FREQ=DAILY;COUNT=1', new Date(2024, 0, 1), new Date(2024, 0, 1))).toBeUndefined();
+      expect(advanceRecurrence('FREQ=DAILY;UNTIL=20240102', new Date(2024, 0, 2), new Date(2024, 0, 2))).toBeUndefined();
+    });
+
+    it('throws for a rule it cannot read', () => {
+      expect(() => advanceRecurrence('every day', new Date(), new Date())).toThrow(RecurrenceRuleError);
+    });
+  });
+
+  describe('describeRecurrence', () => {
+    it.each([
+      ['FREQ=DAILY', 'Daily'],
+      ['FREQ=DAILY;INTERVAL=3', 'Every 3 days'],
+      [RECURRENCE_PRESETS.weekdays, 'Weekdays'],
+      ['FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR', 'Every 2 weeks on Mon, Fri'],
+      ['FREQ=MONTHLY;BYMONTHDAY=1,15', 'Monthly on day 1, 15'],
+      ['FREQ=MONTHLY;BYMONTHDAY=-1', 'Monthly on the last day'],
+      ['FREQ=MONTHLY;BYMONTHDAY=-2', 'Monthly on the 2nd last day'],
+      ['FREQ=MONTHLY;BYDAY=-1FR', 'Monthly on the last Fri'],
+      ['FREQ=MONTHLY;BYDAY=3TU', 'Monthly on the 3rd Tue'],
+      ['FREQ=YEARLY;COUNT=5', 'Yearly, 5 times'],
+      ['FREQ=WEEKLY;UNTIL=20241231', 'Weekly, until Dec 31, 2024'],
+    ])('describes %s as "%s"', (rule, description) => {
+      expect(describeRecurrence(parseRecurrenceRule(rule))).toBe(description);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,499 @@
+// Recurring todos repeat on a subset of RFC 5545 recurrence rules:
+// FREQ (DAILY, WEEKLY, MONTHLY or YEARLY), INTERVAL, BYDAY, BYMONTHDAY, COUNT and UNTIL.
+// Weeks start on Monday. Occurrences keep the wall-clock time of the first one,
+// across daylight saving changes, and dates a period does not have (the 31st of a
+// 30-day month, the 29th of February) are skipped rather than moved, as the RFC says.
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export type RecurrenceWeekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export const RECURRENCE_WEEKDAYS: RecurrenceWeekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+export interface RecurrenceDay {
+  weekday: RecurrenceWeekday;
+  // Which one in the month: 1 for the first, -1 for the last. Only monthly rules number their days.
+  ordinal?: number;
+}
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  byDay?: RecurrenceDay[];
+  // Days of the month; negative ones count back from its end, -1 being the last day
+  byMonthDay?: number[];
+  // How many occurrences there are, the first one included
+  count?: number;
+  // The last moment an occurrence can fall on
+  until?: Date;
+}
+
+export interface RecurrenceOptions {
+  // An IANA time zone to keep the wall-clock time in, instead of the local one
+  timeZone?: string;
+}
+
+export class RecurrenceRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecurrenceRuleError';
+  }
+}
+
+export const RECURRENCE_PRESETS = {
+  daily: 'FREQ=DAILY',
+  weekdays: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR',
+  weekly: 'FREQ=WEEKLY',
+  monthly: 'FREQ=MONTHLY',
+  yearly: 'FREQ=YEARLY'
+} as const;
+
+export type RecurrencePreset = keyof typeof RECURRENCE_PRESETS;
+
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+// A rule whose periods keep turning up nothing (BYMONTHDAY=30 every February) is given up on
+const MAX_EMPTY_PERIODS = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const positiveInteger = (name: string, value: string): number => {
+  if (!/^\d+$/.test(value) || Number(value) < 1) {
+    throw new RecurrenceRuleError(`${name} must be a positive whole number, got "${value}"`);
+  }
+  return Number(value);
+};
+
+const parseDay = (value: string): RecurrenceDay => {
+  const match = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/.exec(value);
+  if (!match) {
+    throw new RecurrenceRuleError(`"${value}" is not a BYDAY value`);
+  }
+  const weekday = match[2] as RecurrenceWeekday;
+  if (match[1] === undefined) {
+    return { weekday };
+  }
+  const ordinal = Number(match[1]);
+  if (ordinal === 0 || Math.abs(ordinal) > 5) {
+    throw new RecurrenceRuleError(`"${value}" is not a BYDAY value`);
+  }
+  return { weekday, ordinal };
+};
+
+const parseMonthDay = (value: string): number => {
+  const day = Number(value);
+  if (!/^[+-]?\d{1,2}$/.test(value) || day === 0 || Math.abs(day) > 31) {
+    throw new RecurrenceRuleError(`"${value}" is not a BYMONTHDAY value`);
+  }
+  return day;
+};
+
+// UNTIL is a UTC time ending in Z, a floating local time, or a date - which takes in the whole day
+const parseUntil = (value: string): Date => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value);
+  if (!match) {
+    throw new RecurrenceRuleError(`"${value}" is not an UNTIL date`);
+  }
+  const [year, month, day, hours, minutes, seconds] = match.slice(1, 7).map(Number);
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month - 1) || hours > 23 || minutes > 59 || seconds > 59) {
+    throw new RecurrenceRuleError(`"${value}" is not an UNTIL date`);
+  }
+  if (match[4] === undefined) {
+    return new Date(year, month - 1, day, 23, 59, 59, 999);
+  }
+  return match[7]
+    ? new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds))
+    : new Date(year, month - 1, day, hours, minutes, seconds);
+};
+
+export const parseRecurrenceRule = (text: string): RecurrenceRule => {
+  const body = text.trim().replace(/^RRULE:/i, '');
+  if (!body) {
+    throw new RecurrenceRuleError('The rule is empty');
+  }
+
+  const parts = new Map<string, string>();
+  for (const part of body.split(';')) {
+    const separator = part.indexOf('=');
+    if (separator < 1) {
+      throw new RecurrenceRuleError(`"${part}" is not a NAME=VALUE pair`);
+    }
+    const name = part.slice(0, separator).trim().toUpperCase();
+    if (parts.has(name)) {
+      throw new RecurrenceRuleError(`${name} is given more than once`);
+    }
+    parts.set(name, part.slice(separator + 1).trim().toUpperCase());
+  }
+
+  const frequency = parts.get('FREQ');
+  if (frequency === undefined) {
+    throw new RecurrenceRuleError('FREQ is required');
+  }
+  if (!FREQUENCIES.includes(frequency as RecurrenceFrequency)) {
+    throw new RecurrenceRuleError(`FREQ=${frequency} is not supported`);
+  }
+
+  const rule: RecurrenceRule = { frequency: frequency as RecurrenceFrequency, interval: 1 };
+  for (const [name, value] of parts) {
+    switch (name) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = positiveInteger(name, value);
+        break;
+      case 'COUNT':
+        rule.count = positiveInteger(name, value);
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(value);
+        break;
+      case 'BYDAY':
+        rule.byDay = value.split(',').map(parseDay);
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = value.split(',').map(parseMonthDay);
+        break;
+      case 'WKST':
+        if (value !== 'MO') {
+          throw new RecurrenceRuleError('Only WKST=MO is supported');
+        }
+        break;
+      default:
+        throw new RecurrenceRuleError(`${name} is not supported`);
+    }
+  }
+
+  if (rule.count !== undefined && rule.until) {
+    throw new RecurrenceRuleError('COUNT and UNTIL cannot both be given');
+  }
+  if (rule.frequency === 'YEARLY' && (rule.byDay || rule.byMonthDay)) {
+    throw new RecurrenceRuleError('BYDAY and BYMONTHDAY are not supported with FREQ=YEARLY');
+  }
+  if (rule.frequency === 'WEEKLY' && rule.byMonthDay) {
+    throw new RecurrenceRuleError('BYMONTHDAY cannot be used with FREQ=WEEKLY');
+  }
+  if (rule.frequency !== 'MONTHLY' && rule.byDay?.some(day => day.ordinal !== undefined)) {
+    throw new RecurrenceRuleError('Numbered BYDAY values need FREQ=MONTHLY');
+  }
+  return rule;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const formatDay = ({ weekday, ordinal }: RecurrenceDay) => `${ordinal ?? ''}${weekday}`;
+
+export const formatRecurrenceRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.frequency}`];
+  if (rule.interval > 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.byDay) {
+    parts.push(`BYDAY=${rule.byDay.map(formatDay).join(',')}`);
+  }
+  if (rule.byMonthDay) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  }
+  if (rule.count !== undefined) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  if (rule.until) {
+    const until = rule.until;
+    parts.push(
+      `UNTIL=${until.getUTCFullYear()}${pad(until.getUTCMonth() + 1)}${pad(until.getUTCDate())}` +
+      `T${pad(until.getUTCHours())}${pad(until.getUTCMinutes())}${pad(until.getUTCSeconds())}Z`
+    );
+  }
+  return parts.join(';');
+};
+
+// True for text that parses as a rule
+export const isRecurrenceRule = (text: string): boolean => {
+  try {
+    parseRecurrenceRule(text);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Calendar days are worked out in UTC, where every day is 24 hours long
+interface CalendarDay {
+  year: number;
+  month: number;
+  day: number;
+}
+
+interface WallTime extends CalendarDay {
+  hours: number;
+  minutes: number;
+  seconds: number;
+  milliseconds: number;
+}
+
+interface WallClock {
+  read(date: Date): WallTime;
+  // Times skipped when clocks go forward move on by the gap, and times that happen
+  // twice when they go back take the first, the way `new Date(...)` reads local times
+  at(time: WallTime): Date;
+}
+
+const calendarDay = (year: number, month: number, day: number): CalendarDay => {
+  const date = new Date(Date.UTC(year, month, day));
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth(), day: date.getUTCDate() };
+};
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// Monday is 0
+const weekdayOf = ({ year, month, day }: CalendarDay) => (new Date(Date.UTC(year, month, day)).getUTCDay() + 6) % 7;
+
+const dayKey = ({ year, month, day }: CalendarDay) => (year * 12 + month) * 32 + day;
+
+const asUtc = (time: WallTime) =>
+  Date.UTC(time.year, time.month, time.day, time.hours, time.minutes, time.seconds, time.milliseconds);
+
+const localClock: WallClock = {
+  read: (date) => ({
+    year: date.getFullYear(),
+    month: date.getMonth(),
+    day: date.getDate(),
+    hours: date.getHours(),
+    minutes: date.getMinutes(),
+    seconds: date.getSeconds(),
+    milliseconds: date.getMilliseconds()
+  }),
+  at: (time) => new Date(time.year, time.month, time.day, time.hours, time.minutes, time.seconds, time.milliseconds)
+};
+
+const zoneClocks = new Map<string, WallClock>();
+
+const zoneClock = (timeZone: string): WallClock => {
+  let clock = zoneClocks.get(timeZone);
+  if (clock) {
+    return clock;
+  }
+
+  const format = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  });
+  const read = (date: Date): WallTime => {
+    const parts = Object.fromEntries(format.formatToParts(date).map(part => [part.type, Number(part.value)]));
+    return {
+      year: parts.year,
+      month: parts.month - 1,
+      day: parts.day,
+      hours: parts.hour,
+      minutes: parts.minute,
+      seconds: parts.second,
+      milliseconds: date.getUTCMilliseconds()
+    };
+  };
+  const offsetAt = (instant: number) => asUtc(read(new Date(instant))) - instant;
+
+  clock = {
+    read,
+    at: (time) => {
+      // The offsets either side of the day cover any change of clocks on it
+      const wall = asUtc(time);
+      const offsetBefore = offsetAt(wall - DAY_MS);
+      const candidates = [wall - offsetBefore, wall - offsetAt(wall + DAY_MS)]
+        .filter(instant => asUtc(read(new Date(instant))) === wall);
+      return new Date(candidates.length > 0 ? Math.min(...candidates) : wall - offsetBefore);
+    }
+  };
+  zoneClocks.set(timeZone, clock);
+  return clock;
+};
+
+const monthDays = (rule: RecurrenceRule, year: number, month: number, startDay: number): number[] => {
+  const length = daysInMonth(year, month);
+  let days: number[] | undefined;
+
+  if (rule.byMonthDay) {
+    days = rule.byMonthDay.map(day => day > 0 ? day : length + 1 + day);
+  }
+  if (rule.byDay) {
+    const firstWeekday = weekdayOf({ year, month, day: 1 });
+    const matching = rule.byDay.flatMap(({ weekday, ordinal }) => {
+      const first = 1 + (RECURRENCE_WEEKDAYS.indexOf(weekday) - firstWeekday + 7) % 7;
+      const all: number[] = [];
+      for (let day = first; day <= length; day += 7) {
+        all.push(day);
+      }
+      if (ordinal === undefined) {
+        return all;
+      }
+      const picked = ordinal > 0 ? all[ordinal - 1] : all[all.length + ordinal];
+      return picked === undefined ? [] : [picked];
+    });
+    days = days ? days.filter(day => matching.includes(day)) : matching;
+  }
+
+  return [...new Set(days ?? [startDay])]
+    .filter(day => day >= 1 && day <= length)
+    .sort((a, b) => a - b);
+};
+
+// The days a rule picks in its `period`th period, counting the first one from 0
+const periodDays = (rule: RecurrenceRule, start: CalendarDay, period: number): CalendarDay[] => {
+  const step = period * rule.interval;
+
+  switch (rule.frequency) {
+    case 'DAILY': {
+      const day = calendarDay(start.year, start.month, start.day + step);
+      const weekday = RECURRENCE_WEEKDAYS[weekdayOf(day)];
+      const length = daysInMonth(day.year, day.month);
+      const picked =
+        (!rule.byDay || rule.byDay.some(byDay => byDay.weekday === weekday)) &&
+        (!rule.byMonthDay || rule.byMonthDay.some(monthDay => (monthDay > 0 ? monthDay : length + 1 + monthDay) === day.day));
+      return picked ? [day] : [];
+    }
+    case 'WEEKLY': {
+      const monday = start.day - weekdayOf(start) + step * 7;
+      const weekdays = rule.byDay
+        ? [...new Set(rule.byDay.map(day => RECURRENCE_WEEKDAYS.indexOf(day.weekday)))].sort((a, b) => a - b)
+        : [weekdayOf(start)];
+      return weekdays.map(weekday => calendarDay(start.year, start.month, monday + weekday));
+    }
+    case 'MONTHLY': {
+      const { year, month } = calendarDay(start.year, start.month + step, 1);
+      return monthDays(rule, year, month, start.day).map(day => ({ year, month, day }));
+    }
+    case 'YEARLY': {
+      const year = start.year + step;
+      return start.day <= daysInMonth(year, start.month) ? [{ year, month: start.month, day: start.day }] : [];
+    }
+  }
+};
+
+// Every occurrence of the rule in order, `start` being the first whether or not the
+// rule would pick it. Without COUNT or UNTIL this goes on forever.
+export function* occurrences(rule: RecurrenceRule, start: Date, options: RecurrenceOptions = {}): Generator<Date> {
+  const clock = options.timeZone ? zoneClock(options.timeZone) : localClock;
+  const origin = clock.read(start);
+  const originKey = dayKey(origin);
+
+  yield start;
+  let produced = 1;
+  if (rule.count !== undefined && produced >= rule.count) {
+    return;
+  }
+
+  for (let period = 0, empty = 0; empty < MAX_EMPTY_PERIODS; period++) {
+    let found = false;
+    for (const day of periodDays(rule, origin, period)) {
+      if (dayKey(day) <= originKey) {
+        continue;
+      }
+      const occurrence = clock.at({ ...origin, ...day });
+      if (rule.until && occurrence.getTime() > rule.until.getTime()) {
+        return;
+      }
+      found = true;
+      yield occurrence;
+      if (rule.count !== undefined && ++produced >= rule.count) {
+        return;
+      }
+    }
+    empty = found ? 0 : empty + 1;
+  }
+}
+
+// The first occurrence after `after`, if the rule has one
+export const nextOccurrence = (
+  rule: RecurrenceRule,
+  start: Date,
+  after: Date,
+  options?: RecurrenceOptions
+): Date | undefined => {
+  for (const occurrence of occurrences(rule, start, options)) {
+    if (occurrence.getTime() > after.getTime()) {
+      return occurrence;
+    }
+  }
+  return undefined;
+};
+
+export interface RecurrenceStep {
+  dueDate: Date;
+  // The rule to carry on with, its COUNT lowered by the occurrences used up
+  recurrence: string;
+}
+
+// Where a recurring item goes once the occurrence at `current` is done: the next
+// occurrence that is not before `notBefore`, so missed ones are not piled up.
+// Undefined when the series has run out.
+export const advanceRecurrence = (
+  recurrence: string,
+  current: Date,
+  notBefore: Date,
+  options?: RecurrenceOptions
+): RecurrenceStep | undefined => {
+  const rule = parseRecurrenceRule(recurrence);
+  let index = 0;
+
+  for (const occurrence of occurrences(rule, current, options)) {
+    if (index > 0 && occurrence.getTime() >= notBefore.getTime()) {
+      return {
+        dueDate: occurrence,
+        recurrence: rule.count === undefined ? recurrence : formatRecurrenceRule({ ...rule, count: rule.count - index })
+      };
+    }
+    index++;
+  }
+  return undefined;
+};
+
+const WEEKDAY_NAMES: Record<RecurrenceWeekday, string> = {
+  MO: 'Mon', TU: 'Tue', WE: 'Wed', TH: 'Thu', FR: 'Fri', SA: 'Sat', SU: 'Sun'
+};
+
+const UNITS: Record<RecurrenceFrequency, [string, string]> = {
+  DAILY: ['Daily', 'day'],
+  WEEKLY: ['Weekly', 'week'],
+  MONTHLY: ['Monthly', 'month'],
+  YEARLY: ['Yearly', 'year']
+};
+
+const ordinalName = (value: number): string => {
+  if (value === -1) {
+    return 'last';
+  }
+  const number = Math.abs(value);
+  const suffix = number % 100 >= 11 && number % 100 <= 13 ? 'th' : ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[number % 10] ?? 'th';
+  return value < 0 ? `${number}${suffix} last` : `${number}${suffix}`;
+};
+
+// A short reading of the rule, e.g. "Every 2 weeks on Mon, Fri"
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const [single, unit] = UNITS[rule.frequency];
+  let text = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : single;
+
+  const isWeekdays = rule.frequency === 'WEEKLY' && rule.byDay?.length === 5 &&
+    RECURRENCE_WEEKDAYS.slice(0, 5).every(weekday => rule.byDay!.some(day => day.weekday === weekday));
+  if (isWeekdays && rule.interval === 1) {
+    text = 'Weekdays';
+  } else if (rule.byDay) {
+    text += ` on ${rule.byDay.map(({ weekday, ordinal }) =>
+      ordinal === undefined ? WEEKDAY_NAMES[weekday] : `the ${ordinalName(ordinal)} ${WEEKDAY_NAMES[weekday]}`
+    ).join(', ')}`;
+  }
+  if (rule.byMonthDay) {
+    const days = rule.byMonthDay.map(day => day === -1 ? 'the last day' : day < 0 ? `the ${ordinalName(day)} day` : String(day));
+    text += rule.byMonthDay.every(day => day > 0) ? ` on day ${days.join(', ')}` : ` on ${days.join(', ')}`;
+  }
+  if (rule.count !== undefined) {
+    text += rule.count === 1 ? ', once' : `, ${rule.count} times`;
+  }
+  if (rule.until) {
+    text += `, until ${rule.until.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+  }
+  return text;
+};
\ No newline at end of file
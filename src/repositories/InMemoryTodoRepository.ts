@@ -0,0 +1,24 @@
+import { injectable } from 'inversify';
+import type { Todo } from '../types';
+import { ITodoRepository, TodoChange, applyTodoChanges } from './TodoRepository';
+
+@injectable()
+export class InMemoryTodoRepository implements ITodoRepository {
+  private todos: Todo[];
+
+  constructor(initialTodos: Todo[] = []) {
+    this.todos = [...initialTodos];
+  }
+
+  load(): Todo[] {
+    return [...this.todos];
+  }
+
+  apply(changes: TodoChange[]): void {
+    this.todos = applyTodoChanges(this.todos, changes);
+  }
+
+  clear(): void {
+    this.todos = [];
+  }
+}
\ No newline at end of file
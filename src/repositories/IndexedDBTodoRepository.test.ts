@@ -0,0 +1,140 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { IndexedDBTodoRepository } from './IndexedDBTodoRepository';
+import { Todo } from '../types';
+import { TodoMigrationError, TodoMigrationRegistry } from '../migrations/TodoMigrationRegistry';
+
+describe('IndexedDBTodoRepository', () => {
+  const firstTodo: Todo = { id: 'b', text: 'First', completed: false, createdAt: new Date('2024-05-01T08:00:00.000Z') };
+  const secondTodo: Todo = { id: 'a', text: 'Second', completed: true, createdAt: new Date('2024-05-02T08:00:00.000Z') };
+  let factory: IDBFactory;
+  let repository: IndexedDBTodoRepository;
+
+  beforeEach(() => {
+    // A fresh in-memory IndexedDB per test keeps the cases isolated
+    factory = new IDBFactory();
+    repository = new IndexedDBTodoRepository(factory, 'todos-test', 0);
+  });
+
+  afterEach(async () => {
+    await repository.close();
+  });
+
+  it('loads an empty list from a new database', async () => {
+    await expect(repository.load()).resolves.toEqual([]);
+  });
+
+  it('persists todos and revives createdAt as a Date', async () => {
+    await repository.apply([{ type: 'create', todo: firstTodo }]);
+
+    const reopened = new IndexedDBTodoRepository(factory, 'todos-test');
+    const [loaded] = await reopened.load();
+    await reopened.close();
+
+    expect(loaded.createdAt).toBeInstanceOf(Date);
+    expect(loaded).toEqual(firstTodo);
+  });
+
+  it('returns todos in creation order rather than key order', async () => {
+    await repository.apply([
+      { type: 'create', todo: firstTodo },
+      { type: 'create', todo: secondTodo },
+    ]);
+
+    const todos = await repository.load();
+    expect(todos.map(todo => todo.text)).toEqual(['First', 'Second']);
+  });
+
+  it('applies updates and deletes', async () => {
+    await repository.apply([
+      { type: 'create', todo: firstTodo },
+      { type: 'create', todo: secondTodo },
+    ]);
+    await repository.apply([
+      { type: 'update', todo: { ...firstTodo, text: 'First (edited)' } },
+      { type: 'delete', id: 'a' },
+    ]);
+
+    await expect(repository.load()).resolves.toEqual([{ ...firstTodo, text: 'First (edited)' }]);
+  });
+
+  it('batches changes made within the same window into one transaction', async () => {
+    const batchedRepository = new IndexedDBTodoRepository(factory, 'todos-batched', 10);
+    await batchedRepository.load();
+    const database = await (batchedRepository as any).database as IDBDatabase;
+    const transactionSpy = jest.spyOn(database, 'transaction');
+
+    const first = batchedRepository.apply([{ type: 'create', todo: firstTodo }]);
+    const second = batchedRepository.apply([{ type: 'create', todo: secondTodo }]);
+
+    expect(first).toBe(second);
+    await second;
+
+    expect(transactionSpy).toHaveBeenCalledTimes(1);
+    expect(transactionSpy).toHaveBeenCalledWith('todos', 'readwrite');
+    await expect(batchedRepository.load()).resolves.toHaveLength(2);
+    await batchedRepository.close();
+  });
+
+  it('writes pending changes immediately on flush', async () => {
+    const slowRepository = new IndexedDBTodoRepository(factory, 'todos-flush', 60_000);
+
+    slowRepository.apply([{ type: 'create', todo: firstTodo }]);
+    await slowRepository.flush();
+
+    await expect(slowRepository.load()).resolves.toEqual([firstTodo]);
+    await slowRepository.close();
+  });
+
+  it('deletes its database when cleared', async () => {
+    await repository.apply([{ type: 'create', todo: firstTodo }]);
+
+    await repository.clear();
+
+    const databases = await factory.databases();
+    expect(databases.map(database => database.name)).not.toContain('todos-test');
+  });
+
+  describe('schema migrations', () => {
+    // Recreates a database as written before the schema version was stored
+    const seedVersionOneDatabase = async (name: string) => {
+      const request = factory.open(name, 1);
+      request.onupgradeneeded = () => {
+        request.result
+          .createObjectStore('todos', { keyPath: 'id' })
+          .put({ id: 'legacy', text: 'Legacy', completed: false, createdAt: '2024-01-01T00:00:00.000Z' });
+      };
+      const database = await new Promise<IDBDatabase>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      database.close();
+    };
+
+    it('upgrades records from an unversioned database', async () => {
+      await seedVersionOneDatabase('todos-legacy');
+      const legacyRepository = new IndexedDBTodoRepository(factory, 'todos-legacy', 0);
+
+      const [todo] = await legacyRepository.load();
+      await legacyRepository.close();
+
+      expect(todo).toMatchObject({ id: 'legacy', version: 1, updatedAt: new Date('2024-01-01T00:00:00.000Z') });
+    });
+
+    it('leaves the stored records untouched when a migration fails', async () => {
+      await seedVersionOneDatabase('todos-broken');
+      const failingRegistry = new TodoMigrationRegistry([
+        { version: 1, description: 'always fails', up: () => { throw new Error('Bad data'); } }
+      ]);
+      const brokenRepository = new IndexedDBTodoRepository(factory, 'todos-broken', 0, failingRegistry);
+
+      await expect(brokenRepository.load()).rejects.toBeInstanceOf(TodoMigrationError);
+      await brokenRepository.close();
+
+      const recovered = new IndexedDBTodoRepository(factory, 'todos-broken', 0);
+      await expect(recovered.load()).resolves.toEqual([
+        expect.objectContaining({ id: 'legacy', text: 'Legacy', version: 1 })
+      ]);
+      await recovered.close();
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,160 @@
+import { injectable } from 'inversify';
+import type { Todo } from '../types';
+import {
+  ITodoRepository,
+  SerializedTodo,
+  TodoChange,
+  deserializeTodo,
+  serializeTodo,
+} from './TodoRepository';
+import { PersistedTodoRecord, TodoMigrationError, TodoMigrationRegistry } from '../migrations/TodoMigrationRegistry';
+
+export const TODOS_DATABASE_NAME = 'inversify-zustand-todo';
+const TODOS_DATABASE_VERSION = 2;
+const TODOS_OBJECT_STORE = 'todos';
+// Holds the todo schema version next to the data (added in database version 2)
+const META_OBJECT_STORE = 'meta';
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+const promisifyRequest = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const promisifyTransaction = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+@injectable()
+export class IndexedDBTodoRepository implements ITodoRepository {
+  private database: Promise<IDBDatabase> | null = null;
+  private pendingChanges: TodoChange[] = [];
+  private pendingFlush: Promise<void> | null = null;
+
+  constructor(
+    private factory: IDBFactory = window.indexedDB,
+    private databaseName: string = TODOS_DATABASE_NAME,
+    private batchDelayMs: number = 50,
+    private migrations: TodoMigrationRegistry = new TodoMigrationRegistry()
+  ) {}
+
+  async load(): Promise<Todo[]> {
+    const database = await this.open();
+    const transaction = database.transaction([TODOS_OBJECT_STORE, META_OBJECT_STORE], 'readonly');
+    const [records, schemaVersion = 0] = await Promise.all([
+      promisifyRequest<PersistedTodoRecord[]>(transaction.objectStore(TODOS_OBJECT_STORE).getAll()),
+      promisifyRequest<number | undefined>(transaction.objectStore(META_OBJECT_STORE).get(SCHEMA_VERSION_KEY)),
+    ]);
+
+    const todos = this.migrations.needsMigration(schemaVersion)
+      ? await this.migrate(database, records, schemaVersion)
+      : records;
+
+    // Records come back in key order; creation order is what the UI expects
+    return (todos as SerializedTodo[])
+      .map(deserializeTodo)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  // Changes are buffered and written in a single transaction per batch window
+  apply(changes: TodoChange[]): Promise<void> {
+    this.pendingChanges.push(...changes);
+
+    if (!this.pendingFlush) {
+      this.pendingFlush = new Promise<void>(resolve => setTimeout(resolve, this.batchDelayMs))
+        .then(() => this.flush());
+    }
+
+    return this.pendingFlush;
+  }
+
+  async flush(): Promise<void> {
+    const changes = this.pendingChanges;
+    this.pendingChanges = [];
+    this.pendingFlush = null;
+
+    if (changes.length === 0) {
+      return;
+    }
+
+    const database = await this.open();
+    const transaction = database.transaction(TODOS_OBJECT_STORE, 'readwrite');
+    const objectStore = transaction.objectStore(TODOS_OBJECT_STORE);
+
+    changes.forEach(change => {
+      if (change.type === 'delete') {
+        objectStore.delete(change.id);
+      } else {
+        objectStore.put(serializeTodo(change.todo));
+      }
+    });
+
+    await promisifyTransaction(transaction);
+  }
+
+  async close(): Promise<void> {
+    if (this.database) {
+      const database = await this.database;
+      database.close();
+      this.database = null;
+    }
+  }
+
+  // Deletes the whole database; changes still waiting for their batch are dropped with it
+  async clear(): Promise<void> {
+    this.pendingChanges = [];
+    await this.close();
+    await promisifyRequest(this.factory.deleteDatabase(this.databaseName));
+  }
+
+  // Failed migrations leave the stored records untouched, so nothing is lost
+  private async migrate(
+    database: IDBDatabase,
+    records: PersistedTodoRecord[],
+    schemaVersion: number
+  ): Promise<PersistedTodoRecord[]> {
+    let migrated: PersistedTodoRecord[];
+    try {
+      migrated = this.migrations.migrate(records, schemaVersion);
+    } catch (error) {
+      const migrationError = error instanceof TodoMigrationError
+        ? error
+        : new TodoMigrationError(String(error), schemaVersion, schemaVersion, error);
+      throw migrationError.withBackupLocation(`IndexedDB ${this.databaseName}/${TODOS_OBJECT_STORE}`);
+    }
+
+    const transaction = database.transaction([TODOS_OBJECT_STORE, META_OBJECT_STORE], 'readwrite');
+    const todoStore = transaction.objectStore(TODOS_OBJECT_STORE);
+    migrated.forEach(record => todoStore.put(record));
+    transaction.objectStore(META_OBJECT_STORE).put(this.migrations.currentVersion, SCHEMA_VERSION_KEY);
+    await promisifyTransaction(transaction);
+
+    return migrated;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const request = this.factory.open(this.databaseName, TODOS_DATABASE_VERSION);
+      request.onupgradeneeded = (event) => {
+        const database = request.result;
+        if (!database.objectStoreNames.contains(TODOS_OBJECT_STORE)) {
+          database.createObjectStore(TODOS_OBJECT_STORE, { keyPath: 'id' });
+        }
+        if (!database.objectStoreNames.contains(META_OBJECT_STORE)) {
+          const metaStore = database.createObjectStore(META_OBJECT_STORE);
+          // A brand new database holds no legacy data; an upgraded one is left at 0 to be migrated
+          if (event.oldVersion === 0) {
+            metaStore.put(this.migrations.currentVersion, SCHEMA_VERSION_KEY);
+          }
+        }
+      };
+      this.database = promisifyRequest(request);
+    }
+
+    return this.database;
+  }
+}
\ No newline at end of file
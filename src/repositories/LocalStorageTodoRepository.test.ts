@@ -0,0 +1,134 @@
+import { LocalStorageTodoRepository, TODOS_STORAGE_KEY } from './LocalStorageTodoRepository';
+import { Todo } from '../types';
+import { TodoMigrationError, TodoMigrationRegistry } from '../migrations/TodoMigrationRegistry';
+
+describe('LocalStorageTodoRepository', () => {
+  const firstTodo: Todo = { id: '1', text: 'First', completed: false, createdAt: new Date('2024-03-01T09:30:00.000Z') };
+  const secondTodo: Todo = { id: '2', text: 'Second', completed: true, createdAt: new Date('2024-03-02T18:45:00.000Z') };
+  let repository: LocalStorageTodoRepository;
+
+  beforeEach(() => {
+    localStorage.clear();
+    repository = new LocalStorageTodoRepository();
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('loads an empty list when nothing has been stored', () => {
+    expect(repository.load()).toEqual([]);
+  });
+
+  it('stores todos as JSON under its storage key, stamped with the schema version', () => {
+    repository.apply([{ type: 'create', todo: firstTodo }]);
+
+    expect(JSON.parse(localStorage.getItem(TODOS_STORAGE_KEY)!)).toEqual({
+      schemaVersion: new TodoMigrationRegistry().currentVersion,
+      todos: [{ id: '1', text: 'First', completed: false, createdAt: '2024-03-01T09:30:00.000Z' }]
+    });
+  });
+
+  it('revives createdAt as a Date when loading', () => {
+    repository.apply([{ type: 'create', todo: firstTodo }]);
+
+    const [loaded] = new LocalStorageTodoRepository().load();
+    expect(loaded.createdAt).toBeInstanceOf(Date);
+    expect(loaded).toEqual(firstTodo);
+  });
+
+  it('revives the dates in a recurring todo\'s completion history', () => {
+    const recurring: Todo = {
+      ...firstTodo,
+      recurrence: 'FREQ=WEEKLY',
+      dueDate: new Date('2024-03-08T09:00:00.000Z'),
+      completions: [
+        { completedAt: new Date('2024-03-01T10:00:00.000Z'), dueDate: new Date('2024-03-01T09:00:00.000Z') },
+        { completedAt: new Date('2024-02-20T08:00:00.000Z') }
+      ]
+    };
+    repository.apply([{ type: 'create', todo: recurring }]);
+
+    expect(new LocalStorageTodoRepository().load()).toEqual([recurring]);
+  });
+
+  it('applies create, update and delete changes in order', () => {
+    repository.apply([
+      { type: 'create', todo: firstTodo },
+      { type: 'create', todo: secondTodo },
+    ]);
+    repository.apply([
+      { type: 'update', todo: { ...firstTodo, completed: true } },
+      { type: 'delete', id: '2' },
+    ]);
+
+    expect(repository.load()).toEqual([{ ...firstTodo, completed: true }]);
+  });
+
+  it('keeps separate lists under separate keys', () => {
+    const otherRepository = new LocalStorageTodoRepository(localStorage, 'other-todos');
+
+    repository.apply([{ type: 'create', todo: firstTodo }]);
+    otherRepository.apply([{ type: 'create', todo: secondTodo }]);
+
+    expect(repository.load()).toEqual([firstTodo]);
+    expect(otherRepository.load()).toEqual([secondTodo]);
+  });
+
+  it('drops its storage key when cleared', () => {
+    repository.apply([{ type: 'create', todo: firstTodo }]);
+
+    repository.clear();
+
+    expect(localStorage.getItem(TODOS_STORAGE_KEY)).toBeNull();
+    expect(repository.load()).toEqual([]);
+  });
+
+  it('throws when the stored payload is not valid JSON', () => {
+    localStorage.setItem(TODOS_STORAGE_KEY, '{not json');
+
+    expect(() => repository.load()).toThrow();
+  });
+
+  describe('schema migrations', () => {
+    const legacyPayload = JSON.stringify([
+      { id: '1', text: 'Saved before versioning', completed: false, createdAt: '2024-03-01T09:30:00.000Z' }
+    ]);
+
+    it('upgrades an unversioned payload and writes it back stamped', () => {
+      localStorage.setItem(TODOS_STORAGE_KEY, legacyPayload);
+
+      const [todo] = repository.load();
+
+      expect(todo).toMatchObject({ id: '1', version: 1, updatedAt: new Date('2024-03-01T09:30:00.000Z') });
+      expect(JSON.parse(localStorage.getItem(TODOS_STORAGE_KEY)!).schemaVersion).toBe(new TodoMigrationRegistry().currentVersion);
+    });
+
+    it('sets an unmigratable payload aside untouched and reports where it went', () => {
+      const brokenRepository = new LocalStorageTodoRepository(localStorage, TODOS_STORAGE_KEY, new TodoMigrationRegistry([
+        { version: 1, description: 'always fails', up: () => { throw new Error('Bad data'); } }
+      ]));
+      localStorage.setItem(TODOS_STORAGE_KEY, legacyPayload);
+
+      let error: unknown;
+      try {
+        brokenRepository.load();
+      } catch (caught) {
+        error = caught;
+      }
+
+      expect(error).toBeInstanceOf(TodoMigrationError);
+      expect((error as TodoMigrationError).backupLocation).toBe(`${TODOS_STORAGE_KEY}:unmigrated-v0`);
+      expect(localStorage.getItem(`${TODOS_STORAGE_KEY}:unmigrated-v0`)).toBe(legacyPayload);
+      expect(brokenRepository.load()).toEqual([]);
+    });
+
+    it('does not overwrite data saved by a newer version of the app', () => {
+      const futurePayload = JSON.stringify({ schemaVersion: 99, todos: [] });
+      localStorage.setItem(TODOS_STORAGE_KEY, futurePayload);
+
+      expect(() => repository.load()).toThrow(TodoMigrationError);
+      expect(localStorage.getItem(`${TODOS_STORAGE_KEY}:unmigrated-v99`)).toBe(futurePayload);
+    });
+  });
+});
\ No newline at end of file
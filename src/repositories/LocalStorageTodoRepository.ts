@@ -0,0 +1,82 @@
+import { injectable } from 'inversify';
+import type { Todo } from '../types';
+import {
+  ITodoRepository,
+  SerializedTodo,
+  TodoChange,
+  applyTodoChanges,
+  deserializeTodo,
+  serializeTodo,
+} from './TodoRepository';
+import { PersistedTodoRecord, TodoMigrationError, TodoMigrationRegistry } from '../migrations/TodoMigrationRegistry';
+
+export const TODOS_STORAGE_KEY = 'inversify-zustand-todo:todos';
+
+// The schema version is stored alongside the todos so old payloads can be upgraded
+interface StoredTodos {
+  schemaVersion: number;
+  todos: PersistedTodoRecord[];
+}
+
+@injectable()
+export class LocalStorageTodoRepository implements ITodoRepository {
+  constructor(
+    private storage: Storage = window.localStorage,
+    private key: string = TODOS_STORAGE_KEY,
+    private migrations: TodoMigrationRegistry = new TodoMigrationRegistry()
+  ) {}
+
+  load(): Todo[] {
+    const raw = this.storage.getItem(this.key);
+    if (!raw) {
+      return [];
+    }
+
+    const stored = JSON.parse(raw);
+    // Payloads written before versioning were a bare array
+    const { schemaVersion, todos }: StoredTodos = Array.isArray(stored)
+      ? { schemaVersion: 0, todos: stored }
+      : stored;
+
+    if (!this.migrations.needsMigration(schemaVersion)) {
+      return (todos as SerializedTodo[]).map(deserializeTodo);
+    }
+
+    let migrated: PersistedTodoRecord[];
+    try {
+      migrated = this.migrations.migrate(todos, schemaVersion);
+    } catch (error) {
+      throw this.setAside(raw, schemaVersion, error);
+    }
+
+    this.write(migrated as SerializedTodo[]);
+    return (migrated as SerializedTodo[]).map(deserializeTodo);
+  }
+
+  apply(changes: TodoChange[]): void {
+    const todos = applyTodoChanges(this.load(), changes);
+    this.write(todos.map(serializeTodo));
+  }
+
+  clear(): void {
+    this.storage.removeItem(this.key);
+  }
+
+  // Moves a payload that could not be migrated out of the way, untouched, so the
+  // app can start afresh and the data can still be recovered by hand
+  private setAside(raw: string, schemaVersion: number, error: unknown): TodoMigrationError {
+    const backupKey = `${this.key}:unmigrated-v${schemaVersion}`;
+    this.storage.setItem(backupKey, raw);
+    this.storage.removeItem(this.key);
+
+    const migrationError = error instanceof TodoMigrationError
+      ? error
+      : new TodoMigrationError(String(error), schemaVersion, schemaVersion, error);
+    return migrationError.withBackupLocation(backupKey);
+  }
+
+  private write(todos: SerializedTodo[]) {
+    const stored: StoredTodos = { schemaVersion: this.migrations.currentVersion, todos };
+    this.storage.setItem(this.key, JSON.stringify(stored));
+  }
+}
\ No newline at end of file
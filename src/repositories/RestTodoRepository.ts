@@ -0,0 +1,64 @@
+import { injectable } from 'inversify';
+import type { Todo } from '../types';
+import {
+  ITodoRepository,
+  RepositoryUnavailableError,
+  SerializedTodo,
+  TodoChange,
+  deserializeTodo,
+  serializeTodo,
+} from './TodoRepository';
+
+type FetchFn = (input: string, init?: RequestInit) => Promise<Response>;
+
+@injectable()
+export class RestTodoRepository implements ITodoRepository {
+  constructor(
+    private baseUrl: string,
+    // Resolved lazily so the repository can be constructed where fetch is unavailable
+    private fetchFn: FetchFn = (input, init) => fetch(input, init)
+  ) {}
+
+  async load(): Promise<Todo[]> {
+    const response = await this.request('GET', '/todos');
+    const todos: SerializedTodo[] = await response.json();
+    return todos.map(deserializeTodo);
+  }
+
+  // Changes are sent one at a time so the server sees them in the order they happened
+  async apply(changes: TodoChange[]): Promise<void> {
+    for (const change of changes) {
+      switch (change.type) {
+        case 'create':
+          await this.request('POST', '/todos', serializeTodo(change.todo));
+          break;
+        case 'update':
+          await this.request('PUT', `/todos/${encodeURIComponent(change.todo.id)}`, serializeTodo(change.todo));
+          break;
+        case 'delete':
+          await this.request('DELETE', `/todos/${encodeURIComponent(change.id)}`);
+          break;
+      }
+    }
+  }
+
+  private async request(method: string, path: string, body?: SerializedTodo): Promise<Response> {
+    let response: Response;
+    try {
+      response = await this.fetchFn(`${this.baseUrl}${path}`, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+    } catch (error) {
+      // fetch only rejects when no response arrived at all
+      throw new RepositoryUnavailableError(`${method} ${path} could not reach the server`, error);
+    }
+
+    if (!response.ok) {
+      throw new Error(`${method} ${path} failed with status ${response.status}`);
+    }
+
+    return response;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,131 @@
+import type { Todo } from '../types';
+import { DEFAULT_TODO_LIST_ID } from '../types';
+
+export type TodoChange =
+  | { type: 'create'; todo: Todo }
+  | { type: 'update'; todo: Todo }
+  | { type: 'delete'; id: string; version?: number };
+
+// Thrown by repositories whose backend cannot be reached at all, as opposed to
+// one that answered and refused the change
+export class RepositoryUnavailableError extends Error {
+  constructor(message: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = 'RepositoryUnavailableError';
+  }
+}
+
+// Synchronous backends (localStorage, memory) return plain values, asynchronous ones promises
+export interface ITodoRepository {
+  load(): Todo[] | Promise<Todo[]>;
+  apply(changes: TodoChange[]): void | Promise<void>;
+  // Drops the storage itself, for a deleted list; backends without it have each todo deleted
+  clear?(): void | Promise<void>;
+}
+
+// Builds the repository for one named todo list
+export type TodoRepositoryFactory = (listId: string) => ITodoRepository;
+
+// Storage name for a list's todos; the default list keeps the name used before lists existed
+export const todoListStorageName = (base: string, listId: string): string =>
+  listId === DEFAULT_TODO_LIST_ID ? base : `${base}:list:${listId}`;
+
+export const isPromiseLike = <T,>(value: T | Promise<T>): value is Promise<T> =>
+  typeof (value as Promise<T> | undefined)?.then === 'function';
+
+// Shape of a todo once it has been through JSON (dates become ISO strings)
+export type SerializedTodo = Omit<Todo, 'createdAt' | 'updatedAt' | 'completedAt' | 'dueDate' | 'completions'> & {
+  createdAt: string;
+  updatedAt?: string;
+  completedAt?: string;
+  dueDate?: string;
+  completions?: { completedAt: string; dueDate?: string }[];
+};
+
+export const serializeTodo = ({ updatedAt, completedAt, dueDate, completions, ...todo }: Todo): SerializedTodo => ({
+  ...todo,
+  createdAt: todo.createdAt.toISOString(),
+  ...(updatedAt ? { updatedAt: updatedAt.toISOString() } : {}),
+  ...(completedAt ? { completedAt: completedAt.toISOString() } : {}),
+  ...(dueDate ? { dueDate: dueDate.toISOString() } : {}),
+  ...(completions ? {
+    completions: completions.map(completion => ({
+      completedAt: completion.completedAt.toISOString(),
+      ...(completion.dueDate ? { dueDate: completion.dueDate.toISOString() } : {}),
+    }))
+  } : {}),
+});
+
+export const deserializeTodo = ({ updatedAt, completedAt, dueDate, completions, ...todo }: SerializedTodo): Todo => ({
+  ...todo,
+  createdAt: new Date(todo.createdAt),
+  ...(updatedAt ? { updatedAt: new Date(updatedAt) } : {}),
+  ...(completedAt ? { completedAt: new Date(completedAt) } : {}),
+  ...(dueDate ? { dueDate: new Date(dueDate) } : {}),
+  ...(completions ? {
+    completions: completions.map(completion => ({
+      completedAt: new Date(completion.completedAt),
+      ...(completion.dueDate ? { dueDate: new Date(completion.dueDate) } : {}),
+    }))
+  } : {}),
+});
+
+// Works out which todos were created, updated or deleted between two snapshots
+export const diffTodos = (previous: Todo[], next: Todo[]): TodoChange[] => {
+  const previousById = new Map(previous.map(todo => [todo.id, todo]));
+  const nextIds = new Set(next.map(todo => todo.id));
+  const changes: TodoChange[] = [];
+
+  next.forEach(todo => {
+    const before = previousById.get(todo.id);
+    if (!before) {
+      changes.push({ type: 'create', todo });
+    } else if (before !== todo) {
+      changes.push({ type: 'update', todo });
+    }
+  });
+
+  previous.forEach(todo => {
+    if (!nextIds.has(todo.id)) {
+      changes.push(todo.version === undefined
+        ? { type: 'delete', id: todo.id }
+        : { type: 'delete', id: todo.id, version: todo.version });
+    }
+  });
+
+  return changes;
+};
+
+export const applyTodoChanges = (todos: Todo[], changes: TodoChange[]): Todo[] => {
+  return changes.reduce((result, change) => {
+    switch (change.type) {
+      case 'create':
+        return [...result.filter(todo => todo.id !== change.todo.id), change.todo];
+      case 'update':
+        return result.map(todo => todo.id === change.todo.id ? change.todo : todo);
+      case 'delete':
+        return result.filter(todo => todo.id !== change.id);
+    }
+  }, todos);
+};
+
+// Undoes changes that the backend rejected, leaving unrelated edits made since then alone
+export const revertTodoChanges = (current: Todo[], previous: Todo[], changes: TodoChange[]): Todo[] => {
+  return changes.reduce((result, change) => {
+    switch (change.type) {
+      case 'create':
+        return result.filter(todo => todo.id !== change.todo.id);
+      case 'update': {
+        const before = previous.find(todo => todo.id === change.todo.id);
+        return before ? result.map(todo => todo.id === before.id ? before : todo) : result;
+      }
+      case 'delete': {
+        const index = previous.findIndex(todo => todo.id === change.id);
+        if (index === -1 || result.some(todo => todo.id === change.id)) {
+          return result;
+        }
+        return [...result.slice(0, index), previous[index], ...result.slice(index)];
+      }
+    }
+  }, current);
+};
\ No newline at end of file
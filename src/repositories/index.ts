@@ -0,0 +1,5 @@
+export * from './TodoRepository';
+export * from './InMemoryTodoRepository';
+export * from './LocalStorageTodoRepository';
+export * from './IndexedDBTodoRepository';
+export * from './RestTodoRepository';
\ No newline at end of file
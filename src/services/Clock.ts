@@ -0,0 +1,29 @@
+import { injectable } from 'inversify';
+
+export interface IClock {
+  now(): Date;
+}
+
+@injectable()
+export class SystemClock implements IClock {
+  now(): Date {
+    return new Date();
+  }
+}
+
+// Stands still until it is moved, so tests can freeze "now"
+export class FixedClock implements IClock {
+  constructor(private current: Date) {}
+
+  now(): Date {
+    return new Date(this.current.getTime());
+  }
+
+  set(date: Date): void {
+    this.current = date;
+  }
+
+  advance(milliseconds: number): void {
+    this.current = new Date(this.current.getTime() + milliseconds);
+  }
+}
\ No newline at end of file
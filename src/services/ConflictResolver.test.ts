@@ -0,0 +1,64 @@
+import { LastWriteWinsConflictResolver, ServerWinsConflictResolver, TodoConflict } from './ConflictResolver';
+import { Todo } from '../types';
+
+describe('Conflict resolvers', () => {
+  const serverTodo: Todo = {
+    id: '1',
+    text: 'Server copy',
+    completed: false,
+    createdAt: new Date('2024-06-01T08:00:00.000Z'),
+    updatedAt: new Date('2024-06-01T12:00:00.000Z'),
+    version: 2,
+  };
+  const localTodo: Todo = { ...serverTodo, text: 'Local copy' };
+
+  const conflictAt = (changedAt: string, server: Todo | null = serverTodo): TodoConflict => ({
+    change: { type: 'update', todo: localTodo },
+    changedAt: new Date(changedAt),
+    serverTodo: server ?? undefined,
+  });
+
+  describe('LastWriteWinsConflictResolver', () => {
+    const resolver = new LastWriteWinsConflictResolver();
+
+    it('keeps the local change when it is newer', async () => {
+      await expect(resolver.resolve(conflictAt('2024-06-01T13:00:00.000Z'))).resolves.toBe('local');
+    });
+
+    it('keeps the server copy when it is newer', async () => {
+      await expect(resolver.resolve(conflictAt('2024-06-01T11:00:00.000Z'))).resolves.toBe('server');
+    });
+
+    it('falls back to createdAt for server todos without updatedAt', async () => {
+      const legacyServerTodo = { ...serverTodo, updatedAt: undefined };
+      await expect(resolver.resolve(conflictAt('2024-06-01T07:00:00.000Z', legacyServerTodo))).resolves.toBe('server');
+    });
+
+    it('keeps the local change when the server has deleted the todo', async () => {
+      await expect(resolver.resolve(conflictAt('2024-06-01T07:00:00.000Z', null))).resolves.toBe('local');
+    });
+  });
+
+  describe('ServerWinsConflictResolver', () => {
+    it('keeps the server copy unless the prompt says otherwise', async () => {
+      const prompt = jest.fn().mockResolvedValue(false);
+      const conflict = conflictAt('2024-06-01T13:00:00.000Z');
+
+      await expect(new ServerWinsConflictResolver(prompt).resolve(conflict)).resolves.toBe('server');
+      expect(prompt).toHaveBeenCalledWith(conflict);
+    });
+
+    it('keeps the local change when the user confirms it', async () => {
+      const resolver = new ServerWinsConflictResolver(async () => true);
+      await expect(resolver.resolve(conflictAt('2024-06-01T11:00:00.000Z'))).resolves.toBe('local');
+    });
+
+    it('asks through window.confirm by default', async () => {
+      const confirm = jest.spyOn(window, 'confirm').mockReturnValue(true);
+
+      await expect(new ServerWinsConflictResolver().resolve(conflictAt('2024-06-01T11:00:00.000Z'))).resolves.toBe('local');
+      expect(confirm).toHaveBeenCalledWith(expect.stringContaining('Local copy'));
+      confirm.mockRestore();
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { injectable } from 'inversify';
+import type { Todo } from '../types';
+import type { TodoChange } from '../repositories/TodoRepository';
+
+export type ConflictPolicy = 'last-write-wins' | 'server-wins';
+
+export interface TodoConflict {
+  // The queued local change and when it was made
+  change: TodoChange;
+  changedAt: Date;
+  // What the server holds now, or undefined if it has been deleted there
+  serverTodo?: Todo;
+}
+
+export type ConflictResolution = 'local' | 'server';
+
+export interface IConflictResolver {
+  resolve(conflict: TodoConflict): Promise<ConflictResolution>;
+}
+
+export type ConflictPrompt = (conflict: TodoConflict) => Promise<boolean>;
+
+const describeChange = (change: TodoChange): string =>
+  change.type === 'delete' ? 'your deletion' : `your edit "${change.todo.text}"`;
+
+// Asks in a browser dialog whether to keep the local change instead of the server copy
+export const confirmConflictPrompt: ConflictPrompt = async (conflict) => {
+  const serverSide = conflict.serverTodo
+    ? `the server version "${conflict.serverTodo.text}"`
+    : 'its deletion on the server';
+  return window.confirm(
+    `This todo was changed elsewhere while you were offline.\n\n` +
+    `OK keeps ${describeChange(conflict.change)}, Cancel keeps ${serverSide}.`
+  );
+};
+
+// The most recent edit wins, whichever side it was made on
+@injectable()
+export class LastWriteWinsConflictResolver implements IConflictResolver {
+  async resolve(conflict: TodoConflict): Promise<ConflictResolution> {
+    const serverChangedAt = conflict.serverTodo?.updatedAt ?? conflict.serverTodo?.createdAt;
+    if (!serverChangedAt) {
+      return 'local';
+    }
+    return conflict.changedAt.getTime() >= serverChangedAt.getTime() ? 'local' : 'server';
+  }
+}
+
+// The server copy wins unless the user explicitly chooses to keep their change
+@injectable()
+export class ServerWinsConflictResolver implements IConflictResolver {
+  constructor(private prompt: ConflictPrompt = confirmConflictPrompt) {}
+
+  async resolve(conflict: TodoConflict): Promise<ConflictResolution> {
+    const keepLocal = await this.prompt(conflict);
+    return keepLocal ? 'local' : 'server';
+  }
+}
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { FixedClock } from './Clock';
+import { SequentialIdGenerator, UlidIdGenerator, UuidIdGenerator } from './IdGenerator';
+
+describe('Id generators', () => {
+  describe('UuidIdGenerator', () => {
+    const generator = new UuidIdGenerator();
+
+    it('generates version 4 UUIDs', () => {
+      expect(generator.generate()).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    });
+
+    it('does not repeat itself', () => {
+      const ids = Array.from({ length: 1000 }, () => generator.generate());
+
+      expect(new Set(ids).size).toBe(1000);
+    });
+  });
+
+  describe('UlidIdGenerator', () => {
+    const ULID = /^[0-9A-HJKMNP-TV-Z]{26}$/;
+
+    it('encodes the clock time in the first ten characters', () => {
+      const generator = new UlidIdGenerator(new FixedClock(new Date(1469918176385)));
+
+      const id = generator.generate();
+      expect(id).toMatch(ULID);
+      // Example timestamp from the ULID spec
+      expect(id.slice(0, 10)).toBe('01ARYZ6S41');
+    });
+
+    it('sorts ids by creation time, including within one millisecond', () => {
+      const clock = new FixedClock(new Date('2024-01-15T09:00:00.000Z'));
+      const generator = new UlidIdGenerator(clock);
+
+      const ids = Array.from({ length: 50 }, (_, index) => {
+        if (index % 10 === 0) {
+          clock.advance(1);
+        }
+        return generator.generate();
+      });
+
+      expect(new Set(ids).size).toBe(ids.length);
+      expect([...ids].sort()).toEqual(ids);
+    });
+  });
+
+  describe('SequentialIdGenerator', () => {
+    it('counts up from the start value', () => {
+      const generator = new SequentialIdGenerator();
+
+      expect([generator.generate(), generator.generate()]).toEqual(['todo-1', 'todo-2']);
+    });
+
+    it('accepts a prefix and start value', () => {
+      expect(new SequentialIdGenerator('task:', 10).generate()).toBe('task:10');
+    });
+  });
+});
\ No newline at end of file
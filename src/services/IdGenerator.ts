@@ -0,0 +1,83 @@
+import { injectable, inject, optional } from 'inversify';
+import { TYPES } from '../container/types';
+import type { IClock } from './Clock';
+import { SystemClock } from './Clock';
+
+export interface IIdGenerator {
+  generate(): string;
+}
+
+// getRandomValues works everywhere crypto does; randomUUID needs a secure context
+const randomBytes = (length: number): Uint8Array => crypto.getRandomValues(new Uint8Array(length));
+
+// Random (version 4) UUIDs, e.g. "1b4e28ba-2fa1-4d2e-8c1a-3f1e0a4b5c6d"
+@injectable()
+export class UuidIdGenerator implements IIdGenerator {
+  generate(): string {
+    const bytes = randomBytes(16);
+    bytes[6] = (bytes[6] & 0x0f) | 0x40;
+    bytes[8] = (bytes[8] & 0x3f) | 0x80;
+
+    const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+  }
+}
+
+const CROCKFORD_BASE32 = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const ULID_TIME_LENGTH = 10;
+const ULID_RANDOM_LENGTH = 16;
+
+// ULIDs (https://github.com/ulid/spec): 48 bits of milliseconds then 80 random
+// bits, so ids sort by creation time. Ids made in the same millisecond increment
+// the random part to keep that order.
+@injectable()
+export class UlidIdGenerator implements IIdGenerator {
+  private lastTime = -1;
+  private lastRandom: number[] = [];
+
+  constructor(@inject(TYPES.Clock) @optional() private clock: IClock = new SystemClock()) {}
+
+  generate(): string {
+    const time = this.clock.now().getTime();
+
+    if (time === this.lastTime) {
+      this.incrementRandom();
+    } else {
+      this.lastTime = time;
+      // 256 is a multiple of 32, so masking keeps every digit uniform
+      this.lastRandom = Array.from(randomBytes(ULID_RANDOM_LENGTH), byte => byte & 31);
+    }
+
+    let encodedTime = '';
+    let remaining = time;
+    for (let i = 0; i < ULID_TIME_LENGTH; i++) {
+      encodedTime = CROCKFORD_BASE32[remaining % 32] + encodedTime;
+      remaining = Math.floor(remaining / 32);
+    }
+    return encodedTime + this.lastRandom.map(digit => CROCKFORD_BASE32[digit]).join('');
+  }
+
+  private incrementRandom() {
+    for (let i = this.lastRandom.length - 1; i >= 0; i--) {
+      if (this.lastRandom[i] < 31) {
+        this.lastRandom[i]++;
+        return;
+      }
+      this.lastRandom[i] = 0;
+    }
+    throw new Error('ULID random component overflowed within one millisecond');
+  }
+}
+
+// Predictable ids ("todo-1", "todo-2", ...) for tests
+export class SequentialIdGenerator implements IIdGenerator {
+  private nextId: number;
+
+  constructor(private prefix = 'todo-', start = 1) {
+    this.nextId = start;
+  }
+
+  generate(): string {
+    return `${this.prefix}${this.nextId++}`;
+  }
+}
\ No newline at end of file
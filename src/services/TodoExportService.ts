@@ -0,0 +1,47 @@
+import { injectable } from 'inversify';
+import type { Todo } from '../types';
+import type { ITodoFormat, TodoImportResult } from '../formats/TodoFormat';
+import { JsonTodoFormat } from '../formats/JsonTodoFormat';
+import { CsvTodoFormat } from '../formats/CsvTodoFormat';
+import { MarkdownTodoFormat } from '../formats/MarkdownTodoFormat';
+import { TodoTxtFormat } from '../formats/TodoTxtFormat';
+import { IcsTodoFormat } from '../formats/IcsTodoFormat';
+
+export const DEFAULT_TODO_FORMATS: ITodoFormat[] = [
+  new JsonTodoFormat(),
+  new CsvTodoFormat(),
+  new MarkdownTodoFormat(),
+  new TodoTxtFormat(),
+  new IcsTodoFormat(),
+];
+
+export interface ITodoExportService {
+  getFormats(): ITodoFormat[];
+  exportTodos(todos: Todo[], formatId: string): string;
+  importTodos(input: string, formatId: string): TodoImportResult;
+}
+
+@injectable()
+export class TodoExportService implements ITodoExportService {
+  constructor(private formats: ITodoFormat[] = DEFAULT_TODO_FORMATS) {}
+
+  getFormats(): ITodoFormat[] {
+    return this.formats;
+  }
+
+  exportTodos(todos: Todo[], formatId: string): string {
+    return this.getFormat(formatId).serialize(todos);
+  }
+
+  importTodos(input: string, formatId: string): TodoImportResult {
+    return this.getFormat(formatId).parse(input);
+  }
+
+  private getFormat(formatId: string): ITodoFormat {
+    const format = this.formats.find(candidate => candidate.id === formatId);
+    if (!format) {
+      throw new Error(`Unknown todo format: ${formatId}`);
+    }
+    return format;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,353 @@
+import { act } from '@testing-library/react';
+import { TodoOutbox, OUTBOX_STORAGE_KEY } from './TodoOutbox';
+import { IConflictResolver, LastWriteWinsConflictResolver, ServerWinsConflictResolver } from './ConflictResolver';
+import { InMemoryTodoRepository } from '../repositories/InMemoryTodoRepository';
+import { ITodoRepository, RepositoryUnavailableError, TodoChange } from '../repositories/TodoRepository';
+import { MockLoggingService } from '../test-utils/MockLoggingService';
+import { createTodoStore } from '../stores/todoStore';
+import { Todo } from '../types';
+
+// An in-memory "server" that can be switched off to simulate losing connectivity
+class FlakyRemoteRepository implements ITodoRepository {
+  public online = true;
+  public appliedChanges: TodoChange[] = [];
+  public server: InMemoryTodoRepository;
+
+  constructor(todos: Todo[]) {
+    this.server = new InMemoryTodoRepository(todos);
+  }
+
+  async load(): Promise<Todo[]> {
+    this.assertReachable();
+    return this.server.load();
+  }
+
+  async apply(changes: TodoChange[]): Promise<void> {
+    this.assertReachable();
+    this.appliedChanges.push(...changes);
+    this.server.apply(changes);
+  }
+
+  private assertReachable() {
+    if (!this.online) {
+      throw new RepositoryUnavailableError('Server unreachable');
+    }
+  }
+}
+
+describe('TodoOutbox', () => {
+  const at = (iso: string) => new Date(iso);
+  const serverTodo: Todo = {
+    id: 'todo-1',
+    text: 'Original',
+    completed: false,
+    createdAt: at('2024-06-01T10:00:00.000Z'),
+    updatedAt: at('2024-06-01T10:00:00.000Z'),
+    version: 1,
+  };
+
+  let remote: FlakyRemoteRepository;
+  let mockLoggingService: MockLoggingService;
+  let outboxes: TodoOutbox[];
+
+  const createOutbox = (resolver: IConflictResolver = new LastWriteWinsConflictResolver()) => {
+    const outbox = new TodoOutbox(remote, resolver, mockLoggingService, localStorage);
+    outboxes.push(outbox);
+    return outbox;
+  };
+
+  const edit = (todo: Todo, patch: Partial<Todo>, updatedAt: string): Todo => ({
+    ...todo,
+    ...patch,
+    version: (todo.version ?? 0) + 1,
+    updatedAt: at(updatedAt),
+  });
+
+  beforeEach(() => {
+    localStorage.clear();
+    remote = new FlakyRemoteRepository([serverTodo]);
+    mockLoggingService = new MockLoggingService();
+    outboxes = [];
+  });
+
+  afterEach(() => {
+    outboxes.forEach(outbox => outbox.dispose());
+    localStorage.clear();
+  });
+
+  describe('Delivery and queueing', () => {
+    it('forgets queued changes, and where it kept them, when cleared', async () => {
+      remote.online = false;
+      const outbox = createOutbox();
+      await outbox.submit([{ type: 'delete', id: 'todo-1', version: 1 }]);
+
+      outbox.clear();
+      remote.online = true;
+      await outbox.replay();
+
+      expect(outbox.getPendingChanges()).toEqual([]);
+      expect(localStorage.getItem(OUTBOX_STORAGE_KEY)).toBeNull();
+      expect(remote.appliedChanges).toEqual([]);
+    });
+
+    it('sends changes straight to the remote while it is reachable', async () => {
+      const outbox = createOutbox();
+      const change: TodoChange = { type: 'update', todo: edit(serverTodo, { completed: true }, '2024-06-02T10:00:00.000Z') };
+
+      await outbox.submit([change]);
+
+      expect(remote.appliedChanges).toEqual([change]);
+      expect(outbox.getPendingChanges()).toEqual([]);
+    });
+
+    it('queues changes durably when the remote is unreachable', async () => {
+      remote.online = false;
+      const outbox = createOutbox();
+      const change: TodoChange = { type: 'update', todo: edit(serverTodo, { text: 'Offline edit' }, '2024-06-02T10:00:00.000Z') };
+
+      await outbox.submit([change]);
+
+      expect(outbox.getPendingChanges()).toEqual([change]);
+      expect(JSON.parse(localStorage.getItem(OUTBOX_STORAGE_KEY)!)).toHaveLength(1);
+      expect(createOutbox().getPendingChanges()).toEqual([change]);
+      expect(mockLoggingService.getLastInfoLog()).toEqual({
+        message: 'Todo changes queued for sync',
+        data: { count: 1, pending: 1 }
+      });
+    });
+
+    it('queues without trying the network while the browser is offline', async () => {
+      const onLine = jest.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+      const outbox = createOutbox();
+
+      await outbox.submit([{ type: 'delete', id: 'todo-1', version: 1 }]);
+
+      expect(remote.appliedChanges).toEqual([]);
+      expect(outbox.getPendingChanges()).toHaveLength(1);
+      onLine.mockRestore();
+    });
+
+    it('rethrows changes the server refused so the store can roll them back', async () => {
+      const outbox = createOutbox();
+      jest.spyOn(remote, 'apply').mockRejectedValue(new Error('PUT /todos/todo-1 failed with status 400'));
+
+      await expect(outbox.submit([{ type: 'delete', id: 'todo-1' }])).rejects.toThrow('status 400');
+      expect(outbox.getPendingChanges()).toEqual([]);
+    });
+
+    it('replays queued changes in order when connectivity returns', async () => {
+      remote.online = false;
+      const outbox = createOutbox();
+      const renamed = edit(serverTodo, { text: 'Renamed' }, '2024-06-02T10:00:00.000Z');
+      const completed = edit(renamed, { completed: true }, '2024-06-02T10:05:00.000Z');
+      const created: Todo = { id: 'todo-2', text: 'New', completed: false, createdAt: at('2024-06-02T10:06:00.000Z'), version: 1 };
+
+      await outbox.submit([{ type: 'update', todo: renamed }]);
+      await outbox.submit([{ type: 'update', todo: completed }]);
+      await outbox.submit([{ type: 'create', todo: created }]);
+
+      remote.online = true;
+      window.dispatchEvent(new Event('online'));
+      await outbox.replay();
+
+      expect(remote.appliedChanges.map(change => change.type)).toEqual(['update', 'update', 'create']);
+      expect(remote.server.load()).toEqual([completed, created]);
+      expect(outbox.getPendingChanges()).toEqual([]);
+      expect(mockLoggingService.getLastInfoLog()).toEqual({
+        message: 'Queued todo changes replayed',
+        data: { count: 3 }
+      });
+    });
+
+    it('keeps later changes behind queued ones even once back online', async () => {
+      remote.online = false;
+      const outbox = createOutbox();
+      await outbox.submit([{ type: 'update', todo: edit(serverTodo, { text: 'First' }, '2024-06-02T10:00:00.000Z') }]);
+
+      remote.online = true;
+      await outbox.submit([{ type: 'delete', id: 'todo-1', version: 2 }]);
+      await outbox.replay();
+
+      expect(remote.appliedChanges.map(change => change.type)).toEqual(['update', 'delete']);
+    });
+
+    it('keeps the queue when the remote is still unreachable during replay', async () => {
+      remote.online = false;
+      const outbox = createOutbox();
+      await outbox.submit([{ type: 'delete', id: 'todo-1', version: 1 }]);
+
+      await outbox.replay();
+
+      expect(outbox.getPendingChanges()).toHaveLength(1);
+      expect(mockLoggingService.getLastWarnLog().message).toBe('Server still unreachable, keeping queued todo changes');
+    });
+  });
+
+  describe('Conflict resolution', () => {
+    const queueOfflineEdit = async (outbox: TodoOutbox, text: string, updatedAt: string) => {
+      remote.online = false;
+      const localEdit = edit(serverTodo, { text }, updatedAt);
+      await outbox.submit([{ type: 'update', todo: localEdit }]);
+      remote.online = true;
+      return localEdit;
+    };
+
+    const editOnServer = (text: string, updatedAt: string) => {
+      remote.server.apply([{ type: 'update', todo: edit(serverTodo, { text }, updatedAt) }]);
+    };
+
+    it('detects a conflict when the server version moved on and keeps the newer local edit', async () => {
+      const outbox = createOutbox();
+      const listener = jest.fn();
+      outbox.subscribe(listener);
+      await queueOfflineEdit(outbox, 'Local edit', '2024-06-03T12:00:00.000Z');
+      editOnServer('Server edit', '2024-06-03T09:00:00.000Z');
+
+      await outbox.replay();
+
+      const [stored] = remote.server.load();
+      expect(stored).toMatchObject({ text: 'Local edit', version: 3 });
+      expect(listener).toHaveBeenCalledWith([{ type: 'update', todo: stored }]);
+      expect(mockLoggingService.infoLogs).toContainEqual({
+        message: 'Todo sync conflict resolved',
+        data: { id: 'todo-1', resolution: 'local' }
+      });
+    });
+
+    it('keeps the server copy when it was written last', async () => {
+      const outbox = createOutbox();
+      const listener = jest.fn();
+      outbox.subscribe(listener);
+      await queueOfflineEdit(outbox, 'Local edit', '2024-06-03T09:00:00.000Z');
+      editOnServer('Server edit', '2024-06-03T12:00:00.000Z');
+
+      await outbox.replay();
+
+      const [stored] = remote.server.load();
+      expect(stored.text).toBe('Server edit');
+      expect(remote.appliedChanges).toEqual([]);
+      expect(listener).toHaveBeenCalledWith([{ type: 'update', todo: stored }]);
+    });
+
+    it('asks the user under the server-wins policy and respects a cancel', async () => {
+      const prompt = jest.fn().mockResolvedValue(false);
+      const outbox = createOutbox(new ServerWinsConflictResolver(prompt));
+      await queueOfflineEdit(outbox, 'Local edit', '2024-06-03T12:00:00.000Z');
+      editOnServer('Server edit', '2024-06-03T09:00:00.000Z');
+
+      await outbox.replay();
+
+      expect(prompt).toHaveBeenCalledWith(expect.objectContaining({
+        change: expect.objectContaining({ type: 'update' }),
+        serverTodo: expect.objectContaining({ text: 'Server edit' }),
+      }));
+      expect((remote.server.load())[0].text).toBe('Server edit');
+    });
+
+    it('lets the user keep their change under the server-wins policy', async () => {
+      const outbox = createOutbox(new ServerWinsConflictResolver(async () => true));
+      await queueOfflineEdit(outbox, 'Local edit', '2024-06-03T09:00:00.000Z');
+      editOnServer('Server edit', '2024-06-03T12:00:00.000Z');
+
+      await outbox.replay();
+
+      expect((remote.server.load())[0].text).toBe('Local edit');
+    });
+
+    it('restores a todo deleted offline that was edited on the server meanwhile', async () => {
+      const outbox = createOutbox(new ServerWinsConflictResolver(async () => false));
+      const listener = jest.fn();
+      outbox.subscribe(listener);
+      remote.online = false;
+      await outbox.submit([{ type: 'delete', id: 'todo-1', version: 1 }]);
+      remote.online = true;
+      editOnServer('Server edit', '2024-06-03T12:00:00.000Z');
+
+      await outbox.replay();
+
+      expect(listener).toHaveBeenCalledWith([
+        { type: 'create', todo: expect.objectContaining({ text: 'Server edit' }) }
+      ]);
+      expect(remote.server.load()).toHaveLength(1);
+    });
+
+    it('drops a queued delete for a todo the server no longer has', async () => {
+      const outbox = createOutbox();
+      remote.online = false;
+      await outbox.submit([{ type: 'delete', id: 'todo-1', version: 1 }]);
+      remote.online = true;
+      remote.server.apply([{ type: 'delete', id: 'todo-1' }]);
+
+      await outbox.replay();
+
+      expect(remote.appliedChanges).toEqual([]);
+      expect(outbox.getPendingChanges()).toEqual([]);
+    });
+  });
+
+  describe('With the todo store', () => {
+    it('keeps offline changes in the store instead of rolling them back', async () => {
+      remote.online = false;
+      const outbox = createOutbox();
+      const todoStore = createTodoStore(mockLoggingService, remote, outbox);
+
+      await act(async () => {
+        todoStore.getState().addTodo('Written on the train');
+        await Promise.resolve();
+      });
+
+      expect(todoStore.getState().todos.map(todo => todo.text)).toEqual(['Written on the train']);
+      expect(outbox.getPendingChanges()).toHaveLength(1);
+      expect(mockLoggingService.errorLogs).toHaveLength(0);
+    });
+
+    it('replaces the local copy when a conflict is settled in the server\'s favour', async () => {
+      const outbox = createOutbox(new ServerWinsConflictResolver(async () => false));
+      const todoStore = createTodoStore(mockLoggingService, remote, outbox);
+      await act(async () => {
+        todoStore.getState().loadTodos();
+        await Promise.resolve();
+      });
+
+      remote.online = false;
+      await act(async () => {
+        todoStore.getState().toggleTodo('todo-1');
+        await Promise.resolve();
+      });
+      remote.online = true;
+      remote.server.apply([{ type: 'update', todo: edit(serverTodo, { text: 'Renamed on the server' }, '2024-06-03T12:00:00.000Z') }]);
+
+      await act(async () => {
+        await outbox.replay();
+      });
+
+      expect(todoStore.getState().todos[0]).toMatchObject({ text: 'Renamed on the server', completed: false });
+    });
+
+    it('sends an undone edit as a newer version rather than a conflicting one', async () => {
+      const outbox = createOutbox();
+      const todoStore = createTodoStore(mockLoggingService, remote, outbox);
+      await act(async () => {
+        todoStore.getState().loadTodos();
+        await Promise.resolve();
+      });
+
+      remote.online = false;
+      await act(async () => {
+        todoStore.getState().updateTodo('todo-1', { text: 'Renamed' });
+        todoStore.getState().undo();
+        await Promise.resolve();
+      });
+      expect(outbox.getPendingChanges().map(change => 'todo' in change && change.todo.version)).toEqual([2, 3]);
+
+      remote.online = true;
+      await act(async () => {
+        await outbox.replay();
+      });
+
+      expect(mockLoggingService.infoLogs).not.toContainEqual(expect.objectContaining({ message: 'Todo sync conflict resolved' }));
+      expect(remote.server.load()).toEqual([expect.objectContaining({ text: 'Original', version: 3 })]);
+      expect(todoStore.getState().todos[0]).toMatchObject({ text: 'Original', version: 3 });
+    });
+  });
+});
\ No newline at end of file
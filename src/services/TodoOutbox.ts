@@ -0,0 +1,267 @@
+import { injectable, inject } from 'inversify';
+import type { Todo } from '../types';
+import type { ILoggingService } from './LoggingService';
+import type { IConflictResolver } from './ConflictResolver';
+import type { ITodoRepository, SerializedTodo, TodoChange } from '../repositories/TodoRepository';
+import { RepositoryUnavailableError, deserializeTodo, serializeTodo } from '../repositories/TodoRepository';
+import { TYPES } from '../container/types';
+
+export const OUTBOX_STORAGE_KEY = 'inversify-zustand-todo:outbox';
+
+type SerializedTodoChange =
+  | { type: 'create' | 'update'; todo: SerializedTodo }
+  | { type: 'delete'; id: string; version?: number };
+
+export interface OutboxEntry {
+  change: SerializedTodoChange;
+  queuedAt: string;
+}
+
+export type RemoteChangeListener = (changes: TodoChange[]) => void;
+
+export interface ITodoOutbox {
+  // Resolves once the changes are delivered or safely queued; rejects only
+  // when the backend answered and refused them
+  submit(changes: TodoChange[]): Promise<void>;
+  replay(): Promise<void>;
+  getPendingChanges(): TodoChange[];
+  // Notifies about server-side state that has to replace local todos
+  subscribe(listener: RemoteChangeListener): () => void;
+  // Forgets every queued change, and where they were kept, for a deleted list
+  clear(): void;
+}
+
+const serializeChange = (change: TodoChange): SerializedTodoChange =>
+  change.type === 'delete' ? change : { type: change.type, todo: serializeTodo(change.todo) };
+
+const deserializeChange = (change: SerializedTodoChange): TodoChange =>
+  change.type === 'delete' ? change : { type: change.type, todo: deserializeTodo(change.todo) };
+
+const changedTodoId = (change: TodoChange): string =>
+  change.type === 'delete' ? change.id : change.todo.id;
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+@injectable()
+export class TodoOutbox implements ITodoOutbox {
+  private entries: OutboxEntry[];
+  private listeners = new Set<RemoteChangeListener>();
+  private replaying: Promise<void> | null = null;
+  private cleared = false;
+
+  constructor(
+    @inject(TYPES.TodoRepository) private remote: ITodoRepository,
+    @inject(TYPES.ConflictResolver) private conflictResolver: IConflictResolver,
+    @inject(TYPES.LoggingService) private loggingService: ILoggingService,
+    private storage: Storage = window.localStorage,
+    private key: string = OUTBOX_STORAGE_KEY
+  ) {
+    this.entries = this.read();
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleOnline);
+    }
+
+    // Changes queued in an earlier session go out as soon as we can reach the server
+    if (this.entries.length > 0 && isOnline()) {
+      Promise.resolve().then(() => this.replay());
+    }
+  }
+
+  async submit(changes: TodoChange[]): Promise<void> {
+    // Anything queued has to reach the server first, so later changes wait behind it
+    if (this.entries.length > 0 || !isOnline()) {
+      this.enqueue(changes);
+      if (isOnline()) {
+        void this.replay();
+      }
+      return;
+    }
+
+    try {
+      await this.remote.apply(changes);
+    } catch (error) {
+      if (!(error instanceof RepositoryUnavailableError)) {
+        throw error;
+      }
+      this.enqueue(changes);
+    }
+  }
+
+  replay(): Promise<void> {
+    if (!this.replaying) {
+      this.replaying = this.replayQueued().finally(() => {
+        this.replaying = null;
+      });
+    }
+    return this.replaying;
+  }
+
+  getPendingChanges(): TodoChange[] {
+    return this.entries.map(entry => deserializeChange(entry.change));
+  }
+
+  subscribe(listener: RemoteChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  clear() {
+    this.cleared = true;
+    this.entries = [];
+    this.storage.removeItem(this.key);
+    this.dispose();
+  }
+
+  dispose() {
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline);
+    }
+    this.listeners.clear();
+  }
+
+  private handleOnline = () => {
+    void this.replay();
+  };
+
+  private async replayQueued(): Promise<void> {
+    if (this.entries.length === 0) {
+      return;
+    }
+
+    let serverTodos: Map<string, Todo>;
+    try {
+      serverTodos = new Map((await this.remote.load()).map(todo => [todo.id, todo]));
+    } catch (error) {
+      this.logReplayStopped(error);
+      return;
+    }
+
+    let replayed = 0;
+    while (this.entries.length > 0) {
+      const entry = this.entries[0];
+      const change = deserializeChange(entry.change);
+      // Edits carry their own timestamp; deletes only know when they were queued
+      const changedAt = (change.type !== 'delete' && change.todo.updatedAt) || new Date(entry.queuedAt);
+      const outgoing = await this.reconcile(change, changedAt, serverTodos);
+
+      if (outgoing) {
+        try {
+          await this.remote.apply([outgoing]);
+          if (outgoing.type === 'delete') {
+            serverTodos.delete(outgoing.id);
+          } else {
+            serverTodos.set(outgoing.todo.id, outgoing.todo);
+          }
+        } catch (error) {
+          if (error instanceof RepositoryUnavailableError) {
+            this.logReplayStopped(error);
+            return;
+          }
+          // A refused change would block the queue forever, so fall back to the server copy
+          this.loggingService.error('Queued todo change rejected by server', error as Error);
+          this.notify([this.serverStateChange(change, serverTodos.get(changedTodoId(change)))]);
+        }
+      }
+
+      this.entries.shift();
+      this.write();
+      replayed++;
+    }
+
+    this.loggingService.info('Queued todo changes replayed', { count: replayed });
+  }
+
+  // Returns the change to send, or null when the server copy should stand
+  private async reconcile(
+    change: TodoChange,
+    changedAt: Date,
+    serverTodos: Map<string, Todo>
+  ): Promise<TodoChange | null> {
+    const id = changedTodoId(change);
+    const serverTodo = serverTodos.get(id);
+
+    if (!this.isConflict(change, serverTodo)) {
+      return change.type === 'delete' && !serverTodo ? null : change;
+    }
+
+    const resolution = await this.conflictResolver.resolve({ change, changedAt, serverTodo });
+    this.loggingService.info('Todo sync conflict resolved', { id, resolution });
+
+    if (resolution === 'server') {
+      this.notify([this.serverStateChange(change, serverTodo)]);
+      return null;
+    }
+
+    if (change.type === 'delete') {
+      return serverTodo ? { type: 'delete', id } : null;
+    }
+
+    // Our copy replaces theirs, so it has to move past the server's version
+    const todo: Todo = { ...change.todo, version: (serverTodo?.version ?? 0) + 1 };
+    this.notify([{ type: 'update', todo }]);
+    return { type: serverTodo ? 'update' : 'create', todo };
+  }
+
+  private isConflict(change: TodoChange, serverTodo?: Todo): boolean {
+    switch (change.type) {
+      case 'create':
+        return serverTodo !== undefined;
+      case 'update':
+        // Each local edit bumps the version by one, so the server should hold the one before it
+        return !serverTodo || (serverTodo.version ?? 0) !== (change.todo.version ?? 1) - 1;
+      case 'delete':
+        return serverTodo !== undefined && serverTodo.version !== change.version;
+    }
+  }
+
+  private serverStateChange(change: TodoChange, serverTodo?: Todo): TodoChange {
+    if (!serverTodo) {
+      return { type: 'delete', id: changedTodoId(change) };
+    }
+    return { type: change.type === 'delete' ? 'create' : 'update', todo: serverTodo };
+  }
+
+  private enqueue(changes: TodoChange[]) {
+    const queuedAt = new Date().toISOString();
+    this.entries.push(...changes.map(change => ({ change: serializeChange(change), queuedAt })));
+    this.write();
+    this.loggingService.info('Todo changes queued for sync', {
+      count: changes.length,
+      pending: this.entries.length,
+    });
+  }
+
+  private logReplayStopped(error: unknown) {
+    if (error instanceof RepositoryUnavailableError) {
+      this.loggingService.warn('Server still unreachable, keeping queued todo changes', {
+        pending: this.entries.length,
+      });
+    } else {
+      this.loggingService.error('Failed to replay queued todo changes', error as Error);
+    }
+  }
+
+  private notify(changes: TodoChange[]) {
+    this.listeners.forEach(listener => listener(changes));
+  }
+
+  private read(): OutboxEntry[] {
+    try {
+      const raw = this.storage.getItem(this.key);
+      return raw ? JSON.parse(raw) : [];
+    } catch (error) {
+      this.loggingService.error('Failed to read queued todo changes', error as Error);
+      return [];
+    }
+  }
+
+  // A replay under way when the outbox was cleared must not write it back
+  private write() {
+    if (!this.cleared) {
+      this.storage.setItem(this.key, JSON.stringify(this.entries));
+    }
+  }
+}
\ No newline at end of file
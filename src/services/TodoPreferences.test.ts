@@ -0,0 +1,37 @@
+import { InMemoryTodoPreferences, LocalStorageTodoPreferences, PREFERENCES_STORAGE_KEY } from './TodoPreferences';
+
+describe('Todo preferences', () => {
+  describe('InMemoryTodoPreferences', () => {
+    it('returns what was set and undefined otherwise', () => {
+      const preferences = new InMemoryTodoPreferences();
+      preferences.set('sortOrder', 'priority');
+
+      expect(preferences.get('sortOrder')).toBe('priority');
+      expect(preferences.get('missing')).toBeUndefined();
+    });
+  });
+
+  describe('LocalStorageTodoPreferences', () => {
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it('keeps every preference under one key', () => {
+      const preferences = new LocalStorageTodoPreferences(localStorage);
+      preferences.set('sortOrder', 'dueDate');
+      preferences.set('other', 3);
+
+      expect(JSON.parse(localStorage.getItem(PREFERENCES_STORAGE_KEY)!)).toEqual({ sortOrder: 'dueDate', other: 3 });
+      expect(new LocalStorageTodoPreferences(localStorage).get('sortOrder')).toBe('dueDate');
+    });
+
+    it('falls back to defaults when the stored value is unreadable', () => {
+      localStorage.setItem(PREFERENCES_STORAGE_KEY, '{not json');
+      const preferences = new LocalStorageTodoPreferences(localStorage);
+
+      expect(preferences.get('sortOrder')).toBeUndefined();
+      preferences.set('sortOrder', 'priority');
+      expect(preferences.get('sortOrder')).toBe('priority');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { injectable } from 'inversify';
+
+export const PREFERENCES_STORAGE_KEY = 'inversify-zustand-todo:preferences';
+
+// View settings (such as the sort order) that should survive a reload. Values
+// are plain JSON; callers check what they read back, since it may be stale.
+export interface ITodoPreferences {
+  get(name: string): unknown;
+  set(name: string, value: unknown): void;
+}
+
+@injectable()
+export class InMemoryTodoPreferences implements ITodoPreferences {
+  private values = new Map<string, unknown>();
+
+  get(name: string): unknown {
+    return this.values.get(name);
+  }
+
+  set(name: string, value: unknown): void {
+    this.values.set(name, value);
+  }
+}
+
+@injectable()
+export class LocalStorageTodoPreferences implements ITodoPreferences {
+  constructor(
+    private storage: Storage = window.localStorage,
+    private key: string = PREFERENCES_STORAGE_KEY
+  ) {}
+
+  get(name: string): unknown {
+    return this.read()[name];
+  }
+
+  set(name: string, value: unknown): void {
+    this.storage.setItem(this.key, JSON.stringify({ ...this.read(), [name]: value }));
+  }
+
+  // Unreadable preferences are not worth failing over; they fall back to defaults
+  private read(): Record<string, unknown> {
+    try {
+      const stored = JSON.parse(this.storage.getItem(this.key) ?? '{}');
+      return typeof stored === 'object' && stored !== null && !Array.isArray(stored) ? stored : {};
+    } catch {
+      return {};
+    }
+  }
+}
\ No newline at end of file
@@ -1 +1,7 @@
-export * from './LoggingService';
\ No newline at end of file
+export * from './LoggingService';
+export * from './ConflictResolver';
+export * from './TodoOutbox';
+export * from './TodoExportService';
+export * from './Clock';
+export * from './IdGenerator';
+export * from './TodoPreferences';
\ No newline at end of file
@@ -9,6 +9,8 @@ import {
 import { MockLoggingService } from '../test-utils/MockLoggingService';
 import { LoggingService, ILoggingService } from '../services/LoggingService';
 import { TYPES } from '../container/types';
+import { FixedClock, IClock } from '../services/Clock';
+import { IIdGenerator, SequentialIdGenerator } from '../services/IdGenerator';
 
 describe('InversifyJS Decorator vs Manual DI Comparison', () => {
   let container: Container;
@@ -207,4 +209,32 @@ describe('InversifyJS Decorator vs Manual DI Comparison', () => {
       expect(Array.isArray(store.getState().todos)).toBe(true);
     });
   });
+
+  describe('Clock and id generator injection', () => {
+    const now = new Date('2024-01-15T09:00:00.000Z');
+
+    it('uses the bound clock and id generator in the decorated factory', () => {
+      container.bind<ILoggingService>(TYPES.LoggingService).toConstantValue(mockLoggingService);
+      container.bind<IClock>(TYPES.Clock).toConstantValue(new FixedClock(now));
+      container.bind<IIdGenerator>(TYPES.IdGenerator).toConstantValue(new SequentialIdGenerator());
+      container.bind(DecoratedTodoStoreFactory).toSelf();
+      const store = container.get(DecoratedTodoStoreFactory).getStore();
+
+      act(() => {
+        store.getState().addTodo('Deterministic');
+      });
+
+      expect(store.getState().todos[0]).toMatchObject({ id: 'todo-1', createdAt: now });
+    });
+
+    it('accepts a clock and id generator in the manual factory', () => {
+      const store = createTodoStoreWithManualDI(mockLoggingService, new FixedClock(now), new SequentialIdGenerator('manual-'));
+
+      act(() => {
+        store.getState().addTodo('Deterministic');
+      });
+
+      expect(store.getState().todos[0]).toMatchObject({ id: 'manual-1', createdAt: now });
+    });
+  });
 });
\ No newline at end of file
@@ -1,7 +1,11 @@
-import { injectable, inject } from 'inversify';
+import { injectable, inject, optional } from 'inversify';
 import { create, StoreApi, UseBoundStore } from 'zustand';
 import { Todo } from '../types';
 import type { ILoggingService } from '../services/LoggingService';
+import type { IClock } from '../services/Clock';
+import { SystemClock } from '../services/Clock';
+import type { IIdGenerator } from '../services/IdGenerator';
+import { UuidIdGenerator } from '../services/IdGenerator';
 import { TYPES } from '../container/types';
 
 export interface TodoState {
@@ -20,21 +24,21 @@ export class DecoratedTodoStoreFactory {
   private store: TodoStore;
 
   constructor(
-    @inject(TYPES.LoggingService) private loggingService: ILoggingService
+    @inject(TYPES.LoggingService) private loggingService: ILoggingService,
+    @inject(TYPES.Clock) @optional() private clock: IClock = new SystemClock(),
+    @inject(TYPES.IdGenerator) @optional() private idGenerator: IIdGenerator = new UuidIdGenerator()
   ) {
     // InversifyJS automatically injects ILoggingService here!
-    let idCounter = 1;
-    
     this.store = create<TodoState>((set) => ({
       todos: [],
       
       addTodo: (text: string) => {
         if (text.trim()) {
           const newTodo: Todo = {
-            id: (Date.now() + idCounter++).toString(),
+            id: this.idGenerator.generate(),
             text: text.trim(),
             completed: false,
-            createdAt: new Date(),
+            createdAt: this.clock.now(),
           };
           
           // Using the injected logging service
@@ -98,19 +102,21 @@ export class DecoratedTodoStoreFactory {
 }
 
 // Alternative: Factory function approach (what we currently use)
-export const createTodoStoreWithManualDI = (loggingService: ILoggingService): TodoStore => {
-  let idCounter = 1;
-  
+export const createTodoStoreWithManualDI = (
+  loggingService: ILoggingService,
+  clock: IClock = new SystemClock(),
+  idGenerator: IIdGenerator = new UuidIdGenerator()
+): TodoStore => {
   return create<TodoState>((set) => ({
     todos: [],
     
     addTodo: (text: string) => {
       if (text.trim()) {
         const newTodo: Todo = {
-          id: (Date.now() + idCounter++).toString(),
+          id: idGenerator.generate(),
           text: text.trim(),
           completed: false,
-          createdAt: new Date(),
+          createdAt: clock.now(),
         };
         
         // Using the manually passed logging service
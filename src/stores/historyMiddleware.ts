@@ -0,0 +1,90 @@
+import type { StateCreator } from 'zustand';
+
+export const DEFAULT_HISTORY_LIMIT = 100;
+
+export interface HistoryState {
+  canUndo: boolean;
+  canRedo: boolean;
+  undo: () => void;
+  redo: () => void;
+}
+
+export interface HistorySteps {
+  undo: number;
+  redo: number;
+}
+
+export interface HistoryOptions<T = unknown> {
+  // Most undo steps kept; older ones are dropped first. 0 turns history off.
+  limit?: number;
+  onUndo?: (steps: HistorySteps) => void;
+  onRedo?: (steps: HistorySteps) => void;
+  // What undo or redo puts back for a snapshot, given the value it replaces;
+  // the snapshot itself by default
+  restore?: (snapshot: T, current: T) => T;
+}
+
+type SetState<S> = Parameters<StateCreator<S>>[0];
+
+// Records a snapshot of state[key] whenever an action changes it, and adds
+// undo/redo actions that step between the snapshots. Only the `set` handed to
+// the actions records history: store.setState (hydration, server updates,
+// rollbacks) replaces state without creating undo steps.
+export const history = <S extends HistoryState, K extends keyof S>(
+  key: K,
+  config: StateCreator<S, [], [], Omit<S, keyof HistoryState>>,
+  { limit = DEFAULT_HISTORY_LIMIT, onUndo, onRedo, restore = snapshot => snapshot }: HistoryOptions<S[K]> = {}
+): StateCreator<S> => (set, get, api) => {
+  let past: S[K][] = [];
+  let future: S[K][] = [];
+
+  const steps = (): HistorySteps => ({ undo: past.length, redo: future.length });
+  const flags = () => ({ canUndo: past.length > 0, canRedo: future.length > 0 }) as Partial<S>;
+
+  const recordingSet = ((partial: S | Partial<S> | ((state: S) => S | Partial<S>), replace?: boolean) => {
+    set(state => {
+      const next = typeof partial === 'function' ? partial(state) : partial;
+      if (!(key in next) || next[key] === state[key]) {
+        return next;
+      }
+
+      if (limit > 0) {
+        past = [...past, state[key]].slice(-limit);
+      }
+      future = [];
+      return { ...next, ...flags() };
+    }, replace as false);
+  }) as SetState<S>;
+
+  const undo = () => {
+    if (past.length === 0) {
+      return;
+    }
+    const previous = past[past.length - 1];
+    past = past.slice(0, -1);
+    const current = get()[key];
+    future = [current, ...future];
+    set({ [key]: restore(previous, current), ...flags() } as Partial<S>);
+    onUndo?.(steps());
+  };
+
+  const redo = () => {
+    if (future.length === 0) {
+      return;
+    }
+    const [next, ...rest] = future;
+    future = rest;
+    const current = get()[key];
+    past = [...past, current];
+    set({ [key]: restore(next, current), ...flags() } as Partial<S>);
+    onRedo?.(steps());
+  };
+
+  return {
+    ...config(recordingSet as Parameters<typeof config>[0], get, api),
+    canUndo: false,
+    canRedo: false,
+    undo,
+    redo,
+  } as S;
+};
\ No newline at end of file
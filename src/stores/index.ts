@@ -1 +1,6 @@
-export * from './todoStore';
\ No newline at end of file
+export * from './todoStore';
+export * from './historyMiddleware';
+export * from './todoSelectors';
+export * from './todoTags';
+export * from './todoListsStore';
+export * from './todoOrder';
\ No newline at end of file
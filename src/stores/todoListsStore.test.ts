@@ -0,0 +1,216 @@
+import { act } from '@testing-library/react';
+import { createTestContainer, bindTestTodoLists, TestContainerSetup } from '../test-utils/test-container';
+import { TodoListsStore, TodoListsStoreFactory } from './todoListsStore';
+import type { TodoStore } from './todoStore';
+import type { ITodoListScopes } from '../container/todoListScopes';
+import { InMemoryTodoRepository } from '../repositories/InMemoryTodoRepository';
+import { InMemoryTodoPreferences } from '../services/TodoPreferences';
+import { TYPES } from '../container/types';
+import { DEFAULT_TODO_LIST_ID } from '../types';
+
+describe('TodoListsStore', () => {
+  let setup: TestContainerSetup;
+  let todoLists: TodoListsStore;
+  let repositories: Map<string, InMemoryTodoRepository>;
+
+  const activeList = () => todoLists.getState().lists.find(list => list.id === todoLists.getState().activeListId)!;
+  const createList = (name: string) => {
+    act(() => {
+      todoLists.getState().createList(name);
+    });
+    return todoLists.getState().activeListId;
+  };
+
+  beforeEach(() => {
+    setup = createTestContainer();
+    ({ todoLists, repositories } = bindTestTodoLists(setup.container));
+  });
+
+  it('starts with the default list, served by the root container', () => {
+    expect(todoLists.getState().lists).toEqual([{ id: DEFAULT_TODO_LIST_ID, name: 'Todos' }]);
+    expect(todoLists.getState().activeListId).toBe(DEFAULT_TODO_LIST_ID);
+    expect(todoLists.getState().storeFor(DEFAULT_TODO_LIST_ID)).toBe(setup.todoStore);
+  });
+
+  it('creates a list with its own store and switches to it', () => {
+    const id = createList('  Work ');
+
+    expect(activeList()).toEqual({ id, name: 'Work' });
+    const store = todoLists.getState().storeFor(id);
+    expect(store).not.toBe(setup.todoStore);
+    expect(todoLists.getState().storeFor(id)).toBe(store);
+    expect(setup.mockLoggingService.getLastInfoLog()).toEqual({ message: 'Todo list created', data: { id, name: 'Work' } });
+
+    act(() => {
+      store.getState().addTodo('Write report');
+    });
+    expect(setup.todoStore.getState().todos).toEqual([]);
+    expect(repositories.get(id)!.load().map(todo => todo.text)).toEqual(['Write report']);
+  });
+
+  it('resolves list-agnostic consumers of TYPES.TodoStore to the list they are scoped to', () => {
+    const id = createList('Work');
+    const scopes = setup.container.get<ITodoListScopes>(TYPES.TodoListScopes);
+
+    expect(scopes.get(id).get<TodoStore>(TYPES.TodoStore)).toBe(todoLists.getState().storeFor(id));
+    expect(scopes.get(id).get<string>(TYPES.TodoListId)).toBe(id);
+    expect(scopes.get(DEFAULT_TODO_LIST_ID).get<TodoStore>(TYPES.TodoStore)).toBe(setup.todoStore);
+  });
+
+  it('ignores lists without a name', () => {
+    createList('   ');
+
+    expect(todoLists.getState().lists).toHaveLength(1);
+    expect(setup.mockLoggingService.getLastWarnLog()).toEqual({ message: 'Todo list not created: name is empty', data: undefined });
+  });
+
+  it('renames a list', () => {
+    const id = createList('Wrok');
+
+    act(() => {
+      todoLists.getState().renameList(id, 'Work');
+      todoLists.getState().renameList(id, ' ');
+    });
+
+    expect(activeList().name).toBe('Work');
+    expect(setup.mockLoggingService.warnLogs).toEqual([
+      { message: 'Todo list rename ignored: name is empty', data: { id } }
+    ]);
+  });
+
+  it('archives a list, switching back to the default one, and restores it', () => {
+    const id = createList('Work');
+
+    act(() => {
+      todoLists.getState().archiveList(id);
+    });
+    expect(todoLists.getState().lists.find(list => list.id === id)).toEqual({ id, name: 'Work', archived: true });
+    expect(todoLists.getState().activeListId).toBe(DEFAULT_TODO_LIST_ID);
+
+    act(() => {
+      todoLists.getState().setActiveList(id);
+    });
+    expect(todoLists.getState().activeListId).toBe(DEFAULT_TODO_LIST_ID);
+
+    act(() => {
+      todoLists.getState().restoreList(id);
+      todoLists.getState().setActiveList(id);
+    });
+    expect(activeList()).toEqual({ id, name: 'Work' });
+  });
+
+  it('deletes a list together with its saved todos', () => {
+    const id = createList('Work');
+    act(() => {
+      todoLists.getState().storeFor(id).getState().addTodo('Write report');
+    });
+    const repository = repositories.get(id)!;
+
+    act(() => {
+      todoLists.getState().deleteList(id);
+    });
+
+    expect(todoLists.getState().lists.map(list => list.id)).toEqual([DEFAULT_TODO_LIST_ID]);
+    expect(todoLists.getState().activeListId).toBe(DEFAULT_TODO_LIST_ID);
+    expect(repository.load()).toEqual([]);
+  });
+
+  it('tries a failed delete again once back online, and in the next session', () => {
+    const preferences = new InMemoryTodoPreferences();
+    const scopes = setup.container.get<ITodoListScopes>(TYPES.TodoListScopes);
+    const createStore = () =>
+      new TodoListsStoreFactory(setup.mockLoggingService, scopes, setup.idGenerator, preferences).getStore();
+    const lists = createStore();
+    let id = '';
+    act(() => {
+      lists.getState().createList('Work');
+      id = lists.getState().activeListId;
+      lists.getState().storeFor(id).getState().addTodo('Write report');
+    });
+    const repository = repositories.get(id)!;
+    const failing = jest.spyOn(InMemoryTodoRepository.prototype, 'clear').mockImplementation(() => {
+      throw new Error('Storage unavailable');
+    });
+
+    act(() => {
+      lists.getState().deleteList(id);
+    });
+    window.dispatchEvent(new Event('online'));
+
+    expect(failing).toHaveBeenCalledTimes(2);
+    expect(setup.mockLoggingService.errorLogs.map(log => log.message)).toEqual([
+      'Failed to delete todo list',
+      'Failed to delete todo list'
+    ]);
+    expect(repository.load()).toHaveLength(1);
+    failing.mockRestore();
+
+    const cleared = jest.spyOn(InMemoryTodoRepository.prototype, 'clear');
+    createStore();
+    createStore();
+    window.dispatchEvent(new Event('online'));
+
+    expect(cleared).toHaveBeenCalledTimes(1);
+    expect(repositories.get(id)!.load()).toEqual([]);
+    cleared.mockRestore();
+  });
+
+  it('keeps the default list', () => {
+    act(() => {
+      todoLists.getState().archiveList(DEFAULT_TODO_LIST_ID);
+      todoLists.getState().deleteList(DEFAULT_TODO_LIST_ID);
+    });
+
+    expect(todoLists.getState().lists).toEqual([{ id: DEFAULT_TODO_LIST_ID, name: 'Todos' }]);
+    expect(setup.mockLoggingService.warnLogs.map(log => log.message)).toEqual([
+      'The default todo list cannot be archived',
+      'The default todo list cannot be deleted'
+    ]);
+  });
+
+  it('moves todos between lists', () => {
+    const id = createList('Work');
+    act(() => {
+      setup.todoStore.getState().addTodo('Write report');
+      setup.todoStore.getState().addTodo('Water plants');
+    });
+    const report = setup.todoStore.getState().todos[0];
+
+    act(() => {
+      todoLists.getState().moveTodos(DEFAULT_TODO_LIST_ID, [report.id], id);
+    });
+
+    expect(setup.todoStore.getState().todos.map(todo => todo.text)).toEqual(['Water plants']);
+    expect(todoLists.getState().storeFor(id).getState().todos).toEqual([report]);
+    expect(setup.todoRepository.load()).toEqual(setup.todoStore.getState().todos);
+    expect(repositories.get(id)!.load()).toEqual([report]);
+  });
+
+  it('does not move todos to a list it does not know', () => {
+    act(() => {
+      setup.todoStore.getState().addTodo('Write report');
+      todoLists.getState().moveTodos(DEFAULT_TODO_LIST_ID, [setup.todoStore.getState().todos[0].id], 'nowhere');
+    });
+
+    expect(setup.todoStore.getState().todos).toHaveLength(1);
+    expect(setup.mockLoggingService.getLastWarnLog()).toEqual({
+      message: 'Todos not moved: unknown list',
+      data: { fromListId: DEFAULT_TODO_LIST_ID, toListId: 'nowhere' }
+    });
+  });
+
+  it('remembers the lists and the active list for the next session', () => {
+    const preferences = new InMemoryTodoPreferences();
+    const scopes = setup.container.get<ITodoListScopes>(TYPES.TodoListScopes);
+    const createStore = () =>
+      new TodoListsStoreFactory(setup.mockLoggingService, scopes, setup.idGenerator, preferences).getStore();
+
+    act(() => {
+      createStore().getState().createList('Work');
+    });
+
+    const restored = createStore().getState();
+    expect(restored.lists.map(list => list.name)).toEqual(['Todos', 'Work']);
+    expect(restored.activeListId).toBe(restored.lists[1].id);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,250 @@
+import { injectable, inject, optional } from 'inversify';
+import { create, StoreApi, UseBoundStore } from 'zustand';
+import { DEFAULT_TODO_LIST_ID, TodoListInfo } from '../types';
+import type { ILoggingService } from '../services/LoggingService';
+import type { IIdGenerator } from '../services/IdGenerator';
+import { UuidIdGenerator } from '../services/IdGenerator';
+import type { ITodoPreferences } from '../services/TodoPreferences';
+import { InMemoryTodoPreferences } from '../services/TodoPreferences';
+import type { ITodoRepository } from '../repositories/TodoRepository';
+import { isPromiseLike } from '../repositories/TodoRepository';
+import type { ITodoOutbox } from '../services/TodoOutbox';
+import type { ITodoListScopes } from '../container/todoListScopes';
+import type { TodoStore } from './todoStore';
+import { TYPES } from '../container/types';
+
+const LISTS_PREFERENCE = 'todoLists';
+const ACTIVE_LIST_PREFERENCE = 'activeTodoList';
+// Deleted lists whose saved todos are not all gone yet
+const PURGE_PREFERENCE = 'purgingTodoLists';
+
+export const DEFAULT_TODO_LIST: TodoListInfo = { id: DEFAULT_TODO_LIST_ID, name: 'Todos' };
+
+export interface TodoListsState {
+  lists: TodoListInfo[];
+  activeListId: string;
+  // Creates a list and switches to it
+  createList: (name: string) => void;
+  renameList: (id: string, name: string) => void;
+  archiveList: (id: string) => void;
+  restoreList: (id: string) => void;
+  // Deletes the list together with its todos
+  deleteList: (id: string) => void;
+  setActiveList: (id: string) => void;
+  moveTodos: (fromListId: string, ids: string[], toListId: string) => void;
+  // The store holding a list's todos
+  storeFor: (id: string) => TodoStore;
+}
+
+export type TodoListsStore = UseBoundStore<StoreApi<TodoListsState>>;
+
+const isTodoListInfo = (value: unknown): value is TodoListInfo =>
+  typeof (value as TodoListInfo | undefined)?.id === 'string' && typeof (value as TodoListInfo).name === 'string';
+
+// The default list is always there, even if what was stored lost it
+const readLists = (value: unknown): TodoListInfo[] => {
+  const lists = Array.isArray(value) ? value.filter(isTodoListInfo) : [];
+  return lists.some(list => list.id === DEFAULT_TODO_LIST_ID) ? lists : [DEFAULT_TODO_LIST, ...lists];
+};
+
+@injectable()
+export class TodoListsStoreFactory {
+  private store: TodoListsStore;
+
+  constructor(
+    @inject(TYPES.LoggingService) private loggingService: ILoggingService,
+    @inject(TYPES.TodoListScopes) private scopes: ITodoListScopes,
+    @inject(TYPES.IdGenerator) @optional() private idGenerator: IIdGenerator = new UuidIdGenerator(),
+    @inject(TYPES.TodoPreferences) @optional() private todoPreferences: ITodoPreferences = new InMemoryTodoPreferences()
+  ) {
+    const lists = readLists(this.todoPreferences.get(LISTS_PREFERENCE));
+    const storedActiveListId = this.todoPreferences.get(ACTIVE_LIST_PREFERENCE);
+    const findList = (id: string) => this.store.getState().lists.find(list => list.id === id);
+
+    this.store = create<TodoListsState>()((set, get) => ({
+      lists,
+      activeListId: lists.some(list => list.id === storedActiveListId && !list.archived)
+        ? storedActiveListId as string
+        : DEFAULT_TODO_LIST_ID,
+
+      createList: (name: string) => {
+        if (!name.trim()) {
+          this.loggingService.warn('Todo list not created: name is empty');
+          return;
+        }
+
+        const list: TodoListInfo = { id: this.idGenerator.generate(), name: name.trim() };
+        this.loggingService.info('Todo list created', { id: list.id, name: list.name });
+        set(state => ({ lists: [...state.lists, list], activeListId: list.id }));
+      },
+
+      renameList: (id: string, name: string) => {
+        const list = findList(id);
+        if (!list) {
+          this.loggingService.warn('Todo list not found for rename', { id });
+          return;
+        }
+        if (!name.trim()) {
+          this.loggingService.warn('Todo list rename ignored: name is empty', { id });
+          return;
+        }
+        if (list.name === name.trim()) {
+          return;
+        }
+
+        this.loggingService.info('Todo list renamed', { id, name: name.trim() });
+        set(state => ({
+          lists: state.lists.map(candidate => candidate.id === id ? { ...candidate, name: name.trim() } : candidate)
+        }));
+      },
+
+      archiveList: (id: string) => {
+        const list = findList(id);
+        if (!list || list.archived) {
+          return;
+        }
+        if (id === DEFAULT_TODO_LIST_ID) {
+          this.loggingService.warn('The default todo list cannot be archived');
+          return;
+        }
+
+        this.loggingService.info('Todo list archived', { id });
+        set(state => ({
+          lists: state.lists.map(candidate => candidate.id === id ? { ...candidate, archived: true } : candidate),
+          activeListId: state.activeListId === id ? DEFAULT_TODO_LIST_ID : state.activeListId
+        }));
+      },
+
+      restoreList: (id: string) => {
+        if (!findList(id)?.archived) {
+          return;
+        }
+
+        this.loggingService.info('Todo list restored', { id });
+        set(state => ({
+          lists: state.lists.map(candidate => candidate.id === id ? { id: candidate.id, name: candidate.name } : candidate)
+        }));
+      },
+
+      deleteList: (id: string) => {
+        if (id === DEFAULT_TODO_LIST_ID) {
+          this.loggingService.warn('The default todo list cannot be deleted');
+          return;
+        }
+        if (!findList(id)) {
+          this.loggingService.warn('Todo list not found for deletion', { id });
+          return;
+        }
+
+        this.purge(id);
+        this.loggingService.info('Todo list deleted', { id });
+        set(state => ({
+          lists: state.lists.filter(list => list.id !== id),
+          activeListId: state.activeListId === id ? DEFAULT_TODO_LIST_ID : state.activeListId
+        }));
+      },
+
+      setActiveList: (id: string) => {
+        const list = findList(id);
+        if (!list || list.archived) {
+          this.loggingService.warn('Todo list not available', { id });
+          return;
+        }
+        if (get().activeListId !== id) {
+          this.loggingService.info('Active todo list changed', { id });
+          set({ activeListId: id });
+        }
+      },
+
+      moveTodos: (fromListId: string, ids: string[], toListId: string) => {
+        if (fromListId === toListId) {
+          return;
+        }
+        if (!findList(fromListId) || !findList(toListId)) {
+          this.loggingService.warn('Todos not moved: unknown list', { fromListId, toListId });
+          return;
+        }
+
+        get().storeFor(fromListId).getState().moveTodos(ids, get().storeFor(toListId));
+      },
+
+      storeFor: (id: string) => this.scopes.get(id).get<TodoStore>(TYPES.TodoStore),
+    }));
+
+    // Lists survive a reload the same way view preferences do
+    this.store.subscribe((state, previousState) => {
+      try {
+        if (state.lists !== previousState.lists) {
+          this.todoPreferences.set(LISTS_PREFERENCE, state.lists);
+        }
+        if (state.activeListId !== previousState.activeListId) {
+          this.todoPreferences.set(ACTIVE_LIST_PREFERENCE, state.activeListId);
+        }
+      } catch (error) {
+        this.loggingService.warn('Todo lists not saved', { message: error instanceof Error ? error.message : String(error) });
+      }
+    });
+
+    this.purging().forEach(id => this.purge(id));
+  }
+
+  private purging(): string[] {
+    const ids = this.todoPreferences.get(PURGE_PREFERENCE);
+    return Array.isArray(ids) ? ids.filter((id): id is string => typeof id === 'string') : [];
+  }
+
+  private setPurging(id: string, purging: boolean) {
+    const others = this.purging().filter(other => other !== id);
+    this.todoPreferences.set(PURGE_PREFERENCE, purging ? [...others, id] : others);
+  }
+
+  // Removes every todo a deleted list had saved, and the storage and queued changes it
+  // had. Until that has worked it is tried again once the browser is back online, and
+  // in the next session.
+  private purge(id: string) {
+    this.setPurging(id, true);
+    const scope = this.scopes.get(id);
+    const repository = scope.get<ITodoRepository>(TYPES.TodoRepository);
+    // Changes still queued for the list would only bring its todos back
+    if (scope.isBound(TYPES.TodoOutbox)) {
+      scope.get<ITodoOutbox>(TYPES.TodoOutbox).clear();
+    }
+    this.scopes.release(id);
+
+    const deleteAll = (todos: { id: string }[]) =>
+      repository.apply(todos.map(todo => ({ type: 'delete' as const, id: todo.id })));
+    const onDone = () => this.setPurging(id, false);
+    const onError = (error: unknown) => {
+      this.loggingService.error('Failed to delete todo list', error as Error);
+      if (typeof window !== 'undefined') {
+        window.addEventListener('online', () => {
+          // The next session may have finished it already
+          if (this.purging().includes(id)) {
+            this.purge(id);
+          }
+        }, { once: true });
+      }
+    };
+
+    try {
+      let result: void | Promise<void>;
+      if (repository.clear) {
+        result = repository.clear();
+      } else {
+        const loaded = repository.load();
+        result = isPromiseLike(loaded) ? loaded.then(deleteAll) : deleteAll(loaded);
+      }
+      if (isPromiseLike(result)) {
+        result.then(onDone, onError);
+      } else {
+        onDone();
+      }
+    } catch (error) {
+      onError(error);
+    }
+  }
+
+  getStore(): TodoListsStore {
+    return this.store;
+  }
+}
\ No newline at end of file
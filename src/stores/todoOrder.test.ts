@@ -0,0 +1,162 @@
+import fc from 'fast-check';
+import {
+  TodoOrderError,
+  compareOrderKeys,
+  dropTarget,
+  isOrderKey,
+  orderKeyBetween,
+  orderKeysAfter,
+  sortByOrder,
+  stepTarget,
+  withOrderKeys,
+} from './todoOrder';
+import { Todo } from '../types';
+
+const todo = (id: string, order?: string): Todo => ({
+  id,
+  text: id,
+  completed: false,
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  ...(order ? { order } : {}),
+});
+
+describe('todoOrder', () => {
+  describe('orderKeyBetween', () => {
+    it('starts at a0 and counts up when appending', () => {
+      expect(orderKeyBetween()).toBe('a0');
+      expect(orderKeysAfter(undefined, 4)).toEqual(['a0', 'a1', 'a2', 'a3']);
+      expect(orderKeyBetween('a9')).toBe('aA');
+      expect(orderKeyBetween('az')).toBe('b00');
+      expect(orderKeyBetween('Zz')).toBe('a0');
+    });
+
+    it('counts down when prepending', () => {
+      expect(orderKeyBetween(undefined, 'a1')).toBe('a0');
+      expect(orderKeyBetween(undefined, 'a0')).toBe('Zz');
+      expect(orderKeyBetween(undefined, 'a0V')).toBe('a0');
+    });
+
+    it('splits the gap between two keys', () => {
+      expect(orderKeyBetween('a0', 'a1')).toBe('a0V');
+      expect(orderKeyBetween('a0', 'a0V')).toBe('a0G');
+      expect(orderKeyBetween('a0V', 'a1')).toBe('a0l');
+      expect(orderKeyBetween('a0', 'a2')).toBe('a1');
+      expect(orderKeyBetween('az', 'b00')).toBe('azV');
+    });
+
+    it('rejects keys out of order or not made by it', () => {
+      expect(() => orderKeyBetween('a1', 'a0')).toThrow(new TodoOrderError('"a1" does not come before "a0"'));
+      expect(() => orderKeyBetween('a1', 'a1')).toThrow(TodoOrderError);
+      expect(() => orderKeyBetween('a10')).toThrow(new TodoOrderError('"a10" is not an order key'));
+      expect(() => orderKeyBetween('1')).toThrow(TodoOrderError);
+      expect(() => orderKeyBetween(undefined, 'b1')).toThrow(TodoOrderError);
+    });
+
+    it('always lands strictly between its neighbours, however the list is edited', () => {
+      fc.assert(fc.property(fc.array(fc.nat(), { minLength: 1, maxLength: 200 }), positions => {
+        const keys: string[] = [];
+        positions.forEach(position => {
+          const index = position % (keys.length + 1);
+          keys.splice(index, 0, orderKeyBetween(keys[index - 1], keys[index]));
+        });
+
+        expect(keys.every(isOrderKey)).toBe(true);
+        expect([...keys].sort(compareOrderKeys)).toEqual(keys);
+        expect(new Set(keys).size).toBe(keys.length);
+      }));
+    });
+
+    it('keeps keys short when todos are added at either end', () => {
+      const appended = orderKeysAfter(undefined, 5000);
+      expect(appended[appended.length - 1]).toHaveLength(4);
+
+      let first = 'a0';
+      for (let i = 0; i < 1000; i++) {
+        first = orderKeyBetween(undefined, first);
+      }
+      expect(first.length).toBeLessThanOrEqual(3);
+    });
+
+    it('keeps keys reasonably short when moving into the same gap over and over', () => {
+      let [before, after] = ['a0', 'a1'];
+      for (let i = 0; i < 50; i++) {
+        after = orderKeyBetween(before, after);
+      }
+      expect(after.length).toBeLessThanOrEqual(12);
+    });
+  });
+
+  describe('withOrderKeys', () => {
+    it('leaves a fully keyed list alone', () => {
+      const todos = [todo('a', 'a0'), todo('b', 'a1')];
+      expect(withOrderKeys(todos)).toBe(todos);
+    });
+
+    it('keys only the todos that lack one, between their neighbours', () => {
+      const todos = [todo('a'), todo('b', 'a1'), todo('c'), todo('d'), todo('e', 'a2'), todo('f', 'bad key'), todo('g')];
+      const keyed = withOrderKeys(todos);
+
+      expect(keyed.map(item => item.order)).toEqual(['a0', 'a1', 'a1V', 'a1l', 'a2', 'a3', 'a4']);
+      expect(keyed[1]).toBe(todos[1]);
+      expect(keyed[4]).toBe(todos[4]);
+      expect(sortByOrder(keyed)).toEqual(keyed);
+    });
+
+    it('hands the todos that get a key to `assign`', () => {
+      const assign = jest.fn((item: Todo, order: string) => ({ ...item, order, version: 2 }));
+
+      expect(withOrderKeys([todo('a', 'a5'), todo('b'), todo('c', 'a1')], assign).map(item => [item.order, item.version]))
+        .toEqual([['a5', undefined], ['a6', 2], ['a1', undefined]]);
+      expect(assign).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('sortByOrder', () => {
+    it('puts todos in key order', () => {
+      expect(sortByOrder([todo('b', 'a1'), todo('c', 'a0V'), todo('a', 'a0')]).map(item => item.id)).toEqual(['a', 'c', 'b']);
+    });
+  });
+
+  describe('dropTarget', () => {
+    const todos = ['a', 'b', 'c', 'd', 'e'].map((id, index) => todo(id, `a${index}`));
+    // Filtered down to a, c and e
+    const visible = [todos[0], todos[2], todos[4]];
+
+    it('puts a todo dropped on one further up in front of it', () => {
+      expect(dropTarget(todos, visible, 'e', 'c')).toBe('c');
+    });
+
+    it('puts a todo dropped on one further down right behind it, hidden todos included', () => {
+      expect(dropTarget(todos, visible, 'a', 'c')).toBe('d');
+      expect(dropTarget(todos, visible, 'a', 'e')).toBeNull();
+    });
+
+    it('has nothing to do for the todo itself or todos that are not shown', () => {
+      expect(dropTarget(todos, visible, 'a', 'a')).toBeUndefined();
+      expect(dropTarget(todos, visible, 'a', 'b')).toBeUndefined();
+    });
+
+    it('follows the order the list is shown in', () => {
+      const sorted = [todos[4], todos[0], todos[1], todos[3], todos[2]];
+      const visible = [todos[4], todos[0], todos[2]];
+      expect(dropTarget(sorted, visible, 'e', 'a')).toBe('b');
+      expect(dropTarget(sorted, visible, 'a', 'c')).toBeNull();
+      expect(dropTarget(sorted, visible, 'c', 'a')).toBe('a');
+    });
+  });
+
+  describe('stepTarget', () => {
+    const todos = ['a', 'b', 'c'].map((id, index) => todo(id, `a${index}`));
+
+    it('swaps a todo with its visible neighbour', () => {
+      expect(stepTarget(todos, todos, 'b', 'up')).toBe('a');
+      expect(stepTarget(todos, todos, 'b', 'down')).toBeNull();
+      expect(stepTarget(todos, [todos[0], todos[2]], 'a', 'down')).toBeNull();
+    });
+
+    it('stops at the ends of the list', () => {
+      expect(stepTarget(todos, todos, 'a', 'up')).toBeUndefined();
+      expect(stepTarget(todos, todos, 'c', 'down')).toBeUndefined();
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,227 @@
+import type { Todo } from '../types';
+
+// Manual order is kept as fractional index keys: strings that sort in list order
+// when compared as plain strings (not localeCompare), with a key between any two.
+// Moving a todo only gives that todo a new key; its neighbours keep theirs.
+//
+// A key is an integer part - a head letter giving the number of digits ('a' one,
+// 'b' two, ... and 'Z', 'Y', ... for negative integers) followed by the digits -
+// and an optional fraction, which never ends in '0'. Appending gets the next
+// integer, so keys stay short however often todos are added at the end.
+
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+const FIRST_KEY = 'a0';
+
+// Nothing can go before it, so it is never handed out
+const SMALLEST_INTEGER = 'A' + '0'.repeat(26);
+
+export class TodoOrderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TodoOrderError';
+  }
+}
+
+const integerLength = (head: string): number => {
+  if (head >= 'a' && head <= 'z') {
+    return head.charCodeAt(0) - 'a'.charCodeAt(0) + 2;
+  }
+  if (head >= 'A' && head <= 'Z') {
+    return 'Z'.charCodeAt(0) - head.charCodeAt(0) + 2;
+  }
+  throw new TodoOrderError(`"${head}" cannot start an order key`);
+};
+
+const integerPart = (key: string): string => {
+  const length = integerLength(key[0]);
+  if (length > key.length) {
+    throw new TodoOrderError(`"${key}" is not an order key`);
+  }
+  return key.slice(0, length);
+};
+
+export const isOrderKey = (key: string): boolean => {
+  try {
+    const integer = integerPart(key);
+    return key !== SMALLEST_INTEGER &&
+      [...key.slice(1)].every(digit => DIGITS.includes(digit)) &&
+      !(key.length > integer.length && key.endsWith('0'));
+  } catch {
+    return false;
+  }
+};
+
+const checkKey = (key: string) => {
+  if (!isOrderKey(key)) {
+    throw new TodoOrderError(`"${key}" is not an order key`);
+  }
+};
+
+// A fraction between two others; `before` may be '' (zero), `after` undefined (one)
+const midpoint = (before: string, after: string | undefined): string => {
+  if (after !== undefined) {
+    let common = 0;
+    while ((before[common] ?? '0') === after[common]) {
+      common++;
+    }
+    if (common > 0) {
+      return after.slice(0, common) + midpoint(before.slice(common), after.slice(common));
+    }
+  }
+
+  const low = before ? DIGITS.indexOf(before[0]) : 0;
+  const high = after !== undefined ? DIGITS.indexOf(after[0]) : DIGITS.length;
+  if (high - low > 1) {
+    return DIGITS[Math.round((low + high) / 2)];
+  }
+  if (after !== undefined && after.length > 1) {
+    return after.slice(0, 1);
+  }
+  return DIGITS[low] + midpoint(before.slice(1), undefined);
+};
+
+// The integer after or before `integer`, or null when there is none
+const stepInteger = (integer: string, step: 1 | -1): string | null => {
+  const [head, ...digits] = integer.split('');
+  const [wrapFrom, wrapTo] = step === 1 ? [DIGITS.length - 1, '0'] : [0, DIGITS[DIGITS.length - 1]];
+
+  for (let index = digits.length - 1; index >= 0; index--) {
+    const digit = DIGITS.indexOf(digits[index]);
+    if (digit !== wrapFrom) {
+      digits[index] = DIGITS[digit + step];
+      return head + digits.join('');
+    }
+    digits[index] = wrapTo;
+  }
+
+  // Every digit carried over, so the integer needs one digit more (or less)
+  if (step === 1) {
+    if (head === 'z') return null;
+    if (head === 'Z') return FIRST_KEY;
+  } else {
+    if (head === 'A') return null;
+    if (head === 'a') return 'Z' + DIGITS[DIGITS.length - 1];
+  }
+  const nextHead = String.fromCharCode(head.charCodeAt(0) + step);
+  if ((step === 1 && nextHead > 'a') || (step === -1 && nextHead < 'Z')) {
+    digits.push(wrapTo);
+  } else {
+    digits.pop();
+  }
+  return nextHead + digits.join('');
+};
+
+// A key that sorts after `before` and before `after`; leave either out for the start
+// or the end of the list
+export const orderKeyBetween = (before?: string, after?: string): string => {
+  if (before !== undefined) checkKey(before);
+  if (after !== undefined) checkKey(after);
+  if (before !== undefined && after !== undefined && before >= after) {
+    throw new TodoOrderError(`"${before}" does not come before "${after}"`);
+  }
+
+  if (before === undefined) {
+    if (after === undefined) {
+      return FIRST_KEY;
+    }
+    const integer = integerPart(after);
+    if (integer === SMALLEST_INTEGER) {
+      return integer + midpoint('', after.slice(integer.length));
+    }
+    if (integer < after) {
+      return integer;
+    }
+    const previous = stepInteger(integer, -1);
+    if (previous === null) {
+      throw new TodoOrderError('There is no room before the first order key');
+    }
+    return previous;
+  }
+
+  const integer = integerPart(before);
+  const fraction = before.slice(integer.length);
+  if (after === undefined) {
+    return stepInteger(integer, 1) ?? integer + midpoint(fraction, undefined);
+  }
+
+  const afterInteger = integerPart(after);
+  if (integer === afterInteger) {
+    return integer + midpoint(fraction, after.slice(afterInteger.length));
+  }
+  const next = stepInteger(integer, 1);
+  if (next === null) {
+    throw new TodoOrderError('There is no room after the last order key');
+  }
+  return next < after ? next : integer + midpoint(fraction, undefined);
+};
+
+// `count` keys in a row, after `before`
+export const orderKeysAfter = (before: string | undefined, count: number): string[] => {
+  const keys: string[] = [];
+  for (let i = 0; i < count; i++) {
+    keys.push(orderKeyBetween(keys[i - 1] ?? before));
+  }
+  return keys;
+};
+
+// Plain string comparison, as the keys are built for it
+export const compareOrderKeys = (a: string, b: string): number => (a < b ? -1 : a > b ? 1 : 0);
+
+const hasOrderKey = (todo: Todo): boolean => todo.order !== undefined && isOrderKey(todo.order);
+
+// Gives the todos that lack a key (todos from a backend that does not keep the order)
+// one in their current place, between the keys around them, through `assign`. The
+// others keep theirs, and a fully keyed list is handed back as it is.
+export const withOrderKeys = (
+  todos: Todo[],
+  assign: (todo: Todo, order: string) => Todo = (todo, order) => ({ ...todo, order })
+): Todo[] => {
+  if (todos.every(hasOrderKey)) {
+    return todos;
+  }
+  const keyed: Todo[] = [];
+  todos.forEach((todo, index) => {
+    if (hasOrderKey(todo)) {
+      keyed.push(todo);
+      return;
+    }
+    const before = keyed[keyed.length - 1]?.order;
+    const after = todos.slice(index + 1).find(hasOrderKey)?.order;
+    // Keys out of order around it leave nothing to fit between, so it goes after `before`
+    const fits = after !== undefined && (before === undefined || before < after);
+    keyed.push(assign(todo, orderKeyBetween(before, fits ? after : undefined)));
+  });
+  return keyed;
+};
+
+// Todos in their manual order; the sort is stable, so todos without a key keep their place
+export const sortByOrder = (todos: Todo[]): Todo[] =>
+  [...todos].sort((a, b) => (a.order !== undefined && b.order !== undefined ? compareOrderKeys(a.order, b.order) : 0));
+
+export type TodoMoveDirection = 'up' | 'down';
+
+// Where dropping todo `id` on `overId` puts it, as the `beforeId` for moveTodo: in
+// front of a todo further up, behind one further down. `todos` is the whole list in
+// the manual order and `visible` the list as it is shown, filtered and sorted, so
+// "behind" means in front of whatever follows `overId` in the manual order, shown or not. Undefined when there is
+// nothing to move.
+export const dropTarget = (todos: Todo[], visible: Todo[], id: string, overId: string): string | null | undefined => {
+  const from = visible.findIndex(todo => todo.id === id);
+  const to = visible.findIndex(todo => todo.id === overId);
+  if (from === -1 || to === -1 || from === to) {
+    return undefined;
+  }
+  if (to < from) {
+    return overId;
+  }
+  const over = todos.findIndex(todo => todo.id === overId);
+  return todos[over + 1]?.id ?? null;
+};
+
+// Swaps a todo with its visible neighbour, for Alt+Up and Alt+Down
+export const stepTarget = (todos: Todo[], visible: Todo[], id: string, direction: TodoMoveDirection): string | null | undefined => {
+  const index = visible.findIndex(todo => todo.id === id);
+  const neighbour = index === -1 ? undefined : visible[direction === 'up' ? index - 1 : index + 1];
+  return neighbour ? dropTarget(todos, visible, id, neighbour.id) : undefined;
+};
\ No newline at end of file
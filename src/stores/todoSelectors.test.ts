@@ -0,0 +1,213 @@
+import {
+  dueStatus,
+  filterTodos,
+  filterTodosByTags,
+  selectDueGroups,
+  selectTagIndex,
+  selectTodoCounts,
+  selectVisibleTodos,
+  sortTodos,
+  subtaskProgress,
+  suggestTags,
+} from './todoSelectors';
+import type { TodoTagFilter } from './todoStore';
+import { Todo } from '../types';
+
+describe('todoSelectors', () => {
+  const createdAt = new Date('2024-01-01T00:00:00.000Z');
+  const todos: Todo[] = [
+    { id: '1', text: 'Open', completed: false, createdAt },
+    { id: '2', text: 'Done', completed: true, createdAt },
+    { id: '3', text: 'Also open', completed: false, createdAt },
+  ];
+
+  describe('filterTodos', () => {
+    it('keeps every todo for "all"', () => {
+      expect(filterTodos(todos, 'all')).toBe(todos);
+    });
+
+    it('keeps open todos for "active" and finished ones for "completed"', () => {
+      expect(filterTodos(todos, 'active').map(todo => todo.id)).toEqual(['1', '3']);
+      expect(filterTodos(todos, 'completed').map(todo => todo.id)).toEqual(['2']);
+    });
+  });
+
+  describe('selectVisibleTodos', () => {
+    const noTags: TodoTagFilter = { tags: [], match: 'all' };
+
+    it('returns the same array while todos and filter are unchanged', () => {
+      const first = selectVisibleTodos({ todos, filter: 'active', tagFilter: noTags, sortOrder: 'manual' });
+
+      expect(selectVisibleTodos({ todos, filter: 'active', tagFilter: noTags, sortOrder: 'manual' })).toBe(first);
+    });
+
+    it('recomputes when the todos or the filter change', () => {
+      const active = selectVisibleTodos({ todos, filter: 'active', tagFilter: noTags, sortOrder: 'manual' });
+      const completed = selectVisibleTodos({ todos, filter: 'completed', tagFilter: noTags, sortOrder: 'manual' });
+      const updated = selectVisibleTodos({ todos: [...todos], filter: 'completed', tagFilter: noTags, sortOrder: 'manual' });
+
+      expect(completed).not.toBe(active);
+      expect(updated).not.toBe(completed);
+      expect(updated).toEqual(completed);
+    });
+
+    it('keeps each list\'s result while another list is read in between', () => {
+      const otherTodos = todos.slice(1);
+      const first = selectVisibleTodos({ todos, filter: 'active', tagFilter: noTags, sortOrder: 'manual' });
+      const other = selectVisibleTodos({ todos: otherTodos, filter: 'active', tagFilter: noTags, sortOrder: 'manual' });
+
+      expect(selectVisibleTodos({ todos, filter: 'active', tagFilter: noTags, sortOrder: 'manual' })).toBe(first);
+      expect(selectVisibleTodos({ todos: otherTodos, filter: 'active', tagFilter: noTags, sortOrder: 'manual' })).toBe(other);
+      expect(selectTodoCounts({ todos })).not.toBe(selectTodoCounts({ todos: otherTodos }));
+      expect(selectTodoCounts({ todos })).toBe(selectTodoCounts({ todos }));
+    });
+  });
+
+  describe('selectTodoCounts', () => {
+    it('counts all, active and completed todos', () => {
+      expect(selectTodoCounts({ todos })).toEqual({ total: 3, active: 2, completed: 1 });
+    });
+
+    it('returns the same object while the todos are unchanged', () => {
+      expect(selectTodoCounts({ todos })).toBe(selectTodoCounts({ todos }));
+    });
+  });
+
+  describe('dueStatus', () => {
+    const now = new Date(2024, 2, 2, 15, 30);
+    const due = (dueDate: Date, completed = false): Todo => ({ id: 'd', text: 'Due', completed, createdAt, dueDate });
+
+    it('is "today" for any time on the current day', () => {
+      expect(dueStatus(due(new Date(2024, 2, 2)), now)).toBe('today');
+      expect(dueStatus(due(new Date(2024, 2, 2, 23, 59)), now)).toBe('today');
+    });
+
+    it('is "overdue" from the next day and "upcoming" before the day', () => {
+      expect(dueStatus(due(new Date(2024, 2, 1, 23, 59)), now)).toBe('overdue');
+      expect(dueStatus(due(new Date(2024, 2, 3)), now)).toBe('upcoming');
+    });
+
+    it('is undefined without a due date or once completed', () => {
+      expect(dueStatus(todos[0], now)).toBeUndefined();
+      expect(dueStatus(due(new Date(2024, 1, 1), true), now)).toBeUndefined();
+    });
+  });
+
+  describe('selectDueGroups', () => {
+    const dated: Todo[] = [
+      { id: 'a', text: 'Later', completed: false, createdAt, dueDate: new Date(2024, 2, 10) },
+      { id: 'b', text: 'Late', completed: false, createdAt, dueDate: new Date(2024, 1, 20) },
+      { id: 'c', text: 'Today', completed: false, createdAt, dueDate: new Date(2024, 2, 2) },
+      { id: 'd', text: 'Soon', completed: false, createdAt, dueDate: new Date(2024, 2, 4) },
+      { id: 'e', text: 'Done late', completed: true, createdAt, dueDate: new Date(2024, 1, 1) },
+      ...todos,
+    ];
+    const ids = (group: Todo[]) => group.map(todo => todo.id);
+
+    it('groups open todos by due date, soonest first', () => {
+      const groups = selectDueGroups({ todos: dated, now: () => new Date(2024, 2, 2, 9) });
+
+      expect(ids(groups.overdue)).toEqual(['b']);
+      expect(ids(groups.today)).toEqual(['c']);
+      expect(ids(groups.upcoming)).toEqual(['d', 'a']);
+    });
+
+    it('returns the same groups until the todos or the day change', () => {
+      const morning = selectDueGroups({ todos: dated, now: () => new Date(2024, 2, 2, 9) });
+      const evening = selectDueGroups({ todos: dated, now: () => new Date(2024, 2, 2, 21) });
+      const nextDay = selectDueGroups({ todos: dated, now: () => new Date(2024, 2, 3, 9) });
+
+      expect(evening).toBe(morning);
+      expect(ids(nextDay.overdue)).toEqual(['b', 'c']);
+    });
+  });
+
+  describe('sortTodos', () => {
+    const at = (day: number) => new Date(2024, 2, day);
+    const sortable: Todo[] = [
+      { id: 'a', text: 'A', completed: false, createdAt: at(1) },
+      { id: 'b', text: 'B', completed: false, createdAt: at(2), priority: 'low', dueDate: at(20) },
+      { id: 'c', text: 'C', completed: false, createdAt: at(3), priority: 'urgent' },
+      { id: 'd', text: 'D', completed: false, createdAt: at(4), priority: 'low', dueDate: at(10) },
+      { id: 'e', text: 'E', completed: false, createdAt: at(1), priority: 'urgent' },
+      { id: 'f', text: 'F', completed: false, createdAt: at(5), dueDate: at(10) },
+    ];
+    const ids = (todos: Todo[]) => todos.map(todo => todo.id).join('');
+
+    it('keeps the list order for "manual"', () => {
+      expect(sortTodos(sortable, 'manual')).toBe(sortable);
+    });
+
+    it('sorts by priority, then due date, then creation', () => {
+      expect(ids(sortTodos(sortable, 'priority'))).toBe('ecdbfa');
+    });
+
+    it('sorts by due date with undated todos last, then priority', () => {
+      expect(ids(sortTodos(sortable, 'dueDate'))).toBe('dfbeca');
+    });
+
+    it('sorts by creation, breaking ties by priority', () => {
+      expect(ids(sortTodos(sortable, 'createdAt'))).toBe('eabcdf');
+    });
+
+    it('is stable for todos that tie on every key', () => {
+      const twins: Todo[] = ['x', 'y', 'z'].map(id => ({ id, text: id, completed: false, createdAt: at(1) }));
+
+      expect(ids(sortTodos(twins, 'priority'))).toBe('xyz');
+    });
+
+    it('does not reorder the array it is given', () => {
+      sortTodos(sortable, 'priority');
+
+      expect(ids(sortable)).toBe('abcdef');
+    });
+  });
+
+  describe('tags', () => {
+    const tagged: Todo[] = [
+      { id: 'a', text: 'A', completed: false, createdAt, tags: ['work', 'urgent'] },
+      { id: 'b', text: 'B', completed: false, createdAt, tags: ['work'] },
+      { id: 'c', text: 'C', completed: false, createdAt, tags: ['home'] },
+      { id: 'd', text: 'D', completed: false, createdAt },
+    ];
+    const ids = (list: Todo[]) => list.map(todo => todo.id);
+
+    it('keeps todos carrying every chosen tag for "all" and any of them for "any"', () => {
+      expect(ids(filterTodosByTags(tagged, { tags: ['work', 'urgent'], match: 'all' }))).toEqual(['a']);
+      expect(ids(filterTodosByTags(tagged, { tags: ['urgent', 'home'], match: 'any' }))).toEqual(['a', 'c']);
+      expect(filterTodosByTags(tagged, { tags: [], match: 'any' })).toBe(tagged);
+    });
+
+    it('counts tag usage, most used first and ties by name', () => {
+      const index = selectTagIndex({ todos: tagged });
+
+      expect(index).toEqual([
+        { tag: 'work', count: 2 },
+        { tag: 'home', count: 1 },
+        { tag: 'urgent', count: 1 },
+      ]);
+      expect(selectTagIndex({ todos: tagged })).toBe(index);
+    });
+
+    it('suggests known tags by prefix without repeating a complete one', () => {
+      const index = selectTagIndex({ todos: tagged });
+
+      expect(suggestTags(index, '').map(({ tag }) => tag)).toEqual(['work', 'home', 'urgent']);
+      expect(suggestTags(index, '#U').map(({ tag }) => tag)).toEqual(['urgent']);
+      expect(suggestTags(index, 'work')).toEqual([]);
+      expect(suggestTags(index, '', 1)).toHaveLength(1);
+    });
+  });
+
+  describe('subtaskProgress', () => {
+    it('counts finished checklist items', () => {
+      const subtasks = [
+        { id: 's1', text: 'One', completed: true },
+        { id: 's2', text: 'Two', completed: false },
+      ];
+
+      expect(subtaskProgress({ ...todos[0], subtasks })).toEqual({ done: 1, total: 2 });
+      expect(subtaskProgress(todos[0])).toBeUndefined();
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,188 @@
+import type { Todo, TodoPriority } from '../types';
+import type { TodoFilter, TodoSortOrder, TodoState, TodoTagFilter } from './todoStore';
+import { normalizeTag } from './todoTags';
+
+export interface TodoCounts {
+  total: number;
+  active: number;
+  completed: number;
+}
+
+// How many todos carry each tag, most used first; drives tag autocomplete
+export interface TodoTagCount {
+  tag: string;
+  count: number;
+}
+
+// How far through its checklist a todo is
+export interface TodoSubtaskProgress {
+  done: number;
+  total: number;
+}
+
+// Where a todo's due date falls relative to today. Completed todos have none.
+export type TodoDueStatus = 'overdue' | 'today' | 'upcoming';
+
+export interface TodoDueGroups {
+  overdue: Todo[];
+  today: Todo[];
+  upcoming: Todo[];
+}
+
+// Recomputes only when one of the inputs changes (by reference), so components
+// subscribing with these selectors get the same array/object back between renders.
+// Results are kept per todos array, so each list's store has its own and stores
+// reading the same selector do not evict each other.
+const memoize = <Rest extends unknown[], Result>(compute: (todos: Todo[], ...rest: Rest) => Result) => {
+  const cache = new WeakMap<Todo[], { rest: Rest; result: Result }>();
+
+  return (todos: Todo[], ...rest: Rest): Result => {
+    const cached = cache.get(todos);
+    if (cached && rest.every((arg, index) => arg === cached.rest[index])) {
+      return cached.result;
+    }
+    const result = compute(todos, ...rest);
+    cache.set(todos, { rest, result });
+    return result;
+  };
+};
+
+export const filterTodos = (todos: Todo[], filter: TodoFilter): Todo[] => {
+  switch (filter) {
+    case 'active':
+      return todos.filter(todo => !todo.completed);
+    case 'completed':
+      return todos.filter(todo => todo.completed);
+    default:
+      return todos;
+  }
+};
+
+export const filterTodosByTags = (todos: Todo[], { tags, match }: TodoTagFilter): Todo[] => {
+  if (tags.length === 0) {
+    return todos;
+  }
+  return todos.filter(todo => {
+    const todoTags = todo.tags ?? [];
+    return match === 'all' ? tags.every(tag => todoTags.includes(tag)) : tags.some(tag => todoTags.includes(tag));
+  });
+};
+
+// Undefined for todos without a checklist
+export const subtaskProgress = (todo: Todo): TodoSubtaskProgress | undefined =>
+  todo.subtasks?.length
+    ? { done: todo.subtasks.filter(subtask => subtask.completed).length, total: todo.subtasks.length }
+    : undefined;
+
+export const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Due dates are calendar days in local time: a todo is due all day and overdue
+// from the next day on
+export const dueStatus = (todo: Todo, now: Date): TodoDueStatus | undefined => {
+  if (!todo.dueDate || todo.completed) {
+    return undefined;
+  }
+
+  const due = startOfDay(todo.dueDate).getTime();
+  const today = startOfDay(now).getTime();
+  if (due < today) {
+    return 'overdue';
+  }
+  return due === today ? 'today' : 'upcoming';
+};
+
+type TodoComparator = (a: Todo, b: Todo) => number;
+
+const PRIORITY_RANK: Record<TodoPriority, number> = { low: 1, medium: 2, high: 3, urgent: 4 };
+
+// Missing values (no priority, no due date) sort last
+const SORT_KEYS: Record<Exclude<TodoSortOrder, 'manual'>, TodoComparator> = {
+  priority: (a, b) => (b.priority ? PRIORITY_RANK[b.priority] : 0) - (a.priority ? PRIORITY_RANK[a.priority] : 0),
+  dueDate: (a, b) => {
+    if (!a.dueDate || !b.dueDate) {
+      return (a.dueDate ? 0 : 1) - (b.dueDate ? 0 : 1);
+    }
+    return a.dueDate.getTime() - b.dueDate.getTime();
+  },
+  createdAt: (a, b) => a.createdAt.getTime() - b.createdAt.getTime(),
+};
+
+const SORT_KEY_ORDER = Object.keys(SORT_KEYS) as Exclude<TodoSortOrder, 'manual'>[];
+
+// Array.prototype.sort is stable, so todos that tie on every key keep their order
+export const sortTodos = (todos: Todo[], sortOrder: TodoSortOrder): Todo[] => {
+  if (sortOrder === 'manual') {
+    return todos;
+  }
+
+  const comparators = [sortOrder, ...SORT_KEY_ORDER.filter(key => key !== sortOrder)].map(key => SORT_KEYS[key]);
+  return [...todos].sort((a, b) => {
+    for (const compare of comparators) {
+      const difference = compare(a, b);
+      if (difference !== 0) {
+        return difference;
+      }
+    }
+    return 0;
+  });
+};
+
+const visibleTodos = memoize((todos: Todo[], filter: TodoFilter, tagFilter: TodoTagFilter, sortOrder: TodoSortOrder): Todo[] =>
+  sortTodos(filterTodosByTags(filterTodos(todos, filter), tagFilter), sortOrder)
+);
+
+const tagIndex = memoize((todos: Todo[]): TodoTagCount[] => {
+  const counts = new Map<string, number>();
+  todos.forEach(todo => todo.tags?.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+
+  return Array.from(counts, ([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+});
+
+// Known tags that start with what has been typed so far, most used first
+export const suggestTags = (index: TodoTagCount[], typed: string, limit = 5): TodoTagCount[] => {
+  const prefix = normalizeTag(typed);
+  return index.filter(({ tag }) => tag.startsWith(prefix) && tag !== prefix).slice(0, limit);
+};
+
+const todoCounts = memoize((todos: Todo[]): TodoCounts => {
+  const completed = todos.filter(todo => todo.completed).length;
+  return { total: todos.length, active: todos.length - completed, completed };
+});
+
+// Ignores ids of todos that no longer exist (an undo can take a selected todo away)
+const selectedTodos = memoize((todos: Todo[], selectedIds: string[]): Todo[] => {
+  const selected = new Set(selectedIds);
+  return todos.filter(todo => selected.has(todo.id));
+});
+
+// Keyed on the start of today so the groups are only rebuilt when the day changes
+const dueGroups = memoize((todos: Todo[], today: number): TodoDueGroups => {
+  const now = new Date(today);
+  const groups: TodoDueGroups = { overdue: [], today: [], upcoming: [] };
+
+  todos
+    .filter(todo => todo.dueDate)
+    .sort((a, b) => a.dueDate!.getTime() - b.dueDate!.getTime())
+    .forEach(todo => {
+      const status = dueStatus(todo, now);
+      if (status) {
+        groups[status].push(todo);
+      }
+    });
+
+  return groups;
+});
+
+export const selectVisibleTodos = (state: Pick<TodoState, 'todos' | 'filter' | 'tagFilter' | 'sortOrder'>): Todo[] =>
+  visibleTodos(state.todos, state.filter, state.tagFilter, state.sortOrder);
+
+export const selectTagIndex = (state: Pick<TodoState, 'todos'>): TodoTagCount[] => tagIndex(state.todos);
+
+export const selectTodoCounts = (state: Pick<TodoState, 'todos'>): TodoCounts => todoCounts(state.todos);
+
+export const selectSelectedTodos = (state: Pick<TodoState, 'todos' | 'selectedIds'>): Todo[] =>
+  selectedTodos(state.todos, state.selectedIds);
+
+export const selectDueGroups = (state: Pick<TodoState, 'todos' | 'now'>): TodoDueGroups =>
+  dueGroups(state.todos, startOfDay(state.now()).getTime());
\ No newline at end of file
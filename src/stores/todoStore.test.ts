@@ -2,6 +2,15 @@ import { act } from '@testing-library/react';
 import { createTodoStore, TodoStore } from './todoStore';
 import { MockLoggingService } from '../test-utils/MockLoggingService';
 import { ILoggingService } from '../services/LoggingService';
+import { InMemoryTodoRepository } from '../repositories/InMemoryTodoRepository';
+import { LocalStorageTodoRepository } from '../repositories/LocalStorageTodoRepository';
+import { ITodoRepository } from '../repositories/TodoRepository';
+import { Todo } from '../types';
+import { TodoMigrationError } from '../migrations/TodoMigrationRegistry';
+import { FixedClock } from '../services/Clock';
+import { SequentialIdGenerator } from '../services/IdGenerator';
+import { InMemoryTodoPreferences } from '../services/TodoPreferences';
+import { selectDueGroups, selectTagIndex, selectVisibleTodos } from './todoSelectors';
 
 describe('TodoStore', () => {
   let mockLoggingService: MockLoggingService;
@@ -26,8 +35,34 @@ describe('TodoStore', () => {
       const state = todoStore.getState();
       expect(typeof state.addTodo).toBe('function');
       expect(typeof state.toggleTodo).toBe('function');
+      expect(typeof state.updateTodo).toBe('function');
       expect(typeof state.removeTodo).toBe('function');
+      expect(typeof state.importTodos).toBe('function');
       expect(typeof state.loadTodos).toBe('function');
+      expect(typeof state.setFilter).toBe('function');
+      expect(typeof state.setSortOrder).toBe('function');
+      expect(typeof state.toggleTagFilter).toBe('function');
+      expect(typeof state.setTagMatch).toBe('function');
+      expect(typeof state.clearTagFilter).toBe('function');
+      expect(typeof state.toggleAll).toBe('function');
+      expect(typeof state.clearCompleted).toBe('function');
+      expect(typeof state.selectTodo).toBe('function');
+      expect(typeof state.clearSelection).toBe('function');
+      expect(typeof state.completeSelected).toBe('function');
+      expect(typeof state.removeSelected).toBe('function');
+      expect(typeof state.retagSelected).toBe('function');
+      expect(typeof state.addSubtask).toBe('function');
+      expect(typeof state.toggleSubtask).toBe('function');
+      expect(typeof state.removeSubtask).toBe('function');
+      expect(typeof state.now).toBe('function');
+      expect(typeof state.undo).toBe('function');
+      expect(typeof state.redo).toBe('function');
+    });
+
+    it('is not loading and has no error', () => {
+      const state = todoStore.getState();
+      expect(state.isLoading).toBe(false);
+      expect(state.error).toBeNull();
     });
   });
 
@@ -140,6 +175,18 @@ describe('TodoStore', () => {
       expect(todoStore.getState().todos[0].completed).toBe(false);
     });
 
+    it('records when the todo was completed and clears it when reopened', () => {
+      act(() => {
+        todoStore.getState().toggleTodo(todoId);
+      });
+      expect(todoStore.getState().todos[0].completedAt).toBeInstanceOf(Date);
+
+      act(() => {
+        todoStore.getState().toggleTodo(todoId);
+      });
+      expect(todoStore.getState().todos[0].completedAt).toBeUndefined();
+    });
+
     it('logs when todo is toggled', () => {
       act(() => {
         todoStore.getState().toggleTodo(todoId);
@@ -179,6 +226,87 @@ describe('TodoStore', () => {
     });
   });
 
+  describe('updateTodo', () => {
+    let todoId: string;
+
+    beforeEach(() => {
+      act(() => {
+        todoStore.getState().addTodo('Fix the typpo');
+      });
+      todoId = todoStore.getState().todos[0].id;
+      mockLoggingService.clear();
+    });
+
+    it('updates the text, trimming it like addTodo', () => {
+      act(() => {
+        todoStore.getState().updateTodo(todoId, { text: '  Fix the typo  ' });
+      });
+
+      expect(todoStore.getState().todos[0]).toMatchObject({ id: todoId, text: 'Fix the typo', version: 2 });
+      expect(mockLoggingService.getLastInfoLog()).toEqual({
+        message: 'Todo updated',
+        data: { id: todoId, text: 'Fix the typo' }
+      });
+    });
+
+    it('rejects empty text and keeps the todo', () => {
+      act(() => {
+        todoStore.getState().updateTodo(todoId, { text: '   ' });
+      });
+
+      expect(todoStore.getState().todos[0].text).toBe('Fix the typpo');
+      expect(mockLoggingService.getLastWarnLog()).toEqual({
+        message: 'Todo update ignored: text is empty',
+        data: { id: todoId }
+      });
+    });
+
+    it('stamps the completion time when a patch completes the todo', () => {
+      act(() => {
+        todoStore.getState().updateTodo(todoId, { completed: true });
+      });
+
+      expect(todoStore.getState().todos[0].completed).toBe(true);
+      expect(todoStore.getState().todos[0].completedAt).toBeInstanceOf(Date);
+    });
+
+    it('forgets an imported todo.txt letter once the priority changes', () => {
+      act(() => {
+        todoStore.getState().importTodos([{ text: 'Someday', completed: false, priority: 'low', priorityLetter: 'E' }]);
+      });
+      const imported = todoStore.getState().todos[1];
+
+      act(() => {
+        todoStore.getState().updateTodo(imported.id, { priority: 'low' });
+        todoStore.getState().updateTodo(imported.id, { priority: 'high' });
+      });
+
+      expect(todoStore.getState().todos[1]).toMatchObject({ priority: 'high', priorityLetter: undefined, version: 2 });
+    });
+
+    it('does nothing when the patch changes nothing', () => {
+      const todosBefore = todoStore.getState().todos;
+
+      act(() => {
+        todoStore.getState().updateTodo(todoId, { text: 'Fix the typpo' });
+      });
+
+      expect(todoStore.getState().todos).toBe(todosBefore);
+      expect(mockLoggingService.getTotalLogCount()).toBe(0);
+    });
+
+    it('logs a warning for an unknown todo', () => {
+      act(() => {
+        todoStore.getState().updateTodo('non-existent-id', { text: 'Anything' });
+      });
+
+      expect(mockLoggingService.getLastWarnLog()).toEqual({
+        message: 'Todo not found for update',
+        data: { id: 'non-existent-id' }
+      });
+    });
+  });
+
   describe('removeTodo', () => {
     let todoId: string;
 
@@ -247,25 +375,1527 @@ describe('TodoStore', () => {
     });
   });
 
-  describe('loadTodos', () => {
-    it('logs when todos are loaded', () => {
+  describe('importTodos', () => {
+    it('appends imported todos with fresh ids and logs a single entry', () => {
       act(() => {
-        todoStore.getState().loadTodos();
+        todoStore.getState().addTodo('Existing');
+        todoStore.getState().importTodos([
+          { text: 'Imported open', completed: false },
+          { text: '  Imported done  ', completed: true, createdAt: new Date('2023-12-24T18:00:00.000Z') },
+        ]);
       });
 
+      const todos = todoStore.getState().todos;
+      expect(todos.map(todo => todo.text)).toEqual(['Existing', 'Imported open', 'Imported done']);
+      expect(todos[2]).toMatchObject({ completed: true, createdAt: new Date('2023-12-24T18:00:00.000Z') });
+      expect(new Set(todos.map(todo => todo.id)).size).toBe(3);
       expect(mockLoggingService.getLastInfoLog()).toEqual({
-        message: 'Todos loaded',
-        data: { count: 0 }
+        message: 'Todos imported',
+        data: { count: 2 }
       });
     });
 
-    it('can be called multiple times without side effects', () => {
+    it('keeps the details an import format carries', () => {
+      const completedAt = new Date('2024-03-02T00:00:00.000Z');
       act(() => {
-        todoStore.getState().loadTodos();
-        todoStore.getState().loadTodos();
+        todoStore.getState().importTodos([
+          { text: 'Call Mom +Family @phone', completed: true, completedAt, priority: 'urgent', projects: ['Family'], contexts: ['phone'] },
+        ]);
       });
 
-      expect(mockLoggingService.infoLogs.filter(log => log.message === 'Todos loaded')).toHaveLength(2);
+      expect(todoStore.getState().todos[0]).toMatchObject({
+        text: 'Call Mom +Family @phone',
+        completed: true,
+        completedAt,
+        priority: 'urgent',
+        projects: ['Family'],
+        contexts: ['phone'],
+      });
+    });
+
+    it('gives subtasks read without ids fresh ones, and keeps the ids a format carries', () => {
+      act(() => {
+        todoStore.getState().importTodos([
+          { text: 'Pack', completed: false, subtasks: [{ text: 'Socks', completed: true }, { id: 'kept', text: 'Shoes', completed: false }] },
+        ]);
+      });
+
+      const [todo] = todoStore.getState().todos;
+      expect(todo.subtasks).toEqual([
+        { id: expect.any(String), text: 'Socks', completed: true },
+        { id: 'kept', text: 'Shoes', completed: false },
+      ]);
+      expect(todo.subtasks![0].id).not.toBe(todo.id);
+    });
+
+    it('ignores drafts without text and does nothing for an empty import', () => {
+      act(() => {
+        todoStore.getState().importTodos([{ text: '   ', completed: false }]);
+      });
+
+      expect(todoStore.getState().todos).toEqual([]);
+      expect(mockLoggingService.getTotalLogCount()).toBe(0);
+    });
+  });
+
+  describe('setFilter', () => {
+    it('shows all todos by default', () => {
+      expect(todoStore.getState().filter).toBe('all');
+    });
+
+    it('changes the filter and logs it once', () => {
+      act(() => {
+        todoStore.getState().setFilter('completed');
+        todoStore.getState().setFilter('completed');
+      });
+
+      expect(todoStore.getState().filter).toBe('completed');
+      expect(mockLoggingService.infoLogs).toEqual([
+        { message: 'Todo filter changed', data: { filter: 'completed' } }
+      ]);
+    });
+
+    it('is not an undoable change', () => {
+      act(() => {
+        todoStore.getState().setFilter('active');
+      });
+
+      expect(todoStore.getState().canUndo).toBe(false);
+    });
+  });
+
+  describe('Sorting', () => {
+    const createStore = (preferences = new InMemoryTodoPreferences()) =>
+      createTodoStore(mockLoggingService, undefined, undefined, undefined, undefined, undefined, preferences);
+
+    it('keeps the order todos were added in by default', () => {
+      expect(todoStore.getState().sortOrder).toBe('manual');
+    });
+
+    it('adds a todo with a priority', () => {
+      act(() => {
+        todoStore.getState().addTodo('Fix the build', { priority: 'urgent' });
+      });
+
+      expect(todoStore.getState().todos[0].priority).toBe('urgent');
+      expect(mockLoggingService.getLastInfoLog()).toEqual({
+        message: 'Todo added',
+        data: expect.objectContaining({ priority: 'urgent' })
+      });
+    });
+
+    it('sorts the visible todos by the chosen order', () => {
+      act(() => {
+        todoStore.getState().addTodo('Someday');
+        todoStore.getState().addTodo('Soon', { priority: 'high' });
+        todoStore.getState().addTodo('Now', { priority: 'urgent' });
+        todoStore.getState().setSortOrder('priority');
+      });
+
+      expect(selectVisibleTodos(todoStore.getState()).map(todo => todo.text)).toEqual(['Now', 'Soon', 'Someday']);
+      // Sorting only changes what is shown
+      expect(todoStore.getState().todos.map(todo => todo.text)).toEqual(['Someday', 'Soon', 'Now']);
+    });
+
+    it('logs a change of sort order once and does not make it undoable', () => {
+      act(() => {
+        todoStore.getState().setSortOrder('dueDate');
+        todoStore.getState().setSortOrder('dueDate');
+      });
+
+      expect(mockLoggingService.infoLogs).toEqual([
+        { message: 'Todo sort order changed', data: { sortOrder: 'dueDate' } }
+      ]);
+      expect(todoStore.getState().canUndo).toBe(false);
+    });
+
+    it('remembers the sort order for the next session', () => {
+      const preferences = new InMemoryTodoPreferences();
+
+      act(() => {
+        createStore(preferences).getState().setSortOrder('createdAt');
+      });
+
+      expect(createStore(preferences).getState().sortOrder).toBe('createdAt');
+    });
+
+    it('ignores a stored sort order it does not know', () => {
+      const preferences = new InMemoryTodoPreferences();
+      preferences.set('sortOrder', 'alphabetical');
+
+      expect(createStore(preferences).getState().sortOrder).toBe('manual');
+    });
+
+    it('still changes the order when it cannot be saved', () => {
+      const preferences = new InMemoryTodoPreferences();
+      jest.spyOn(preferences, 'set').mockImplementation(() => {
+        throw new Error('Quota exceeded');
+      });
+      const store = createStore(preferences);
+
+      act(() => {
+        store.getState().setSortOrder('priority');
+      });
+
+      expect(store.getState().sortOrder).toBe('priority');
+      expect(mockLoggingService.warnLogs).toEqual([
+        { message: 'Todo sort order not saved', data: { message: 'Quota exceeded' } }
+      ]);
+    });
+  });
+
+  describe('Tags', () => {
+    const visibleTexts = () => selectVisibleTodos(todoStore.getState()).map(todo => todo.text);
+
+    it('moves #tags typed into the text onto the todo', () => {
+      act(() => {
+        todoStore.getState().addTodo('Call #Work the #dentist today #work');
+      });
+
+      const [todo] = todoStore.getState().todos;
+      expect(todo.text).toBe('Call the today');
+      expect(todo.tags).toEqual(['work', 'dentist']);
+      expect(mockLoggingService.getLastInfoLog()).toEqual({
+        message: 'Todo added',
+        data: expect.objectContaining({ tags: ['work', 'dentist'] })
+      });
+    });
+
+    it('keeps "#" inside a word and ignores a todo that is only tags', () => {
+      act(() => {
+        todoStore.getState().addTodo('Fix issue#12');
+        todoStore.getState().addTodo('#work #home');
+      });
+
+      expect(todoStore.getState().todos).toHaveLength(1);
+      expect(todoStore.getState().todos[0]).toMatchObject({ text: 'Fix issue#12' });
+      expect(todoStore.getState().todos[0].tags).toBeUndefined();
+    });
+
+    it('adds #tags typed while editing to the existing ones', () => {
+      act(() => {
+        todoStore.getState().addTodo('Report #work');
+      });
+      const { id } = todoStore.getState().todos[0];
+
+      act(() => {
+        todoStore.getState().updateTodo(id, { text: 'Quarterly report #finance' });
+      });
+
+      expect(todoStore.getState().todos[0]).toMatchObject({ text: 'Quarterly report', tags: ['work', 'finance'] });
+    });
+
+    it('replaces the tags when given a list and drops an empty one', () => {
+      act(() => {
+        todoStore.getState().addTodo('Report #work');
+      });
+      const { id } = todoStore.getState().todos[0];
+
+      act(() => {
+        todoStore.getState().updateTodo(id, { tags: ['#Home', 'home'] });
+      });
+      expect(todoStore.getState().todos[0].tags).toEqual(['home']);
+
+      act(() => {
+        todoStore.getState().updateTodo(id, { tags: [] });
+      });
+      expect(todoStore.getState().todos[0].tags).toBeUndefined();
+    });
+
+    it('filters by tags with AND or OR semantics', () => {
+      act(() => {
+        todoStore.getState().addTodo('Both #work #urgent');
+        todoStore.getState().addTodo('Work #work');
+        todoStore.getState().addTodo('Urgent #urgent');
+        todoStore.getState().addTodo('Plain');
+        todoStore.getState().toggleTagFilter('#Work');
+        todoStore.getState().toggleTagFilter('urgent');
+      });
+
+      expect(visibleTexts()).toEqual(['Both']);
+
+      act(() => {
+        todoStore.getState().setTagMatch('any');
+      });
+      expect(visibleTexts()).toEqual(['Both', 'Work', 'Urgent']);
+
+      act(() => {
+        todoStore.getState().toggleTagFilter('work');
+      });
+      expect(visibleTexts()).toEqual(['Both', 'Urgent']);
+
+      act(() => {
+        todoStore.getState().clearTagFilter();
+      });
+      expect(visibleTexts()).toEqual(['Both', 'Work', 'Urgent', 'Plain']);
+    });
+
+    it('logs tag filter changes and does not make them undoable', () => {
+      act(() => {
+        todoStore.getState().toggleTagFilter('work');
+        todoStore.getState().setTagMatch('any');
+        todoStore.getState().setTagMatch('any');
+        todoStore.getState().clearTagFilter();
+        todoStore.getState().clearTagFilter();
+      });
+
+      expect(mockLoggingService.infoLogs).toEqual([
+        { message: 'Todo tag filter changed', data: { tags: ['work'], match: 'all' } },
+        { message: 'Todo tag filter changed', data: { tags: ['work'], match: 'any' } },
+        { message: 'Todo tag filter changed', data: { tags: [], match: 'any' } },
+      ]);
+      expect(todoStore.getState().canUndo).toBe(false);
+    });
+
+    it('keeps a tag index with usage counts', () => {
+      act(() => {
+        todoStore.getState().addTodo('A #work #home');
+        todoStore.getState().addTodo('B #work');
+      });
+
+      expect(selectTagIndex(todoStore.getState())).toEqual([
+        { tag: 'work', count: 2 },
+        { tag: 'home', count: 1 },
+      ]);
+    });
+  });
+
+  describe('Subtasks', () => {
+    let parentId: string;
+    const parent = () => todoStore.getState().todos[0];
+    const subtaskId = (text: string) => parent().subtasks!.find(subtask => subtask.text === text)!.id;
+
+    beforeEach(() => {
+      act(() => {
+        todoStore.getState().addTodo('Plan the trip');
+      });
+      parentId = parent().id;
+      mockLoggingService.clear();
+    });
+
+    it('adds checklist items and logs them with the parent id', () => {
+      act(() => {
+        todoStore.getState().addSubtask(parentId, '  Book flights ');
+        todoStore.getState().addSubtask(parentId, 'Book hotel');
+      });
+
+      expect(parent().subtasks).toEqual([
+        { id: expect.any(String), text: 'Book flights', completed: false },
+        { id: expect.any(String), text: 'Book hotel', completed: false },
+      ]);
+      expect(parent().version).toBe(3);
+      expect(mockLoggingService.infoLogs[0]).toEqual({
+        message: 'Subtask added',
+        data: { parentId, id: subtaskId('Book flights'), text: 'Book flights' }
+      });
+    });
+
+    it('ignores empty items and unknown parents', () => {
+      act(() => {
+        todoStore.getState().addSubtask(parentId, '  ');
+        todoStore.getState().addSubtask('missing', 'Book flights');
+      });
+
+      expect(parent().subtasks).toBeUndefined();
+      expect(mockLoggingService.warnLogs).toEqual([
+        { message: 'Subtask not added: text is empty', data: { parentId } },
+        { message: 'Todo not found for subtask', data: { parentId: 'missing' } },
+      ]);
+    });
+
+    it('completes the todo when the last item is done and reopens it when one is undone', () => {
+      act(() => {
+        todoStore.getState().addSubtask(parentId, 'Book flights');
+        todoStore.getState().addSubtask(parentId, 'Book hotel');
+        todoStore.getState().toggleSubtask(parentId, subtaskId('Book flights'));
+      });
+      expect(parent().completed).toBe(false);
+
+      act(() => {
+        todoStore.getState().toggleSubtask(parentId, subtaskId('Book hotel'));
+      });
+      expect(parent()).toMatchObject({ completed: true, completedAt: expect.any(Date) });
+      expect(mockLoggingService.getLastInfoLog()).toEqual({
+        message: 'Subtask toggled',
+        data: { parentId, id: subtaskId('Book hotel'), completed: true, parentCompleted: true }
+      });
+
+      act(() => {
+        todoStore.getState().toggleSubtask(parentId, subtaskId('Book flights'));
+      });
+      expect(parent().completed).toBe(false);
+      expect(parent().completedAt).toBeUndefined();
+      expect(mockLoggingService.getLastInfoLog()).toEqual({
+        message: 'Subtask toggled',
+        data: { parentId, id: subtaskId('Book flights'), completed: false, parentCompleted: false }
+      });
+    });
+
+    it('removes items, dropping an emptied checklist', () => {
+      act(() => {
+        todoStore.getState().addSubtask(parentId, 'Book flights');
+      });
+      const id = subtaskId('Book flights');
+
+      act(() => {
+        todoStore.getState().removeSubtask(parentId, id);
+        todoStore.getState().removeSubtask(parentId, id);
+      });
+
+      expect(parent().subtasks).toBeUndefined();
+      expect(mockLoggingService.getLastInfoLog()).toEqual({ message: 'Subtask removed', data: { parentId, id } });
+      expect(mockLoggingService.getLastWarnLog()).toEqual({ message: 'Subtask not found for removal', data: { parentId, id } });
+    });
+
+    it('undoes checklist changes like any other edit', () => {
+      act(() => {
+        todoStore.getState().addSubtask(parentId, 'Book flights');
+        todoStore.getState().toggleSubtask(parentId, subtaskId('Book flights'));
+        todoStore.getState().undo();
+      });
+
+      expect(parent().completed).toBe(false);
+      expect(parent().subtasks).toEqual([{ id: expect.any(String), text: 'Book flights', completed: false }]);
+    });
+  });
+
+  describe('Bulk actions', () => {
+    const texts = () => todoStore.getState().todos.map(todo => todo.text);
+    const idOf = (text: string) => todoStore.getState().todos.find(todo => todo.text === text)!.id;
+
+    beforeEach(() => {
+      act(() => {
+        todoStore.getState().importTodos([
+          { text: 'One', completed: false },
+          { text: 'Two', completed: true },
+          { text: 'Three', completed: false },
+          { text: 'Four', completed: false },
+        ]);
+      });
+      mockLoggingService.clear();
+    });
+
+    it('toggleAll completes every todo with a single log entry', () => {
+      act(() => {
+        todoStore.getState().toggleAll();
+      });
+
+      expect(todoStore.getState().todos.every(todo => todo.completed)).toBe(true);
+      expect(todoStore.getState().todos.find(todo => todo.text === 'One')!.completedAt).toBeInstanceOf(Date);
+      expect(mockLoggingService.infoLogs).toEqual([
+        { message: 'All todos toggled', data: { completed: true, count: 3 } }
+      ]);
+    });
+
+    it('toggleAll reopens every todo when all are complete', () => {
+      act(() => {
+        todoStore.getState().toggleAll();
+        todoStore.getState().toggleAll();
+      });
+
+      expect(todoStore.getState().todos.some(todo => todo.completed || todo.completedAt)).toBe(false);
+      expect(mockLoggingService.getLastInfoLog()).toEqual({
+        message: 'All todos toggled',
+        data: { completed: false, count: 4 }
+      });
+    });
+
+    it('clearCompleted removes completed todos and is one undo step', () => {
+      act(() => {
+        todoStore.getState().clearCompleted();
+      });
+
+      expect(texts()).toEqual(['One', 'Three', 'Four']);
+      expect(mockLoggingService.infoLogs).toEqual([
+        { message: 'Completed todos cleared', data: { count: 1 } }
+      ]);
+
+      act(() => {
+        todoStore.getState().undo();
+      });
+      expect(texts()).toEqual(['One', 'Two', 'Three', 'Four']);
+    });
+
+    it('clearCompleted does nothing when no todo is completed', () => {
+      act(() => {
+        todoStore.getState().toggleTodo(idOf('Two'));
+      });
+      mockLoggingService.clear();
+
+      act(() => {
+        todoStore.getState().clearCompleted();
+      });
+
+      expect(texts()).toHaveLength(4);
+      expect(mockLoggingService.getTotalLogCount()).toBe(0);
+    });
+
+    it('selectTodo toggles todos in and out of the selection', () => {
+      act(() => {
+        todoStore.getState().selectTodo(idOf('One'));
+        todoStore.getState().selectTodo(idOf('Three'));
+        todoStore.getState().selectTodo(idOf('One'));
+      });
+
+      expect(todoStore.getState().selectedIds).toEqual([idOf('Three')]);
+    });
+
+    it('selectTodo selects a range from the last toggled todo in either direction', () => {
+      act(() => {
+        todoStore.getState().selectTodo(idOf('Four'));
+        todoStore.getState().selectTodo(idOf('Two'), 'range');
+      });
+
+      expect(todoStore.getState().selectedIds).toEqual([idOf('Two'), idOf('Three'), idOf('Four')]);
+    });
+
+    it('selects ranges among the visible todos only', () => {
+      act(() => {
+        todoStore.getState().setFilter('active');
+        todoStore.getState().selectTodo(idOf('One'));
+        todoStore.getState().selectTodo(idOf('Four'), 'range');
+      });
+
+      expect(todoStore.getState().selectedIds).toEqual([idOf('One'), idOf('Three'), idOf('Four')]);
+    });
+
+    it('treats a range click without an anchor as a toggle', () => {
+      act(() => {
+        todoStore.getState().selectTodo(idOf('Three'), 'range');
+      });
+
+      expect(todoStore.getState().selectedIds).toEqual([idOf('Three')]);
+      expect(todoStore.getState().selectionAnchorId).toBe(idOf('Three'));
+    });
+
+    it('selection changes do not discard redo steps', () => {
+      act(() => {
+        todoStore.getState().clearCompleted();
+        todoStore.getState().undo();
+        todoStore.getState().selectTodo(idOf('One'));
+        todoStore.getState().clearSelection();
+      });
+
+      expect(todoStore.getState().canRedo).toBe(true);
+    });
+
+    it('completeSelected completes or reopens only the selected todos', () => {
+      act(() => {
+        todoStore.getState().selectTodo(idOf('One'));
+        todoStore.getState().selectTodo(idOf('Two'));
+        todoStore.getState().completeSelected();
+      });
+
+      expect(todoStore.getState().todos.map(todo => todo.completed)).toEqual([true, true, false, false]);
+      expect(mockLoggingService.infoLogs).toEqual([
+        { message: 'Selected todos completed', data: { count: 1 } }
+      ]);
+
+      act(() => {
+        todoStore.getState().completeSelected(false);
+      });
+
+      expect(todoStore.getState().todos.map(todo => todo.completed)).toEqual([false, false, false, false]);
+      expect(mockLoggingService.getLastInfoLog()).toEqual({
+        message: 'Selected todos reopened',
+        data: { count: 2 }
+      });
+    });
+
+    it('removeSelected removes the selected todos and clears the selection', () => {
+      act(() => {
+        todoStore.getState().selectTodo(idOf('One'));
+        todoStore.getState().selectTodo(idOf('Three'), 'range');
+        todoStore.getState().removeSelected();
+      });
+
+      expect(texts()).toEqual(['Four']);
+      expect(todoStore.getState().selectedIds).toEqual([]);
+      expect(mockLoggingService.infoLogs).toEqual([
+        { message: 'Selected todos removed', data: { count: 3 } }
+      ]);
+    });
+
+    it('removing a todo drops it from the selection', () => {
+      act(() => {
+        todoStore.getState().selectTodo(idOf('One'));
+        todoStore.getState().selectTodo(idOf('Two'));
+        todoStore.getState().removeTodo(idOf('Two'));
+      });
+
+      expect(todoStore.getState().selectedIds).toEqual([idOf('One')]);
+    });
+
+    it('retagSelected adds and removes normalised tags on the selected todos', () => {
+      act(() => {
+        todoStore.getState().selectTodo(idOf('One'));
+        todoStore.getState().selectTodo(idOf('Two'));
+        todoStore.getState().retagSelected({ add: ['#work', ' home ', 'work', ''] });
+      });
+
+      const tagsOf = (text: string) => todoStore.getState().todos.find(todo => todo.text === text)!.tags;
+      expect(tagsOf('One')).toEqual(['work', 'home']);
+      expect(tagsOf('Two')).toEqual(['work', 'home']);
+      expect(tagsOf('Three')).toBeUndefined();
+      expect(mockLoggingService.infoLogs).toEqual([
+        { message: 'Selected todos retagged', data: { count: 2, added: ['work', 'home'], removed: [] } }
+      ]);
+
+      act(() => {
+        todoStore.getState().retagSelected({ remove: ['#work', 'home'] });
+      });
+
+      expect(tagsOf('One')).toBeUndefined();
+      expect(mockLoggingService.getLastInfoLog()).toEqual({
+        message: 'Selected todos retagged',
+        data: { count: 2, added: [], removed: ['work', 'home'] }
+      });
+    });
+
+    it('bulk actions without a selection change nothing', () => {
+      act(() => {
+        todoStore.getState().completeSelected();
+        todoStore.getState().removeSelected();
+        todoStore.getState().retagSelected({ add: ['work'] });
+      });
+
+      expect(texts()).toHaveLength(4);
+      expect(todoStore.getState().canUndo).toBe(true);
+      expect(mockLoggingService.getTotalLogCount()).toBe(0);
+    });
+  });
+
+  describe('Due dates', () => {
+    let clock: FixedClock;
+    const day = 24 * 60 * 60 * 1000;
+
+    beforeEach(() => {
+      clock = new FixedClock(new Date(2024, 2, 2, 9, 0));
+      todoStore = createTodoStore(mockLoggingService, undefined, undefined, undefined, clock);
+    });
+
+    it('stamps todos with the injected clock', () => {
+      act(() => {
+        todoStore.getState().addTodo('Frozen');
+      });
+      clock.advance(60 * 1000);
+      act(() => {
+        todoStore.getState().toggleTodo(todoStore.getState().todos[0].id);
+      });
+
+      expect(todoStore.getState().todos[0]).toMatchObject({
+        createdAt: new Date(2024, 2, 2, 9, 0),
+        completedAt: new Date(2024, 2, 2, 9, 1),
+        updatedAt: new Date(2024, 2, 2, 9, 1),
+      });
+    });
+
+    it('takes ids from the injected generator', () => {
+      const store = createTodoStore(mockLoggingService, undefined, undefined, undefined, clock, new SequentialIdGenerator());
+
+      act(() => {
+        store.getState().addTodo('First');
+        store.getState().importTodos([{ text: 'Second', completed: false }]);
+      });
+
+      expect(store.getState().todos.map(todo => todo.id)).toEqual(['todo-1', 'todo-2']);
+    });
+
+    it('adds a todo with a due date', () => {
+      act(() => {
+        todoStore.getState().addTodo('Pay rent', { dueDate: new Date(2024, 2, 5) });
+      });
+
+      expect(todoStore.getState().todos[0].dueDate).toEqual(new Date(2024, 2, 5));
+      expect(mockLoggingService.getLastInfoLog()).toEqual({
+        message: 'Todo added',
+        data: expect.objectContaining({ text: 'Pay rent', dueDate: new Date(2024, 2, 5) })
+      });
+    });
+
+    it('changes and clears the due date through updateTodo', () => {
+      act(() => {
+        todoStore.getState().addTodo('Pay rent', { dueDate: new Date(2024, 2, 5) });
+      });
+      const id = todoStore.getState().todos[0].id;
+      mockLoggingService.clear();
+
+      act(() => {
+        // Picking the same day again is not an edit
+        todoStore.getState().updateTodo(id, { dueDate: new Date(2024, 2, 5) });
+      });
+      expect(mockLoggingService.getTotalLogCount()).toBe(0);
+
+      act(() => {
+        todoStore.getState().updateTodo(id, { dueDate: new Date(2024, 2, 1) });
+      });
+      expect(todoStore.getState().todos[0].dueDate).toEqual(new Date(2024, 2, 1));
+
+      act(() => {
+        todoStore.getState().updateTodo(id, { dueDate: undefined });
+      });
+      expect(todoStore.getState().todos[0].dueDate).toBeUndefined();
+    });
+
+    it('groups todos into overdue, today and upcoming by the store clock', () => {
+      act(() => {
+        todoStore.getState().addTodo('Yesterday', { dueDate: new Date(2024, 2, 1) });
+        todoStore.getState().addTodo('Today', { dueDate: new Date(2024, 2, 2) });
+        todoStore.getState().addTodo('Tomorrow', { dueDate: new Date(2024, 2, 3) });
+        todoStore.getState().addTodo('Someday');
+      });
+      const texts = (todos: Todo[]) => todos.map(todo => todo.text);
+
+      let groups = selectDueGroups(todoStore.getState());
+      expect(texts(groups.overdue)).toEqual(['Yesterday']);
+      expect(texts(groups.today)).toEqual(['Today']);
+      expect(texts(groups.upcoming)).toEqual(['Tomorrow']);
+
+      clock.advance(day);
+      groups = selectDueGroups(todoStore.getState());
+      expect(texts(groups.overdue)).toEqual(['Yesterday', 'Today']);
+      expect(texts(groups.today)).toEqual(['Tomorrow']);
+      expect(groups.upcoming).toEqual([]);
+    });
+
+    it('drops completed todos from the groups', () => {
+      act(() => {
+        todoStore.getState().addTodo('Yesterday', { dueDate: new Date(2024, 2, 1) });
+        todoStore.getState().toggleTodo(todoStore.getState().todos[0].id);
+      });
+
+      expect(selectDueGroups(todoStore.getState()).overdue).toEqual([]);
+    });
+  });
+
+  describe('Manual order', () => {
+    const texts = () => todoStore.getState().todos.map(todo => todo.text);
+    const idOf = (text: string) => todoStore.getState().todos.find(todo => todo.text === text)!.id;
+
+    beforeEach(() => {
+      act(() => {
+        ['A', 'B', 'C', 'D'].forEach(text => todoStore.getState().addTodo(text));
+      });
+      mockLoggingService.clear();
+    });
+
+    it('keys todos in the order they are added', () => {
+      expect(todoStore.getState().todos.map(todo => todo.order)).toEqual(['a0', 'a1', 'a2', 'a3']);
+    });
+
+    it('moves a todo in front of another, re-keying only that todo', () => {
+      const before = todoStore.getState().todos;
+
+      act(() => {
+        todoStore.getState().moveTodo(idOf('D'), idOf('B'));
+      });
+
+      expect(texts()).toEqual(['A', 'D', 'B', 'C']);
+      const [a, d, b, c] = todoStore.getState().todos;
+      expect([a, b, c]).toEqual([before[0], before[1], before[2]]);
+      expect(d).toMatchObject({ order: 'a0V', version: 2 });
+      expect(mockLoggingService.infoLogs).toEqual([
+        { message: 'Todo moved', data: { id: d.id, beforeId: b.id, order: 'a0V' } }
+      ]);
+    });
+
+    it('moves a todo down, and to the end for null', () => {
+      act(() => {
+        todoStore.getState().moveTodo(idOf('A'), idOf('D'));
+      });
+      expect(texts()).toEqual(['B', 'C', 'A', 'D']);
+
+      act(() => {
+        todoStore.getState().moveTodo(idOf('B'), null);
+      });
+      expect(texts()).toEqual(['C', 'A', 'D', 'B']);
+      expect(todoStore.getState().todos.map(todo => todo.order)).toEqual(['a2', 'a2V', 'a3', 'a4']);
+    });
+
+    it('does nothing when the todo is already there', () => {
+      act(() => {
+        todoStore.getState().moveTodo(idOf('B'), idOf('C'));
+        todoStore.getState().moveTodo(idOf('D'), null);
+      });
+
+      expect(texts()).toEqual(['A', 'B', 'C', 'D']);
+      expect(mockLoggingService.getTotalLogCount()).toBe(0);
+    });
+
+    it('warns about todos it cannot find', () => {
+      act(() => {
+        todoStore.getState().moveTodo('missing', idOf('A'));
+        todoStore.getState().moveTodo(idOf('A'), 'missing');
+      });
+
+      expect(texts()).toEqual(['A', 'B', 'C', 'D']);
+      expect(mockLoggingService.warnLogs.map(log => log.message)).toEqual(['Todo not found for move', 'Todo not found for move']);
+    });
+
+    it('leaves a sorted list in its order, and keeps the sort', () => {
+      act(() => {
+        todoStore.getState().updateTodo(idOf('C'), { priority: 'urgent' });
+        todoStore.getState().setSortOrder('priority');
+      });
+      const before = todoStore.getState().todos;
+
+      act(() => {
+        todoStore.getState().moveTodo(idOf('D'), idOf('B'));
+      });
+
+      expect(todoStore.getState().sortOrder).toBe('priority');
+      expect(todoStore.getState().todos).toBe(before);
+      expect(selectVisibleTodos(todoStore.getState()).map(todo => todo.text)).toEqual(['C', 'A', 'B', 'D']);
+      expect(mockLoggingService.getLastWarnLog()).toEqual({
+        message: 'Todo not moved: the list is sorted',
+        data: { id: idOf('D'), sortOrder: 'priority' }
+      });
+    });
+
+    it('undoes a move', () => {
+      act(() => {
+        todoStore.getState().moveTodo(idOf('C'), idOf('A'));
+        todoStore.getState().undo();
+      });
+
+      expect(texts()).toEqual(['A', 'B', 'C', 'D']);
+    });
+
+    it('loads todos in key order and keys todos from backends that do not keep one', () => {
+      const createdAt = new Date('2024-01-01T00:00:00Z');
+      const repository = new InMemoryTodoRepository([
+        { id: '2', text: 'Second', completed: false, createdAt, order: 'a1' },
+        { id: '1', text: 'First', completed: false, createdAt, order: 'a0V' },
+      ]);
+      const store = createTodoStore(mockLoggingService, repository);
+      act(() => {
+        store.getState().loadTodos();
+      });
+      expect(store.getState().todos.map(todo => todo.text)).toEqual(['First', 'Second']);
+
+      const unordered = createTodoStore(mockLoggingService, new InMemoryTodoRepository([
+        { id: '1', text: 'First', completed: false, createdAt },
+        { id: '2', text: 'Second', completed: false, createdAt },
+      ]));
+      act(() => {
+        unordered.getState().loadTodos();
+        unordered.getState().moveTodo('2', '1');
+      });
+      expect(unordered.getState().todos.map(todo => [todo.text, todo.order])).toEqual([['Second', 'Zz'], ['First', 'a0']]);
+    });
+
+    it('keys only the todos that lack a key, as a new version of each', () => {
+      const createdAt = new Date('2024-01-01T00:00:00Z');
+      const repository = new InMemoryTodoRepository([
+        { id: '1', text: 'Keyed', completed: false, createdAt, order: 'a0', version: 3 },
+        { id: '2', text: 'Unkeyed', completed: false, createdAt, version: 1 },
+      ]);
+      const store = createTodoStore(mockLoggingService, repository);
+      act(() => {
+        store.getState().loadTodos();
+      });
+      const [keyed] = store.getState().todos;
+      const apply = jest.spyOn(repository, 'apply');
+
+      act(() => {
+        store.getState().addTodo('New');
+      });
+
+      const [first, second, added] = store.getState().todos;
+      expect(first).toBe(keyed);
+      expect(second).toMatchObject({ id: '2', order: 'a1', version: 2 });
+      expect(apply).toHaveBeenCalledWith([{ type: 'update', todo: second }, { type: 'create', todo: added }]);
+    });
+
+    it('appends imported todos after the others', () => {
+      act(() => {
+        todoStore.getState().importTodos([{ text: 'E', completed: false }, { text: 'F', completed: false }]);
+      });
+
+      expect(todoStore.getState().todos.slice(-2).map(todo => todo.order)).toEqual(['a4', 'a5']);
+    });
+  });
+
+  describe('Moving between lists', () => {
+    const saved: Todo = { id: 'saved', text: 'Saved', completed: false, createdAt: new Date('2024-01-01T00:00:00.000Z'), order: 'a0', version: 1 };
+
+    it('loads a list that was not before taking todos in, and puts them after the saved ones', () => {
+      const repository = new InMemoryTodoRepository([saved]);
+      const target = createTodoStore(mockLoggingService, repository);
+      act(() => {
+        todoStore.getState().addTodo('Moved');
+      });
+      const moved = todoStore.getState().todos[0];
+
+      act(() => {
+        todoStore.getState().moveTodos([moved.id], target);
+      });
+
+      expect(target.getState().todos).toEqual([saved, { ...moved, order: 'a1' }]);
+      expect(repository.load()).toEqual(target.getState().todos);
+    });
+
+    it('holds todos moved to a list that is still loading until the load is done', async () => {
+      let finishLoad!: (todos: Todo[]) => void;
+      const apply = jest.fn();
+      const target = createTodoStore(mockLoggingService, {
+        load: () => new Promise<Todo[]>(resolve => { finishLoad = resolve; }),
+        apply
+      });
+      act(() => {
+        target.getState().loadTodos();
+        todoStore.getState().addTodo('Moved');
+      });
+      const moved = todoStore.getState().todos[0];
+
+      act(() => {
+        todoStore.getState().moveTodos([moved.id], target);
+      });
+      expect(target.getState().todos).toEqual([]);
+      expect(apply).not.toHaveBeenCalled();
+
+      await act(async () => {
+        finishLoad([saved]);
+      });
+
+      expect(target.getState().todos).toEqual([saved, { ...moved, order: 'a1' }]);
+      expect(apply).toHaveBeenCalledTimes(1);
+      expect(apply).toHaveBeenCalledWith([{ type: 'create', todo: { ...moved, order: 'a1' } }]);
+    });
+
+    it('takes the todos in even when the list cannot be loaded, rather than lose them', async () => {
+      let failLoad!: (error: Error) => void;
+      const target = createTodoStore(mockLoggingService, {
+        load: () => new Promise<Todo[]>((_resolve, reject) => { failLoad = reject; }),
+        apply: () => undefined
+      });
+      act(() => {
+        todoStore.getState().addTodo('Moved');
+      });
+      const moved = todoStore.getState().todos[0];
+
+      act(() => {
+        todoStore.getState().moveTodos([moved.id], target);
+      });
+      await act(async () => {
+        failLoad(new Error('offline'));
+      });
+
+      expect(target.getState().todos.map(todo => todo.id)).toEqual([moved.id]);
+      expect(target.getState().error).toBe('offline');
+    });
+
+    it('leaves a move out of either list\'s undo history', () => {
+      const target = createTodoStore(mockLoggingService);
+      act(() => {
+        target.getState().loadTodos();
+        target.getState().addTodo('Already there');
+        todoStore.getState().addTodo('Moved');
+        todoStore.getState().addTodo('Stays');
+      });
+      const [moved] = todoStore.getState().todos;
+
+      act(() => {
+        todoStore.getState().moveTodos([moved.id], target);
+      });
+      expect(todoStore.getState().canUndo).toBe(true);
+
+      // Undoing what came before the move leaves the moved todo in the other list
+      act(() => {
+        todoStore.getState().undo();
+        todoStore.getState().undo();
+        target.getState().undo();
+      });
+
+      expect(todoStore.getState().todos).toEqual([]);
+      expect(target.getState().todos.map(todo => todo.text)).toEqual(['Moved']);
+
+      act(() => {
+        todoStore.getState().redo();
+        todoStore.getState().redo();
+        target.getState().redo();
+      });
+
+      expect(todoStore.getState().todos.map(todo => todo.text)).toEqual(['Stays']);
+      expect(target.getState().todos.map(todo => todo.text)).toEqual(['Already there', 'Moved']);
+    });
+  });
+
+  describe('Recurring todos', () => {
+    let clock: FixedClock;
+
+    beforeEach(() => {
+      clock = new FixedClock(new Date(2024, 0, 31, 18, 0));
+      todoStore = createTodoStore(mockLoggingService, undefined, undefined, undefined, clock);
+    });
+
+    const addRecurring = (text: string, recurrence: string, dueDate?: Date) => {
+      act(() => {
+        todoStore.getState().addTodo(text, { recurrence, ...(dueDate ? { dueDate } : {}) });
+      });
+      return todoStore.getState().todos[todoStore.getState().todos.length - 1].id;
+    };
+
+    it('moves a completed recurring todo on to its next occurrence and keeps the completion', () => {
+      const id = addRecurring('Water plants', 'FREQ=WEEKLY', new Date(2024, 0, 31, 9));
+      mockLoggingService.clear();
+
+      act(() => {
+        todoStore.getState().toggleTodo(id);
+      });
+
+      expect(todoStore.getState().todos).toEqual([expect.objectContaining({
+        id,
+        completed: false,
+        dueDate: new Date(2024, 1, 7, 9),
+        recurrence: 'FREQ=WEEKLY',
+        completions: [{ completedAt: new Date(2024, 0, 31, 18), dueDate: new Date(2024, 0, 31, 9) }],
+        version: 2
+      })]);
+      expect(todoStore.getState().todos[0].completedAt).toBeUndefined();
+      expect(mockLoggingService.infoLogs).toEqual([
+        { message: 'Recurring todo completed', data: { id, dueDate: new Date(2024, 1, 7, 9) } }
+      ]);
+    });
+
+    it('keeps a month-end todo on the month end', () => {
+      const id = addRecurring('Pay rent', 'FREQ=MONTHLY;BYMONTHDAY=-1', new Date(2024, 0, 31));
+
+      act(() => {
+        todoStore.getState().toggleTodo(id);
+      });
+      expect(todoStore.getState().todos[0].dueDate).toEqual(new Date(2024, 1, 29));
+
+      clock.set(new Date(2024, 1, 29, 12));
+      act(() => {
+        todoStore.getState().toggleTodo(id);
+      });
+      expect(todoStore.getState().todos[0].dueDate).toEqual(new Date(2024, 2, 31));
+      expect(todoStore.getState().todos[0].completions).toHaveLength(2);
+    });
+
+    it('skips occurrences missed while the todo was overdue', () => {
+      const id = addRecurring('Stretch', 'FREQ=DAILY', new Date(2024, 0, 20, 7));
+
+      act(() => {
+        todoStore.getState().toggleTodo(id);
+      });
+
+      // Today's occurrence is still to do
+      expect(todoStore.getState().todos[0].dueDate).toEqual(new Date(2024, 0, 31, 7));
+    });
+
+    it('schedules a recurring todo without a due date from today', () => {
+      const id = addRecurring('Review inbox', 'FREQ=DAILY');
+
+      act(() => {
+        todoStore.getState().toggleTodo(id);
+      });
+
+      expect(todoStore.getState().todos[0]).toMatchObject({ completed: false, dueDate: new Date(2024, 1, 1) });
+      expect(todoStore.getState().todos[0].completions).toEqual([{ completedAt: new Date(2024, 0, 31, 18) }]);
+    });
+
+    it('counts down a series and completes the todo after the last occurrence', () => {
+      const id = addRecurring('Physio', 'FREQ=DAILY;COUNT=2', new Date(2024, 0, 31));
+
+      act(() => {
+        todoStore.getState().toggleTodo(id);
+      });
+      expect(todoStore.getState().todos[0]).toMatchObject({ completed: false, recurrence: 'FREQ=DAILY;COUNT=1' });
+
+      act(() => {
+        todoStore.getState().toggleTodo(id);
+      });
+      expect(todoStore.getState().todos[0]).toMatchObject({ completed: true, completedAt: new Date(2024, 0, 31, 18) });
+      expect(todoStore.getState().todos[0].completions).toHaveLength(1);
+    });
+
+    it('resets the checklist, and finishing the checklist moves the todo on', () => {
+      const id = addRecurring('Weekly review', 'FREQ=WEEKLY', new Date(2024, 0, 31));
+      act(() => {
+        todoStore.getState().addSubtask(id, 'Inbox zero');
+      });
+      const subtaskId = todoStore.getState().todos[0].subtasks![0].id;
+
+      act(() => {
+        todoStore.getState().toggleSubtask(id, subtaskId);
+      });
+
+      expect(todoStore.getState().todos[0]).toMatchObject({
+        completed: false,
+        dueDate: new Date(2024, 1, 7),
+        subtasks: [{ id: subtaskId, text: 'Inbox zero', completed: false }]
+      });
+    });
+
+    it('moves selected recurring todos on when completing the selection', () => {
+      const id = addRecurring('Water plants', 'FREQ=DAILY', new Date(2024, 0, 31));
+      act(() => {
+        todoStore.getState().addTodo('Buy soil');
+        todoStore.getState().selectTodo(id);
+        todoStore.getState().selectTodo(todoStore.getState().todos[1].id);
+        todoStore.getState().completeSelected();
+      });
+
+      expect(todoStore.getState().todos.map(todo => todo.completed)).toEqual([false, true]);
+      expect(todoStore.getState().todos[0].dueDate).toEqual(new Date(2024, 1, 1));
+    });
+
+    it('ignores rules it cannot read', () => {
+      act(() => {
+        todoStore.getState().addTodo('Water plants', { recurrence: 'every day' });
+      });
+      const id = todoStore.getState().todos[0].id;
+
+      expect(todoStore.getState().todos[0].recurrence).toBeUndefined();
+      expect(mockLoggingService.getLastWarnLog()).toEqual({
+        message: 'Todo recurrence ignored',
+        data: { recurrence: 'every day', message: '"every day" is not a NAME=VALUE pair' }
+      });
+
+      act(() => {
+        todoStore.getState().updateTodo(id, { recurrence: 'FREQ=FORTNIGHTLY', text: 'Water the plants' });
+      });
+      expect(todoStore.getState().todos[0]).toMatchObject({ text: 'Water the plants' });
+      expect(todoStore.getState().todos[0].recurrence).toBeUndefined();
+      expect(mockLoggingService.getLastWarnLog()!.data).toEqual(expect.objectContaining({ id }));
+    });
+
+    it('sets and clears the rule through updateTodo', () => {
+      act(() => {
+        todoStore.getState().addTodo('Water plants');
+      });
+      const id = todoStore.getState().todos[0].id;
+
+      act(() => {
+        todoStore.getState().updateTodo(id, { recurrence: ' FREQ=DAILY ' });
+      });
+      expect(todoStore.getState().todos[0].recurrence).toBe('FREQ=DAILY');
+
+      act(() => {
+        todoStore.getState().updateTodo(id, { recurrence: '' });
+      });
+      expect(todoStore.getState().todos[0].recurrence).toBeUndefined();
+    });
+
+    it('reopens a finished series like any other todo', () => {
+      const id = addRecurring('Water plants', 'FREQ=DAILY;COUNT=1', new Date(2024, 0, 31));
+      act(() => {
+        todoStore.getState().toggleTodo(id);
+        todoStore.getState().toggleTodo(id);
+      });
+
+      expect(todoStore.getState().todos[0]).toMatchObject({ completed: false, dueDate: new Date(2024, 0, 31) });
+      expect(mockLoggingService.getLastInfoLog()).toEqual({ message: 'Todo toggled', data: { id, completed: false } });
+    });
+  });
+
+  describe('Undo and redo', () => {
+    const texts = () => todoStore.getState().todos.map(todo => todo.text);
+
+    it('starts with nothing to undo or redo', () => {
+      expect(todoStore.getState().canUndo).toBe(false);
+      expect(todoStore.getState().canRedo).toBe(false);
+    });
+
+    it('undoes and redoes each mutation in turn', () => {
+      act(() => {
+        todoStore.getState().addTodo('First');
+        todoStore.getState().addTodo('Second');
+      });
+      const secondId = todoStore.getState().todos[1].id;
+      act(() => {
+        todoStore.getState().toggleTodo(secondId);
+        todoStore.getState().removeTodo(secondId);
+      });
+      expect(texts()).toEqual(['First']);
+
+      act(() => todoStore.getState().undo());
+      expect(texts()).toEqual(['First', 'Second']);
+      expect(todoStore.getState().todos[1].completed).toBe(true);
+
+      act(() => todoStore.getState().undo());
+      expect(todoStore.getState().todos[1].completed).toBe(false);
+      expect(todoStore.getState().canRedo).toBe(true);
+
+      act(() => {
+        todoStore.getState().redo();
+        todoStore.getState().redo();
+      });
+      expect(texts()).toEqual(['First']);
+      expect(todoStore.getState().canRedo).toBe(false);
+    });
+
+    it('drops the redo steps once a new change is made', () => {
+      act(() => {
+        todoStore.getState().addTodo('Kept');
+        todoStore.getState().addTodo('Undone');
+        todoStore.getState().undo();
+        todoStore.getState().addTodo('Replacement');
+      });
+
+      expect(texts()).toEqual(['Kept', 'Replacement']);
+      expect(todoStore.getState().canRedo).toBe(false);
+    });
+
+    it('does not record actions that change nothing', () => {
+      act(() => {
+        todoStore.getState().addTodo('Only');
+        todoStore.getState().toggleTodo('non-existent-id');
+        todoStore.getState().undo();
+      });
+
+      expect(texts()).toEqual([]);
+      expect(todoStore.getState().canUndo).toBe(false);
+    });
+
+    it('keeps at most the configured number of steps', () => {
+      const store = createTodoStore(mockLoggingService, undefined, undefined, 2);
+
+      act(() => {
+        ['One', 'Two', 'Three'].forEach(text => store.getState().addTodo(text));
+        store.getState().undo();
+        store.getState().undo();
+        store.getState().undo();
+      });
+
+      expect(store.getState().todos.map(todo => todo.text)).toEqual(['One']);
+      expect(store.getState().canUndo).toBe(false);
+    });
+
+    it('does not treat loading todos as an undoable change', () => {
+      const repository = new InMemoryTodoRepository([
+        { id: 'stored', text: 'Stored', completed: false, createdAt: new Date('2024-01-01T00:00:00.000Z') },
+      ]);
+      const store = createTodoStore(mockLoggingService, repository);
+
+      act(() => store.getState().loadTodos());
+
+      expect(store.getState().canUndo).toBe(false);
+    });
+
+    it('writes undo and redo through to the repository', () => {
+      const repository = new InMemoryTodoRepository();
+      const store = createTodoStore(mockLoggingService, repository);
+
+      act(() => {
+        store.getState().addTodo('Persisted');
+        store.getState().undo();
+      });
+      expect(repository.load()).toEqual([]);
+
+      act(() => store.getState().redo());
+      expect(repository.load().map(todo => todo.text)).toEqual(['Persisted']);
+    });
+
+    it('logs undo and redo with the remaining steps', () => {
+      act(() => {
+        todoStore.getState().addTodo('Logged');
+        todoStore.getState().undo();
+      });
+      expect(mockLoggingService.getLastInfoLog()).toEqual({
+        message: 'Todo change undone',
+        data: { undo: 0, redo: 1 }
+      });
+
+      act(() => todoStore.getState().redo());
+      expect(mockLoggingService.getLastInfoLog()).toEqual({
+        message: 'Todo change redone',
+        data: { undo: 1, redo: 0 }
+      });
+    });
+  });
+
+  describe('loadTodos', () => {
+    it('logs when todos are loaded', () => {
+      act(() => {
+        todoStore.getState().loadTodos();
+      });
+
+      expect(mockLoggingService.getLastInfoLog()).toEqual({
+        message: 'Todos loaded',
+        data: { count: 0 }
+      });
+    });
+
+    it('can be called multiple times without side effects', () => {
+      act(() => {
+        todoStore.getState().loadTodos();
+        todoStore.getState().loadTodos();
+      });
+
+      expect(mockLoggingService.infoLogs.filter(log => log.message === 'Todos loaded')).toHaveLength(2);
+    });
+  });
+
+  describe('Persistence', () => {
+    let todoRepository: InMemoryTodoRepository;
+
+    beforeEach(() => {
+      todoRepository = new InMemoryTodoRepository([
+        { id: 'stored-1', text: 'Stored todo', completed: true, createdAt: new Date('2024-01-01T10:00:00.000Z') }
+      ]);
+      todoStore = createTodoStore(mockLoggingService, todoRepository);
+    });
+
+    it('hydrates todos from the repository on load', () => {
+      act(() => {
+        todoStore.getState().loadTodos();
+      });
+
+      expect(todoStore.getState().todos).toEqual([
+        { id: 'stored-1', text: 'Stored todo', completed: true, createdAt: new Date('2024-01-01T10:00:00.000Z') }
+      ]);
+      expect(mockLoggingService.getLastInfoLog()).toEqual({
+        message: 'Todos loaded',
+        data: { count: 1 }
+      });
+    });
+
+    it('writes added, toggled and removed todos through to the repository', () => {
+      act(() => {
+        todoStore.getState().loadTodos();
+        todoStore.getState().addTodo('Persist me');
+      });
+      const newId = todoStore.getState().todos[1].id;
+      expect(todoRepository.load().map(todo => todo.text)).toEqual(['Stored todo', 'Persist me']);
+
+      act(() => {
+        todoStore.getState().toggleTodo(newId);
+      });
+      expect(todoRepository.load()[1].completed).toBe(true);
+
+      act(() => {
+        todoStore.getState().removeTodo('stored-1');
+      });
+      expect(todoRepository.load().map(todo => todo.id)).toEqual([newId]);
+    });
+
+    it('does not write back the todos it has just loaded', () => {
+      const applySpy = jest.spyOn(todoRepository, 'apply');
+
+      act(() => {
+        todoStore.getState().loadTodos();
+      });
+
+      expect(applySpy).not.toHaveBeenCalled();
+    });
+
+    it('logs an error and keeps the current todos when loading fails', () => {
+      jest.spyOn(todoRepository, 'load').mockImplementation(() => {
+        throw new Error('Corrupt data');
+      });
+
+      act(() => {
+        todoStore.getState().addTodo('Still here');
+        todoStore.getState().loadTodos();
+      });
+
+      expect(todoStore.getState().todos.map(todo => todo.text)).toEqual(['Still here']);
+      expect(mockLoggingService.getLastErrorLog()).toEqual({
+        message: 'Failed to load todos',
+        error: expect.any(Error)
+      });
+    });
+
+    it('logs an error and rolls the change back when saving fails', () => {
+      jest.spyOn(todoRepository, 'apply').mockImplementation(() => {
+        throw new Error('Quota exceeded');
+      });
+
+      act(() => {
+        todoStore.getState().addTodo('Unsaved todo');
+      });
+
+      expect(todoStore.getState().todos).toHaveLength(0);
+      expect(mockLoggingService.getLastErrorLog().message).toBe('Failed to save todos');
+      expect(mockLoggingService.getLastWarnLog()).toEqual({
+        message: 'Todo changes rolled back',
+        data: { count: 1 }
+      });
+    });
+
+    it('reports a failed data migration through the error log', () => {
+      jest.spyOn(todoRepository, 'load').mockImplementation(() => {
+        throw new TodoMigrationError('Migration to schema version 1 (test) failed', 0, 1, new Error('Bad data'), 'backup-key');
+      });
+
+      act(() => {
+        todoStore.getState().loadTodos();
+      });
+
+      expect(todoStore.getState().error).toBe('Migration to schema version 1 (test) failed');
+      expect(mockLoggingService.getLastErrorLog()).toEqual({
+        message: 'Todo data migration failed',
+        error: {
+          message: 'Migration to schema version 1 (test) failed',
+          fromVersion: 0,
+          failedVersion: 1,
+          backupLocation: 'backup-key'
+        }
+      });
+    });
+
+    it('restores createdAt as a Date after a localStorage round trip', () => {
+      localStorage.clear();
+      const firstSession = createTodoStore(mockLoggingService, new LocalStorageTodoRepository());
+
+      act(() => {
+        firstSession.getState().addTodo('Survives reload');
+      });
+      const original = firstSession.getState().todos[0];
+
+      const secondSession = createTodoStore(mockLoggingService, new LocalStorageTodoRepository());
+      act(() => {
+        secondSession.getState().loadTodos();
+      });
+
+      const restored = secondSession.getState().todos[0];
+      expect(restored.createdAt).toBeInstanceOf(Date);
+      expect(restored).toEqual(original);
+      localStorage.clear();
+    });
+  });
+
+  describe('Asynchronous persistence', () => {
+    const storedTodo: Todo = { id: 'async-1', text: 'Async todo', completed: false, createdAt: new Date('2024-02-01T12:00:00.000Z') };
+
+    const createDeferred = <T,>() => {
+      let resolve!: (value: T) => void;
+      let reject!: (reason: unknown) => void;
+      const promise = new Promise<T>((res, rej) => {
+        resolve = res;
+        reject = rej;
+      });
+      return { promise, resolve, reject };
+    };
+
+    it('flags loading until the repository resolves, then hydrates', async () => {
+      const deferred = createDeferred<Todo[]>();
+      const repository: ITodoRepository = { load: () => deferred.promise, apply: jest.fn() };
+      todoStore = createTodoStore(mockLoggingService, repository);
+
+      act(() => {
+        todoStore.getState().loadTodos();
+      });
+      expect(todoStore.getState().isLoading).toBe(true);
+
+      await act(async () => {
+        deferred.resolve([storedTodo]);
+        await deferred.promise;
+      });
+
+      expect(todoStore.getState().isLoading).toBe(false);
+      expect(todoStore.getState().todos).toEqual([storedTodo]);
+      expect(repository.apply).not.toHaveBeenCalled();
+      expect(mockLoggingService.getLastInfoLog()).toEqual({
+        message: 'Todos loaded',
+        data: { count: 1 }
+      });
+    });
+
+    it('keeps todos added while loading, after the loaded ones', async () => {
+      const deferred = createDeferred<Todo[]>();
+      const repository: ITodoRepository = { load: () => deferred.promise, apply: jest.fn() };
+      todoStore = createTodoStore(mockLoggingService, repository);
+
+      act(() => {
+        todoStore.getState().loadTodos();
+        todoStore.getState().addTodo('Added while loading');
+      });
+      const [added] = todoStore.getState().todos;
+      expect(added.order).toBe('a0');
+
+      await act(async () => {
+        deferred.resolve([{ ...storedTodo, order: 'a0' }]);
+        await deferred.promise;
+      });
+
+      const todos = todoStore.getState().todos;
+      expect(todos.map(todo => [todo.text, todo.order])).toEqual([['Async todo', 'a0'], ['Added while loading', 'a1']]);
+      expect(todos[1]).toMatchObject({ id: added.id, version: 2 });
+      expect(repository.apply).toHaveBeenLastCalledWith([{ type: 'update', todo: todos[1] }]);
+    });
+
+    it('records the error and logs it when the repository rejects', async () => {
+      const deferred = createDeferred<Todo[]>();
+      const repository: ITodoRepository = { load: () => deferred.promise, apply: jest.fn() };
+      todoStore = createTodoStore(mockLoggingService, repository);
+
+      act(() => {
+        todoStore.getState().loadTodos();
+      });
+      await act(async () => {
+        deferred.reject(new Error('Database blocked'));
+        await deferred.promise.catch(() => undefined);
+      });
+
+      expect(todoStore.getState().isLoading).toBe(false);
+      expect(todoStore.getState().error).toBe('Database blocked');
+      expect(mockLoggingService.getLastErrorLog()).toEqual({
+        message: 'Failed to load todos',
+        error: expect.any(Error)
+      });
+    });
+
+    it('keeps optimistic updates visible while the save is in flight', () => {
+      const deferred = createDeferred<void>();
+      const repository: ITodoRepository = { load: () => [], apply: () => deferred.promise };
+      todoStore = createTodoStore(mockLoggingService, repository);
+
+      act(() => {
+        todoStore.getState().addTodo('Optimistic todo');
+      });
+
+      expect(todoStore.getState().todos.map(todo => todo.text)).toEqual(['Optimistic todo']);
+    });
+
+    it('rolls back only the rejected changes when an asynchronous save fails', async () => {
+      const saves: Array<ReturnType<typeof createDeferred<void>>> = [];
+      const repository: ITodoRepository = {
+        load: () => [storedTodo],
+        apply: () => {
+          const deferred = createDeferred<void>();
+          saves.push(deferred);
+          return deferred.promise;
+        },
+      };
+      todoStore = createTodoStore(mockLoggingService, repository);
+
+      act(() => {
+        todoStore.getState().loadTodos();
+        todoStore.getState().removeTodo(storedTodo.id);
+        todoStore.getState().addTodo('Saved todo');
+      });
+      expect(todoStore.getState().todos.map(todo => todo.text)).toEqual(['Saved todo']);
+
+      await act(async () => {
+        saves[1].resolve();
+        saves[0].reject(new Error('Server unavailable'));
+        await saves[0].promise.catch(() => undefined);
+      });
+
+      expect(todoStore.getState().todos.map(todo => todo.text)).toEqual(['Async todo', 'Saved todo']);
+      expect(mockLoggingService.getLastErrorLog()).toEqual({
+        message: 'Failed to save todos',
+        error: expect.objectContaining({ message: 'Server unavailable' })
+      });
+    });
+
+    it('does not send the rollback itself back to the repository', async () => {
+      const saveFailure = Promise.reject(new Error('Transaction aborted'));
+      saveFailure.catch(() => undefined);
+      const apply = jest.fn(() => saveFailure);
+      todoStore = createTodoStore(mockLoggingService, { load: () => [], apply });
+
+      await act(async () => {
+        todoStore.getState().addTodo('Will not be saved');
+        await saveFailure.catch(() => undefined);
+      });
+
+      expect(todoStore.getState().todos).toHaveLength(0);
+      expect(apply).toHaveBeenCalledTimes(1);
     });
   });
 
@@ -385,7 +2015,7 @@ describe('TodoStore', () => {
       expect(logEntry.message).toBe('Todo added');
       expect(logEntry.data).toMatchObject({
         text: 'Mock verification test',
-        id: expect.stringMatching(/^\d+$/) // Should be a timestamp-based ID
+        id: expect.stringMatching(/^[0-9a-f-]{36}$/) // A random UUID unless another generator is bound
       });
     });
   });
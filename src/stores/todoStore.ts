@@ -1,44 +1,234 @@
-import { injectable, inject } from 'inversify';
+import { injectable, inject, optional } from 'inversify';
 import { create, StoreApi, UseBoundStore } from 'zustand';
-import { Todo } from '../types';
+import { Todo, TodoSubtask } from '../types';
+import type { TodoDraft } from '../formats/TodoFormat';
 import type { ILoggingService } from '../services/LoggingService';
+import type { IClock } from '../services/Clock';
+import { SystemClock } from '../services/Clock';
+import type { IIdGenerator } from '../services/IdGenerator';
+import { UuidIdGenerator } from '../services/IdGenerator';
+import type { ITodoPreferences } from '../services/TodoPreferences';
+import { InMemoryTodoPreferences } from '../services/TodoPreferences';
+import type { ITodoRepository, TodoChange } from '../repositories/TodoRepository';
+import { applyTodoChanges, diffTodos, isPromiseLike, revertTodoChanges } from '../repositories/TodoRepository';
+import type { ITodoOutbox } from '../services/TodoOutbox';
+import { TodoMigrationError } from '../migrations/TodoMigrationRegistry';
+import { InMemoryTodoRepository } from '../repositories/InMemoryTodoRepository';
 import { TYPES } from '../container/types';
+import { DEFAULT_HISTORY_LIMIT, HistoryState, history } from './historyMiddleware';
+import { selectVisibleTodos, startOfDay } from './todoSelectors';
+import { extractTags, normalizeTags } from './todoTags';
+import { isOrderKey, orderKeyBetween, orderKeysAfter, sortByOrder, withOrderKeys } from './todoOrder';
+import { advanceRecurrence, parseRecurrenceRule } from '../recurrence';
 
-export interface TodoState {
+export type TodoFilter = 'all' | 'active' | 'completed';
+
+export const TODO_FILTERS: TodoFilter[] = ['all', 'active', 'completed'];
+
+// 'manual' keeps the order todos were added or moved into. The other orders sort by that
+// key first and break ties with the rest, in the order priority, due date, created.
+export type TodoSortOrder = 'manual' | 'priority' | 'dueDate' | 'createdAt';
+
+export const TODO_SORT_ORDERS: TodoSortOrder[] = ['manual', 'priority', 'dueDate', 'createdAt'];
+
+const SORT_ORDER_PREFERENCE = 'sortOrder';
+
+const isSortOrder = (value: unknown): value is TodoSortOrder => TODO_SORT_ORDERS.includes(value as TodoSortOrder);
+
+// 'toggle' adds or removes one todo (Ctrl/Cmd-click); 'range' selects every
+// visible todo between the last toggled one and this one (Shift-click)
+export type TodoSelectionMode = 'toggle' | 'range';
+
+// 'all' shows todos carrying every chosen tag (AND), 'any' those with at least one (OR)
+export type TodoTagMatch = 'all' | 'any';
+
+// No chosen tags means no tag filtering
+export interface TodoTagFilter {
+  tags: string[];
+  match: TodoTagMatch;
+}
+
+export interface TodoTagChange {
+  add?: string[];
+  remove?: string[];
+}
+
+// Optional fields a todo can be created with
+export type TodoDetails = Partial<Pick<Todo, 'dueDate' | 'priority' | 'tags' | 'recurrence'>>;
+
+// Fields of a todo that can be edited after it is created
+export type TodoPatch = Partial<Omit<Todo, 'id' | 'createdAt' | 'updatedAt' | 'version' | 'order'>>;
+
+export interface TodoState extends HistoryState {
   todos: Todo[];
-  addTodo: (text: string) => void;
+  isLoading: boolean;
+  error: string | null;
+  filter: TodoFilter;
+  sortOrder: TodoSortOrder;
+  tagFilter: TodoTagFilter;
+  selectedIds: string[];
+  selectionAnchorId: string | null;
+  // The store's clock, so every view agrees on what "today" is
+  now: () => Date;
+  addTodo: (text: string, details?: TodoDetails) => void;
   toggleTodo: (id: string) => void;
+  updateTodo: (id: string, patch: TodoPatch) => void;
   removeTodo: (id: string) => void;
+  importTodos: (drafts: TodoDraft[]) => void;
   loadTodos: () => void;
+  setFilter: (filter: TodoFilter) => void;
+  setSortOrder: (sortOrder: TodoSortOrder) => void;
+  toggleTagFilter: (tag: string) => void;
+  setTagMatch: (match: TodoTagMatch) => void;
+  clearTagFilter: () => void;
+  toggleAll: () => void;
+  clearCompleted: () => void;
+  selectTodo: (id: string, mode?: TodoSelectionMode) => void;
+  clearSelection: () => void;
+  completeSelected: (completed?: boolean) => void;
+  removeSelected: () => void;
+  retagSelected: (change: TodoTagChange) => void;
+  addSubtask: (parentId: string, text: string) => void;
+  toggleSubtask: (parentId: string, id: string) => void;
+  removeSubtask: (parentId: string, id: string) => void;
+  // Puts a todo in front of another, or at the end for null, in the manual order. A
+  // sorted list keeps its order, so there it does nothing.
+  moveTodo: (id: string, beforeId: string | null) => void;
+  // Hands todos over to another list's store, which takes them as they are, at the end.
+  // Neither store can undo the move.
+  moveTodos: (ids: string[], target: TodoStore) => void;
+  // Loads the list first if it was not, so the todos go after the ones it has saved
+  receiveTodos: (todos: Todo[]) => void;
 }
 
 export type TodoStore = UseBoundStore<StoreApi<TodoState>>;
 
+// Applies an edit and stamps the new version so sync can spot conflicting edits
+const reviseTodo = (todo: Todo, edit: Partial<Todo>, at: Date): Todo => ({
+  ...todo,
+  ...edit,
+  version: (todo.version ?? 0) + 1,
+  updatedAt: at,
+});
+
+// Undo and redo put back earlier copies of todos. Each one that differs from the todo it
+// replaces is a new edit of that todo, so sync sees it follow the current version.
+const restoreTodos = (snapshot: Todo[], current: Todo[], at: Date): Todo[] => {
+  const currentById = new Map(current.map(todo => [todo.id, todo]));
+  return snapshot.map(todo => {
+    const replaced = currentById.get(todo.id);
+    return !replaced || replaced === todo ? todo : reviseTodo({ ...todo, version: replaced.version }, {}, at);
+  });
+};
+
+// Keys todos that lack one as an edit of each, so sync sends them as new versions
+const withStampedOrderKeys = (todos: Todo[], at: Date): Todo[] =>
+  withOrderKeys(todos, (todo, order) => reviseTodo(todo, { order }, at));
+
+const setCompleted = (todo: Todo, completed: boolean, at: Date): Todo =>
+  reviseTodo(todo, { completed, completedAt: completed ? at : undefined }, at);
+
+// Completing a recurring todo moves it on to its next occurrence instead: due on the
+// first one from today on, checklist reset, and the completion added to its history.
+// A series that has run out, or a rule that cannot be read, completes as usual.
+const completeTodo = (todo: Todo, at: Date): Todo => {
+  let next: ReturnType<typeof advanceRecurrence>;
+  try {
+    next = todo.recurrence ? advanceRecurrence(todo.recurrence, todo.dueDate ?? startOfDay(at), startOfDay(at)) : undefined;
+  } catch {
+    next = undefined;
+  }
+  if (!next) {
+    return setCompleted(todo, true, at);
+  }
+
+  return reviseTodo(todo, {
+    dueDate: next.dueDate,
+    recurrence: next.recurrence,
+    completions: [...(todo.completions ?? []), { completedAt: at, ...(todo.dueDate ? { dueDate: todo.dueDate } : {}) }],
+    ...(todo.subtasks ? { subtasks: todo.subtasks.map(subtask => ({ ...subtask, completed: false })) } : {}),
+  }, at);
+};
+
+// Dates and tag lists are compared by value, so re-picking the same due date is not an edit
+const sameValue = (a: unknown, b: unknown): boolean => {
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => item === b[index]);
+  }
+  return a === b;
+};
+
+// Todos without tags leave the field out
+const tagList = (tags: string[]): string[] | undefined => (tags.length > 0 ? tags : undefined);
+
 @injectable()
 export class TodoStoreFactory {
   private store: TodoStore;
+  private writeThroughPaused = false;
+  private loaded = false;
+  // Todos moved here before the list was loaded, taken in once it is
+  private waitingForLoad: Todo[] = [];
+  // Undo and redo leave todos moved between lists where they are now
+  private movedAway = new Set<string>();
+  private movedIn = new Set<string>();
 
   constructor(
-    @inject(TYPES.LoggingService) private loggingService: ILoggingService
+    @inject(TYPES.LoggingService) private loggingService: ILoggingService,
+    @inject(TYPES.TodoRepository) @optional() private todoRepository: ITodoRepository = new InMemoryTodoRepository(),
+    @inject(TYPES.TodoOutbox) @optional() private todoOutbox?: ITodoOutbox,
+    @inject(TYPES.TodoHistoryLimit) @optional() historyLimit: number = DEFAULT_HISTORY_LIMIT,
+    @inject(TYPES.Clock) @optional() private clock: IClock = new SystemClock(),
+    @inject(TYPES.IdGenerator) @optional() private idGenerator: IIdGenerator = new UuidIdGenerator(),
+    @inject(TYPES.TodoPreferences) @optional() private todoPreferences: ITodoPreferences = new InMemoryTodoPreferences()
   ) {
-    let idCounter = 1;
-    
-    this.store = create<TodoState>((set) => ({
+    const storedSortOrder = this.todoPreferences.get(SORT_ORDER_PREFERENCE);
+
+    this.store = create<TodoState>()(history('todos', (set, get) => ({
       todos: [],
+      isLoading: false,
+      error: null,
+      filter: 'all',
+      sortOrder: isSortOrder(storedSortOrder) ? storedSortOrder : 'manual',
+      tagFilter: { tags: [], match: 'all' },
+      selectedIds: [],
+      selectionAnchorId: null,
+      now: () => this.clock.now(),
       
-      addTodo: (text: string) => {
-        if (text.trim()) {
+      addTodo: (input: string, { dueDate, priority, tags: givenTags = [], recurrence: givenRecurrence }: TodoDetails = {}) => {
+        // "#tag" words become tags; a todo needs some text besides them
+        const { text, tags: typedTags } = extractTags(input);
+        if (text) {
+          const createdAt = this.clock.now();
+          const tags = tagList(normalizeTags([...givenTags, ...typedTags]));
+          const recurrence = givenRecurrence === undefined ? undefined : this.readRecurrence(givenRecurrence);
           const newTodo: Todo = {
-            id: (Date.now() + idCounter++).toString(),
-            text: text.trim(),
+            id: this.idGenerator.generate(),
+            text,
             completed: false,
-            createdAt: new Date(),
+            createdAt,
+            ...(dueDate ? { dueDate } : {}),
+            ...(priority ? { priority } : {}),
+            ...(tags ? { tags } : {}),
+            ...(recurrence ? { recurrence } : {}),
+            updatedAt: createdAt,
+            version: 1,
           };
           
-          this.loggingService.info('Todo added', { id: newTodo.id, text: newTodo.text });
-          set(state => ({
-            todos: [...state.todos, newTodo]
-          }));
+          this.loggingService.info('Todo added', {
+            id: newTodo.id,
+            text: newTodo.text,
+            ...(dueDate ? { dueDate } : {}),
+            ...(priority ? { priority } : {}),
+            ...(tags ? { tags } : {}),
+            ...(recurrence ? { recurrence } : {}),
+          });
+          set(state => {
+            const todos = withStampedOrderKeys(state.todos, createdAt);
+            return { todos: [...todos, { ...newTodo, order: orderKeyBetween(todos[todos.length - 1]?.order) }] };
+          });
         }
       },
       
@@ -47,13 +237,19 @@ export class TodoStoreFactory {
           const todoIndex = state.todos.findIndex(todo => todo.id === id);
           if (todoIndex !== -1) {
             const updatedTodos = state.todos.map(todo => 
-              todo.id === id ? { ...todo, completed: !todo.completed } : todo
+              todo.id === id
+                ? (todo.completed ? setCompleted(todo, false, this.clock.now()) : completeTodo(todo, this.clock.now()))
+                : todo
             );
             const updatedTodo = updatedTodos[todoIndex];
-            this.loggingService.info('Todo toggled', { 
-              id, 
-              completed: updatedTodo.completed 
-            });
+            if (!updatedTodo.completed && !state.todos[todoIndex].completed) {
+              this.loggingService.info('Recurring todo completed', { id, dueDate: updatedTodo.dueDate });
+            } else {
+              this.loggingService.info('Todo toggled', { 
+                id, 
+                completed: updatedTodo.completed 
+              });
+            }
             return { todos: updatedTodos };
           } else {
             this.loggingService.warn('Todo not found for toggle', { id });
@@ -62,6 +258,63 @@ export class TodoStoreFactory {
         });
       },
       
+      updateTodo: (id: string, patch: TodoPatch) => {
+        const changes: TodoPatch = { ...patch };
+        let typedTags: string[] = [];
+        if (patch.text !== undefined) {
+          // Same rules as addTodo: "#tag" words become tags and blank text is not a valid todo
+          const extracted = extractTags(patch.text);
+          if (!extracted.text) {
+            this.loggingService.warn('Todo update ignored: text is empty', { id });
+            return;
+          }
+          changes.text = extracted.text;
+          typedTags = extracted.tags;
+        }
+        if (patch.tags !== undefined) {
+          changes.tags = tagList(normalizeTags(patch.tags));
+        }
+        if (patch.recurrence !== undefined) {
+          const recurrence = this.readRecurrence(patch.recurrence, id);
+          if (recurrence === null) {
+            delete changes.recurrence;
+          } else {
+            changes.recurrence = recurrence;
+          }
+        }
+
+        set(state => {
+          const todo = state.todos.find(candidate => candidate.id === id);
+          if (!todo) {
+            this.loggingService.warn('Todo not found for update', { id });
+            return state;
+          }
+          if (typedTags.length > 0) {
+            changes.tags = tagList(normalizeTags([...('tags' in changes ? changes.tags ?? [] : todo.tags ?? []), ...typedTags]));
+          }
+
+          const changedKeys = (Object.keys(changes) as (keyof TodoPatch)[])
+            .filter(key => !sameValue(changes[key], todo[key]));
+          if (changedKeys.length === 0) {
+            return state;
+          }
+
+          const now = this.clock.now();
+          if (changes.completed !== undefined && changes.completed !== todo.completed && !('completedAt' in patch)) {
+            changes.completedAt = changes.completed ? now : undefined;
+          }
+          // An imported todo.txt letter only stands while the priority is the one it came with
+          if ('priority' in changes && changes.priority !== todo.priority && todo.priorityLetter) {
+            changes.priorityLetter = undefined;
+          }
+
+          this.loggingService.info('Todo updated', { id, ...changes });
+          return {
+            todos: state.todos.map(candidate => candidate.id === id ? reviseTodo(candidate, changes, now) : candidate)
+          };
+        });
+      },
+      
       removeTodo: (id: string) => {
         set(state => {
           const initialLength = state.todos.length;
@@ -73,16 +326,534 @@ export class TodoStoreFactory {
             this.loggingService.warn('Todo not found for removal', { id });
           }
           
-          return { todos: updatedTodos };
+          return {
+            todos: updatedTodos,
+            selectedIds: state.selectedIds.filter(selectedId => selectedId !== id)
+          };
+        });
+      },
+      
+      importTodos: (drafts: TodoDraft[]) => {
+        const importedAt = this.clock.now();
+        const imported = drafts
+          .filter(draft => draft.text.trim())
+          .map(({ text, createdAt, subtasks, ...details }): Todo => ({
+            id: this.idGenerator.generate(),
+            ...details,
+            // Formats without subtask ids leave them to the store
+            ...(subtasks ? { subtasks: subtasks.map(subtask => ({ ...subtask, id: subtask.id ?? this.idGenerator.generate() })) } : {}),
+            text: text.trim(),
+            createdAt: createdAt ?? importedAt,
+            updatedAt: importedAt,
+            version: 1,
+          }));
+
+        if (imported.length === 0) {
+          return;
+        }
+
+        this.loggingService.info('Todos imported', { count: imported.length });
+        set(state => {
+          const todos = withStampedOrderKeys(state.todos, importedAt);
+          const keys = orderKeysAfter(todos[todos.length - 1]?.order, imported.length);
+          return { todos: [...todos, ...imported.map((todo, index) => ({ ...todo, order: keys[index] }))] };
         });
       },
       
       loadTodos: () => {
-        // For now, this is a no-op since we start with empty todos
-        // In the future, this could load from localStorage, API, etc.
-        this.loggingService.info('Todos loaded', { count: 0 });
+        const before = get().todos;
+        let result: Todo[] | Promise<Todo[]>;
+        try {
+          result = this.todoRepository.load();
+        } catch (error) {
+          this.handleLoadError(error);
+          return;
+        }
+
+        if (isPromiseLike(result)) {
+          set({ isLoading: true, error: null });
+          result.then(
+            todos => this.hydrate(todos, before),
+            error => this.handleLoadError(error)
+          );
+        } else {
+          this.hydrate(result, before);
+        }
+      },
+
+      setFilter: (filter: TodoFilter) => {
+        set(state => {
+          if (state.filter === filter) {
+            return state;
+          }
+          this.loggingService.info('Todo filter changed', { filter });
+          return { filter };
+        });
+      },
+
+      toggleTagFilter: (input: string) => {
+        const tag = normalizeTags([input])[0];
+        if (!tag) {
+          return;
+        }
+        set(state => {
+          const { tags, match } = state.tagFilter;
+          const tagFilter = { match, tags: tags.includes(tag) ? tags.filter(chosen => chosen !== tag) : [...tags, tag] };
+          this.loggingService.info('Todo tag filter changed', { ...tagFilter });
+          return { tagFilter };
+        });
+      },
+
+      setTagMatch: (match: TodoTagMatch) => {
+        set(state => {
+          if (state.tagFilter.match === match) {
+            return state;
+          }
+          const tagFilter = { ...state.tagFilter, match };
+          this.loggingService.info('Todo tag filter changed', { ...tagFilter });
+          return { tagFilter };
+        });
+      },
+
+      clearTagFilter: () => {
+        set(state => {
+          if (state.tagFilter.tags.length === 0) {
+            return state;
+          }
+          const tagFilter = { ...state.tagFilter, tags: [] };
+          this.loggingService.info('Todo tag filter changed', { ...tagFilter });
+          return { tagFilter };
+        });
+      },
+
+      setSortOrder: (sortOrder: TodoSortOrder) => {
+        if (get().sortOrder === sortOrder) {
+          return;
+        }
+        set({ sortOrder });
+        this.loggingService.info('Todo sort order changed', { sortOrder });
+
+        try {
+          this.todoPreferences.set(SORT_ORDER_PREFERENCE, sortOrder);
+        } catch (error) {
+          this.loggingService.warn('Todo sort order not saved', { message: (error as Error).message });
+        }
+      },
+
+      // Bulk actions log one summary entry instead of one entry per todo
+      toggleAll: () => {
+        set(state => {
+          // Completes everything unless everything is already complete. Recurring todos
+          // are marked done rather than moved on, so a second toggle can undo the first.
+          const completed = state.todos.some(todo => !todo.completed);
+          const changed = state.todos.filter(todo => todo.completed !== completed).length;
+          if (changed === 0) {
+            return state;
+          }
+
+          const now = this.clock.now();
+          this.loggingService.info('All todos toggled', { completed, count: changed });
+          return {
+            todos: state.todos.map(todo => todo.completed === completed ? todo : setCompleted(todo, completed, now))
+          };
+        });
+      },
+
+      clearCompleted: () => {
+        set(state => {
+          const remaining = state.todos.filter(todo => !todo.completed);
+          const count = state.todos.length - remaining.length;
+          if (count === 0) {
+            return state;
+          }
+
+          this.loggingService.info('Completed todos cleared', { count });
+          const remainingIds = new Set(remaining.map(todo => todo.id));
+          return {
+            todos: remaining,
+            selectedIds: state.selectedIds.filter(id => remainingIds.has(id))
+          };
+        });
+      },
+
+      selectTodo: (id: string, mode: TodoSelectionMode = 'toggle') => {
+        set(state => {
+          if (mode === 'range' && state.selectionAnchorId) {
+            const visibleIds = selectVisibleTodos(state).map(todo => todo.id);
+            const from = visibleIds.indexOf(state.selectionAnchorId);
+            const to = visibleIds.indexOf(id);
+            if (from !== -1 && to !== -1) {
+              return { selectedIds: visibleIds.slice(Math.min(from, to), Math.max(from, to) + 1) };
+            }
+          }
+
+          const selectedIds = state.selectedIds.includes(id)
+            ? state.selectedIds.filter(selectedId => selectedId !== id)
+            : [...state.selectedIds, id];
+          return { selectedIds, selectionAnchorId: id };
+        });
+      },
+
+      clearSelection: () => {
+        set({ selectedIds: [], selectionAnchorId: null });
+      },
+
+      completeSelected: (completed = true) => {
+        set(state => {
+          const selected = new Set(state.selectedIds);
+          const changed = state.todos.filter(todo => selected.has(todo.id) && todo.completed !== completed).length;
+          if (changed === 0) {
+            return state;
+          }
+
+          const now = this.clock.now();
+          this.loggingService.info(completed ? 'Selected todos completed' : 'Selected todos reopened', { count: changed });
+          return {
+            todos: state.todos.map(todo => {
+              if (!selected.has(todo.id) || todo.completed === completed) {
+                return todo;
+              }
+              return completed ? completeTodo(todo, now) : setCompleted(todo, false, now);
+            })
+          };
+        });
+      },
+
+      removeSelected: () => {
+        set(state => {
+          const selected = new Set(state.selectedIds);
+          const remaining = state.todos.filter(todo => !selected.has(todo.id));
+          const count = state.todos.length - remaining.length;
+          if (count === 0) {
+            return state;
+          }
+
+          this.loggingService.info('Selected todos removed', { count });
+          return { todos: remaining, selectedIds: [], selectionAnchorId: null };
+        });
+      },
+
+      retagSelected: ({ add = [], remove = [] }: TodoTagChange) => {
+        const added = normalizeTags(add);
+        const removed = new Set(normalizeTags(remove));
+
+        set(state => {
+          const selected = new Set(state.selectedIds);
+          const now = this.clock.now();
+          let count = 0;
+          const todos = state.todos.map(todo => {
+            if (!selected.has(todo.id)) {
+              return todo;
+            }
+            const current = todo.tags ?? [];
+            const tags = Array.from(new Set([...current, ...added])).filter(tag => !removed.has(tag));
+            if (tags.length === current.length && tags.every((tag, index) => tag === current[index])) {
+              return todo;
+            }
+            count++;
+            return reviseTodo(todo, { tags: tagList(tags) }, now);
+          });
+          if (count === 0) {
+            return state;
+          }
+
+          this.loggingService.info('Selected todos retagged', { count, added, removed: Array.from(removed) });
+          return { todos };
+        });
+      },
+
+      addSubtask: (parentId: string, input: string) => {
+        const text = input.trim();
+        if (!text) {
+          this.loggingService.warn('Subtask not added: text is empty', { parentId });
+          return;
+        }
+
+        set(state => {
+          if (!state.todos.some(todo => todo.id === parentId)) {
+            this.loggingService.warn('Todo not found for subtask', { parentId });
+            return state;
+          }
+
+          const subtask: TodoSubtask = { id: this.idGenerator.generate(), text, completed: false };
+          const now = this.clock.now();
+          this.loggingService.info('Subtask added', { parentId, id: subtask.id, text });
+          return {
+            todos: state.todos.map(todo =>
+              todo.id === parentId ? reviseTodo(todo, { subtasks: [...(todo.subtasks ?? []), subtask] }, now) : todo
+            )
+          };
+        });
+      },
+
+      toggleSubtask: (parentId: string, id: string) => {
+        set(state => {
+          const parent = state.todos.find(todo => todo.id === parentId);
+          const subtask = parent?.subtasks?.find(item => item.id === id);
+          if (!parent || !subtask) {
+            this.loggingService.warn('Subtask not found for toggle', { parentId, id });
+            return state;
+          }
+
+          const subtasks = parent.subtasks!.map(item => item.id === id ? { ...item, completed: !item.completed } : item);
+          // Finishing the last open item finishes the todo, and reopening an item reopens it
+          const completed = subtask.completed ? false : parent.completed || subtasks.every(item => item.completed);
+          const now = this.clock.now();
+          let revised: Todo;
+          if (completed === parent.completed) {
+            revised = reviseTodo(parent, { subtasks }, now);
+          } else {
+            // A recurring todo moves on to its next occurrence, with a fresh checklist
+            revised = completed ? completeTodo({ ...parent, subtasks }, now) : setCompleted({ ...parent, subtasks }, false, now);
+          }
+
+          this.loggingService.info('Subtask toggled', {
+            parentId,
+            id,
+            completed: !subtask.completed,
+            ...(completed !== parent.completed ? { parentCompleted: completed } : {})
+          });
+          return { todos: state.todos.map(todo => todo.id === parentId ? revised : todo) };
+        });
+      },
+
+      removeSubtask: (parentId: string, id: string) => {
+        set(state => {
+          const parent = state.todos.find(todo => todo.id === parentId);
+          if (!parent?.subtasks?.some(item => item.id === id)) {
+            this.loggingService.warn('Subtask not found for removal', { parentId, id });
+            return state;
+          }
+
+          const subtasks = parent.subtasks.filter(item => item.id !== id);
+          const now = this.clock.now();
+          this.loggingService.info('Subtask removed', { parentId, id });
+          return {
+            todos: state.todos.map(todo =>
+              todo.id === parentId ? reviseTodo(todo, { subtasks: subtasks.length > 0 ? subtasks : undefined }, now) : todo
+            )
+          };
+        });
+      },
+
+      moveTodo: (id: string, beforeId: string | null) => {
+        const { sortOrder } = get();
+        if (sortOrder !== 'manual') {
+          this.loggingService.warn('Todo not moved: the list is sorted', { id, sortOrder });
+          return;
+        }
+
+        const now = this.clock.now();
+        let todos = sortByOrder(withStampedOrderKeys(get().todos, now));
+        const from = todos.findIndex(todo => todo.id === id);
+        const to = beforeId === null ? todos.length : todos.findIndex(todo => todo.id === beforeId);
+        if (from === -1 || to === -1) {
+          this.loggingService.warn('Todo not found for move', { id, beforeId });
+          return;
+        }
+
+        // Only the moved todo gets a new key, between its new neighbours in the manual order
+        if (to !== from && to !== from + 1) {
+          const rest = todos.filter(todo => todo.id !== id);
+          const index = to > from ? to - 1 : to;
+          const order = orderKeyBetween(rest[index - 1]?.order, rest[index]?.order);
+          this.loggingService.info('Todo moved', { id, beforeId, order });
+          todos = [...rest.slice(0, index), reviseTodo(todos[from], { order }, now), ...rest.slice(index)];
+        }
+        if (todos.some((todo, index) => todo !== get().todos[index])) {
+          set({ todos });
+        }
+      },
+
+      moveTodos: (ids: string[], target: TodoStore) => {
+        const moving = new Set(ids);
+        const moved = get().todos.filter(todo => moving.has(todo.id));
+        if (moved.length === 0 || target === this.store) {
+          return;
+        }
+
+        target.getState().receiveTodos(moved);
+        this.loggingService.info('Todos moved', { count: moved.length });
+        moved.forEach(todo => {
+          this.movedAway.add(todo.id);
+          this.movedIn.delete(todo.id);
+        });
+        // Not an undo step: undoing it here would leave the todo in both lists
+        this.store.setState(state => ({
+          todos: state.todos.filter(todo => !moving.has(todo.id)),
+          selectedIds: state.selectedIds.filter(id => !moving.has(id)),
+          selectionAnchorId: null
+        }));
+      },
+
+      receiveTodos: (todos: Todo[]) => {
+        todos.forEach(todo => {
+          this.movedIn.add(todo.id);
+          this.movedAway.delete(todo.id);
+        });
+        // Keys are only known to follow the saved todos once those are loaded
+        if (!this.loaded) {
+          this.waitingForLoad.push(...todos);
+          if (!get().isLoading) {
+            get().loadTodos();
+          }
+          return;
+        }
+
+        this.appendReceivedTodos(todos);
       }
+    }), {
+      limit: historyLimit,
+      onUndo: steps => this.loggingService.info('Todo change undone', { ...steps }),
+      onRedo: steps => this.loggingService.info('Todo change redone', { ...steps }),
+      restore: (snapshot, current) => restoreTodos(this.keepMovedTodos(snapshot, current), current, this.clock.now()),
     }));
+
+    // Mutations are applied optimistically and then written through to the repository
+    this.store.subscribe((state, previousState) => {
+      if (this.writeThroughPaused || state.todos === previousState.todos) {
+        return;
+      }
+
+      const changes = diffTodos(previousState.todos, state.todos);
+      if (changes.length > 0) {
+        this.persist(changes, previousState.todos);
+      }
+    });
+
+    // Conflicts settled in the server's favour replace the local copies
+    this.todoOutbox?.subscribe(changes => {
+      const todos = applyTodoChanges(this.store.getState().todos, changes);
+      this.setStateWithoutWriteThrough({ todos });
+    });
+  }
+
+  // Replaces state without echoing it back to the repository
+  private setStateWithoutWriteThrough(partial: Partial<TodoState>) {
+    this.writeThroughPaused = true;
+    try {
+      this.store.setState(partial);
+    } finally {
+      this.writeThroughPaused = false;
+    }
+  }
+
+  // A blank rule clears the recurrence; one that cannot be read is reported and
+  // ignored, which is what null stands for
+  private readRecurrence(recurrence: string, id?: string): string | undefined | null {
+    if (!recurrence.trim()) {
+      return undefined;
+    }
+    try {
+      parseRecurrenceRule(recurrence);
+      return recurrence.trim();
+    } catch (error) {
+      this.loggingService.warn('Todo recurrence ignored', {
+        ...(id ? { id } : {}),
+        recurrence,
+        message: (error as Error).message
+      });
+      return null;
+    }
+  }
+
+  // An earlier copy of the list, without the todos since moved to another list and with
+  // the ones moved here
+  private keepMovedTodos(snapshot: Todo[], current: Todo[]): Todo[] {
+    const kept = snapshot.filter(todo => !this.movedAway.has(todo.id));
+    const keptIds = new Set(kept.map(todo => todo.id));
+    const arrived = current.filter(todo => this.movedIn.has(todo.id) && !keptIds.has(todo.id));
+    return arrived.length > 0 ? sortByOrder([...kept, ...arrived]) : kept;
+  }
+
+  // Not an undo step: undoing it here would leave the todo in neither list
+  private appendReceivedTodos(todos: Todo[]) {
+    this.store.setState(state => {
+      const known = new Set(state.todos.map(todo => todo.id));
+      const received = todos.filter(todo => !known.has(todo.id));
+      if (received.length === 0) {
+        return state;
+      }
+
+      this.loggingService.info('Todos received', { count: received.length });
+      const kept = withStampedOrderKeys(state.todos, this.clock.now());
+      const keys = orderKeysAfter(kept[kept.length - 1]?.order, received.length);
+      return { todos: [...kept, ...received.map((todo, index) => ({ ...todo, order: keys[index] }))] };
+    });
+  }
+
+  // Takes in the todos moved here while the list was loading. A list that could not be
+  // loaded takes them all the same, rather than lose them.
+  private appendWaitingTodos() {
+    const waiting = this.waitingForLoad.splice(0);
+    if (waiting.length > 0) {
+      this.appendReceivedTodos(waiting);
+    }
+  }
+
+  // `before` is what the store held when the load started. Whatever changed since then
+  // (todos added while the load was under way, say) is not in what was read, so it is
+  // put on top of it.
+  private hydrate(loaded: Todo[], before: Todo[]) {
+    const changedMeanwhile = diffTodos(before, this.store.getState().todos);
+    const todos = applyTodoChanges(sortByOrder(loaded), changedMeanwhile);
+    this.setStateWithoutWriteThrough({ todos, isLoading: false, error: null });
+    this.loggingService.info('Todos loaded', { count: loaded.length });
+
+    // Todos added meanwhile were keyed after what the store held then, so they go
+    // after the loaded ones, and that is saved like any other edit
+    const addedIds = new Set(changedMeanwhile.flatMap(change => (change.type === 'create' ? [change.todo.id] : [])));
+    const kept = todos.filter(todo => !addedIds.has(todo.id));
+    const added = todos.filter(todo => addedIds.has(todo.id));
+    const lastKey = kept[kept.length - 1]?.order;
+    if (lastKey !== undefined && isOrderKey(lastKey) && added.some(todo => !todo.order || todo.order <= lastKey)) {
+      const keys = orderKeysAfter(lastKey, added.length);
+      const now = this.clock.now();
+      this.store.setState({ todos: [...kept, ...added.map((todo, index) => reviseTodo(todo, { order: keys[index] }, now))] });
+    }
+    this.loaded = true;
+    this.appendWaitingTodos();
+  }
+
+  private handleLoadError(error: unknown) {
+    this.store.setState({
+      isLoading: false,
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    if (error instanceof TodoMigrationError) {
+      this.loggingService.error('Todo data migration failed', {
+        message: error.message,
+        fromVersion: error.fromVersion,
+        failedVersion: error.failedVersion,
+        backupLocation: error.backupLocation,
+      });
+    } else {
+      this.loggingService.error('Failed to load todos', error as Error);
+    }
+    this.appendWaitingTodos();
+  }
+
+  private persist(changes: TodoChange[], previousTodos: Todo[]) {
+    try {
+      // With an outbox the repository is remote, and the outbox decides when to send
+      const result = this.todoOutbox
+        ? this.todoOutbox.submit(changes)
+        : this.todoRepository.apply(changes);
+      if (isPromiseLike(result)) {
+        result.catch(error => this.rollback(changes, previousTodos, error));
+      }
+    } catch (error) {
+      this.rollback(changes, previousTodos, error);
+    }
+  }
+
+  private rollback(changes: TodoChange[], previousTodos: Todo[], error: unknown) {
+    this.loggingService.error('Failed to save todos', error as Error);
+
+    const todos = revertTodoChanges(this.store.getState().todos, previousTodos, changes);
+    this.setStateWithoutWriteThrough({ todos });
+    this.loggingService.warn('Todo changes rolled back', { count: changes.length });
   }
 
   getStore(): TodoStore {
@@ -91,8 +862,18 @@ export class TodoStoreFactory {
 }
 
 // Legacy export for backward compatibility
-export const createTodoStore = (loggingService: ILoggingService) => {
+export const createTodoStore = (
+  loggingService: ILoggingService,
+  todoRepository?: ITodoRepository,
+  todoOutbox?: ITodoOutbox,
+  historyLimit?: number,
+  clock?: IClock,
+  idGenerator?: IIdGenerator,
+  todoPreferences?: ITodoPreferences
+) => {
   // Create a manual instance for backward compatibility
-  const factory = new TodoStoreFactory(loggingService);
+  const factory = new TodoStoreFactory(
+    loggingService, todoRepository, todoOutbox, historyLimit, clock, idGenerator, todoPreferences
+  );
   return factory.getStore();
 };
\ No newline at end of file
@@ -0,0 +1,29 @@
+import { extractTags, normalizeTag, normalizeTags } from './todoTags';
+
+describe('todoTags', () => {
+  describe('normalizeTag', () => {
+    it('drops the "#", surrounding space and case', () => {
+      expect(normalizeTag('  #Work ')).toBe('work');
+    });
+  });
+
+  describe('normalizeTags', () => {
+    it('removes blanks and duplicates, keeping first-seen order', () => {
+      expect(normalizeTags(['home', '#Work', '', 'HOME', '#'])).toEqual(['home', 'work']);
+    });
+  });
+
+  describe('extractTags', () => {
+    it('moves #tags out of the text', () => {
+      expect(extractTags('Plan #trip to #Lisbon soon')).toEqual({ text: 'Plan to soon', tags: ['trip', 'lisbon'] });
+    });
+
+    it('accepts letters in any script, digits, "_", "-" and "/"', () => {
+      expect(extractTags('#café #q4_2024 #follow-up #home/garden').tags).toEqual(['café', 'q4_2024', 'follow-up', 'home/garden']);
+    });
+
+    it('leaves text without tags as it was, apart from trimming', () => {
+      expect(extractTags('  Fix issue#12 and C#  ')).toEqual({ text: 'Fix issue#12 and C#', tags: [] });
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,17 @@
+// "#tag" typed into a todo: a "#" at the start of a word, then letters, digits, "_", "-" or "/"
+const TAG_SYNTAX = /(^|\s)#([\p{L}\p{N}_/-]+)/gu;
+
+// Tags match case-insensitively, so they are kept lower-case and without the "#"
+export const normalizeTag = (tag: string): string => tag.trim().replace(/^#+/, '').toLowerCase();
+
+export const normalizeTags = (tags: string[]): string[] =>
+  Array.from(new Set(tags.map(normalizeTag).filter(Boolean)));
+
+// Moves "#tag" words out of the text and into the tag list
+export const extractTags = (input: string): { text: string; tags: string[] } => {
+  const tags = normalizeTags(Array.from(input.matchAll(TAG_SYNTAX), match => match[2]));
+  if (tags.length === 0) {
+    return { text: input.trim(), tags };
+  }
+  return { text: input.replace(TAG_SYNTAX, '$1').replace(/\s{2,}/g, ' ').trim(), tags };
+};
\ No newline at end of file
@@ -1,2 +1,9 @@
+/// <reference types="node" />
 import '@testing-library/jest-dom';
-import 'reflect-metadata';
\ No newline at end of file
+import 'reflect-metadata';
+import { deserialize, serialize } from 'v8';
+
+// jsdom does not expose structuredClone, which fake-indexeddb relies on
+if (typeof globalThis.structuredClone === 'undefined') {
+  globalThis.structuredClone = <T,>(value: T): T => deserialize(serialize(value));
+}
\ No newline at end of file
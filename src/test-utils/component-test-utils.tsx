@@ -1,43 +1,10 @@
-import React, { createContext, useContext } from 'react';
+import React from 'react';
 import { render, RenderOptions, RenderResult } from '@testing-library/react';
-import { Container } from 'inversify';
 import { createTestContainer, TestContainerSetup } from './test-container';
-import { TYPES } from '../container/types';
-import { TodoStore } from '../stores/todoStore';
+import { ContainerProvider } from '../container/ContainerProvider';
 
-// Create a context for the test container
-const TestContainerContext = createContext<Container | null>(null);
-
-// Provider component that provides the test container
-interface TestContainerProviderProps {
-  container: Container;
-  children: React.ReactNode;
-}
-
-const TestContainerProvider: React.FC<TestContainerProviderProps> = ({ container, children }) => {
-  return (
-    <TestContainerContext.Provider value={container}>
-      {children}
-    </TestContainerContext.Provider>
-  );
-};
-
-// Hook to access the test container in components
-export const useTestContainer = () => {
-  const container = useContext(TestContainerContext);
-  if (!container) {
-    throw new Error('useTestContainer must be used within a TestContainerProvider');
-  }
-  return container;
-};
-
-// Mock version of the container hook that components can use
-export const useMockContainer = () => {
-  const container = useTestContainer();
-  return {
-    get: <T,>(token: symbol) => container.get<T>(token),
-  };
-};
+// Components resolve their dependencies with useInjection, as in the app, from the
+// test container provided around them
 
 // Enhanced render function for component testing
 interface ComponentTestRenderOptions extends Omit<RenderOptions, 'wrapper'> {
@@ -57,9 +24,9 @@ export function renderWithContainer(
   const containerSetup = testContainer || createTestContainer();
 
   const Wrapper: React.FC<{ children: React.ReactNode }> = ({ children }) => (
-    <TestContainerProvider container={containerSetup.container}>
+    <ContainerProvider container={containerSetup.container}>
       {children}
-    </TestContainerProvider>
+    </ContainerProvider>
   );
 
   const renderResult = render(ui, {
@@ -72,9 +39,9 @@ export function renderWithContainer(
     testContainer: containerSetup,
     rerender: (ui: React.ReactElement) => {
       renderResult.rerender(
-        <TestContainerProvider container={containerSetup.container}>
+        <ContainerProvider container={containerSetup.container}>
           {ui}
-        </TestContainerProvider>
+        </ContainerProvider>
       );
     },
   };
@@ -89,9 +56,9 @@ export function withTestContainer<P extends object,>(
   
   const TestableComponent: React.FC<P> = (props) => {
     return (
-      <TestContainerProvider container={setup.container}>
+      <ContainerProvider container={setup.container}>
         <Component {...props} />
-      </TestContainerProvider>
+      </ContainerProvider>
     );
   };
 
@@ -101,12 +68,6 @@ export function withTestContainer<P extends object,>(
   };
 }
 
-// Hook to get the TodoStore from the test container (for components that need it)
-export const useTodoStore = (): TodoStore => {
-  const container = useTestContainer();
-  return container.get<TodoStore>(TYPES.TodoStore);
-};
-
 // Re-export everything from the main test utils
 export * from '@testing-library/react';
 export * from '@testing-library/user-event';
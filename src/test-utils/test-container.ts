@@ -1,48 +1,89 @@
 import 'reflect-metadata';
 import { Container } from 'inversify';
 import { TYPES } from '../container/types';
+import { createAppContainer } from '../container/appContainer';
 import { ILoggingService } from '../services/LoggingService';
 import { MockLoggingService } from './MockLoggingService';
-import { createTodoStore, TodoStore } from '../stores/todoStore';
+import { ITodoRepository } from '../repositories/TodoRepository';
+import { InMemoryTodoRepository } from '../repositories/InMemoryTodoRepository';
+import { FixedClock } from '../services/Clock';
+import { SequentialIdGenerator } from '../services/IdGenerator';
+import { TodoStore } from '../stores/todoStore';
+import { TodoListsStore, TodoListsStoreFactory } from '../stores/todoListsStore';
+import { ITodoListScopes, TodoListScopes } from '../container/todoListScopes';
+import { DEFAULT_TODO_LIST_ID } from '../types';
 
 export interface TestContainerSetup {
   container: Container;
   mockLoggingService: MockLoggingService;
+  todoRepository: ITodoRepository;
   todoStore: TodoStore;
+  clock: FixedClock;
+  idGenerator: SequentialIdGenerator;
 }
 
+// Tests see the same "now" and the same ids ("todo-1", "todo-2", ...) on every run
+export const TEST_NOW = new Date('2024-01-15T09:00:00.000Z');
+
+// Wired by the same modules as the app, in memory, with a mock logger and a clock that stands still
 export function createTestContainer(): TestContainerSetup {
-  const container = new Container();
-  const mockLoggingService = new MockLoggingService();
+  return createTestContainerWithCustomMocks();
+}
 
-  // Bind the mock logging service
-  container.bind<ILoggingService>(TYPES.LoggingService).toConstantValue(mockLoggingService);
+export function createTestContainerWithCustomMocks(
+  customLoggingService?: ILoggingService,
+  customTodoRepository?: ITodoRepository
+): TestContainerSetup {
+  const mockLoggingService = (customLoggingService as MockLoggingService) || new MockLoggingService();
+  const todoRepository = customTodoRepository || new InMemoryTodoRepository();
+  const clock = new FixedClock(TEST_NOW);
+  const idGenerator = new SequentialIdGenerator();
 
-  // Create and bind the todo store with the mock logging service
-  const todoStore = createTodoStore(mockLoggingService);
-  container.bind<TodoStore>(TYPES.TodoStore).toConstantValue(todoStore);
+  const container = createAppContainer({
+    environment: 'test',
+    overrides: {
+      LoggingService: mockLoggingService,
+      Clock: clock,
+      IdGenerator: idGenerator,
+      TodoRepository: todoRepository,
+    },
+  });
 
   return {
     container,
     mockLoggingService,
-    todoStore,
+    todoRepository,
+    todoStore: container.get<TodoStore>(TYPES.TodoStore),
+    clock,
+    idGenerator,
   };
 }
 
-export function createTestContainerWithCustomMocks(
-  customLoggingService?: ILoggingService
-): TestContainerSetup {
-  const container = new Container();
-  const mockLoggingService = (customLoggingService as MockLoggingService) || new MockLoggingService();
+// Adds named lists to a container put together by hand; those from createTestContainer
+// have them already. Each list keeps its todos in its own in-memory repository, found
+// in `repositories` once the list's store is created.
+export function bindTestTodoLists(container: Container) {
+  const repositories = new Map<string, InMemoryTodoRepository>();
+  const repositoryFactory = (listId: string) => {
+    const repository = new InMemoryTodoRepository();
+    repositories.set(listId, repository);
+    return repository;
+  };
 
-  container.bind<ILoggingService>(TYPES.LoggingService).toConstantValue(mockLoggingService);
-  
-  const todoStore = createTodoStore(mockLoggingService);
-  container.bind<TodoStore>(TYPES.TodoStore).toConstantValue(todoStore);
+  if (container.isBound(TYPES.TodoLists)) {
+    container.rebind(TYPES.TodoRepositoryFactory).toConstantValue(repositoryFactory);
+  } else {
+    container.bind<string>(TYPES.TodoListId).toConstantValue(DEFAULT_TODO_LIST_ID);
+    container.bind(TYPES.TodoRepositoryFactory).toConstantValue(repositoryFactory);
+    container.bind<ITodoListScopes>(TYPES.TodoListScopes).toConstantValue(new TodoListScopes(container));
+    container.bind(TodoListsStoreFactory).toSelf().inSingletonScope();
+    container.bind<TodoListsStore>(TYPES.TodoLists).toDynamicValue((context) =>
+      context.container.get(TodoListsStoreFactory).getStore()
+    ).inSingletonScope();
+  }
 
   return {
-    container,
-    mockLoggingService,
-    todoStore,
+    repositories,
+    todoLists: container.get<TodoListsStore>(TYPES.TodoLists),
   };
 }
\ No newline at end of file
@@ -1,7 +1,7 @@
 import React from 'react';
 import { render, RenderOptions, RenderResult } from '@testing-library/react';
-import { Container } from 'inversify';
 import { createTestContainer, TestContainerSetup } from './test-container';
+import { ContainerProvider } from '../container/ContainerProvider';
 
 // Create a custom render function that provides the test container context
 interface CustomRenderOptions extends Omit<RenderOptions, 'wrapper'> {
@@ -19,9 +19,11 @@ export function renderWithTestContainer(
   const { testContainer, ...renderOptions } = options;
   const containerSetup = testContainer || createTestContainer();
 
-  // For this example, we'll modify the component to use the test container
-  // In a real app, you might use a React Context Provider
-  const result = render(ui, renderOptions);
+  // Components resolve their dependencies from the test container, as from the app's
+  const result = render(ui, {
+    wrapper: ({ children }) => <ContainerProvider container={containerSetup.container}>{children}</ContainerProvider>,
+    ...renderOptions,
+  });
 
   return {
     ...result,
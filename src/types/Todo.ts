@@ -1,6 +1,47 @@
+// A todo without a priority has none; 'urgent' is the highest
+export type TodoPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+export const TODO_PRIORITIES: TodoPriority[] = ['low', 'medium', 'high', 'urgent'];
+
+// A checklist item inside a todo
+export interface TodoSubtask {
+  id: string;
+  text: string;
+  completed: boolean;
+}
+
+// One finished occurrence of a recurring todo
+export interface TodoCompletion {
+  completedAt: Date;
+  // When that occurrence was due, if it had a due date
+  dueDate?: Date;
+}
+
 export interface Todo {
   id: string;
   text: string;
   completed: boolean;
   createdAt: Date;
+  completedAt?: Date;
+  dueDate?: Date;
+  priority?: TodoPriority;
+  // A todo.txt priority letter from E to Z, which 'low' stands for here; kept so the
+  // todo is written back with the letter it was imported with
+  priorityLetter?: string;
+  // +project and @context tags mentioned in the text, without their prefix
+  projects?: string[];
+  contexts?: string[];
+  tags?: string[];
+  // Checklist breaking the todo down; finishing every item finishes the todo
+  subtasks?: TodoSubtask[];
+  // An RFC 5545 recurrence rule (see src/recurrence). Completing a recurring todo
+  // moves it on to its next occurrence and adds to its completions.
+  recurrence?: string;
+  completions?: TodoCompletion[];
+  // Fractional index key giving the todo's place in the manual order (see stores/todoOrder)
+  order?: string;
+  // Bumped on every change so sync can detect conflicting edits; absent on
+  // todos saved before versioning existed
+  updatedAt?: Date;
+  version?: number;
 }
\ No newline at end of file
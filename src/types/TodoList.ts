@@ -0,0 +1,10 @@
+// A named list of todos (Work, Home, ...). Each list's todos live in their own store.
+export interface TodoListInfo {
+  id: string;
+  name: string;
+  // Archived lists keep their todos but leave the list switcher
+  archived?: boolean;
+}
+
+// Todos from before named lists existed belong to this list, which cannot be deleted
+export const DEFAULT_TODO_LIST_ID = 'default';
\ No newline at end of file
@@ -1 +1,2 @@
-export * from './Todo';
\ No newline at end of file
+export * from './Todo';
+export * from './TodoList';
\ No newline at end of file
@@ -1,4 +1,5 @@
 const path = require('path');
+const webpack = require('webpack');
 const HtmlWebpackPlugin = require('html-webpack-plugin');
 
 module.exports = {
@@ -21,6 +22,14 @@ module.exports = {
     ],
   },
   plugins: [
+    new webpack.DefinePlugin({
+      // Set TODO_API_URL (e.g. http://localhost:3001) to sync todos with a REST backend
+      'process.env.TODO_API_URL': JSON.stringify(process.env.TODO_API_URL || ''),
+      // 'last-write-wins' (default) or 'server-wins', which asks before overwriting server edits
+      'process.env.TODO_CONFLICT_POLICY': JSON.stringify(process.env.TODO_CONFLICT_POLICY || 'last-write-wins'),
+      // 'uuid' (default) or 'ulid', whose ids sort by creation time
+      'process.env.TODO_ID_FORMAT': JSON.stringify(process.env.TODO_ID_FORMAT || 'uuid'),
+    }),
     new HtmlWebpackPlugin({
       template: './public/index.html',
     }),